@@ -1,7 +1,10 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, Alert, Dimensions, Image } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, Dimensions, Image, Modal } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { ChessGame as ChessGameType } from '../services/database/gameService';
+import { getChessPosition, getRemainingSeconds } from '../games/chess';
+import { getServerNow, isServerTimeSynced, waitForServerTime } from '../services/database/serverTimeService';
+import { PromotionPiece, Square, getLegalMoves, isInCheck } from '../utils/chessRules';
 import { auth } from '../firebase/config';
 
 // Chess pieces images (replace these URLs with your actual assets)
@@ -27,18 +30,34 @@ interface ChessGameProps {
   game: ChessGameType;
   onMove: (move: any) => void;
   disabled: boolean;
+  onOfferDraw?: () => void;
+  onRespondToDraw?: (accept: boolean) => void;
+  onClaimTimeout?: () => void;
+  reviewing?: boolean;       // Showing a replay frame: no clocks ticking, no game actions
 }
 
+const PROMOTION_CHOICES: PromotionPiece[] = ['q', 'r', 'b', 'n'];
+
 const BOARD_SIZE = Dimensions.get('window').width - 32;
 const SQUARE_SIZE = BOARD_SIZE / 8;
 const PIECE_SIZE = SQUARE_SIZE * 0.85;
 
-const ChessGame: React.FC<ChessGameProps> = ({ game, onMove, disabled }) => {
+const ChessGame: React.FC<ChessGameProps> = ({ 
+  game, 
+  onMove, 
+  disabled, 
+  onOfferDraw, 
+  onRespondToDraw, 
+  onClaimTimeout,
+  reviewing = false
+}) => {
   const [selectedPiece, setSelectedPiece] = useState<[number, number] | null>(null);
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: Square; to: Square } | null>(null);
   const [possibleMoves, setPossibleMoves] = useState<[number, number][]>([]);
   const [playerColor, setPlayerColor] = useState<'white' | 'black'>('white');
-  const [timeLeft, setTimeLeft] = useState<{[playerId: string]: number}>({});
-  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [serverNow, setServerNow] = useState<number>(getServerNow());
+  const [timeSynced, setTimeSynced] = useState(isServerTimeSynced());
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
   
   // Initialize player color only once when component mounts
   useEffect(() => {
@@ -50,23 +69,31 @@ const ChessGame: React.FC<ChessGameProps> = ({ game, onMove, disabled }) => {
       const isWhitePlayer = game.players[0] === currentUserId;
       setPlayerColor(isWhitePlayer ? 'white' : 'black');
     }
-    
-    // Set initial time
-    setTimeLeft(game.timeRemaining);
   }, []); // Empty dependency array means this only runs once
   
-  // Handle timer
+  // Until server time is known the clocks show what was stored
   useEffect(() => {
-    if (game.status === 'active') {
+    if (timeSynced) return;
+    
+    let mounted = true;
+    waitForServerTime().then(() => {
+      if (mounted) {
+        setServerNow(getServerNow());
+        setTimeSynced(true);
+      }
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [timeSynced]);
+  
+  // Tick the clocks against server time; the stored clock plus the last move
+  // time is the source of truth, so this only drives re-rendering
+  useEffect(() => {
+    if (game.status === 'active' && !reviewing) {
       timerRef.current = setInterval(() => {
-        setTimeLeft(prevTime => {
-          const newTime = { ...prevTime };
-          if (newTime[game.currentTurn] > 0) {
-            newTime[game.currentTurn] -= 1;
-          }
-          return newTime;
-        });
-      }, 1000);
+        setServerNow(getServerNow());
+      }, 250);
     }
     
     return () => {
@@ -75,24 +102,25 @@ const ChessGame: React.FC<ChessGameProps> = ({ game, onMove, disabled }) => {
         timerRef.current = null;
       }
     };
-  }, [game.status, game.currentTurn]);
+  }, [game.status, game.currentTurn, reviewing]);
   
-  // Check if time runs out
-  useEffect(() => {
-    if (timeLeft[game.currentTurn] !== undefined && 
-        timeLeft[game.currentTurn] <= 0 && 
-        game.status === 'active') {
-      Alert.alert('Time\'s up!', `${getPlayerName(game.currentTurn)} ran out of time!`);
-    }
-  }, [timeLeft, game.currentTurn, game.status]);
+  const getClock = (playerId: string) => reviewing || !timeSynced
+    ? game.timeRemaining[playerId]
+    : getRemainingSeconds(game, playerId, serverNow);
   
-  const getPlayerName = (playerId: string) => {
-    return playerId === game.players[0] ? 'White' : 'Black';
-  };
+  // The opponent's flag has fallen while it is their move
+  const canClaimTimeout = !reviewing &&
+    timeSynced &&
+    game.status === 'active' &&
+    !!auth.currentUser?.uid &&
+    game.players.includes(auth.currentUser.uid) &&
+    game.currentTurn !== auth.currentUser.uid &&
+    getClock(game.currentTurn) <= 0;
   
   const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
+    const wholeSeconds = Math.ceil(seconds);
+    const mins = Math.floor(wholeSeconds / 60);
+    const secs = wholeSeconds % 60;
     return `${mins}:${secs < 10 ? '0' : ''}${secs}`;
   };
   
@@ -112,337 +140,15 @@ const ChessGame: React.FC<ChessGameProps> = ({ game, onMove, disabled }) => {
     }
   };
   
-  // Get basic moves for a piece without considering check
-  const getBasicMoves = (row: number, col: number, piece: string): [number, number][] => {
-    if (!piece) return [];
-    
-    const moves: [number, number][] = [];
-    const pieceType = piece.toLowerCase();
-    const isWhite = piece === piece.toUpperCase();
-    
-    // Check if a position is valid (on board and not occupied by own piece)
-    const isValidPosition = (r: number, c: number) => {
-      if (r < 0 || r >= 8 || c < 0 || c >= 8) return false;
-      const targetPiece = getPiece(r, c);
-      // Empty square or opponent's piece
-      return !targetPiece || (piece === piece.toUpperCase()) !== (targetPiece === targetPiece.toUpperCase());
-    };
-    
-    // Check if path is clear (for pieces that can't jump)
-    const isPathClear = (startRow: number, startCol: number, endRow: number, endCol: number) => {
-      const rowStep = endRow > startRow ? 1 : (endRow < startRow ? -1 : 0);
-      const colStep = endCol > startCol ? 1 : (endCol < startCol ? -1 : 0);
-      
-      let r = startRow + rowStep;
-      let c = startCol + colStep;
-      
-      while (r !== endRow || c !== endCol) {
-        if (getPiece(r, c)) return false;
-        r += rowStep;
-        c += colStep;
-      }
-      
-      return true;
-    };
-    
-    switch (pieceType) {
-      case 'p': { // Pawn
-        const direction = isWhite ? -1 : 1; // white pawns move up, black move down
-        const startRow = isWhite ? 6 : 1;   // starting rows for pawns
-        
-        // Forward move (1 square)
-        if (!getPiece(row + direction, col) && isValidPosition(row + direction, col)) {
-          moves.push([row + direction, col]);
-          
-          // First move can be 2 squares if path is clear
-          if (row === startRow && !getPiece(row + direction * 2, col) && isValidPosition(row + direction * 2, col)) {
-            moves.push([row + direction * 2, col]);
-          }
-        }
-        
-        // Diagonal captures
-        const captureOffsets = [[direction, -1], [direction, 1]];
-        captureOffsets.forEach(([rOffset, cOffset]) => {
-          const newRow = row + rOffset;
-          const newCol = col + cOffset;
-          const targetPiece = getPiece(newRow, newCol);
-          
-          if (targetPiece && isValidPosition(newRow, newCol) && 
-              (isWhite ? targetPiece === targetPiece.toLowerCase() : targetPiece === targetPiece.toUpperCase())) {
-            moves.push([newRow, newCol]);
-          }
-        });
-        break;
-      }
-      
-      case 'r': { // Rook
-        // Horizontal and vertical moves
-        const directions = [[0, 1], [1, 0], [0, -1], [-1, 0]];
-        
-        directions.forEach(([rOffset, cOffset]) => {
-          for (let i = 1; i < 8; i++) {
-            const newRow = row + rOffset * i;
-            const newCol = col + cOffset * i;
-            
-            if (!isValidPosition(newRow, newCol)) break;
-            
-            moves.push([newRow, newCol]);
-            
-            // Stop if we hit a piece
-            if (getPiece(newRow, newCol)) break;
-          }
-        });
-        break;
-      }
-      
-      case 'n': { // Knight (can jump over pieces)
-        const knightMoves = [
-          [-2, -1], [-2, 1], [-1, -2], [-1, 2],
-          [1, -2], [1, 2], [2, -1], [2, 1]
-        ];
-        
-        knightMoves.forEach(([rOffset, cOffset]) => {
-          const newRow = row + rOffset;
-          const newCol = col + cOffset;
-          
-          if (isValidPosition(newRow, newCol)) {
-            moves.push([newRow, newCol]);
-          }
-        });
-        break;
-      }
-      
-      case 'b': { // Bishop
-        // Diagonal moves
-        const directions = [[1, 1], [1, -1], [-1, 1], [-1, -1]];
-        
-        directions.forEach(([rOffset, cOffset]) => {
-          for (let i = 1; i < 8; i++) {
-            const newRow = row + rOffset * i;
-            const newCol = col + cOffset * i;
-            
-            if (!isValidPosition(newRow, newCol)) break;
-            
-            moves.push([newRow, newCol]);
-            
-            // Stop if we hit a piece
-            if (getPiece(newRow, newCol)) break;
-          }
-        });
-        break;
-      }
-      
-      case 'q': { // Queen (combination of rook and bishop)
-        // Horizontal, vertical and diagonal moves
-        const directions = [
-          [0, 1], [1, 0], [0, -1], [-1, 0],  // Rook moves
-          [1, 1], [1, -1], [-1, 1], [-1, -1] // Bishop moves
-        ];
-        
-        directions.forEach(([rOffset, cOffset]) => {
-          for (let i = 1; i < 8; i++) {
-            const newRow = row + rOffset * i;
-            const newCol = col + cOffset * i;
-            
-            if (!isValidPosition(newRow, newCol)) break;
-            
-            moves.push([newRow, newCol]);
-            
-            // Stop if we hit a piece
-            if (getPiece(newRow, newCol)) break;
-          }
-        });
-        break;
-      }
-      
-      case 'k': { // King
-        // One square in any direction
-        const directions = [
-          [-1, -1], [-1, 0], [-1, 1],
-          [0, -1], [0, 1],
-          [1, -1], [1, 0], [1, 1]
-        ];
-        
-        directions.forEach(([rOffset, cOffset]) => {
-          const newRow = row + rOffset;
-          const newCol = col + cOffset;
-          
-          if (isValidPosition(newRow, newCol)) {
-            moves.push([newRow, newCol]);
-          }
-        });
-        
-        // Castling
-        // Check if the king is in the starting position
-        const kingStartRow = isWhite ? 7 : 0;
-        if (row === kingStartRow && col === 4) {
-          // Check if king has moved (we use moves history to determine this)
-          const kingHasMoved = game.moves.some(move => {
-            // Parse the move to see if it involved the king
-            // King moves would include column 'e' (index 4)
-            return move.includes(String.fromCharCode(97 + col)) && 
-                   move.includes(String(8 - row));
-          });
-          
-          if (!kingHasMoved) {
-            // Kingside castling (O-O)
-            const kingsideRook = getPiece(row, 7);
-            if (kingsideRook && kingsideRook.toLowerCase() === 'r' && 
-                (kingsideRook === 'R') === isWhite) {
-              
-              // Check if rook has moved
-              const rookHasMoved = game.moves.some(move => {
-                // Parse the move to see if it involved the rook at h-file (index 7)
-                return move.includes(String.fromCharCode(97 + 7)) && 
-                       move.includes(String(8 - row));
-              });
-              
-              // Path must be clear between king and rook
-              const pathClear = !getPiece(row, 5) && !getPiece(row, 6);
-              
-              if (!rookHasMoved && pathClear) {
-                // Check if king passes through check during castling
-                // This will be verified in getPossibleMoves
-                moves.push([row, 6]); // Kingside castling
-              }
-            }
-            
-            // Queenside castling (O-O-O)
-            const queensideRook = getPiece(row, 0);
-            if (queensideRook && queensideRook.toLowerCase() === 'r' && 
-                (queensideRook === 'R') === isWhite) {
-              
-              // Check if rook has moved
-              const rookHasMoved = game.moves.some(move => {
-                // Parse the move to see if it involved the rook at a-file (index 0)
-                return move.includes(String.fromCharCode(97 + 0)) && 
-                       move.includes(String(8 - row));
-              });
-              
-              // Path must be clear between king and rook
-              const pathClear = !getPiece(row, 1) && !getPiece(row, 2) && !getPiece(row, 3);
-              
-              if (!rookHasMoved && pathClear) {
-                // Check if king passes through check during castling
-                // This will be verified in getPossibleMoves
-                moves.push([row, 2]); // Queenside castling
-              }
-            }
-          }
-        }
-        break;
-      }
-    }
-    
-    return moves;
-  };
-  
-  // Find king position for a given color
-  const findKing = (isWhiteKing: boolean): [number, number] | null => {
-    for (let row = 0; row < 8; row++) {
-      for (let col = 0; col < 8; col++) {
-        const piece = getPiece(row, col);
-        if (piece && piece.toLowerCase() === 'k' && (piece === 'K') === isWhiteKing) {
-          return [row, col];
-        }
-      }
-    }
-    return null;
-  };
-  
-  // Check if a king is under attack (in check) - uses getBasicMoves to avoid recursion
-  const isKingInCheck = (isWhiteKing: boolean): boolean => {
-    const kingPos = findKing(isWhiteKing);
-    if (!kingPos) return false;
-    
-    // Check if any opponent piece can attack the king
-    for (let row = 0; row < 8; row++) {
-      for (let col = 0; col < 8; col++) {
-        const piece = getPiece(row, col);
-        // Skip empty squares or own pieces
-        if (!piece || (piece === piece.toUpperCase()) === isWhiteKing) continue;
-        
-        // Check if this opponent piece can capture the king using basic moves
-        const moves = getBasicMoves(row, col, piece);
-        if (moves.some(([r, c]) => r === kingPos[0] && c === kingPos[1])) {
-          return true;
-        }
-      }
-    }
-    return false;
-  };
-  
-  // Get possible moves for a piece - now uses getBasicMoves and filters based on check
+  // Legal destination squares for the piece on a square, from the shared rules engine
   const getPossibleMoves = (row: number, col: number): [number, number][] => {
-    const piece = getPiece(row, col);
-    if (!piece) return [];
-    
-    // Get basic moves without considering check
-    const standardMoves = getBasicMoves(row, col, piece);
-    
-    // Check if player is in check and filter moves accordingly
-    const isCurrentPlayerWhite = piece === piece.toUpperCase();
-    
-    // If in check, only return moves that get the king out of check
-    // Filter moves to only those that don't leave king in check
-    const legalMoves: [number, number][] = [];
+    const position = getChessPosition(game);
+    const destinations = getLegalMoves(position, [row, col]).map(move => move.to);
     
-    // For each potential move, check if it would leave the king in check
-    for (const [newRow, newCol] of standardMoves) {
-      // Simulate the move
-      const originalPiece = piece;
-      const capturedPiece = getPiece(newRow, newCol);
-      
-      // Make temporary move
-      game.board[`${newRow},${newCol}`] = originalPiece;
-      delete game.board[`${row},${col}`];
-      
-      // Check if king is in check after move
-      const kingInCheck = isKingInCheck(isCurrentPlayerWhite);
-      
-      // Undo move
-      game.board[`${row},${col}`] = originalPiece;
-      if (capturedPiece) {
-        game.board[`${newRow},${newCol}`] = capturedPiece;
-      } else {
-        delete game.board[`${newRow},${newCol}`];
-      }
-      
-      // Add to legal moves if this move doesn't leave king in check
-      if (!kingInCheck) {
-        legalMoves.push([newRow, newCol]);
-      }
-    }
-    
-    return legalMoves;
-  };
-  
-  // Check if the opponent is in checkmate after a move
-  const isOpponentInCheckmate = (opponentIsWhite: boolean): boolean => {
-    // First check if the opponent's king is in check
-    if (!isKingInCheck(opponentIsWhite)) {
-      return false;
-    }
-    
-    // Try every possible move for the opponent to see if they can escape check
-    for (let row = 0; row < 8; row++) {
-      for (let col = 0; col < 8; col++) {
-        const piece = getPiece(row, col);
-        // Skip empty squares or current player's pieces
-        if (!piece || (piece === piece.toUpperCase()) !== opponentIsWhite) continue;
-        
-        // Get legal moves for this piece
-        const moves = getPossibleMoves(row, col);
-        
-        // If any piece has legal moves, it's not checkmate
-        if (moves.length > 0) {
-          return false;
-        }
-      }
-    }
-    
-    // If no move can get out of check, it's checkmate
-    return true;
+    // Promotions produce one move per piece; only highlight each square once
+    return destinations.filter(([r, c], index) =>
+      destinations.findIndex(([otherRow, otherCol]) => otherRow === r && otherCol === c) === index
+    );
   };
   
   const handleSquarePress = (row: number, col: number) => {
@@ -456,118 +162,20 @@ const ChessGame: React.FC<ChessGameProps> = ({ game, onMove, disabled }) => {
       
       // Check if the target square is a valid move
       if (possibleMoves.some(([r, c]) => r === row && c === col)) {
-        // Get the selected piece
-        const selectedPiece = getPiece(selectedRow, selectedCol);
-        
-        // Check for castling
-        let isCastling = false;
-        let rookFromRow = -1;
-        let rookFromCol = -1;
-        let rookToRow = -1;
-        let rookToCol = -1;
-        let castlingNotation = '';
+        const isPromotion = getLegalMoves(getChessPosition(game), [selectedRow, selectedCol])
+          .some(move => move.to[0] === row && move.to[1] === col && move.promotion);
         
-        // If king is selected and moving two squares horizontally, it's castling
-        if (selectedPiece && selectedPiece.toLowerCase() === 'k' && Math.abs(col - selectedCol) === 2) {
-          isCastling = true;
-          
-          // Determine rook positions based on castling direction
-          rookFromRow = selectedRow;
-          rookToRow = selectedRow;
-          
-          if (col > selectedCol) {
-            // Kingside castling (O-O)
-            rookFromCol = 7;
-            rookToCol = 5;
-            castlingNotation = 'O-O';
-          } else {
-            // Queenside castling (O-O-O)
-            rookFromCol = 0;
-            rookToCol = 3;
-            castlingNotation = 'O-O-O';
-          }
-        }
-        
-        // Capture logic
-        const targetPiece = getPiece(row, col);
-        const capture = targetPiece || null;
-        
-        // Basic move notation (e.g., "e2-e4")
-        let notation = isCastling ? castlingNotation : 
-          `${String.fromCharCode(97 + selectedCol)}${8 - selectedRow}-${String.fromCharCode(97 + col)}${8 - row}`;
-        
-        // Get if the current player is white
-        const isCurrentPlayerWhite = game.currentTurn === game.players[0];
-        const opponentIsWhite = !isCurrentPlayerWhite;
-        
-        // Simulate the move
-        const originalPiece = getPiece(selectedRow, selectedCol);
-        const capturedPiece = getPiece(row, col);
-        
-        // Make temporary move
-        game.board[`${row},${col}`] = originalPiece;
-        delete game.board[`${selectedRow},${selectedCol}`];
-        
-        // If castling, also move the rook in the simulation
-        if (isCastling) {
-          const rookPiece = getPiece(rookFromRow, rookFromCol);
-          if (rookPiece) {
-            game.board[`${rookToRow},${rookToCol}`] = rookPiece;
-            delete game.board[`${rookFromRow},${rookFromCol}`];
-          }
-        }
-        
-        // Check if this move puts opponent in check/checkmate
-        const opponentInCheck = isKingInCheck(opponentIsWhite);
-        const checkmate = opponentInCheck && isOpponentInCheckmate(opponentIsWhite);
-        
-        // Undo move to avoid affecting state
-        game.board[`${selectedRow},${selectedCol}`] = originalPiece;
-        if (capturedPiece) {
-          game.board[`${row},${col}`] = capturedPiece;
+        if (isPromotion) {
+          // Let the player pick the promotion piece before sending the move
+          setPendingPromotion({ from: [selectedRow, selectedCol], to: [row, col] });
         } else {
-          delete game.board[`${row},${col}`];
-        }
-        
-        // If castling, undo rook move in the simulation
-        if (isCastling) {
-          const rookPiece = getPiece(rookToRow, rookToCol);
-          if (rookPiece) {
-            game.board[`${rookFromRow},${rookFromCol}`] = rookPiece;
-            delete game.board[`${rookToRow},${rookToCol}`];
-          }
-        }
-        
-        // Add check/checkmate info to the move
-        if (!isCastling) { // Don't append to castling notation
-          if (checkmate) {
-            notation += '#'; // Checkmate symbol
-          } else if (opponentInCheck) {
-            notation += '+'; // Check symbol
-          }
-        }
-        
-        // Create the move object for the server
-        const moveObject: any = {
-          from: [selectedRow, selectedCol],
-          to: [row, col],
-          capture: capture,
-          notation: notation,
-          checkmate: checkmate,
-          check: opponentInCheck
-        };
-        
-        // If castling, add extra information
-        if (isCastling) {
-          moveObject.castling = {
-            rookFrom: [rookFromRow, rookFromCol],
-            rookTo: [rookToRow, rookToCol]
-          };
+          // The server derives captures, castling and notation from the rules engine
+          onMove({
+            from: [selectedRow, selectedCol],
+            to: [row, col]
+          });
         }
         
-        // Make the move with the server
-        onMove(moveObject);
-        
         // Reset selection
         setSelectedPiece(null);
         setPossibleMoves([]);
@@ -587,6 +195,83 @@ const ChessGame: React.FC<ChessGameProps> = ({ game, onMove, disabled }) => {
     }
   };
   
+  const handlePromotionChoice = (promotion: PromotionPiece) => {
+    if (pendingPromotion) {
+      onMove({ ...pendingPromotion, promotion });
+    }
+    setPendingPromotion(null);
+  };
+  
+  const renderPromotionPicker = () => (
+    <Modal
+      visible={pendingPromotion !== null}
+      transparent
+      animationType="fade"
+      onRequestClose={() => setPendingPromotion(null)}
+    >
+      <View style={styles.promotionOverlay}>
+        <View style={styles.promotionContainer}>
+          <Text style={styles.promotionTitle}>Promote pawn to</Text>
+          <View style={styles.promotionChoices}>
+            {PROMOTION_CHOICES.map(choice => {
+              const piece = playerColor === 'white' ? choice.toUpperCase() : choice;
+              return (
+                <TouchableOpacity
+                  key={choice}
+                  style={styles.promotionChoice}
+                  onPress={() => handlePromotionChoice(choice)}
+                >
+                  <Image 
+                    source={{ uri: renderPiece(piece) }} 
+                    style={styles.pieceImage}
+                    resizeMode="contain"
+                  />
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <TouchableOpacity onPress={() => setPendingPromotion(null)}>
+            <Text style={styles.promotionCancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+  
+  const renderDrawControls = () => {
+    const currentUserId = auth.currentUser?.uid;
+    if (reviewing || game.status !== 'active' || !currentUserId || !game.players.includes(currentUserId)) {
+      return null;
+    }
+    
+    // Opponent has offered a draw
+    if (game.drawOffer && game.drawOffer !== currentUserId) {
+      return (
+        <View style={styles.drawOfferContainer}>
+          <Text style={styles.drawOfferText}>Your opponent offers a draw</Text>
+          <View style={styles.drawOfferActions}>
+            <TouchableOpacity style={styles.drawButton} onPress={() => onRespondToDraw?.(true)}>
+              <Text style={styles.drawButtonText}>Accept</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.drawButton} onPress={() => onRespondToDraw?.(false)}>
+              <Text style={styles.drawButtonText}>Decline</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      );
+    }
+    
+    if (game.drawOffer === currentUserId) {
+      return <Text style={styles.drawOfferText}>Draw offered</Text>;
+    }
+    
+    return (
+      <TouchableOpacity style={styles.drawButton} onPress={onOfferDraw}>
+        <Text style={styles.drawButtonText}>Offer Draw</Text>
+      </TouchableOpacity>
+    );
+  };
+  
   const renderPiece = (piece: string) => {
     return chessPieces[piece] || '';
   };
@@ -661,10 +346,9 @@ const ChessGame: React.FC<ChessGameProps> = ({ game, onMove, disabled }) => {
           </Text>
           <Text style={[
             styles.timerText,
-            (timeLeft[playerColor === 'white' ? game.players[1] : game.players[0]] !== undefined && 
-             timeLeft[playerColor === 'white' ? game.players[1] : game.players[0]] < 10) && styles.lowTimeText
+            getClock(playerColor === 'white' ? game.players[1] : game.players[0]) < 10 && styles.lowTimeText
           ]}>
-            {formatTime(timeLeft[playerColor === 'white' ? game.players[1] : game.players[0]] || 0)}
+            {formatTime(getClock(playerColor === 'white' ? game.players[1] : game.players[0]))}
           </Text>
         </View>
       </View>
@@ -678,10 +362,9 @@ const ChessGame: React.FC<ChessGameProps> = ({ game, onMove, disabled }) => {
           </Text>
           <Text style={[
             styles.timerText,
-            (timeLeft[playerColor === 'white' ? game.players[0] : game.players[1]] !== undefined && 
-             timeLeft[playerColor === 'white' ? game.players[0] : game.players[1]] < 10) && styles.lowTimeText
+            getClock(playerColor === 'white' ? game.players[0] : game.players[1]) < 10 && styles.lowTimeText
           ]}>
-            {formatTime(timeLeft[playerColor === 'white' ? game.players[0] : game.players[1]] || 0)}
+            {formatTime(getClock(playerColor === 'white' ? game.players[0] : game.players[1]))}
           </Text>
         </View>
       </View>
@@ -689,7 +372,7 @@ const ChessGame: React.FC<ChessGameProps> = ({ game, onMove, disabled }) => {
       <View style={styles.infoContainer}>
         <Text style={styles.turnText}>
           {game.status === 'active' 
-            ? `${game.currentTurn === game.players[0] ? 'White' : 'Black'}'s turn` 
+            ? `${game.currentTurn === game.players[0] ? 'White' : 'Black'}'s turn${isInCheck(getChessPosition(game)) ? ' - Check!' : ''}` 
             : 'Game Over'}
         </Text>
         
@@ -700,7 +383,17 @@ const ChessGame: React.FC<ChessGameProps> = ({ game, onMove, disabled }) => {
             </Text>
           </View>
         )}
+        
+        {canClaimTimeout && (
+          <TouchableOpacity style={styles.drawButton} onPress={onClaimTimeout}>
+            <Text style={styles.drawButtonText}>Opponent's time is up - Claim Win</Text>
+          </TouchableOpacity>
+        )}
+        
+        {renderDrawControls()}
       </View>
+      
+      {renderPromotionPicker()}
     </View>
   );
 };
@@ -831,6 +524,67 @@ const styles = StyleSheet.create({
     width: PIECE_SIZE,
     height: PIECE_SIZE,
   },
+  promotionOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  promotionContainer: {
+    backgroundColor: '#5D4037', // Wood-like color
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  promotionTitle: {
+    color: '#E8D0AA', // Light wood color
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  promotionChoices: {
+    flexDirection: 'row',
+  },
+  promotionChoice: {
+    width: SQUARE_SIZE,
+    height: SQUARE_SIZE,
+    margin: 4,
+    borderRadius: 4,
+    backgroundColor: '#E8D0AA', // Light wood color
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  promotionCancelText: {
+    color: '#E8D0AA', // Light wood color
+    fontSize: 16,
+    marginTop: 12,
+  },
+  drawOfferContainer: {
+    marginTop: 12,
+    alignItems: 'center',
+  },
+  drawOfferText: {
+    color: '#5D4037', // Wood-like color
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginTop: 12,
+  },
+  drawOfferActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  drawButton: {
+    backgroundColor: '#5D4037', // Wood-like color
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 4,
+    marginTop: 12,
+  },
+  drawButtonText: {
+    color: '#E8D0AA', // Light wood color
+    fontSize: 14,
+    fontWeight: '600',
+  },
   possibleMoveIndicator: {
     width: SQUARE_SIZE * 0.3,
     height: SQUARE_SIZE * 0.3,
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Text, StyleSheet, TouchableOpacity, Alert, Share } from 'react-native';
+import { ChessGame, exportChessGamePgn } from '../services/database/gameService';
+import { GameResultDetailsProps } from '../games/types';
+
+// Lets players export a finished chess game to other chess apps
+const ChessPgnShareButton: React.FC<GameResultDetailsProps<ChessGame>> = ({ game }) => {
+  const handleSharePgn = async () => {
+    try {
+      const pgn = await exportChessGamePgn(game);
+      await Share.share({ message: pgn, title: 'Toilet Chess PGN' });
+    } catch (error) {
+      console.error('Error sharing PGN:', error);
+      Alert.alert('Error', 'Could not export this game.');
+    }
+  };
+
+  return (
+    <TouchableOpacity style={styles.button} onPress={handleSharePgn}>
+      <Text style={styles.buttonText}>Share PGN</Text>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    backgroundColor: 'transparent',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 25,
+    borderWidth: 2,
+    borderColor: '#6366f1',
+    marginBottom: 12,
+  },
+  buttonText: {
+    color: '#6366f1',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
+
+export default ChessPgnShareButton;
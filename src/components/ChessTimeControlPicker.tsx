@@ -0,0 +1,64 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { CHESS_TIME_CONTROLS, ChessTimeControlId, DEFAULT_CHESS_TIME_CONTROL } from '../games/chess';
+import { GameInviteOptionsProps } from '../games/types';
+
+// Time control chips shown in the invite modal for Toilet Chess
+const ChessTimeControlPicker: React.FC<GameInviteOptionsProps> = ({ options, onChange }) => {
+  const selected = options.timeControl || DEFAULT_CHESS_TIME_CONTROL;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Time Control</Text>
+      <View style={styles.options}>
+        {(Object.keys(CHESS_TIME_CONTROLS) as ChessTimeControlId[]).map(id => (
+          <TouchableOpacity
+            key={id}
+            style={[styles.option, selected === id && styles.optionSelected]}
+            onPress={() => onChange({ ...options, timeControl: id })}
+          >
+            <Text style={[styles.optionText, selected === id && styles.optionTextSelected]}>
+              {CHESS_TIME_CONTROLS[id].label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 15,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 10,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#f3f4f6',
+  },
+  optionSelected: {
+    backgroundColor: '#0891b2',
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1f2937',
+  },
+  optionTextSelected: {
+    color: '#fff',
+  },
+});
+
+export default ChessTimeControlPicker;
@@ -9,6 +9,7 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { doc, getDoc } from 'firebase/firestore';
 import { firestore } from '../firebase/config';
 import { GameInvite } from '../services/database/gameInviteService';
+import { getGameTitle } from '../games/registry';
 
 type RootStackParamList = {
   Game: { gameId: string; gameType: string };
@@ -23,16 +24,6 @@ interface InviteWithSenderName extends GameInvite {
   senderName?: string;
 }
 
-const getGameDisplayName = (gameType: string): string => {
-  const gameNames: { [key: string]: string } = {
-    'tictactoe': 'Tic Tac Toe',
-    'rps': 'Rock Paper Scissors',
-    'wordle': 'Toilet Wordle',
-    'hangman': 'Hangman'
-  };
-  return gameNames[gameType] || gameType;
-};
-
 export const GameInviteBadge: React.FC = () => {
   const { receivedInvites, acceptInvite, declineInvite, handleDismissInvite } = useGameInvites();
   const navigation = useNavigation<NavigationProp>();
@@ -216,7 +207,7 @@ export const GameInviteBadge: React.FC = () => {
               <Ionicons name="game-controller" size={24} color="#6366f1" />
               <View style={styles.inviteTextContainer}>
                 <Text style={styles.inviteText}>
-                  Game Invite: {getGameDisplayName(invite.gameType)}
+                  Game Invite: {getGameTitle(invite.gameType)}
                 </Text>
                 <Text style={styles.inviteSubtext}>
                   From: {invite.senderName}
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, GestureResponderEvent, LayoutChangeEvent } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+interface GameReplayControlsProps {
+  index: number;          // Current frame, 0 is the starting position
+  totalMoves: number;     // Number of recorded moves (frames - 1)
+  onChange: (index: number) => void;
+  onClose: () => void;
+}
+
+const GameReplayControls: React.FC<GameReplayControlsProps> = ({ index, totalMoves, onChange, onClose }) => {
+  const [trackWidth, setTrackWidth] = useState(0);
+
+  const goTo = (next: number) => {
+    onChange(Math.max(0, Math.min(totalMoves, next)));
+  };
+
+  // Map a touch on the track to the nearest move
+  const handleScrub = (event: GestureResponderEvent) => {
+    if (trackWidth <= 0 || totalMoves === 0) return;
+    const ratio = Math.max(0, Math.min(1, event.nativeEvent.locationX / trackWidth));
+    goTo(Math.round(ratio * totalMoves));
+  };
+
+  const progress = totalMoves > 0 ? index / totalMoves : 1;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.label}>
+          {index === 0 ? 'Start' : `Move ${index} / ${totalMoves}`}
+        </Text>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.closeText}>Done</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View
+        style={styles.track}
+        onLayout={(event: LayoutChangeEvent) => setTrackWidth(event.nativeEvent.layout.width)}
+        onStartShouldSetResponder={() => true}
+        onMoveShouldSetResponder={() => true}
+        onResponderGrant={handleScrub}
+        onResponderMove={handleScrub}
+      >
+        <View style={styles.trackRail} />
+        <View style={[styles.trackFill, { width: `${progress * 100}%` }]} />
+        <View style={[styles.thumb, { left: Math.max(0, progress * trackWidth - 8) }]} />
+      </View>
+
+      <View style={styles.buttons}>
+        <TouchableOpacity style={styles.button} onPress={() => goTo(0)} disabled={index === 0}>
+          <Ionicons name="play-skip-back" size={22} color={index === 0 ? '#475569' : '#fff'} />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.button} onPress={() => goTo(index - 1)} disabled={index === 0}>
+          <Ionicons name="chevron-back" size={26} color={index === 0 ? '#475569' : '#fff'} />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.button} onPress={() => goTo(index + 1)} disabled={index === totalMoves}>
+          <Ionicons name="chevron-forward" size={26} color={index === totalMoves ? '#475569' : '#fff'} />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.button} onPress={() => goTo(totalMoves)} disabled={index === totalMoves}>
+          <Ionicons name="play-skip-forward" size={22} color={index === totalMoves ? '#475569' : '#fff'} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#0f172a',
+    borderTopWidth: 1,
+    borderTopColor: '#334155',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    paddingBottom: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  label: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  closeText: {
+    color: '#6366f1',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  track: {
+    height: 24,
+    justifyContent: 'center',
+    marginBottom: 12,
+  },
+  trackRail: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#334155',
+  },
+  trackFill: {
+    position: 'absolute',
+    left: 0,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#6366f1',
+  },
+  thumb: {
+    position: 'absolute',
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    backgroundColor: '#fff',
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  button: {
+    backgroundColor: '#334155',
+    width: 56,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
+
+export default GameReplayControls;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { HangmanGame } from '../services/database/gameService';
+import { GameResultDetailsProps } from '../games/types';
+
+// Shows the player's word on the result screen
+const HangmanWordReveal: React.FC<GameResultDetailsProps<HangmanGame>> = ({ game, userId }) => {
+  const word = game.words?.[userId];
+  if (!word) return null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Your word was:</Text>
+      <Text style={styles.word}>{word}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'rgba(254, 243, 199, 0.9)',
+    padding: 20,
+    borderRadius: 12,
+    marginBottom: 24,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#f59e0b',
+    width: '80%',
+  },
+  label: {
+    fontSize: 18,
+    color: '#92400e',
+    marginBottom: 10,
+    textAlign: 'center',
+  },
+  word: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#92400e',
+    letterSpacing: 2,
+    textAlign: 'center',
+  },
+});
+
+export default HangmanWordReveal;
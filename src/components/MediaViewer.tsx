@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Modal, FlatList, TouchableOpacity, useWindowDimensions } from 'react-native';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+import { ShweetMedia } from '../services/storage/shweetMediaService';
+
+interface MediaViewerProps {
+  media: ShweetMedia[];
+  initialIndex: number;
+  visible: boolean;
+  onClose: () => void;
+}
+
+// Full-screen images, swiped through one at a time
+const MediaViewer: React.FC<MediaViewerProps> = ({ media, initialIndex, visible, onClose }) => {
+  const { width, height } = useWindowDimensions();
+  const [currentIndex, setCurrentIndex] = useState(initialIndex);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={false}
+      animationType="fade"
+      onRequestClose={onClose}
+      onShow={() => setCurrentIndex(initialIndex)}
+    >
+      <View style={styles.container}>
+        <FlatList
+          data={media}
+          keyExtractor={(item) => item.path}
+          horizontal
+          pagingEnabled
+          showsHorizontalScrollIndicator={false}
+          initialScrollIndex={initialIndex}
+          getItemLayout={(_, index) => ({ length: width, offset: width * index, index })}
+          onMomentumScrollEnd={(event) => {
+            setCurrentIndex(Math.round(event.nativeEvent.contentOffset.x / width));
+          }}
+          renderItem={({ item }) => (
+            <Image
+              source={{ uri: item.url }}
+              placeholder={item.blurhash ? { blurhash: item.blurhash } : undefined}
+              style={{ width, height }}
+              contentFit="contain"
+              transition={200}
+            />
+          )}
+        />
+
+        <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+          <Ionicons name="close" size={28} color="#fff" />
+        </TouchableOpacity>
+
+        {media.length > 1 && (
+          <Text style={styles.counter}>{currentIndex + 1} / {media.length}</Text>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 50,
+    right: 20,
+    padding: 6,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  counter: {
+    position: 'absolute',
+    bottom: 50,
+    alignSelf: 'center',
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
+
+export default MediaViewer;
@@ -2,6 +2,8 @@ import React, { useState, useEffect, useRef } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Animated } from 'react-native';
 import { Game } from '../services/database/gameService';
 import { useAuth } from '../hooks/useAuth';
+import { getServerNow, waitForServerTime } from '../services/database/serverTimeService';
+import { getFaceUpCards, isRevealingMiss } from '../games/memory';
 
 interface MemoryGameProps {
   game: Game;
@@ -17,6 +19,31 @@ const CARD_EMOJIS = [
 const MemoryGame: React.FC<MemoryGameProps> = ({ game, onMove, disabled }) => {
   const { userData } = useAuth();
   const [cardRotations] = useState(Array(16).fill(0).map(() => new Animated.Value(0)));
+  const [serverNow, setServerNow] = useState(getServerNow());
+  const revealUntilMillis = game.type === 'memory' && game.revealUntil ? game.revealUntil.toMillis() : null;
+  
+  // Re-render when a missed pair's reveal runs out so the cards flip back,
+  // timed once server time is known
+  useEffect(() => {
+    let mounted = true;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    
+    waitForServerTime().then(() => {
+      if (!mounted) return;
+      
+      setServerNow(getServerNow());
+      if (!revealUntilMillis) return;
+      
+      const remaining = revealUntilMillis - getServerNow();
+      if (remaining <= 0) return;
+      
+      timer = setTimeout(() => setServerNow(getServerNow()), remaining + 50);
+    });
+    return () => {
+      mounted = false;
+      if (timer) clearTimeout(timer);
+    };
+  }, [revealUntilMillis]);
   
   if (game.type !== 'memory') return null;
   
@@ -34,14 +61,15 @@ const MemoryGame: React.FC<MemoryGameProps> = ({ game, onMove, disabled }) => {
   const myScore = game.scores?.[userId] || 0;
   const opponentId = game.players.find(id => id !== userId) || '';
   const opponentScore = game.scores?.[opponentId] || 0;
-  const isGameLocked = game.locked || false;
+  const isGameLocked = isRevealingMiss(game, serverNow);
+  const faceUpCards = getFaceUpCards(game, serverNow);
   
   // Check if card is matched (permanently revealed)
   const isCardMatched = (index: number) => (game.matchedPairs || []).includes(index);
   
   // Check if card is currently selected/flipped
   const isCardFlipped = (index: number) => {
-    return (game.flippedCards || []).includes(index) || isCardMatched(index);
+    return faceUpCards.includes(index) || isCardMatched(index);
   };
   
   // Get emoji for a specific card
@@ -77,7 +105,7 @@ const MemoryGame: React.FC<MemoryGameProps> = ({ game, onMove, disabled }) => {
         }).start();
       }
     }
-  }, [game.flippedCards, game.matchedPairs]);
+  }, [faceUpCards.join(','), game.matchedPairs]);
   
   // Interpolate rotation for 3D flip effect
   const getCardTransform = (index: number) => {
@@ -91,9 +119,10 @@ const MemoryGame: React.FC<MemoryGameProps> = ({ game, onMove, disabled }) => {
       outputRange: ['180deg', '360deg'],
     });
     
+    // Perspective has to come first for the flip to look 3D
     return {
-      frontTransform: [{ rotateY: frontRotation }],
-      backTransform: [{ rotateY: backRotation }],
+      frontTransform: [{ perspective: 1000 }, { rotateY: frontRotation }],
+      backTransform: [{ perspective: 1000 }, { rotateY: backRotation }],
     };
   };
   
@@ -125,7 +154,7 @@ const MemoryGame: React.FC<MemoryGameProps> = ({ game, onMove, disabled }) => {
       <View style={styles.board}>
         {Array(16).fill(0).map((_, index) => {
           const { frontTransform, backTransform } = getCardTransform(index);
-          const isCurrentlyRevealed = (game.flippedCards || []).includes(index);
+          const isCurrentlyRevealed = faceUpCards.includes(index);
           const isCurrentlyMatched = isCardMatched(index);
           
           return (
@@ -236,7 +265,6 @@ const styles = StyleSheet.create({
     width: '22%', // Adjusted for 4x4 grid
     aspectRatio: 1,
     margin: '1.5%',
-    perspective: 1000,
   },
   cardHighlighted: {
     shadowColor: '#f59e0b',
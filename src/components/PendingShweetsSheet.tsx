@@ -0,0 +1,201 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  FlatList,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  Image
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { PendingShweet } from '../services/storage/pendingShweetService';
+
+interface PendingShweetsSheetProps {
+  visible: boolean;
+  pendingShweets: PendingShweet[];
+  onClose: () => void;
+  onEdit: (pending: PendingShweet) => void;
+  onDelete: (pending: PendingShweet) => void;
+}
+
+const formatScheduledTime = (time: number) =>
+  new Date(time).toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const getPendingLabel = (pending: PendingShweet): { icon: keyof typeof Ionicons.glyphMap; text: string } => {
+  switch (pending.kind) {
+    case 'scheduled':
+      return { icon: 'time-outline', text: `Scheduled for ${formatScheduledTime(pending.scheduledFor!)}` };
+    case 'session':
+      return { icon: 'water-outline', text: 'Posts when you next sit down' };
+    default:
+      return { icon: 'document-text-outline', text: 'Draft' };
+  }
+};
+
+// Drafts, scheduled shweets and the next-session queue, each of which can be
+// opened in the composer or thrown away
+const PendingShweetsSheet: React.FC<PendingShweetsSheetProps> = ({
+  visible,
+  pendingShweets,
+  onClose,
+  onEdit,
+  onDelete
+}) => {
+  const renderPendingShweet = ({ item }: { item: PendingShweet }) => {
+    const label = getPendingLabel(item);
+
+    return (
+      <View style={styles.pending}>
+        <TouchableOpacity style={styles.pendingBody} onPress={() => onEdit(item)} activeOpacity={0.7}>
+          <View style={styles.label}>
+            <Ionicons name={label.icon} size={14} color="#6366f1" />
+            <Text style={styles.labelText}>{label.text}</Text>
+          </View>
+          {!!item.content && (
+            <Text style={styles.content} numberOfLines={3}>{item.content}</Text>
+          )}
+          {item.attachments.length > 0 && (
+            <View style={styles.attachments}>
+              {item.attachments.map(attachment => (
+                <Image key={attachment.uri} source={{ uri: attachment.uri }} style={styles.attachment} />
+              ))}
+            </View>
+          )}
+        </TouchableOpacity>
+        <View style={styles.actions}>
+          <TouchableOpacity style={styles.actionButton} onPress={() => onEdit(item)}>
+            <Ionicons name="create-outline" size={18} color="#6b7280" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={() => onDelete(item)}>
+            <Ionicons name="trash-outline" size={18} color="#f87171" />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={styles.overlay} />
+      </TouchableWithoutFeedback>
+      <View style={styles.sheet}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Waiting to Post</Text>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Ionicons name="close" size={24} color="#6b7280" />
+          </TouchableOpacity>
+        </View>
+
+        <FlatList
+          data={pendingShweets}
+          keyExtractor={(item) => item.id}
+          renderItem={renderPendingShweet}
+          ListEmptyComponent={
+            <View style={styles.empty}>
+              <Text style={styles.emptyText}>Nothing waiting to post</Text>
+            </View>
+          }
+        />
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheet: {
+    maxHeight: '70%',
+    minHeight: '40%',
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingTop: 20,
+    paddingHorizontal: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  closeButton: {
+    padding: 5,
+    borderRadius: 20,
+    backgroundColor: '#f3f4f6',
+    width: 34,
+    height: 34,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  pending: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  pendingBody: {
+    flex: 1,
+  },
+  label: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  labelText: {
+    marginLeft: 4,
+    fontSize: 12,
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  content: {
+    fontSize: 15,
+    color: '#1f2937',
+    lineHeight: 20,
+  },
+  attachments: {
+    flexDirection: 'row',
+    marginTop: 6,
+  },
+  attachment: {
+    width: 40,
+    height: 40,
+    borderRadius: 6,
+    marginRight: 6,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginLeft: 8,
+  },
+  actionButton: {
+    padding: 6,
+  },
+  empty: {
+    padding: 30,
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6b7280',
+  },
+});
+
+export default PendingShweetsSheet;
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import {
+  DEFAULT_REACTION,
+  REACTIONS,
+  ReactionCounts,
+  ReactionType,
+  getReactionEmoji
+} from '../services/database/reactionService';
+
+interface ReactionBarProps {
+  reactionCount: number;
+  reactionCounts: ReactionCounts;
+  userReaction: ReactionType | null;
+  onReact: (reaction: ReactionType | null) => void; // null removes the reaction
+  onViewReactions: () => void;
+}
+
+// How many reaction types to show next to the count
+const TOP_REACTIONS = 3;
+
+// A tap reacts with the default reaction or takes the reaction back; a long
+// press picks one of the others
+const ReactionBar: React.FC<ReactionBarProps> = ({
+  reactionCount,
+  reactionCounts,
+  userReaction,
+  onReact,
+  onViewReactions
+}) => {
+  const [pickerVisible, setPickerVisible] = useState(false);
+
+  const topReactions = REACTIONS
+    .filter(reaction => (reactionCounts[reaction.type] || 0) > 0)
+    .sort((a, b) => (reactionCounts[b.type] || 0) - (reactionCounts[a.type] || 0))
+    .slice(0, TOP_REACTIONS);
+
+  const handlePick = (reaction: ReactionType) => {
+    setPickerVisible(false);
+    onReact(reaction === userReaction ? null : reaction);
+  };
+
+  return (
+    <View style={styles.container}>
+      {pickerVisible && (
+        <View style={styles.picker}>
+          {REACTIONS.map(reaction => (
+            <TouchableOpacity
+              key={reaction.type}
+              style={[styles.pickerOption, reaction.type === userReaction && styles.pickerOptionActive]}
+              onPress={() => handlePick(reaction.type)}
+              accessibilityLabel={reaction.label}
+            >
+              <Text style={styles.pickerEmoji}>{reaction.emoji}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <TouchableOpacity
+        style={[styles.reactButton, userReaction && styles.reactButtonActive]}
+        onPress={() => pickerVisible ? setPickerVisible(false) : onReact(userReaction ? null : DEFAULT_REACTION)}
+        onLongPress={() => setPickerVisible(true)}
+        activeOpacity={0.7}
+      >
+        <Text style={[styles.reactEmoji, !userReaction && styles.reactEmojiInactive]}>
+          {getReactionEmoji(userReaction || DEFAULT_REACTION)}
+        </Text>
+        <Text style={[styles.reactText, userReaction && styles.reactTextActive]}>
+          {userReaction ? 'Reacted' : 'React'}
+        </Text>
+      </TouchableOpacity>
+
+      {reactionCount > 0 && (
+        <TouchableOpacity style={styles.summary} onPress={onViewReactions} activeOpacity={0.7}>
+          <Text style={styles.summaryEmoji}>
+            {topReactions.map(reaction => reaction.emoji).join('')}
+          </Text>
+          <Text style={styles.summaryCount}>{reactionCount}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  picker: {
+    position: 'absolute',
+    bottom: 44,
+    left: 0,
+    flexDirection: 'row',
+    backgroundColor: '#fff',
+    borderRadius: 24,
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 6,
+    elevation: 6,
+    zIndex: 10,
+  },
+  pickerOption: {
+    padding: 6,
+    borderRadius: 18,
+  },
+  pickerOptionActive: {
+    backgroundColor: '#eef2ff',
+  },
+  pickerEmoji: {
+    fontSize: 26,
+  },
+  reactButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 20,
+  },
+  reactButtonActive: {
+    backgroundColor: '#eef2ff',
+  },
+  reactEmoji: {
+    fontSize: 18,
+  },
+  reactEmojiInactive: {
+    opacity: 0.4,
+  },
+  reactText: {
+    marginLeft: 6,
+    fontSize: 14,
+    color: '#6b7280',
+    fontWeight: '500',
+  },
+  reactTextActive: {
+    color: '#6366f1',
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+  },
+  summaryEmoji: {
+    fontSize: 14,
+  },
+  summaryCount: {
+    marginLeft: 4,
+    fontSize: 13,
+    color: '#6b7280',
+  },
+});
+
+export default ReactionBar;
@@ -0,0 +1,290 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  FlatList,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  ActivityIndicator,
+  Image
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { DocumentData, QueryDocumentSnapshot } from 'firebase/firestore';
+import {
+  REACTIONS,
+  Reaction,
+  ReactionCounts,
+  ReactionType,
+  getReactionEmoji,
+  getReactionsPage
+} from '../services/database/reactionService';
+import { getUserData } from '../services/database/userService';
+
+interface ReactionsSheetProps {
+  shweetId: string | null; // The sheet is shown while this is set
+  reactionCounts: ReactionCounts;
+  currentUserId: string | undefined;
+  onClose: () => void;
+  onOpenUser: (userId: string) => void;
+}
+
+interface Reactor extends Reaction {
+  name: string;
+  photoURL: string | null;
+}
+
+// Who reacted to a shweet, a page at a time, with a tab per reaction type
+const ReactionsSheet: React.FC<ReactionsSheetProps> = ({
+  shweetId,
+  reactionCounts,
+  currentUserId,
+  onClose,
+  onOpenUser
+}) => {
+  const [filter, setFilter] = useState<ReactionType | null>(null);
+  const [reactors, setReactors] = useState<Reactor[]>([]);
+  const [loading, setLoading] = useState(false);
+  const cursor = useRef<QueryDocumentSnapshot<DocumentData> | null>(null);
+  const hasMore = useRef(true);
+  // Ignores pages that arrive after the shweet or tab changed
+  const requestVersion = useRef(0);
+
+  const loadPage = useCallback(async (reset: boolean) => {
+    if (!shweetId || (!reset && (!hasMore.current || loading))) return;
+
+    const version = reset ? ++requestVersion.current : requestVersion.current;
+    setLoading(true);
+    try {
+      const page = await getReactionsPage(shweetId, filter, reset ? null : cursor.current);
+      // Reactions only store the user ID, so look the users up
+      const users = await Promise.all(page.reactions.map(reaction => getUserData(reaction.userId)));
+      if (version !== requestVersion.current) return;
+
+      const pageReactors = page.reactions.map((reaction, index) => ({
+        ...reaction,
+        name: users[index]?.displayName || 'Unknown User',
+        photoURL: users[index]?.photoURL || null,
+      }));
+      cursor.current = page.cursor;
+      hasMore.current = page.cursor !== null;
+      setReactors(current => reset ? pageReactors : [...current, ...pageReactors]);
+    } catch (error) {
+      console.error('Error loading reactions:', error);
+    } finally {
+      if (version === requestVersion.current) {
+        setLoading(false);
+      }
+    }
+  }, [shweetId, filter, loading]);
+
+  useEffect(() => {
+    if (!shweetId) return;
+
+    setReactors([]);
+    cursor.current = null;
+    hasMore.current = true;
+    loadPage(true);
+  }, [shweetId, filter]);
+
+  // Start on the "All" tab each time the sheet opens
+  useEffect(() => {
+    if (!shweetId) setFilter(null);
+  }, [shweetId]);
+
+  const total = Object.values(reactionCounts).reduce((sum, count) => sum + (count || 0), 0);
+  const tabs: { type: ReactionType | null; label: string }[] = [
+    { type: null, label: `All ${total}` },
+    ...REACTIONS
+      .filter(reaction => (reactionCounts[reaction.type] || 0) > 0)
+      .map(reaction => ({ type: reaction.type, label: `${reaction.emoji} ${reactionCounts[reaction.type]}` })),
+  ];
+
+  const renderReactor = ({ item }: { item: Reactor }) => (
+    <TouchableOpacity style={styles.reactor} onPress={() => onOpenUser(item.userId)}>
+      {item.photoURL ? (
+        <Image source={{ uri: item.photoURL }} style={styles.avatar} />
+      ) : (
+        <View style={styles.defaultAvatar}>
+          <Text style={styles.avatarText}>{item.name.charAt(0)}</Text>
+        </View>
+      )}
+      <View style={styles.reactorInfo}>
+        <Text style={styles.reactorName}>{item.name}</Text>
+        {item.userId === currentUserId && <Text style={styles.you}>(You)</Text>}
+      </View>
+      <Text style={styles.reactorEmoji}>{getReactionEmoji(item.type)}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={shweetId !== null}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={styles.overlay} />
+      </TouchableWithoutFeedback>
+      <View style={styles.sheet}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Reactions</Text>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Ionicons name="close" size={24} color="#6b7280" />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.tabs}>
+          {tabs.map(tab => (
+            <TouchableOpacity
+              key={tab.type || 'all'}
+              style={[styles.tab, filter === tab.type && styles.activeTab]}
+              onPress={() => setFilter(tab.type)}
+            >
+              <Text style={[styles.tabText, filter === tab.type && styles.activeTabText]}>{tab.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <FlatList
+          data={reactors}
+          keyExtractor={(item) => item.userId}
+          renderItem={renderReactor}
+          onEndReached={() => loadPage(false)}
+          onEndReachedThreshold={0.5}
+          ListEmptyComponent={loading ? null : (
+            <View style={styles.empty}>
+              <Text style={styles.emptyText}>No reactions yet</Text>
+            </View>
+          )}
+          ListFooterComponent={loading ? (
+            <ActivityIndicator style={styles.loading} color="#6366f1" />
+          ) : null}
+        />
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheet: {
+    maxHeight: '70%',
+    minHeight: '40%',
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingTop: 20,
+    paddingHorizontal: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  closeButton: {
+    padding: 5,
+    borderRadius: 20,
+    backgroundColor: '#f3f4f6',
+    width: 34,
+    height: 34,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  tabs: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  tab: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: '#f3f4f6',
+    marginRight: 8,
+    marginBottom: 4,
+  },
+  activeTab: {
+    backgroundColor: '#6366f1',
+  },
+  tabText: {
+    fontSize: 14,
+    color: '#4b5563',
+    fontWeight: '500',
+  },
+  activeTabText: {
+    color: '#fff',
+  },
+  reactor: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    marginRight: 12,
+  },
+  defaultAvatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#6366f1',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  avatarText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  reactorInfo: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  reactorName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1f2937',
+  },
+  you: {
+    marginLeft: 6,
+    fontSize: 14,
+    color: '#6b7280',
+    fontStyle: 'italic',
+  },
+  reactorEmoji: {
+    fontSize: 22,
+  },
+  empty: {
+    padding: 30,
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  loading: {
+    paddingVertical: 20,
+  },
+});
+
+export default ReactionsSheet;
@@ -0,0 +1,135 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, Platform } from 'react-native';
+import DateTimePicker, { DateTimePickerAndroid } from '@react-native-community/datetimepicker';
+
+interface ScheduleShweetPickerProps {
+  visible: boolean;
+  initialTime: number | null; // Epoch ms, when rescheduling
+  onConfirm: (time: number) => void;
+  onCancel: () => void;
+}
+
+// New schedules start this far ahead
+const DEFAULT_DELAY_MS = 60 * 60 * 1000;
+
+// Picks when a shweet is published. Android has no combined date and time
+// picker, so it asks for the date and then the time.
+const ScheduleShweetPicker: React.FC<ScheduleShweetPickerProps> = ({
+  visible,
+  initialTime,
+  onConfirm,
+  onCancel
+}) => {
+  const [time, setTime] = useState(new Date());
+
+  useEffect(() => {
+    if (!visible) return;
+
+    const initial = new Date(initialTime && initialTime > Date.now() ? initialTime : Date.now() + DEFAULT_DELAY_MS);
+    setTime(initial);
+
+    if (Platform.OS !== 'android') return;
+
+    DateTimePickerAndroid.open({
+      value: initial,
+      mode: 'date',
+      minimumDate: new Date(),
+      onChange: (dateEvent, date) => {
+        if (dateEvent.type !== 'set' || !date) {
+          onCancel();
+          return;
+        }
+
+        DateTimePickerAndroid.open({
+          value: date,
+          mode: 'time',
+          onChange: (timeEvent, dateTime) => {
+            if (timeEvent.type !== 'set' || !dateTime) {
+              onCancel();
+              return;
+            }
+            onConfirm(dateTime.getTime());
+          },
+        });
+      },
+    });
+  }, [visible]);
+
+  if (Platform.OS === 'android') return null;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <Text style={styles.title}>Schedule Shweet</Text>
+          <DateTimePicker
+            value={time}
+            mode="datetime"
+            display="inline"
+            minimumDate={new Date()}
+            onChange={(event, date) => date && setTime(date)}
+          />
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.button} onPress={onCancel}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.button, styles.confirmButton]} onPress={() => onConfirm(time.getTime())}>
+              <Text style={styles.confirmText}>Schedule</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    width: '90%',
+    backgroundColor: '#fff',
+    borderRadius: 20,
+    padding: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 8,
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  button: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 20,
+    marginLeft: 8,
+  },
+  confirmButton: {
+    backgroundColor: '#6366f1',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  confirmText: {
+    fontSize: 16,
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+});
+
+export default ScheduleShweetPicker;
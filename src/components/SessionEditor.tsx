@@ -0,0 +1,225 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  ActivityIndicator
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ShitSession } from '../services/database/sessionService';
+import SessionTimePicker from './SessionTimePicker';
+
+interface SessionEditorProps {
+  visible: boolean;
+  session: ShitSession | null; // null when logging a new session
+  onSave: (startTime: number, endTime: number) => Promise<void>;
+  onDelete: (session: ShitSession) => void;
+  onClose: () => void;
+}
+
+// New sessions start out this long, ending now
+const DEFAULT_DURATION_MS = 5 * 60 * 1000;
+
+const formatDateTime = (time: number) =>
+  new Date(time).toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const formatDuration = (milliseconds: number) => {
+  const totalSeconds = Math.max(Math.floor(milliseconds / 1000), 0);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}m ${seconds}s`;
+};
+
+// Sets when a session started and ended, for one logged by hand or one being
+// fixed. Saving is left to the caller, which reports anything that doesn't fit.
+const SessionEditor: React.FC<SessionEditorProps> = ({
+  visible,
+  session,
+  onSave,
+  onDelete,
+  onClose
+}) => {
+  const [startTime, setStartTime] = useState(0);
+  const [endTime, setEndTime] = useState(0);
+  const [picking, setPicking] = useState<'start' | 'end' | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    const now = Date.now();
+    setStartTime(session ? session.startTime : now - DEFAULT_DURATION_MS);
+    setEndTime(session ? session.endTime : now);
+    setPicking(null);
+  }, [visible, session]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(startTime, endTime);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePicked = (time: number) => {
+    if (picking === 'start') {
+      // Keep the length when moving the start, as when fixing the day
+      setEndTime(time + (endTime - startTime));
+      setStartTime(time);
+    } else {
+      setEndTime(time);
+    }
+    setPicking(null);
+  };
+
+  return (
+    <>
+      <Modal
+        visible={visible && !picking}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={onClose}
+      >
+        <TouchableWithoutFeedback onPress={onClose}>
+          <View style={styles.overlay}>
+            <TouchableWithoutFeedback>
+              <View style={styles.container}>
+                <View style={styles.header}>
+                  <Text style={styles.title}>{session ? 'Edit Session' : 'Log a Session'}</Text>
+                  <TouchableOpacity onPress={onClose}>
+                    <Ionicons name="close" size={24} color="#6b7280" />
+                  </TouchableOpacity>
+                </View>
+
+                <TouchableOpacity style={styles.timeRow} onPress={() => setPicking('start')}>
+                  <Text style={styles.timeLabel}>Started</Text>
+                  <Text style={styles.timeValue}>{formatDateTime(startTime)}</Text>
+                  <Ionicons name="chevron-forward" size={18} color="#9ca3af" />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.timeRow} onPress={() => setPicking('end')}>
+                  <Text style={styles.timeLabel}>Ended</Text>
+                  <Text style={styles.timeValue}>{formatDateTime(endTime)}</Text>
+                  <Ionicons name="chevron-forward" size={18} color="#9ca3af" />
+                </TouchableOpacity>
+
+                <Text style={styles.duration}>Duration: {formatDuration(endTime - startTime)}</Text>
+
+                {saving ? (
+                  <ActivityIndicator color="#6366f1" style={styles.saving} />
+                ) : (
+                  <View style={styles.buttons}>
+                    {session && (
+                      <TouchableOpacity style={styles.deleteButton} onPress={() => onDelete(session)}>
+                        <Ionicons name="trash-outline" size={18} color="#ef4444" />
+                        <Text style={styles.deleteText}>Delete</Text>
+                      </TouchableOpacity>
+                    )}
+                    <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+                      <Text style={styles.saveText}>Save</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </View>
+            </TouchableWithoutFeedback>
+          </View>
+        </TouchableWithoutFeedback>
+      </Modal>
+      <SessionTimePicker
+        visible={visible && picking !== null}
+        title={picking === 'start' ? 'When did it start?' : 'When did it end?'}
+        value={picking === 'start' ? startTime : endTime}
+        minimumTime={picking === 'end' ? startTime : undefined}
+        maximumTime={Date.now()}
+        onConfirm={handlePicked}
+        onCancel={() => setPicking(null)}
+      />
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  container: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 36,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  timeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  timeLabel: {
+    width: 70,
+    fontSize: 15,
+    color: '#6b7280',
+  },
+  timeValue: {
+    flex: 1,
+    fontSize: 15,
+    color: '#1f2937',
+    fontWeight: '500',
+  },
+  duration: {
+    marginTop: 14,
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  saving: {
+    marginTop: 20,
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    marginRight: 'auto',
+  },
+  deleteText: {
+    marginLeft: 4,
+    fontSize: 15,
+    color: '#ef4444',
+  },
+  saveButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 24,
+    borderRadius: 20,
+    backgroundColor: '#6366f1',
+  },
+  saveText: {
+    fontSize: 16,
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+});
+
+export default SessionEditor;
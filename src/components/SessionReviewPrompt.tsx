@@ -0,0 +1,189 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  ShitSession,
+  SessionValidationError,
+  confirmSessionEnd,
+  getSessionsNeedingReview
+} from '../services/database/sessionService';
+import { getSessionController } from '../services/session/sessionController';
+import SessionTimePicker from './SessionTimePicker';
+
+interface SessionReviewPromptProps {
+  userId: string | null;
+}
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+const formatDay = (time: number) =>
+  new Date(time).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+
+const getCloseReason = (session: ShitSession) =>
+  session.endedBy === 'timedOut'
+    ? 'it reached the maximum length'
+    : 'the app stopped running';
+
+// Asks the user to confirm or correct the end time of sessions the app
+// closed on its own, one at a time
+const SessionReviewPrompt: React.FC<SessionReviewPromptProps> = ({ userId }) => {
+  const [sessions, setSessions] = useState<ShitSession[]>([]);
+  const [pickerVisible, setPickerVisible] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const loadSessions = useCallback(async () => {
+    if (!userId) {
+      setSessions([]);
+      return;
+    }
+
+    try {
+      setSessions(await getSessionsNeedingReview(userId));
+    } catch (error) {
+      // Logged by the service; asked again on the next launch
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadSessions();
+
+    // Sessions are auto-closed on launch and when the app comes back, so
+    // look again whenever one ends
+    let wasRunning = getSessionController().getState().phase !== 'idle';
+    return getSessionController().subscribe((state) => {
+      const isRunning = state.phase !== 'idle';
+      if (wasRunning && !isRunning) {
+        loadSessions();
+      }
+      wasRunning = isRunning;
+    });
+  }, [loadSessions]);
+
+  const session = sessions[0];
+
+  const handleConfirm = async (endTime: number) => {
+    if (!userId || !session) return;
+
+    setPickerVisible(false);
+    setSaving(true);
+    try {
+      await confirmSessionEnd(userId, session.startTime, endTime);
+      setSessions(prev => prev.filter(item => item.startTime !== session.startTime));
+    } catch (error) {
+      if (error instanceof SessionValidationError) {
+        Alert.alert('Invalid Time', error.message);
+      } else {
+        Alert.alert('Error', 'Failed to save the session. Please try again.');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!session) return null;
+
+  return (
+    <>
+      <Modal
+        visible={!pickerVisible}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => handleConfirm(session.endTime)}
+      >
+        <View style={styles.overlay}>
+          <View style={styles.container}>
+            <Ionicons name="time-outline" size={36} color="#6366f1" />
+            <Text style={styles.title}>We ended a session for you</Text>
+            <Text style={styles.message}>
+              Your session on {formatDay(session.startTime)} from {formatTime(session.startTime)} was
+              ended at {formatTime(session.endTime)} because {getCloseReason(session)}. Is that when
+              you finished?
+            </Text>
+            {saving ? (
+              <ActivityIndicator color="#6366f1" style={styles.saving} />
+            ) : (
+              <View style={styles.buttons}>
+                <TouchableOpacity style={styles.button} onPress={() => setPickerVisible(true)}>
+                  <Text style={styles.changeText}>Change End Time</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.button, styles.confirmButton]}
+                  onPress={() => handleConfirm(session.endTime)}
+                >
+                  <Text style={styles.confirmText}>That's Right</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        </View>
+      </Modal>
+      <SessionTimePicker
+        visible={pickerVisible}
+        title="When did it end?"
+        value={session.endTime}
+        minimumTime={session.startTime}
+        maximumTime={Date.now()}
+        onConfirm={handleConfirm}
+        onCancel={() => setPickerVisible(false)}
+      />
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    width: '85%',
+    backgroundColor: '#fff',
+    borderRadius: 20,
+    padding: 20,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginTop: 10,
+    marginBottom: 8,
+  },
+  message: {
+    fontSize: 15,
+    color: '#4b5563',
+    textAlign: 'center',
+    lineHeight: 21,
+  },
+  saving: {
+    marginTop: 20,
+  },
+  buttons: {
+    flexDirection: 'row',
+    marginTop: 20,
+  },
+  button: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    marginHorizontal: 4,
+  },
+  confirmButton: {
+    backgroundColor: '#6366f1',
+  },
+  changeText: {
+    fontSize: 15,
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  confirmText: {
+    fontSize: 15,
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+});
+
+export default SessionReviewPrompt;
@@ -0,0 +1,142 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, Platform } from 'react-native';
+import DateTimePicker, { DateTimePickerAndroid } from '@react-native-community/datetimepicker';
+
+interface SessionTimePickerProps {
+  visible: boolean;
+  title: string;
+  value: number; // Epoch ms
+  minimumTime?: number;
+  maximumTime?: number;
+  onConfirm: (time: number) => void;
+  onCancel: () => void;
+}
+
+// Picks when a session started or ended. Like ScheduleShweetPicker, Android
+// asks for the date and then the time.
+const SessionTimePicker: React.FC<SessionTimePickerProps> = ({
+  visible,
+  title,
+  value,
+  minimumTime,
+  maximumTime,
+  onConfirm,
+  onCancel
+}) => {
+  const [time, setTime] = useState(new Date(value));
+  const minimumDate = minimumTime ? new Date(minimumTime) : undefined;
+  const maximumDate = maximumTime ? new Date(maximumTime) : undefined;
+
+  useEffect(() => {
+    if (!visible) return;
+
+    const initial = new Date(value);
+    setTime(initial);
+
+    if (Platform.OS !== 'android') return;
+
+    DateTimePickerAndroid.open({
+      value: initial,
+      mode: 'date',
+      minimumDate,
+      maximumDate,
+      onChange: (dateEvent, date) => {
+        if (dateEvent.type !== 'set' || !date) {
+          onCancel();
+          return;
+        }
+
+        DateTimePickerAndroid.open({
+          value: date,
+          mode: 'time',
+          onChange: (timeEvent, dateTime) => {
+            if (timeEvent.type !== 'set' || !dateTime) {
+              onCancel();
+              return;
+            }
+            onConfirm(dateTime.getTime());
+          },
+        });
+      },
+    });
+  }, [visible]);
+
+  if (Platform.OS === 'android') return null;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <Text style={styles.title}>{title}</Text>
+          <DateTimePicker
+            value={time}
+            mode="datetime"
+            display="inline"
+            minimumDate={minimumDate}
+            maximumDate={maximumDate}
+            onChange={(event, date) => date && setTime(date)}
+          />
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.button} onPress={onCancel}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.button, styles.confirmButton]} onPress={() => onConfirm(time.getTime())}>
+              <Text style={styles.confirmText}>Done</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    width: '90%',
+    backgroundColor: '#fff',
+    borderRadius: 20,
+    padding: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 8,
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  button: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 20,
+    marginLeft: 8,
+  },
+  confirmButton: {
+    backgroundColor: '#6366f1',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  confirmText: {
+    fontSize: 16,
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+});
+
+export default SessionTimePicker;
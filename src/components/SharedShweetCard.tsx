@@ -0,0 +1,115 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Image } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../navigation/types';
+import { SharedShweet } from '../services/database/shweetService';
+import { formatTimestamp } from '../utils/formatTimestamp';
+import ShweetContent from './ShweetContent';
+import ShweetMediaGrid from './ShweetMediaGrid';
+
+interface SharedShweetCardProps {
+  shared: SharedShweet | null; // Null once the shared shweet is deleted
+}
+
+// The shweet a reshweet or quote-shweet shares, opening it when tapped
+const SharedShweetCard: React.FC<SharedShweetCardProps> = ({ shared }) => {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+
+  if (!shared) {
+    return (
+      <View style={[styles.card, styles.tombstone]}>
+        <Ionicons name="trash-outline" size={16} color="#9ca3af" />
+        <Text style={styles.tombstoneText}>This shweet has been deleted</Text>
+      </View>
+    );
+  }
+
+  return (
+    <TouchableOpacity
+      style={styles.card}
+      onPress={() => navigation.push('ShweetDetails', { shweetId: shared.id })}
+      activeOpacity={0.7}
+    >
+      <View style={styles.authorInfo}>
+        {shared.authorPhotoURL ? (
+          <Image source={{ uri: shared.authorPhotoURL }} style={styles.avatar} />
+        ) : (
+          <View style={styles.defaultAvatar}>
+            <Text style={styles.avatarText}>{shared.authorName.charAt(0)}</Text>
+          </View>
+        )}
+        <Text style={styles.authorName} numberOfLines={1}>{shared.authorName}</Text>
+        <Text style={styles.timestamp}>{formatTimestamp(shared.timestamp)}</Text>
+      </View>
+      {!!shared.content && (
+        <ShweetContent style={styles.content} content={shared.content} entities={shared.entities} numberOfLines={6} />
+      )}
+      <ShweetMediaGrid media={shared.media} />
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginTop: 10,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    padding: 12,
+  },
+  tombstone: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f9fafb',
+  },
+  tombstoneText: {
+    fontSize: 14,
+    color: '#9ca3af',
+    marginLeft: 6,
+  },
+  authorInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  avatar: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    marginRight: 6,
+  },
+  defaultAvatar: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    backgroundColor: '#6366f1',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 6,
+  },
+  avatarText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: 'bold',
+  },
+  authorName: {
+    flexShrink: 1,
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginRight: 6,
+  },
+  timestamp: {
+    fontSize: 12,
+    color: '#9ca3af',
+  },
+  content: {
+    fontSize: 15,
+    color: '#1f2937',
+    lineHeight: 20,
+  },
+});
+
+export default SharedShweetCard;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { Text, StyleSheet, Linking, Alert, StyleProp, TextStyle } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../navigation/types';
+import { ShweetEntity, splitContent } from '../utils/shweetEntities';
+
+interface ShweetContentProps {
+  content: string;
+  entities?: ShweetEntity[];
+  style?: StyleProp<TextStyle>;
+  numberOfLines?: number;
+}
+
+// Shweet text with its mentions, hashtags and links tappable
+const ShweetContent: React.FC<ShweetContentProps> = ({ content, entities, style, numberOfLines }) => {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+
+  const handlePress = (entity: ShweetEntity) => {
+    if (entity.type === 'mention') {
+      navigation.push('UserProfile', { userId: entity.userId });
+    } else if (entity.type === 'hashtag') {
+      navigation.push('HashtagFeed', { tag: entity.tag });
+    } else {
+      Linking.openURL(entity.url).catch(error => {
+        console.error('Error opening link:', error);
+        Alert.alert('Error', 'Could not open this link.');
+      });
+    }
+  };
+
+  return (
+    <Text style={style} numberOfLines={numberOfLines}>
+      {splitContent(content, entities).map((segment, index) => (
+        segment.entity ? (
+          <Text
+            key={index}
+            style={segment.entity.type === 'url' ? styles.link : styles.entity}
+            onPress={() => handlePress(segment.entity!)}
+          >
+            {segment.text}
+          </Text>
+        ) : (
+          segment.text
+        )
+      ))}
+    </Text>
+  );
+};
+
+const styles = StyleSheet.create({
+  entity: {
+    color: '#6366f1',
+    fontWeight: '600',
+  },
+  link: {
+    color: '#6366f1',
+    textDecorationLine: 'underline',
+  },
+});
+
+export default ShweetContent;
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Image } from 'expo-image';
+import { ShweetMedia } from '../services/storage/shweetMediaService';
+import MediaViewer from './MediaViewer';
+
+interface ShweetMediaGridProps {
+  media: ShweetMedia[];
+}
+
+// A single image keeps its shape within limits; several share a square grid
+const SINGLE_MIN_ASPECT_RATIO = 0.75;
+const SINGLE_MAX_ASPECT_RATIO = 2;
+
+const ShweetMediaGrid: React.FC<ShweetMediaGridProps> = ({ media }) => {
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+
+  if (!media.length) return null;
+
+  const renderImage = (item: ShweetMedia, index: number, style: object) => (
+    <TouchableOpacity key={item.path} style={style} onPress={() => setViewerIndex(index)} activeOpacity={0.8}>
+      <Image
+        source={{ uri: item.url }}
+        placeholder={item.blurhash ? { blurhash: item.blurhash } : undefined}
+        style={styles.image}
+        contentFit="cover"
+        transition={200}
+      />
+      {item.type === 'gif' && (
+        <View style={styles.gifBadge}>
+          <Text style={styles.gifBadgeText}>GIF</Text>
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+
+  let grid;
+  if (media.length === 1) {
+    const aspectRatio = Math.min(
+      SINGLE_MAX_ASPECT_RATIO,
+      Math.max(SINGLE_MIN_ASPECT_RATIO, media[0].width / (media[0].height || 1))
+    );
+    grid = renderImage(media[0], 0, [styles.tile, { aspectRatio }]);
+  } else {
+    // Two or four images fill rows of two; with three the first spans the left
+    const columns = media.length === 3
+      ? [[media[0]], [media[1], media[2]]]
+      : [media.filter((_, index) => index % 2 === 0), media.filter((_, index) => index % 2 === 1)];
+
+    grid = (
+      <View style={styles.grid}>
+        {columns.map((column, columnIndex) => (
+          <View key={columnIndex} style={styles.column}>
+            {column.map(item => renderImage(item, media.indexOf(item), styles.cell))}
+          </View>
+        ))}
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {grid}
+      <MediaViewer
+        media={media}
+        initialIndex={viewerIndex ?? 0}
+        visible={viewerIndex !== null}
+        onClose={() => setViewerIndex(null)}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 10,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  grid: {
+    flexDirection: 'row',
+    aspectRatio: 16 / 9,
+    gap: 2,
+  },
+  column: {
+    flex: 1,
+    gap: 2,
+  },
+  tile: {
+    width: '100%',
+    backgroundColor: '#e5e7eb',
+  },
+  cell: {
+    flex: 1,
+    backgroundColor: '#e5e7eb',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+  gifBadge: {
+    position: 'absolute',
+    left: 8,
+    bottom: 8,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderRadius: 4,
+    paddingHorizontal: 5,
+    paddingVertical: 2,
+  },
+  gifBadgeText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: 'bold',
+  },
+});
+
+export default ShweetMediaGrid;
@@ -0,0 +1,66 @@
+import React, { useEffect, useRef } from 'react';
+import { Text, StyleSheet, TouchableOpacity, Animated } from 'react-native';
+
+interface UndoToastProps {
+  message: string;
+  visible: boolean;
+  onUndo: () => void;
+}
+
+// A bar at the bottom of the screen offering to undo the last action
+const UndoToast: React.FC<UndoToastProps> = ({ message, visible, onUndo }) => {
+  const opacity = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    Animated.timing(opacity, {
+      toValue: visible ? 1 : 0,
+      duration: 200,
+      useNativeDriver: true,
+    }).start();
+  }, [visible, opacity]);
+
+  return (
+    <Animated.View style={[styles.toast, { opacity }]} pointerEvents={visible ? 'auto' : 'none'}>
+      <Text style={styles.message}>{message}</Text>
+      <TouchableOpacity onPress={onUndo} style={styles.undoButton}>
+        <Text style={styles.undoText}>Undo</Text>
+      </TouchableOpacity>
+    </Animated.View>
+  );
+};
+
+const styles = StyleSheet.create({
+  toast: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#1f2937',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  message: {
+    color: '#fff',
+    fontSize: 15,
+  },
+  undoButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  undoText: {
+    color: '#a5b4fc',
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+});
+
+export default UndoToast;
@@ -8,6 +8,7 @@ import { Ionicons } from '@expo/vector-icons';
 interface Props {
   game: WordleGameType;
   onQuit: () => void;
+  disabled?: boolean;
 }
 
 const QWERTY_LAYOUT = [
@@ -16,7 +17,7 @@ const QWERTY_LAYOUT = [
   ['ENTER', 'Z', 'X', 'C', 'V', 'B', 'N', 'M', '⌫']
 ];
 
-const WordleGame: React.FC<Props> = ({ game, onQuit }) => {
+const WordleGame: React.FC<Props> = ({ game, onQuit, disabled = false }) => {
   const { userData } = useAuth();
   const [currentGuess, setCurrentGuess] = useState('');
   const [error, setError] = useState<string | null>(null);
@@ -50,7 +51,7 @@ const WordleGame: React.FC<Props> = ({ game, onQuit }) => {
   }, [game.currentTurn, game.status]);
 
   const handleKeyPress = async (key: string) => {
-    if (game.status !== 'active' || !userData) return;
+    if (disabled || game.status !== 'active' || !userData) return;
     if (playerGuesses.guesses.length >= game.maxGuesses) return;
     if (!isPlayerTurn) {
       setError("It's your opponent's turn");
@@ -68,7 +69,7 @@ const WordleGame: React.FC<Props> = ({ game, onQuit }) => {
       }
 
       try {
-        await makeMove(game.id!, userData.uid, currentGuess);
+        await makeMove(game.id!, userData.uid, currentGuess, game.moveCount);
         setCurrentGuess('');
       } catch (err) {
         setError((err as Error).message);
@@ -140,7 +141,7 @@ const WordleGame: React.FC<Props> = ({ game, onQuit }) => {
           <View key={rowIndex} style={styles.keyboardRow}>
             {row.map((key) => {
               const isWide = key === 'ENTER' || key === '⌫';
-              const isDisabled = !isPlayerTurn || game.status !== 'active';
+              const isDisabled = disabled || !isPlayerTurn || game.status !== 'active';
               
               // Customize key colors based on state
               let keyBgColor = '#3a3a3c';
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, LayoutChangeEvent } from 'react-native';
+import Svg, { Rect, Text as SvgText, Line } from 'react-native-svg';
+
+export interface BarChartItem {
+  label: string;
+  value: number;
+}
+
+interface BarChartProps {
+  data: BarChartItem[];
+  height?: number;
+  color?: string;
+  highlightLast?: boolean; // Draw the last bar darker, e.g. for the current period
+}
+
+const LABEL_HEIGHT = 18;
+const VALUE_HEIGHT = 16;
+const BAR_GAP = 0.3; // Share of each slot left empty between bars
+
+// Vertical bars with the label under each and the value above it, sized to
+// the width it's given
+const BarChart: React.FC<BarChartProps> = ({
+  data,
+  height = 160,
+  color = '#a5b4fc',
+  highlightLast = false
+}) => {
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const maxValue = Math.max(1, ...data.map(item => item.value));
+  const chartHeight = height - LABEL_HEIGHT - VALUE_HEIGHT;
+  const slotWidth = data.length ? width / data.length : 0;
+  const barWidth = slotWidth * (1 - BAR_GAP);
+  // Skip labels when they'd run into each other
+  const labelEvery = Math.max(1, Math.ceil(data.length / Math.max(1, Math.floor(width / 28))));
+
+  return (
+    <View style={[styles.container, { height }]} onLayout={handleLayout}>
+      {width > 0 && (
+        <Svg width={width} height={height}>
+          <Line
+            x1={0}
+            y1={VALUE_HEIGHT + chartHeight}
+            x2={width}
+            y2={VALUE_HEIGHT + chartHeight}
+            stroke="#e5e7eb"
+            strokeWidth={1}
+          />
+          {data.map((item, index) => {
+            const barHeight = (item.value / maxValue) * chartHeight;
+            const x = index * slotWidth + (slotWidth - barWidth) / 2;
+            const y = VALUE_HEIGHT + chartHeight - barHeight;
+            const isHighlighted = highlightLast && index === data.length - 1;
+
+            return (
+              <React.Fragment key={`${item.label}-${index}`}>
+                <Rect
+                  x={x}
+                  y={y}
+                  width={barWidth}
+                  height={barHeight}
+                  rx={3}
+                  fill={isHighlighted ? '#6366f1' : color}
+                />
+                {item.value > 0 && (
+                  <SvgText
+                    x={x + barWidth / 2}
+                    y={y - 4}
+                    fontSize={10}
+                    fill="#6b7280"
+                    textAnchor="middle"
+                  >
+                    {item.value}
+                  </SvgText>
+                )}
+                {index % labelEvery === 0 && (
+                  <SvgText
+                    x={x + barWidth / 2}
+                    y={height - 4}
+                    fontSize={10}
+                    fill="#6b7280"
+                    textAnchor="middle"
+                  >
+                    {item.label}
+                  </SvgText>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </Svg>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+});
+
+export default BarChart;
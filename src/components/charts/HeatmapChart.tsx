@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, LayoutChangeEvent } from 'react-native';
+import Svg, { Rect, Text as SvgText } from 'react-native-svg';
+
+interface HeatmapChartProps {
+  values: number[][]; // [row][column]
+  rowLabels: string[];
+  columnLabels: { [column: number]: string }; // Only the columns to label
+  color?: string; // For the busiest cell; quieter cells fade towards white
+}
+
+const ROW_LABEL_WIDTH = 20;
+const COLUMN_LABEL_HEIGHT = 16;
+const CELL_GAP = 2;
+
+// A grid of cells shaded by value, such as sessions by weekday and hour
+const HeatmapChart: React.FC<HeatmapChartProps> = ({
+  values,
+  rowLabels,
+  columnLabels,
+  color = '#6366f1'
+}) => {
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const columns = values[0]?.length || 0;
+  const cellSize = columns ? (width - ROW_LABEL_WIDTH) / columns : 0;
+  const height = values.length * cellSize + COLUMN_LABEL_HEIGHT;
+  const maxValue = Math.max(1, ...values.map(row => Math.max(...row)));
+
+  return (
+    <View style={styles.container} onLayout={handleLayout}>
+      {width > 0 && (
+        <Svg width={width} height={height}>
+          {values.map((row, rowIndex) => (
+            <React.Fragment key={rowIndex}>
+              <SvgText
+                x={0}
+                y={rowIndex * cellSize + cellSize / 2 + 4}
+                fontSize={10}
+                fill="#6b7280"
+              >
+                {rowLabels[rowIndex]}
+              </SvgText>
+              {row.map((value, columnIndex) => (
+                <Rect
+                  key={columnIndex}
+                  x={ROW_LABEL_WIDTH + columnIndex * cellSize}
+                  y={rowIndex * cellSize}
+                  width={Math.max(cellSize - CELL_GAP, 0)}
+                  height={Math.max(cellSize - CELL_GAP, 0)}
+                  rx={2}
+                  fill={value > 0 ? color : '#f3f4f6'}
+                  fillOpacity={value > 0 ? 0.2 + 0.8 * (value / maxValue) : 1}
+                />
+              ))}
+            </React.Fragment>
+          ))}
+          {Object.entries(columnLabels).map(([column, label]) => (
+            <SvgText
+              key={column}
+              x={ROW_LABEL_WIDTH + Number(column) * cellSize}
+              y={height - 3}
+              fontSize={10}
+              fill="#6b7280"
+            >
+              {label}
+            </SvgText>
+          ))}
+        </Svg>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+});
+
+export default HeatmapChart;
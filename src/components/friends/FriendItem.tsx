@@ -6,13 +6,19 @@ import { FriendData } from '../../types/friend';
 interface FriendItemProps {
   friend: FriendData;
   onRemoveFriend: (friendId: string) => void;
+  onPress?: (friendId: string) => void;
 }
 
-const FriendItem: React.FC<FriendItemProps> = ({ friend, onRemoveFriend }) => {
+const FriendItem: React.FC<FriendItemProps> = ({ friend, onRemoveFriend, onPress }) => {
   const { id, displayName, photoURL, isShitting } = friend;
   
   return (
-    <View style={styles.friendItem}>
+    <TouchableOpacity 
+      style={styles.friendItem}
+      onPress={() => onPress?.(id)}
+      disabled={!onPress}
+      activeOpacity={0.7}
+    >
       <View style={styles.avatarContainer}>
         {photoURL ? (
           <Image source={{ uri: photoURL }} style={styles.avatar} />
@@ -43,7 +49,7 @@ const FriendItem: React.FC<FriendItemProps> = ({ friend, onRemoveFriend }) => {
       >
         <Ionicons name="remove-circle" size={24} color="#8e8e93" />
       </TouchableOpacity>
-    </View>
+    </TouchableOpacity>
   );
 };
 
@@ -17,6 +17,7 @@ interface FriendsListProps {
   refreshing?: boolean;
   onRefresh?: () => void;
   onRemoveFriend: (friendId: string) => void;
+  onFriendPress?: (friendId: string) => void;
   onAddFriendPress?: () => void;
   hideHeader?: boolean;
   tabType?: 'all' | 'online' | 'requests';
@@ -28,6 +29,7 @@ const FriendsList: React.FC<FriendsListProps> = ({
   refreshing = false, 
   onRefresh, 
   onRemoveFriend,
+  onFriendPress,
   onAddFriendPress,
   hideHeader = false,
   tabType = 'all'
@@ -68,6 +70,7 @@ const FriendsList: React.FC<FriendsListProps> = ({
             <FriendItem 
               friend={item} 
               onRemoveFriend={onRemoveFriend} 
+              onPress={onFriendPress}
             />
           )}
           keyExtractor={item => item.id}
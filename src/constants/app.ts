@@ -11,10 +11,9 @@ export const APP_STATE = {
 export const STORAGE_KEYS = {
   AUTH_USER: '@ShitApp:authUser',
   USER_DATA: '@ShitApp:userData',
-  LAST_ACTIVE_TIMESTAMP: '@ShitApp:lastActiveTimestamp',
-  SHITTING_STATE: '@ShitApp:isShitting',
-  APP_STATE: '@ShitApp:appState',
+  SESSION_STATE: '@ShitApp:sessionState',
   SESSION_ID: '@ShitApp:sessionId',
+  PENDING_SHWEETS: '@ShitApp:pendingShweets',
 };
 
 // Time constants (in milliseconds)
@@ -25,6 +24,10 @@ export const TIME = {
   ONE_HOUR: 60 * 60 * 1000,
   APP_CLOSURE_THRESHOLD: 30 * 1000, // 30 seconds for app closure detection
   STATUS_UPDATE_INTERVAL: 5000, // 5 seconds for status updates
+  MAX_SESSION_DURATION: 60 * 60 * 1000, // Sessions still running after an hour are closed
+  SESSION_HEARTBEAT_INTERVAL: 60 * 1000, // 1 minute between published heartbeats of a running session
+  SESSION_HEARTBEAT_TIMEOUT: 3 * 60 * 1000, // 3 minutes without a published heartbeat marks a session stale
+  SCHEDULED_SHWEETS_CHECK_INTERVAL: 30 * 1000, // 30 seconds between checks for due shweets
 };
 
 // API endpoints
@@ -8,11 +8,12 @@ import {
   updateProfile,
   AuthErrorCodes,
 } from 'firebase/auth';
-import { ref, set, onValue, onDisconnect, get } from 'firebase/database';
+import { ref, set, update, onValue, onDisconnect, serverTimestamp } from 'firebase/database';
 import { doc, setDoc, getDoc, updateDoc, collection } from 'firebase/firestore';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 
 import { auth, firestore, database } from '../firebase/config';
+import { SessionEndSource } from '../services/database/sessionService';
+import { getSessionController } from '../services/session/sessionController';
 
 // Generate a unique session ID for this app instance
 const sessionId = Math.random().toString(36).substring(2);
@@ -48,7 +49,7 @@ interface AuthContextType {
   register: (email: string, password: string, displayName: string) => Promise<void>;
   login: (email: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
-  updateUserStatus: (isShitting: boolean) => Promise<void>;
+  updateUserStatus: (isShitting: boolean, endedBy?: SessionEndSource) => Promise<void>;
   updateUserProfile: (displayName: string, photoURL: string) => Promise<void>;
 }
 
@@ -76,10 +77,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       if (user) {
         // Set online status in Realtime Database
         const userStatusRef = ref(database, `status/${user.uid}`);
+        // lastChanged is filled in by the server when the disconnect happens;
+        // games use it to tell how long a player has been gone
         const isOfflineForDatabase = {
           isOnline: false,
           isShitting: false,
-          lastChanged: Date.now(),
+          lastChanged: serverTimestamp(),
         };
         const isOnlineForDatabase = {
           isOnline: true,
@@ -97,11 +100,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             // When we disconnect, update the status to offline AND reset shitting status
             onDisconnect(statusRef).set(isOfflineForDatabase);
             
-            // Set our status to online
-            set(statusRef, isOnlineForDatabase);
+            // Set our status to online, then publish a running session
+            // again since the disconnect handler cleared it
+            update(statusRef, isOnlineForDatabase)
+              .then(() => getSessionController().syncStatus())
+              .catch(error => console.error('Error updating online status:', error));
           }
         });
 
+        // Pick up a session left running, e.g. when the app was killed
+        getSessionController().restore(user.uid).catch(error => {
+          console.error('Error restoring session:', error);
+        });
+
         // Get user data from Firestore
         const userDocRef = doc(firestore, 'users', user.uid);
         const userDoc = await getDoc(userDocRef);
@@ -212,24 +223,21 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       // Update status in both Firestore and Realtime Database
       const currentTime = Date.now();
       
-      // 1. Reset shitting status in Realtime Database
+      // Mark this app instance online. The session fields are left to the
+      // session controller, which restores a running session on sign in.
       const statusRef = ref(database, `status/${userCredential.user.uid}`);
-      const statusSnapshot = await get(statusRef);
-      const statusData = statusSnapshot.exists() ? statusSnapshot.val() : {};
       
-      await set(statusRef, {
+      await update(statusRef, {
         isOnline: true,
-        isShitting: false,
         lastActive: currentTime,
-        lastShitStartTime: null,
-        sessions: { ...(statusData.sessions || {}), [sessionId]: true }
+        [`sessions/${sessionId}`]: true,
       });
       
       // Set up disconnect handler to remove this session and reset status when disconnected
       const statusResetData = {
         isOnline: false,
         isShitting: false,
-        lastChanged: currentTime,
+        lastChanged: serverTimestamp(),
       };
       onDisconnect(ref(database, `status/${userCredential.user.uid}`)).update(statusResetData);
       onDisconnect(ref(database, `status/${userCredential.user.uid}/sessions/${sessionId}`)).remove();
@@ -259,6 +267,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     try {
       // Set status to offline before signing out
       if (currentUser) {
+        // A session still running when signing out ends here
+        await getSessionController().reset();
+        
         await set(ref(database, `status/${currentUser.uid}`), {
           isOnline: false,
           isShitting: false,
@@ -275,98 +286,26 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }
 
   // Update user status (shitting or not)
-  async function updateUserStatus(isShitting: boolean) {
+  async function updateUserStatus(isShitting: boolean, endedBy: SessionEndSource = 'user') {
     if (!currentUser) return;
     
     try {
-      const currentTime = Date.now();
-      
-      // 1. Update the Realtime Database status
-      const statusRef = ref(database, `status/${currentUser.uid}`);
-      const statusSnapshot = await get(statusRef);
-      const statusData = statusSnapshot.exists() ? statusSnapshot.val() : {};
+      const controller = getSessionController();
       
       if (isShitting) {
-        // Starting a shit session
-        await set(statusRef, {
-          isOnline: true,
-          isShitting: true,
-          lastActive: currentTime,
-          lastShitStartTime: currentTime,
-          sessions: { ...(statusData.sessions || {}), [sessionId]: true }
-        });
+        await controller.start(currentUser.uid);
       } else {
-        // Ending a shit session
-        const currentStatus = statusSnapshot.val();
-        
-        if (currentStatus?.lastShitStartTime) {
-          const shitDuration = currentTime - currentStatus.lastShitStartTime;
-          
-          // Only count shits that are at least 2 minutes long
-          const MIN_SHIT_DURATION = 120000; // 2 minutes in milliseconds
-          
-          // First update Firestore with the stats if eligible
-          const userDocRef = doc(firestore, 'users', currentUser.uid);
-          const userDoc = await getDoc(userDocRef);
-          const userData = userDoc.data() as UserData;
-          
-          // Important: Update Firestore first and wait for it to complete before updating RTDB
-          if (shitDuration >= MIN_SHIT_DURATION) {
-            // Update statistics in Firestore
-            const totalShits = (userData.totalShits || 0) + 1;
-            const totalShitDuration = (userData.totalShitDuration || 0) + shitDuration;
-            const averageShitDuration = totalShitDuration / totalShits;
-            
-            console.log(`Updating stats: Duration=${shitDuration}ms, Total=${totalShits}`);
-            
-            // Wait for the Firestore update to complete before updating RTDB
-            await updateDoc(userDocRef, {
-              totalShits,
-              totalShitDuration,
-              averageShitDuration,
-            });
-          } else {
-            console.log(`Shit duration (${shitDuration}ms) less than minimum (${MIN_SHIT_DURATION}ms), not counting towards stats`);
-          }
-          
-          // Only update RTDB after Firestore update is complete
-          // This prevents race conditions where RTDB triggers a refresh before Firestore completes
-          await set(statusRef, {
-            isOnline: true,
-            isShitting: false,
-            lastActive: currentTime,
-            lastShitStartTime: null,
-            sessions: { ...(statusData.sessions || {}), [sessionId]: true }
-          });
-        } else {
-          // No shit in progress, just update status
-          await set(statusRef, {
-            isOnline: true,
-            isShitting: false,
-            lastActive: currentTime,
-            lastShitStartTime: null,
-            sessions: { ...(statusData.sessions || {}), [sessionId]: true }
-          });
-        }
+        await controller.end(currentUser.uid, endedBy);
       }
       
       // Setup disconnect handler to remove this session and reset status when the app closes
       const statusResetData = {
         isOnline: false,
         isShitting: false,
-        lastChanged: currentTime,
+        lastChanged: serverTimestamp(),
       };
       onDisconnect(ref(database, `status/${currentUser.uid}`)).update(statusResetData);
       onDisconnect(ref(database, `status/${currentUser.uid}/sessions/${sessionId}`)).remove();
-      
-      // Update AsyncStorage for our app state management
-      try {
-        await AsyncStorage.setItem('@ShitApp:isShitting', isShitting ? 'true' : 'false');
-        await AsyncStorage.setItem('@ShitApp:lastActiveTimestamp', currentTime.toString());
-      } catch (storageError) {
-        console.error('Error updating AsyncStorage:', storageError);
-      }
-      
     } catch (error) {
       console.error('Error updating user status:', error);
       throw error;
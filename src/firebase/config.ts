@@ -2,6 +2,7 @@ import { initializeApp } from 'firebase/app';
 import { initializeAuth, getReactNativePersistence } from 'firebase/auth';
 import { initializeFirestore, persistentLocalCache, persistentSingleTabManager } from 'firebase/firestore';
 import { getDatabase } from 'firebase/database';
+import { getStorage } from 'firebase/storage';
 import Constants from 'expo-constants';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
@@ -71,4 +72,6 @@ const firestore = initializeFirestore(app, {
 
 const database = getDatabase(app);
 
-export { app, auth, firestore, database }; 
\ No newline at end of file
+const storage = getStorage(app);
+
+export { app, auth, firestore, database, storage }; 
\ No newline at end of file
@@ -0,0 +1,271 @@
+import { ChessGame, GameResultReason } from '../services/database/gameService';
+import { getServerTimestamp } from '../services/database/serverTimeService';
+import {
+  ChessMoveInput,
+  ChessPosition,
+  PROMOTION_PIECES,
+  Square,
+  applyMove,
+  createInitialPosition,
+  getOutcome,
+  getPositionKey,
+  hasMatingMaterial,
+  inferCastlingRights,
+  parseSquareKey,
+  squareKey
+} from '../utils/chessRules';
+import { fenToPosition, positionToFen } from '../utils/chessNotation';
+import { GameRules } from './types';
+import { createPlayerMap, getOpponentId, replayStartFields } from './helpers';
+
+export interface ChessTimeControl {
+  initialSeconds: number;
+  incrementSeconds: number; // Added to the mover's clock after each move
+}
+
+export type ChessTimeControlId = 'bullet1' | 'bullet2' | 'blitz3' | 'blitz5';
+
+// Time controls offered when inviting someone to Toilet Chess
+export const CHESS_TIME_CONTROLS: { [id in ChessTimeControlId]: ChessTimeControl & { label: string } } = {
+  bullet1: { label: 'Bullet 1+0', initialSeconds: 60, incrementSeconds: 0 },
+  bullet2: { label: 'Bullet 2+1', initialSeconds: 120, incrementSeconds: 1 },
+  blitz3: { label: 'Blitz 3+2', initialSeconds: 180, incrementSeconds: 2 },
+  blitz5: { label: 'Blitz 5+0', initialSeconds: 300, incrementSeconds: 0 }
+};
+
+export const DEFAULT_CHESS_TIME_CONTROL: ChessTimeControlId = 'bullet1';
+
+// Build the rules-engine position for a chess game (players[0] plays white)
+export const getChessPosition = (game: ChessGame): ChessPosition => ({
+  board: game.board,
+  turn: game.currentTurn === game.players[0] ? 'white' : 'black',
+  castlingRights: game.castlingRights,
+  enPassantSquare: game.enPassantSquare ? parseSquareKey(game.enPassantSquare) : null,
+  halfmoveClock: game.halfmoveClock,
+  fullmoveNumber: game.fullmoveNumber
+});
+
+// Current position of a chess game as FEN
+export const getChessFen = (game: ChessGame): string => positionToFen(getChessPosition(game));
+
+// Seconds left on a player's clock at the given server time. Only the player
+// on move is running down.
+export const getRemainingSeconds = (game: ChessGame, playerId: string, serverNowMillis: number): number => {
+  const stored = game.timeRemaining?.[playerId] ?? 0;
+  if (game.status !== 'active' || game.currentTurn !== playerId || !game.lastMoveTime) {
+    return stored;
+  }
+  
+  const elapsed = (serverNowMillis - game.lastMoveTime.toMillis()) / 1000;
+  return Math.max(0, stored - elapsed);
+};
+
+// Result when the player on move runs out of time. The game is drawn if the
+// opponent could never mate anyway.
+export const getTimeoutResult = (game: ChessGame, opponentId: string) => {
+  const opponentColor = opponentId === game.players[0] ? 'white' : 'black';
+  
+  if (!hasMatingMaterial(game.board, opponentColor)) {
+    return { status: 'completed' as const, winner: 'draw', resultReason: 'timeoutVsInsufficientMaterial' as GameResultReason };
+  }
+  
+  return { status: 'completed' as const, winner: opponentId, resultReason: 'timeout' as GameResultReason };
+};
+
+const isSquare = (value: unknown): value is Square =>
+  Array.isArray(value) && value.length === 2 && value.every(Number.isInteger);
+
+// A move is the squares a piece moves between, with the piece a pawn
+// promotes to; the rules engine decides whether it's legal
+const toChessMoveInput = (move: unknown): ChessMoveInput => {
+  if (typeof move !== 'object' || move === null || !('from' in move) || !('to' in move)) {
+    throw new Error('Invalid move format');
+  }
+  
+  const { from, to } = move;
+  if (!isSquare(from) || !isSquare(to)) {
+    throw new Error('Invalid move format');
+  }
+  
+  const requested = 'promotion' in move ? move.promotion : null;
+  const promotion = PROMOTION_PIECES.find(piece => piece === requested);
+  if (requested != null && !promotion) {
+    throw new Error('Invalid promotion piece');
+  }
+  return { from, to, ...(promotion ? { promotion } : {}) };
+};
+
+export const chessRules: GameRules<ChessGame> = {
+  type: 'chess',
+  turnBased: true,
+  // The chess clock already handles slow players
+  inactivity: { offlineGraceMs: 2 * 60 * 1000 },
+
+  // Games can start from a FEN (e.g. puzzle positions); players[0] always plays white
+  createInitialState: (players, setup) => {
+    const initialPosition = setup?.fen ? fenToPosition(setup.fen) : createInitialPosition();
+    const { label, ...timeControl } = CHESS_TIME_CONTROLS[setup?.timeControl as ChessTimeControlId]
+      || CHESS_TIME_CONTROLS[DEFAULT_CHESS_TIME_CONTROL];
+    
+    return {
+      currentTurn: initialPosition.turn === 'white' ? players[0] : players[1],
+      board: initialPosition.board,
+      captures: createPlayerMap(players, () => [] as string[]),
+      moves: [],
+      timeRemaining: createPlayerMap(players, () => timeControl.initialSeconds),
+      timeControl,
+      lastMoveTime: getServerTimestamp(),
+      castlingRights: initialPosition.castlingRights,
+      enPassantSquare: initialPosition.enPassantSquare ? squareKey(initialPosition.enPassantSquare) : null,
+      halfmoveClock: initialPosition.halfmoveClock,
+      fullmoveNumber: initialPosition.fullmoveNumber,
+      positionHistory: [getPositionKey(initialPosition)],
+      drawOffer: null,
+      ...(setup?.fen ? { initialFen: positionToFen(initialPosition) } : {})
+    };
+  },
+
+  fromDoc: (data) => ({
+    board: data.board,
+    captures: data.captures,
+    moves: data.moves,
+    timeRemaining: data.timeRemaining,
+    lastMoveTime: data.lastMoveTime,
+    timeControl: data.timeControl || CHESS_TIME_CONTROLS[DEFAULT_CHESS_TIME_CONTROL],
+    // Games created before the rules engine lack these fields
+    castlingRights: data.castlingRights || inferCastlingRights(data.board || {}),
+    enPassantSquare: data.enPassantSquare ?? null,
+    halfmoveClock: data.halfmoveClock ?? 0,
+    fullmoveNumber: data.fullmoveNumber ?? Math.floor((data.moves?.length || 0) / 2) + 1,
+    positionHistory: data.positionHistory || [],
+    drawOffer: data.drawOffer ?? null,
+    ...(data.initialFen ? { initialFen: data.initialFen } : {})
+  }),
+
+  applyMove: (game, playerId, move) => {
+    // Clock math uses server time so neither phone's clock matters
+    const now = getServerTimestamp();
+    const timeRemaining = {
+      ...game.timeRemaining,
+      [playerId]: getRemainingSeconds(game, playerId, now.toMillis())
+    };
+    
+    const opponentId = getOpponentId(game, playerId)!;
+    
+    // If player ran out of time, they lost; nothing is recorded
+    if (timeRemaining[playerId] <= 0) {
+      return {
+        updates: {
+          ...getTimeoutResult(game, opponentId),
+          timeRemaining,
+          lastUpdated: now
+        },
+        recordedMove: null
+      };
+    }
+    
+    // Increment is earned once the move is made
+    timeRemaining[playerId] += game.timeControl.incrementSeconds;
+    
+    // Validate the move against the rules engine; the board is always
+    // derived here rather than taken from the client
+    const position = getChessPosition(game);
+    const { position: nextPosition, move: appliedMove } = applyMove(position, toChessMoveInput(move));
+    
+    const captures = { ...game.captures };
+    if (appliedMove.captured) {
+      captures[playerId] = [...(captures[playerId] || []), appliedMove.captured];
+    }
+    
+    // Older games have no history yet, so seed it with the current position
+    const positionHistory = game.positionHistory.length > 0
+      ? [...game.positionHistory, getPositionKey(nextPosition)]
+      : [getPositionKey(position), getPositionKey(nextPosition)];
+    
+    const updates: Partial<ChessGame> = {
+      board: nextPosition.board,
+      captures,
+      moves: [...game.moves, appliedMove.san],
+      timeRemaining,
+      lastMoveTime: now,
+      currentTurn: opponentId,
+      castlingRights: nextPosition.castlingRights,
+      enPassantSquare: nextPosition.enPassantSquare ? squareKey(nextPosition.enPassantSquare) : null,
+      halfmoveClock: nextPosition.halfmoveClock,
+      fullmoveNumber: nextPosition.fullmoveNumber,
+      positionHistory,
+      lastUpdated: now
+    };
+    
+    // Moving instead of answering declines the opponent's draw offer
+    if (game.drawOffer && game.drawOffer !== playerId) {
+      updates.drawOffer = null;
+    }
+    
+    return {
+      updates,
+      recordedMove: {
+        from: appliedMove.from,
+        to: appliedMove.to,
+        san: appliedMove.san,
+        ...(appliedMove.promotion ? { promotion: appliedMove.promotion } : {})
+      }
+    };
+  },
+
+  // Checkmate, stalemate and the draw rules; the side that just moved wins a mate
+  evaluateResult: (game) => {
+    const outcome = getOutcome(getChessPosition(game), game.positionHistory);
+    if (!outcome) return null;
+    
+    return {
+      winner: outcome.result === 'checkmate' ? getOpponentId(game, game.currentTurn)! : 'draw',
+      resultReason: outcome.result
+    };
+  },
+
+  // Same time control and starting position as the finished game
+  getRematchSetup: (game) => {
+    const timeControl = (Object.keys(CHESS_TIME_CONTROLS) as ChessTimeControlId[]).find(id =>
+      CHESS_TIME_CONTROLS[id].initialSeconds === game.timeControl?.initialSeconds &&
+      CHESS_TIME_CONTROLS[id].incrementSeconds === game.timeControl?.incrementSeconds
+    );
+
+    return {
+      ...(timeControl ? { timeControl } : {}),
+      ...(game.initialFen ? { fen: game.initialFen } : {})
+    };
+  },
+
+  getReplayStart: (game) => {
+    const position = game.initialFen ? fenToPosition(game.initialFen) : createInitialPosition();
+    return {
+      ...game,
+      ...replayStartFields,
+      board: position.board,
+      captures: createPlayerMap(game.players, () => [] as string[]),
+      moves: [],
+      castlingRights: position.castlingRights,
+      enPassantSquare: position.enPassantSquare ? squareKey(position.enPassantSquare) : null,
+      halfmoveClock: position.halfmoveClock,
+      fullmoveNumber: position.fullmoveNumber,
+      drawOffer: null
+    };
+  },
+
+  replayMove: (frame, { playerId, move }) => {
+    const { position: next, move: applied } = applyMove(getChessPosition({ ...frame, currentTurn: playerId }), toChessMoveInput(move));
+    return {
+      ...frame,
+      board: next.board,
+      captures: applied.captured
+        ? { ...frame.captures, [playerId]: [...(frame.captures[playerId] || []), applied.captured] }
+        : frame.captures,
+      moves: [...frame.moves, applied.san],
+      castlingRights: next.castlingRights,
+      enPassantSquare: next.enPassantSquare ? squareKey(next.enPassantSquare) : null,
+      halfmoveClock: next.halfmoveClock,
+      fullmoveNumber: next.fullmoveNumber
+    };
+  }
+};
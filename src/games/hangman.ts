@@ -0,0 +1,147 @@
+import { HangmanGame } from '../services/database/gameService';
+import { getRandomWord } from '../services/database/wordService';
+import { GameRules } from './types';
+import { createPlayerMap, getOpponentId, replayStartFields } from './helpers';
+
+const STARTING_LIVES = 6;
+
+const hasSolved = (word: string, guessedLetters: string[]): boolean =>
+  [...new Set(word.split(''))].every(letter => guessedLetters.includes(letter));
+
+// A move is a single letter, in either case
+const toLetter = (move: unknown): string => {
+  const letter = typeof move === 'string' ? move.toUpperCase() : '';
+  if (!/^[A-Z]$/.test(letter)) {
+    throw new Error('Invalid letter');
+  }
+  return letter;
+};
+
+export const hangmanRules: GameRules<HangmanGame> = {
+  type: 'hangman',
+  turnBased: true,
+  inactivity: { moveTimeoutMs: 5 * 60 * 1000, offlineGraceMs: 2 * 60 * 1000 },
+
+  // Each player gets their own word to guess
+  createInitialState: (players) => ({
+    words: createPlayerMap(players, () => getRandomWord()),
+    guessedLetters: createPlayerMap(players, () => [] as string[]),
+    remainingLives: createPlayerMap(players, () => STARTING_LIVES),
+    finishedGuessing: createPlayerMap(players, () => false)
+  }),
+
+  fromDoc: (data) => ({
+    words: data.words,
+    guessedLetters: data.guessedLetters,
+    remainingLives: data.remainingLives,
+    finishedGuessing: data.finishedGuessing
+  }),
+
+  applyMove: (game, playerId, move) => {
+    const letter = toLetter(move);
+    
+    // Get player's word and currently guessed letters
+    const playerWord = game.words?.[playerId];
+    if (!playerWord) {
+      throw new Error('Word not found for player');
+    }
+    
+    const playerGuessedLetters = [...(game.guessedLetters?.[playerId] || [])];
+    
+    // Check if letter was already guessed
+    if (playerGuessedLetters.includes(letter)) {
+      throw new Error('Letter already guessed');
+    }
+    
+    const opponentId = getOpponentId(game, playerId);
+    if (!opponentId) {
+      throw new Error('Opponent not found');
+    }
+    
+    playerGuessedLetters.push(letter);
+    
+    const updates: Partial<HangmanGame> = {
+      guessedLetters: {
+        ...(game.guessedLetters || {}),
+        [playerId]: playerGuessedLetters
+      }
+    };
+    
+    // A wrong letter costs a life
+    const playerLives = (game.remainingLives?.[playerId] || STARTING_LIVES) - (playerWord.includes(letter) ? 0 : 1);
+    if (!playerWord.includes(letter)) {
+      updates.remainingLives = {
+        ...(game.remainingLives || {}),
+        [playerId]: playerLives
+      };
+    }
+    
+    // Player is finished once they've guessed all letters or run out of lives
+    const finishedGuessing = { ...(game.finishedGuessing || {}) };
+    if (hasSolved(playerWord, playerGuessedLetters) || playerLives <= 0) {
+      finishedGuessing[playerId] = true;
+    }
+    
+    const playerFinished = finishedGuessing[playerId] || false;
+    const opponentFinished = finishedGuessing[opponentId] || false;
+    
+    if (!playerFinished && !opponentFinished && (game.remainingLives?.[opponentId] ?? 0) <= 0) {
+      // Opponent has no lives left - mark them as finished and keep the turn
+      finishedGuessing[opponentId] = true;
+      updates.currentTurn = playerId;
+    } else if (!playerFinished && opponentFinished) {
+      // Opponent is done, the player keeps guessing until they finish
+      updates.currentTurn = playerId;
+    } else {
+      updates.currentTurn = opponentId;
+    }
+    
+    if (finishedGuessing[playerId] !== game.finishedGuessing?.[playerId] ||
+        finishedGuessing[opponentId] !== game.finishedGuessing?.[opponentId]) {
+      updates.finishedGuessing = finishedGuessing;
+    }
+    
+    return { updates, recordedMove: letter };
+  },
+
+  // Once a player has finished, they win as soon as the other player is left
+  // with fewer lives; when both are done the player with more lives wins
+  evaluateResult: (game) => {
+    const [player1, player2] = game.players;
+    const lives1 = game.remainingLives?.[player1] ?? 0;
+    const lives2 = game.remainingLives?.[player2] ?? 0;
+    const finished1 = game.finishedGuessing?.[player1] || false;
+    const finished2 = game.finishedGuessing?.[player2] || false;
+    
+    if (finished1 && finished2) {
+      if (lives1 === lives2) return { winner: 'draw' };
+      return { winner: lives1 > lives2 ? player1 : player2 };
+    }
+    
+    if (finished1 && lives2 < lives1) return { winner: player1 };
+    if (finished2 && lives1 < lives2) return { winner: player2 };
+    
+    return null;
+  },
+
+  getReplayStart: (game) => ({
+    ...game,
+    ...replayStartFields,
+    guessedLetters: createPlayerMap(game.players, () => [] as string[]),
+    remainingLives: createPlayerMap(game.players, () => STARTING_LIVES),
+    finishedGuessing: createPlayerMap(game.players, () => false)
+  }),
+
+  replayMove: (frame, { playerId, move }) => {
+    const word = frame.words[playerId] || '';
+    const letter = toLetter(move);
+    const guessed = [...(frame.guessedLetters[playerId] || []), letter];
+    const lives = (frame.remainingLives[playerId] ?? STARTING_LIVES) - (word.includes(letter) ? 0 : 1);
+    return {
+      ...frame,
+      guessedLetters: { ...frame.guessedLetters, [playerId]: guessed },
+      remainingLives: { ...frame.remainingLives, [playerId]: lives },
+      finishedGuessing: { ...frame.finishedGuessing, [playerId]: hasSolved(word, guessed) || lives <= 0 }
+    };
+  }
+};
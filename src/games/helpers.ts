@@ -0,0 +1,16 @@
+import { Game } from '../services/database/gameService';
+
+// Build a { [playerId]: value } map with a fresh value per player
+export const createPlayerMap = <T>(players: string[], value: () => T): { [playerId: string]: T } =>
+  players.reduce((acc, player) => ({ ...acc, [player]: value() }), {});
+
+export const getOpponentId = (game: Game, playerId: string): string | undefined =>
+  game.players.find(p => p !== playerId);
+
+// Fields shared by every game type that a replay start frame resets
+export const replayStartFields = {
+  status: 'active' as const,
+  winner: undefined,
+  resultReason: undefined,
+  moveCount: 0
+};
@@ -0,0 +1,55 @@
+import { Game } from '../services/database/gameService';
+import { GameRules } from './types';
+
+// A player's presence as kept in the Realtime Database at status/{uid}
+export interface PlayerPresence {
+  isOnline: boolean;
+  lastChanged: number; // Server time in ms of the last online/offline change
+}
+
+export type ForfeitReason = 'quit' | 'inactivity' | 'disconnected';
+
+export interface InactivityForfeit {
+  forfeitedBy: string | null; // null when every player went quiet
+  reason: ForfeitReason;
+}
+
+// Players the game is waiting on to move
+export const getWaitingOn = (game: Game, rules: GameRules): string[] => {
+  if (rules.getWaitingOn) {
+    return rules.getWaitingOn(game);
+  }
+  return rules.turnBased ? [game.currentTurn] : game.players;
+};
+
+// Who forfeits an active game under its inactivity rule, or null while
+// everyone is still around. Going offline is checked before slow moves.
+export const getInactivityForfeit = (
+  game: Game,
+  rules: GameRules,
+  presence: { [playerId: string]: PlayerPresence | null },
+  serverNowMillis: number
+): InactivityForfeit | null => {
+  const { moveTimeoutMs, offlineGraceMs } = rules.inactivity;
+  if (game.status !== 'active') {
+    return null;
+  }
+
+  if (offlineGraceMs !== undefined) {
+    const offline = game.players.filter(playerId => {
+      const playerPresence = presence[playerId];
+      return !!playerPresence && !playerPresence.isOnline &&
+        serverNowMillis - playerPresence.lastChanged >= offlineGraceMs;
+    });
+    if (offline.length > 0) {
+      return { forfeitedBy: offline.length === 1 ? offline[0] : null, reason: 'disconnected' };
+    }
+  }
+
+  if (moveTimeoutMs !== undefined && serverNowMillis - game.lastUpdated.toMillis() >= moveTimeoutMs) {
+    const waitingOn = getWaitingOn(game, rules);
+    return { forfeitedBy: waitingOn.length === 1 ? waitingOn[0] : null, reason: 'inactivity' };
+  }
+
+  return null;
+};
@@ -0,0 +1,167 @@
+import { Timestamp } from 'firebase/firestore';
+import { MemoryGame } from '../services/database/gameService';
+import { getServerNow } from '../services/database/serverTimeService';
+import { GameRules } from './types';
+import { createPlayerMap, getOpponentId, replayStartFields } from './helpers';
+
+// 8 pairs for the 4x4 board
+const CARD_EMOJIS = ['💩', '🧻', '🚽', '🧼', '🧴', '🚿', '🛁', '🪠'];
+
+// How long a missed pair stays face up
+const REVEAL_DURATION_MS = 3000;
+
+// A move is the index of a card on the board
+const toCardIndex = (game: MemoryGame, move: unknown): number => {
+  if (typeof move !== 'number' || !Number.isInteger(move) || move < 0 || move >= game.cards.length) {
+    throw new Error('Invalid card index');
+  }
+  return move;
+};
+
+// A missed pair stays face up until revealUntil. Past that point the pair
+// counts as flipped back, whether or not anyone has written that down yet,
+// so the game can't get stuck waiting on one phone.
+export const isRevealingMiss = (game: MemoryGame, serverNowMillis: number): boolean =>
+  (game.flippedCards || []).length >= 2 &&
+  !!game.revealUntil &&
+  game.revealUntil.toMillis() > serverNowMillis;
+
+// Cards that are face up (besides matched pairs) at the given server time
+export const getFaceUpCards = (game: MemoryGame, serverNowMillis: number): number[] => {
+  const flippedCards = game.flippedCards || [];
+  if (flippedCards.length < 2) return flippedCards;
+  return isRevealingMiss(game, serverNowMillis) ? flippedCards : [];
+};
+
+// Shuffle the pairs using Fisher-Yates algorithm
+const shuffle = <T>(items: T[]): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+export const memoryRules: GameRules<MemoryGame> = {
+  type: 'memory',
+  turnBased: true,
+  inactivity: { moveTimeoutMs: 5 * 60 * 1000, offlineGraceMs: 2 * 60 * 1000 },
+
+  createInitialState: (players) => ({
+    cards: shuffle([...CARD_EMOJIS, ...CARD_EMOJIS]),
+    flippedCards: [],
+    matchedPairs: [],
+    scores: createPlayerMap(players, () => 0),
+    revealUntil: null
+  }),
+
+  fromDoc: (data) => ({
+    cards: data.cards,
+    flippedCards: data.flippedCards,
+    matchedPairs: data.matchedPairs,
+    scores: data.scores,
+    lastFlip: data.lastFlip,
+    revealUntil: data.revealUntil ?? null,
+    // Older games locked the board and relied on a timer on the mover's phone
+    // to hand the turn over; treat those reveals as finished
+    ...(data.locked && data.nextTurn ? { currentTurn: data.nextTurn } : {})
+  }),
+
+  applyMove: (game, playerId, move) => {
+    const now = getServerNow();
+    
+    // Wait until a missed pair has been shown for long enough
+    if (isRevealingMiss(game, now)) {
+      throw new Error('Cards are still being revealed');
+    }
+    
+    const cardIndex = toCardIndex(game, move);
+    
+    const flippedCards = getFaceUpCards(game, now);
+    const matchedPairs = game.matchedPairs || [];
+    
+    // Check if the card is already flipped or matched
+    if (flippedCards.includes(cardIndex) || matchedPairs.includes(cardIndex)) {
+      throw new Error('Card already flipped or matched');
+    }
+    
+    const newFlippedCards = [...flippedCards, cardIndex];
+    const updates: Partial<MemoryGame> = {
+      flippedCards: newFlippedCards,
+      lastFlip: cardIndex,
+      revealUntil: null
+    };
+    
+    if (newFlippedCards.length < 2) {
+      return { updates };
+    }
+    
+    const [firstCard, secondCard] = newFlippedCards;
+    
+    // Match found - the player scores and gets another turn
+    if (game.cards[firstCard] === game.cards[secondCard]) {
+      return {
+        updates: {
+          ...updates,
+          flippedCards: [],
+          matchedPairs: [...matchedPairs, firstCard, secondCard],
+          scores: {
+            ...(game.scores || {}),
+            [playerId]: (game.scores?.[playerId] || 0) + 1
+          },
+          currentTurn: playerId
+        }
+      };
+    }
+    
+    // No match - both cards stay face up until revealUntil, then it's the
+    // other player's turn
+    return {
+      updates: {
+        ...updates,
+        currentTurn: getOpponentId(game, playerId),
+        revealUntil: Timestamp.fromMillis(now + REVEAL_DURATION_MS)
+      }
+    };
+  },
+
+  // Game is over once every card is matched; most pairs wins
+  evaluateResult: (game) => {
+    if (!game.cards?.length || (game.matchedPairs || []).length < game.cards.length) {
+      return null;
+    }
+    
+    const [player1, player2] = game.players;
+    const player1Score = game.scores?.[player1] || 0;
+    const player2Score = game.scores?.[player2] || 0;
+    
+    if (player1Score === player2Score) return { winner: 'draw' };
+    return { winner: player1Score > player2Score ? player1 : player2 };
+  },
+
+  getReplayStart: (game) => ({
+    ...game,
+    ...replayStartFields,
+    flippedCards: [],
+    matchedPairs: [],
+    scores: createPlayerMap(game.players, () => 0),
+    revealUntil: null
+  }),
+
+  replayMove: (frame, { playerId, move }) => {
+    const cardIndex = toCardIndex(frame, move);
+    // A missed pair stays face up until the next flip
+    const flipped = frame.flippedCards.length >= 2 ? [cardIndex] : [...frame.flippedCards, cardIndex];
+    if (flipped.length === 2 && frame.cards[flipped[0]] === frame.cards[flipped[1]]) {
+      return {
+        ...frame,
+        flippedCards: [],
+        matchedPairs: [...frame.matchedPairs, ...flipped],
+        scores: { ...frame.scores, [playerId]: (frame.scores[playerId] || 0) + 1 },
+        lastFlip: cardIndex
+      };
+    }
+    return { ...frame, flippedCards: flipped, lastFlip: cardIndex };
+  }
+};
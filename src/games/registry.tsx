@@ -0,0 +1,169 @@
+import React from 'react';
+import {
+  ChessGame,
+  Game,
+  GameType,
+  HangmanGame,
+  MemoryGame,
+  RPSGame,
+  TicTacToeGame,
+  WordleGame,
+  claimChessTimeout,
+  offerChessDraw,
+  respondToChessDraw
+} from '../services/database/gameService';
+import TicTacToeBoard from '../components/TicTacToeGame';
+import RPSBoard from '../components/RPSGame';
+import WordleBoard from '../components/WordleGame';
+import HangmanBoard from '../components/HangmanGame';
+import MemoryBoard from '../components/MemoryGame';
+import ChessBoard from '../components/ChessGame';
+import ChessTimeControlPicker from '../components/ChessTimeControlPicker';
+import ChessPgnShareButton from '../components/ChessPgnShareButton';
+import HangmanWordReveal from '../components/HangmanWordReveal';
+import { GameBoardProps, GameDefinition, GameListing, GameResultDetailsProps } from './types';
+import { getGameRules, isGameType } from './rules';
+import { tictactoeRules } from './tictactoe';
+import { rpsRules } from './rps';
+import { wordleRules } from './wordle';
+import { hangmanRules } from './hangman';
+import { memoryRules } from './memory';
+import { chessRules } from './chess';
+
+// Chess has in-game actions besides moves; they go straight to the service
+const ChessGameBoard: React.FC<GameBoardProps<ChessGame>> = ({ game, userId, onMove, disabled, reviewing }) => {
+  const runAction = (label: string, action: () => Promise<void>) => {
+    action().catch(error => {
+      console.error(`Error ${label}:`, error);
+    });
+  };
+
+  return (
+    <ChessBoard
+      game={game}
+      onMove={onMove}
+      disabled={disabled}
+      reviewing={reviewing}
+      onOfferDraw={() => runAction('offering draw', () => offerChessDraw(game.id!, userId))}
+      onRespondToDraw={(accept) => runAction('responding to draw offer', () => respondToChessDraw(game.id!, userId, accept))}
+      onClaimTimeout={() => runAction('claiming timeout', () => claimChessTimeout(game.id!, userId))}
+    />
+  );
+};
+
+const tictactoe: GameDefinition<TicTacToeGame> = {
+  id: 'tictactoe',
+  title: 'Tic Tac Toe',
+  description: 'Classic game with custom markers (💩 vs 🧻)',
+  icon: 'grid',
+  color: '#10b981',
+  rules: tictactoeRules,
+  Board: ({ game, onMove, disabled }) => <TicTacToeBoard game={game} onMove={onMove} disabled={disabled} />
+};
+
+const rps: GameDefinition<RPSGame> = {
+  id: 'rps',
+  title: 'Rock Paper Scissors',
+  description: 'Themed choices: Poop, Toilet Paper, Plunger',
+  icon: 'hand-right',
+  color: '#6366f1',
+  rules: rpsRules,
+  Board: ({ game, userId, onMove, disabled }) => (
+    <RPSBoard game={game} userId={userId} onMove={onMove} disabled={disabled} />
+  )
+};
+
+const hangman: GameDefinition<HangmanGame> = {
+  id: 'hangman',
+  title: 'Hangman',
+  description: 'Guess the word before you run out of toilet paper',
+  icon: 'man',
+  color: '#ef4444',
+  rules: hangmanRules,
+  Board: ({ game, onMove, disabled }) => <HangmanBoard game={game} onMove={onMove} disabled={disabled} />,
+  ResultDetails: HangmanWordReveal
+};
+
+const chess: GameDefinition<ChessGame> = {
+  id: 'chess',
+  title: 'Toilet Chess',
+  description: 'Classic chess with bullet and blitz time controls',
+  icon: 'trophy',
+  color: '#0891b2',
+  rules: chessRules,
+  Board: ChessGameBoard,
+  ResultDetails: ChessPgnShareButton,
+  InviteOptions: ChessTimeControlPicker
+};
+
+const wordle: GameDefinition<WordleGame> = {
+  id: 'wordle',
+  title: 'Turdle',
+  description: 'Guess the bathroom-themed word in 6 tries',
+  icon: 'text',
+  color: '#f59e0b',
+  comingSoon: true,
+  rules: wordleRules,
+  Board: ({ game, onQuit, disabled }) => <WordleBoard game={game} onQuit={onQuit} disabled={disabled} />
+};
+
+const memory: GameDefinition<MemoryGame> = {
+  id: 'memory',
+  title: 'Memory Match',
+  description: 'Find matching pairs of poop-themed cards',
+  icon: 'copy',
+  color: '#8b5cf6',
+  rules: memoryRules,
+  Board: ({ game, onMove, disabled }) => <MemoryBoard game={game} onMove={onMove} disabled={disabled} />
+};
+
+// One game type's definition, made usable with any game so it can be looked
+// up by type. Its board and result details only render games of that type.
+const forAnyGame = <G extends Game>({ rules, Board, ResultDetails, ...listing }: GameDefinition<G>): GameDefinition => {
+  const isDefinitionGame = (game: Game): game is G => game.type === rules.type;
+
+  return {
+    ...listing,
+    rules: getGameRules(rules.type),
+    Board: (props: GameBoardProps) => isDefinitionGame(props.game) ? <Board {...props} game={props.game} /> : null,
+    ...(ResultDetails ? {
+      ResultDetails: (props: GameResultDetailsProps) =>
+        isDefinitionGame(props.game) ? <ResultDetails {...props} game={props.game} /> : null
+    } : {})
+  };
+};
+
+// Every playable game type, in the order the games list shows them.
+// Flip comingSoon off to ship a game.
+const GAME_DEFINITIONS: { [type in GameType]: GameDefinition } = {
+  tictactoe: forAnyGame(tictactoe),
+  rps: forAnyGame(rps),
+  hangman: forAnyGame(hangman),
+  chess: forAnyGame(chess),
+  wordle: forAnyGame(wordle),
+  memory: forAnyGame(memory)
+};
+
+// Announced games that don't have an implementation yet
+const UPCOMING_GAMES: GameListing[] = [
+  {
+    id: 'geography',
+    title: 'Toilet Traveler',
+    description: 'Guess the country from toilet-themed clues',
+    icon: 'globe',
+    color: '#06b6d4',
+  }
+];
+
+export const getGameDefinition = (type: string): GameDefinition | null =>
+  isGameType(type) ? GAME_DEFINITIONS[type] : null;
+
+export const getAvailableGames = (): GameDefinition[] =>
+  Object.values(GAME_DEFINITIONS).filter(definition => !definition.comingSoon);
+
+export const getComingSoonGames = (): GameListing[] => [
+  ...Object.values(GAME_DEFINITIONS).filter(definition => definition.comingSoon),
+  ...UPCOMING_GAMES
+];
+
+export const getGameTitle = (type: string): string => getGameDefinition(type)?.title || 'Game';
@@ -0,0 +1,90 @@
+import { RPSGame } from '../services/database/gameService';
+import { GameRules } from './types';
+import { createPlayerMap, replayStartFields } from './helpers';
+
+type RPSChoice = 'poop' | 'toilet_paper' | 'plunger';
+
+const CHOICES: RPSChoice[] = ['poop', 'toilet_paper', 'plunger'];
+
+const toChoice = (move: unknown): RPSChoice => {
+  const choice = CHOICES.find(option => option === move);
+  if (!choice) {
+    throw new Error('Invalid move');
+  }
+  return choice;
+};
+
+// Poop beats toilet paper, toilet paper beats plunger, plunger beats poop
+const determineWinner = (choices: RPSGame['choices'], players: string[]): string | null => {
+  const [player1, player2] = players;
+  const choice1 = choices[player1];
+  const choice2 = choices[player2];
+
+  if (!choice1 || !choice2) {
+    return null;
+  }
+
+  if (choice1 === choice2) {
+    return 'draw';
+  }
+
+  if (
+    (choice1 === 'poop' && choice2 === 'toilet_paper') ||
+    (choice1 === 'toilet_paper' && choice2 === 'plunger') ||
+    (choice1 === 'plunger' && choice2 === 'poop')
+  ) {
+    return player1;
+  }
+
+  return player2;
+};
+
+export const rpsRules: GameRules<RPSGame> = {
+  type: 'rps',
+  // Both players choose at the same time
+  turnBased: false,
+  inactivity: { moveTimeoutMs: 2 * 60 * 1000, offlineGraceMs: 2 * 60 * 1000 },
+
+  getWaitingOn: (game) => game.players.filter(player => !game.choices[player]),
+
+  createInitialState: (players) => ({
+    choices: createPlayerMap(players, () => null)
+  }),
+
+  fromDoc: (data) => ({
+    choices: data.choices
+  }),
+
+  applyMove: (game, playerId, move) => {
+    const choice = toChoice(move);
+    
+    if (game.choices[playerId]) {
+      throw new Error('Choice already made');
+    }
+    
+    return {
+      updates: {
+        choices: {
+          ...game.choices,
+          [playerId]: choice
+        }
+      }
+    };
+  },
+
+  evaluateResult: (game) => {
+    const winner = determineWinner(game.choices, game.players);
+    return winner ? { winner } : null;
+  },
+
+  getReplayStart: (game) => ({
+    ...game,
+    ...replayStartFields,
+    choices: createPlayerMap(game.players, () => null)
+  }),
+
+  replayMove: (frame, { playerId, move }) => ({
+    ...frame,
+    choices: { ...frame.choices, [playerId]: toChoice(move) }
+  })
+};
@@ -0,0 +1,55 @@
+import { Game, GameType } from '../services/database/gameService';
+import { GameRules } from './types';
+import { tictactoeRules } from './tictactoe';
+import { rpsRules } from './rps';
+import { wordleRules } from './wordle';
+import { hangmanRules } from './hangman';
+import { memoryRules } from './memory';
+import { chessRules } from './chess';
+
+// One game type's rules, made usable with any game so they can be looked up
+// by type. Each game is checked to be of that type before it's passed on.
+const forAnyGame = <G extends Game>(rules: GameRules<G>): GameRules & { type: G['type'] } => {
+  const isRulesGame = (game: Game): game is G => game.type === rules.type;
+  const narrow = (game: Game): G => {
+    if (!isRulesGame(game)) {
+      throw new Error(`Expected a ${rules.type} game, got ${game.type}`);
+    }
+    return game;
+  };
+  const { getWaitingOn, getRematchSetup } = rules;
+
+  return {
+    type: rules.type,
+    turnBased: rules.turnBased,
+    inactivity: rules.inactivity,
+    ...(getWaitingOn ? { getWaitingOn: (game: Game) => getWaitingOn(narrow(game)) } : {}),
+    createInitialState: rules.createInitialState,
+    fromDoc: rules.fromDoc,
+    applyMove: (game, playerId, move) => rules.applyMove(narrow(game), playerId, move),
+    evaluateResult: (game) => rules.evaluateResult(narrow(game)),
+    ...(getRematchSetup ? { getRematchSetup: (game: Game) => getRematchSetup(narrow(game)) } : {}),
+    getReplayStart: (game) => rules.getReplayStart(narrow(game)),
+    replayMove: (frame, record) => rules.replayMove(narrow(frame), record)
+  };
+};
+
+// Game logic for every game type. gameService and the replay viewer look
+// games up here instead of switching on the type.
+const GAME_RULES: { [type in GameType]: GameRules & { type: type } } = {
+  tictactoe: forAnyGame(tictactoeRules),
+  rps: forAnyGame(rpsRules),
+  wordle: forAnyGame(wordleRules),
+  hangman: forAnyGame(hangmanRules),
+  memory: forAnyGame(memoryRules),
+  chess: forAnyGame(chessRules)
+};
+
+export const isGameType = (type: string): type is GameType => type in GAME_RULES;
+
+export const getGameRules = (type: string): GameRules => {
+  if (!isGameType(type)) {
+    throw new Error(`Unknown game type: ${type}`);
+  }
+  return GAME_RULES[type];
+};
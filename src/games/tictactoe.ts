@@ -0,0 +1,83 @@
+import { TicTacToeGame } from '../services/database/gameService';
+import { GameRules } from './types';
+import { getOpponentId, replayStartFields } from './helpers';
+
+const LINES = [
+  [0, 1, 2], [3, 4, 5], [6, 7, 8], // rows
+  [0, 3, 6], [1, 4, 7], [2, 5, 8], // columns
+  [0, 4, 8], [2, 4, 6] // diagonals
+];
+
+// Winner's player ID, 'draw' for a full board, or null while the game is on
+const checkWinner = (board: (string | null)[]): string | null => {
+  for (const line of LINES) {
+    const [a, b, c] = line;
+    if (board[a] && board[a] === board[b] && board[a] === board[c]) {
+      return board[a];
+    }
+  }
+  
+  // Check for draw
+  if (!board.includes(null)) {
+    return 'draw';
+  }
+  
+  return null;
+};
+
+// A move is the index of an empty cell on the board
+const toCellIndex = (move: unknown): number => {
+  if (typeof move !== 'number' || !Number.isInteger(move) || move < 0 || move >= 9) {
+    throw new Error('Invalid move');
+  }
+  return move;
+};
+
+export const tictactoeRules: GameRules<TicTacToeGame> = {
+  type: 'tictactoe',
+  turnBased: true,
+  inactivity: { moveTimeoutMs: 5 * 60 * 1000, offlineGraceMs: 2 * 60 * 1000 },
+
+  createInitialState: () => ({
+    board: Array(9).fill(null)
+  }),
+
+  fromDoc: (data) => ({
+    board: data.board
+  }),
+
+  applyMove: (game, playerId, move) => {
+    // Check if the position is valid and empty
+    const cell = toCellIndex(move);
+    if (game.board[cell] !== null) {
+      throw new Error('Invalid move');
+    }
+    
+    const board = [...game.board];
+    board[cell] = playerId;
+    
+    return {
+      updates: {
+        board,
+        currentTurn: getOpponentId(game, playerId)
+      }
+    };
+  },
+
+  evaluateResult: (game) => {
+    const winner = checkWinner(game.board);
+    return winner ? { winner } : null;
+  },
+
+  getReplayStart: (game) => ({
+    ...game,
+    ...replayStartFields,
+    board: Array(9).fill(null)
+  }),
+
+  replayMove: (frame, { playerId, move }) => {
+    const board = [...frame.board];
+    board[toCellIndex(move)] = playerId;
+    return { ...frame, board };
+  }
+};
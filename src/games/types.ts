@@ -0,0 +1,106 @@
+import React from 'react';
+import { Ionicons } from '@expo/vector-icons';
+import { DocumentData } from 'firebase/firestore';
+import {
+  BaseGame,
+  Game,
+  GameMoveRecord,
+  GameOptions,
+  GameResultReason
+} from '../services/database/gameService';
+
+// Fields a game type adds on top of BaseGame
+export type GameState<G extends Game> = Omit<G, keyof BaseGame>;
+
+// Options a game can be created with (invite options plus setup data such as a FEN)
+export interface GameSetup extends GameOptions {
+  fen?: string;
+}
+
+// Result of a finished game as decided by a game's result evaluator
+export interface GameResult {
+  winner: string; // Player ID or 'draw'
+  resultReason?: GameResultReason;
+}
+
+// When a game with a silent player is forfeited. Either limit can be left out.
+export interface GameInactivityRule {
+  moveTimeoutMs?: number;  // The player the game is waiting on hasn't moved for this long
+  offlineGraceMs?: number; // A player's presence has been offline for this long
+}
+
+// What a move does to the game document
+export interface MoveOutcome<G extends Game = Game> {
+  updates: Partial<G>;
+  recordedMove?: unknown; // Stored in the move history; defaults to the move as sent, null skips recording
+}
+
+// Game logic, free of React and Firestore, used by gameService and the replay viewer
+export interface GameRules<G extends Game = Game> {
+  type: G['type'];
+  turnBased: boolean; // false when players move simultaneously
+  inactivity: GameInactivityRule;
+
+  // Players the game is waiting on; defaults to currentTurn, or every player
+  // when moves are simultaneous
+  getWaitingOn?: (game: G) => string[];
+
+  // Type-specific fields for a new game; may override currentTurn
+  createInitialState: (players: string[], setup?: GameSetup) => GameState<G> & { currentTurn?: string };
+
+  // Type-specific fields read from a stored document, with defaults for older
+  // documents; may override currentTurn
+  fromDoc: (data: DocumentData) => GameState<G> & { currentTurn?: string };
+
+  // Validate a move and return the resulting updates. The move is whatever the
+  // client sent, so each game narrows it. Throws if the move is not allowed.
+  applyMove: (game: G, playerId: string, move: unknown) => MoveOutcome<G>;
+
+  // Winner of the game in the given state, or null while it is still going
+  evaluateResult: (game: G) => GameResult | null;
+
+  // Setup for a rematch of a finished game, e.g. the same time control.
+  // Seats are swapped by the invite; games without options can leave this out.
+  getRematchSetup?: (game: G) => GameSetup;
+
+  // Replay support: the state before any moves, and one recorded move applied to a frame
+  getReplayStart: (game: G) => G;
+  replayMove: (frame: G, record: GameMoveRecord) => G;
+}
+
+export interface GameBoardProps<G extends Game = Game> {
+  game: G;
+  userId: string;
+  onMove: (move: unknown) => void;
+  onQuit: () => void;
+  disabled: boolean;
+  reviewing: boolean; // Showing a replay frame rather than the live game
+}
+
+export interface GameResultDetailsProps<G extends Game = Game> {
+  game: G;
+  userId: string;
+}
+
+export interface GameInviteOptionsProps {
+  options: GameOptions;
+  onChange: (options: GameOptions) => void;
+}
+
+// Display metadata shown in the games list and invites
+export interface GameListing {
+  id: string;
+  title: string;
+  description: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  color: string;
+}
+
+// Everything the app needs to offer a game type
+export interface GameDefinition<G extends Game = Game> extends GameListing {
+  rules: GameRules<G>;
+  comingSoon?: boolean;
+  Board: React.ComponentType<GameBoardProps<G>>;
+  ResultDetails?: React.ComponentType<GameResultDetailsProps<G>>; // Extra content on the result screen
+  InviteOptions?: React.ComponentType<GameInviteOptionsProps>;     // Extra choices in the invite modal
+}
@@ -0,0 +1,160 @@
+import { Timestamp } from 'firebase/firestore';
+import { WordleGame } from '../services/database/gameService';
+import { getRandomWord } from '../services/database/wordService';
+import { GameRules } from './types';
+import { createPlayerMap, getOpponentId, replayStartFields } from './helpers';
+
+const MAX_GUESSES = 6;
+
+// A move is a five-letter guess, in either case
+const toGuess = (move: unknown): string => {
+  if (typeof move !== 'string' || move.length !== 5) {
+    throw new Error('Invalid move: guess must be a 5-letter word');
+  }
+  return move.toUpperCase();
+};
+
+// Greens are letters in the right spot, yellows are in the word elsewhere
+export const evaluateWordleGuess = (guess: string, targetWord: string): { greens: number[], yellows: number[] } => {
+  const result = { greens: [] as number[], yellows: [] as number[] };
+  const targetChars = targetWord.split('');
+  
+  // First pass: find direct matches (greens)
+  for (let i = 0; i < guess.length; i++) {
+    if (guess[i] === targetChars[i]) {
+      result.greens.push(i);
+      targetChars[i] = '#'; // Mark as used
+    }
+  }
+  
+  // Second pass: find partial matches (yellows)
+  for (let i = 0; i < guess.length; i++) {
+    if (!result.greens.includes(i)) {
+      const targetIndex = targetChars.indexOf(guess[i]);
+      if (targetIndex !== -1) {
+        result.yellows.push(i);
+        targetChars[targetIndex] = '#'; // Mark as used
+      }
+    }
+  }
+  
+  return result;
+};
+
+const determineWinner = (game: WordleGame): string | null => {
+  const [player1, player2] = game.players;
+  const p1Guesses = game.playerGuesses[player1];
+  const p2Guesses = game.playerGuesses[player2];
+
+  // Check if either player has guessed the word correctly
+  const p1LastGuess = p1Guesses.guesses[p1Guesses.guesses.length - 1];
+  const p2LastGuess = p2Guesses.guesses[p2Guesses.guesses.length - 1];
+
+  if (p1LastGuess === game.word) return player1;
+  if (p2LastGuess === game.word) return player2;
+
+  // If both players have used all guesses
+  if (p1Guesses.guesses.length === game.maxGuesses && p2Guesses.guesses.length === game.maxGuesses) {
+    const p1Greens = p1Guesses.results[p1Guesses.results.length - 1].greens.length;
+    const p2Greens = p2Guesses.results[p2Guesses.results.length - 1].greens.length;
+
+    if (p1Greens !== p2Greens) {
+      return p1Greens > p2Greens ? player1 : player2;
+    }
+
+    const p1Yellows = p1Guesses.results[p1Guesses.results.length - 1].yellows.length;
+    const p2Yellows = p2Guesses.results[p2Guesses.results.length - 1].yellows.length;
+
+    if (p1Yellows !== p2Yellows) {
+      return p1Yellows > p2Yellows ? player1 : player2;
+    }
+
+    // If still tied, compare finish times
+    if (game.finishTimes[player1] && game.finishTimes[player2]) {
+      return game.finishTimes[player1]!.seconds < game.finishTimes[player2]!.seconds ? player1 : player2;
+    }
+  }
+
+  return null;
+};
+
+export const wordleRules: GameRules<WordleGame> = {
+  type: 'wordle',
+  turnBased: true,
+  // Guessing a word takes longer than placing a marker
+  inactivity: { moveTimeoutMs: 10 * 60 * 1000, offlineGraceMs: 3 * 60 * 1000 },
+
+  createInitialState: (players) => ({
+    word: getRandomWord(),
+    playerGuesses: createPlayerMap(players, () => ({ guesses: [], results: [] })),
+    maxGuesses: MAX_GUESSES,
+    finishTimes: createPlayerMap(players, () => null)
+  }),
+
+  fromDoc: (data) => ({
+    word: data.word,
+    playerGuesses: data.playerGuesses,
+    maxGuesses: data.maxGuesses,
+    finishTimes: data.finishTimes
+  }),
+
+  applyMove: (game, playerId, move) => {
+    const guess = toGuess(move);
+    const playerGuesses = game.playerGuesses[playerId] || { guesses: [], results: [] };
+    if (playerGuesses.guesses.length >= game.maxGuesses) {
+      throw new Error('No more guesses allowed');
+    }
+
+    // Turns alternate until one player has used up their guesses
+    const opponentId = getOpponentId(game, playerId)!;
+    const opponentGuesses = game.playerGuesses[opponentId]?.guesses.length || 0;
+
+    const updates: Partial<WordleGame> = {
+      playerGuesses: {
+        ...game.playerGuesses,
+        [playerId]: {
+          guesses: [...playerGuesses.guesses, guess],
+          results: [...playerGuesses.results, evaluateWordleGuess(guess, game.word)]
+        }
+      },
+      currentTurn: opponentGuesses < game.maxGuesses ? opponentId : playerId
+    };
+
+    // Update finish time if this was the player's last guess or they found the word
+    if (playerGuesses.guesses.length === game.maxGuesses - 1 || guess === game.word) {
+      updates.finishTimes = {
+        ...game.finishTimes,
+        [playerId]: Timestamp.now()
+      };
+    }
+
+    return { updates, recordedMove: guess };
+  },
+
+  evaluateResult: (game) => {
+    const winner = determineWinner(game);
+    return winner ? { winner } : null;
+  },
+
+  getReplayStart: (game) => ({
+    ...game,
+    ...replayStartFields,
+    playerGuesses: createPlayerMap(game.players, () => ({ guesses: [], results: [] })),
+    finishTimes: createPlayerMap(game.players, () => null)
+  }),
+
+  replayMove: (frame, { playerId, move }) => {
+    const current = frame.playerGuesses[playerId] || { guesses: [], results: [] };
+    const guess = toGuess(move);
+    return {
+      ...frame,
+      playerGuesses: {
+        ...frame.playerGuesses,
+        [playerId]: {
+          guesses: [...current.guesses, guess],
+          results: [...current.results, evaluateWordleGuess(guess, frame.word)]
+        }
+      }
+    };
+  }
+};
@@ -3,6 +3,7 @@ import { User } from 'firebase/auth';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 import * as authService from '../services/auth/authService';
+import { SessionEndSource } from '../services/database/sessionService';
 import { STORAGE_KEYS } from '../constants/app';
 
 export interface AuthHookResult {
@@ -13,7 +14,7 @@ export interface AuthHookResult {
   register: (email: string, password: string, displayName: string) => Promise<void>;
   login: (email: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
-  updateUserStatus: (isShitting: boolean) => Promise<void>;
+  updateUserStatus: (isShitting: boolean, endedBy?: SessionEndSource) => Promise<void>;
   updateUserProfile: (displayName: string, photoURL: string) => Promise<void>;
 }
 
@@ -125,7 +126,7 @@ export const useAuth = (): AuthHookResult => {
   };
 
   // Update user status (shitting status)
-  const updateUserStatus = async (isShitting: boolean): Promise<void> => {
+  const updateUserStatus = async (isShitting: boolean, endedBy?: SessionEndSource): Promise<void> => {
     setError(null);
     
     if (!currentUser) {
@@ -135,7 +136,7 @@ export const useAuth = (): AuthHookResult => {
     }
     
     try {
-      await authService.updateUserStatus(isShitting);
+      await authService.updateUserStatus(isShitting, endedBy);
       
       // Update local state
       setUserData((prevData) => {
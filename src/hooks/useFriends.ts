@@ -5,6 +5,7 @@ import { doc, getDoc, onSnapshot, collection, query, where, writeBatch, arrayRem
 import { ref, onValue } from 'firebase/database';
 import { firestore, database } from '../firebase/config';
 import { getFriends } from '../services/database/friendService';
+import { disconnectTimelines } from '../services/database/timelineService';
 import { FriendData } from '../types/friend';
 
 // Cache duration in milliseconds: 5 minutes
@@ -234,6 +235,11 @@ export const useFriends = (userId: string) => {
                 
                 await batch.commit();
                 
+                // Take each other's shweets out of both timelines
+                disconnectTimelines(userId, friendId).catch(error => {
+                  console.error('Error cleaning up timelines:', error);
+                });
+                
                 // Update local state
                 setFriends(prev => prev.filter(f => f.id !== friendId));
                 
@@ -1,11 +1,11 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from './useAuth';
 import * as gameInviteService from '../services/database/gameInviteService';
-import { GameInvite } from '../services/database/gameInviteService';
+import { GameInvite, GameInviteDelivery } from '../services/database/gameInviteService';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation/types';
-import { GameType } from '../services/database/gameService';
+import { GameOptions, GameType } from '../services/database/gameService';
 import { Alert } from 'react-native';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
@@ -15,7 +15,7 @@ export interface UseGameInvitesResult {
   sentInvites: GameInvite[];
   loading: boolean;
   error: Error | null;
-  sendInvite: (receiverId: string, gameType: GameType) => Promise<void>;
+  sendInvite: (receiverId: string, gameType: GameType, options?: GameOptions, delivery?: GameInviteDelivery) => Promise<void>;
   acceptInvite: (inviteId: string) => Promise<void>;
   declineInvite: (inviteId: string) => Promise<void>;
   refreshInvites: () => Promise<void>;
@@ -45,6 +45,7 @@ export const useGameInvites = (): UseGameInvitesResult => {
       setLoading(true);
       setError(null);
 
+      await gameInviteService.expireStaleInvites(userData.uid);
       const [received, sent] = await Promise.all([
         gameInviteService.getReceivedGameInvites(userData.uid),
         gameInviteService.getSentGameInvites(userData.uid)
@@ -110,16 +111,21 @@ export const useGameInvites = (): UseGameInvitesResult => {
   }, [fetchInvites]);
 
   // Send a game invite
-  const sendInvite = async (receiverId: string, gameType: GameType): Promise<void> => {
+  const sendInvite = async (
+    receiverId: string,
+    gameType: GameType,
+    options?: GameOptions,
+    delivery: GameInviteDelivery = 'now'
+  ): Promise<void> => {
     if (!userData?.uid) {
       console.error('Cannot send invite: User not authenticated');
       throw new Error('User not authenticated');
     }
 
     try {
-      console.log('Sending invite:', { senderId: userData.uid, receiverId, gameType });
+      console.log('Sending invite:', { senderId: userData.uid, receiverId, gameType, delivery });
       setError(null);
-      await gameInviteService.sendGameInvite(userData.uid, receiverId, gameType);
+      await gameInviteService.sendGameInvite(userData.uid, receiverId, gameType, options, delivery);
       console.log('Invite sent successfully');
       await fetchInvites();
     } catch (err) {
@@ -138,7 +144,9 @@ export const useGameInvites = (): UseGameInvitesResult => {
       navigation.navigate('Game', { gameId, gameType: receivedInvites.find(i => i.id === inviteId)?.gameType || 'tictactoe' });
     } catch (error) {
       console.error('Error accepting game invite:', error);
-      Alert.alert('Error', 'Failed to accept game invite');
+      Alert.alert('Error', error instanceof Error && error.message === 'Invite has expired'
+        ? 'This game invite has expired'
+        : 'Failed to accept game invite');
     }
   };
 
@@ -2,6 +2,8 @@ import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from './useAuth';
 import * as shweetService from '../services/database/shweetService';
 import * as userService from '../services/database/userService';
+import * as reactionService from '../services/database/reactionService';
+import { getFeedPage } from '../services/database/feedService';
 
 export interface UseShweetsResult {
   shweets: shweetService.Shweet[];
@@ -10,8 +12,8 @@ export interface UseShweetsResult {
   loading: boolean;
   error: Error | null;
   createShweet: (content: string, isFromToilet: boolean) => Promise<void>;
-  likeShweet: (shweetId: string) => Promise<void>;
-  unlikeShweet: (shweetId: string) => Promise<void>;
+  reactToShweet: (shweetId: string, type: reactionService.ReactionType) => Promise<void>;
+  removeReaction: (shweetId: string) => Promise<void>;
   deleteShweet: (shweetId: string) => Promise<void>;
   refreshShweets: () => Promise<void>;
   addComment: (shweetId: string, content: string, isFromToilet: boolean) => Promise<void>;
@@ -42,7 +44,6 @@ export const useShweets = (): UseShweetsResult => {
         content,
         timestamp: new Date(),
         isFromToilet,
-        likes: [],
         comments: 0,
       });
       
@@ -55,8 +56,30 @@ export const useShweets = (): UseShweetsResult => {
     }
   };
   
-  // Like a shweet
-  const likeShweet = async (shweetId: string): Promise<void> => {
+  // Replace a shweet's reaction counts with the stored ones
+  const refreshReactionCounts = async (shweetId: string): Promise<void> => {
+    const updated = await shweetService.getShweet(shweetId);
+    if (!updated) return;
+    
+    const updateShweetReactions = (prevShweets: shweetService.Shweet[]) => 
+      prevShweets.map((shweet) => {
+        if (shweet.id === shweetId) {
+          return {
+            ...shweet,
+            reactionCount: updated.reactionCount,
+            reactionCounts: updated.reactionCounts,
+          };
+        }
+        return shweet;
+      });
+    
+    setShweets(updateShweetReactions);
+    setUserShweets(updateShweetReactions);
+    setFriendsShweets(updateShweetReactions);
+  };
+  
+  // React to a shweet, or change the reaction
+  const reactToShweet = async (shweetId: string, type: reactionService.ReactionType): Promise<void> => {
     if (!currentUser) {
       const err = new Error('User not authenticated');
       setError(err);
@@ -64,31 +87,16 @@ export const useShweets = (): UseShweetsResult => {
     }
     
     try {
-      await shweetService.likeShweet(shweetId, currentUser.uid);
-      
-      // Update local state
-      const updateShweetLikes = (prevShweets: shweetService.Shweet[]) => 
-        prevShweets.map((shweet) => {
-          if (shweet.id === shweetId) {
-            return {
-              ...shweet,
-              likes: [...shweet.likes, currentUser.uid],
-            };
-          }
-          return shweet;
-        });
-      
-      setShweets(updateShweetLikes);
-      setUserShweets(updateShweetLikes);
-      setFriendsShweets(updateShweetLikes);
+      await reactionService.reactToShweet(shweetId, currentUser.uid, type);
+      await refreshReactionCounts(shweetId);
     } catch (err) {
       setError(err as Error);
       throw err;
     }
   };
   
-  // Unlike a shweet
-  const unlikeShweet = async (shweetId: string): Promise<void> => {
+  // Take back a reaction
+  const removeReaction = async (shweetId: string): Promise<void> => {
     if (!currentUser) {
       const err = new Error('User not authenticated');
       setError(err);
@@ -96,23 +104,8 @@ export const useShweets = (): UseShweetsResult => {
     }
     
     try {
-      await shweetService.unlikeShweet(shweetId, currentUser.uid);
-      
-      // Update local state
-      const updateShweetLikes = (prevShweets: shweetService.Shweet[]) => 
-        prevShweets.map((shweet) => {
-          if (shweet.id === shweetId) {
-            return {
-              ...shweet,
-              likes: shweet.likes.filter((id) => id !== currentUser.uid),
-            };
-          }
-          return shweet;
-        });
-      
-      setShweets(updateShweetLikes);
-      setUserShweets(updateShweetLikes);
-      setFriendsShweets(updateShweetLikes);
+      await reactionService.removeReaction(shweetId, currentUser.uid);
+      await refreshReactionCounts(shweetId);
     } catch (err) {
       setError(err as Error);
       throw err;
@@ -121,8 +114,14 @@ export const useShweets = (): UseShweetsResult => {
   
   // Delete a shweet
   const deleteShweet = async (shweetId: string): Promise<void> => {
+    if (!currentUser) {
+      const err = new Error('User not authenticated');
+      setError(err);
+      throw err;
+    }
+    
     try {
-      await shweetService.deleteShweet(shweetId);
+      await shweetService.deleteShweet(shweetId, currentUser.uid);
       
       // Update local state
       const filterShweets = (prevShweets: shweetService.Shweet[]) => 
@@ -221,7 +220,7 @@ export const useShweets = (): UseShweetsResult => {
       const friendIds = userData.friends || [];
       
       if (friendIds.length > 0) {
-        const friendsShweets = await shweetService.getFriendsShweets(friendIds);
+        const { shweets: friendsShweets } = await getFeedPage(friendIds);
         setFriendsShweets(friendsShweets);
       }
     } catch (err) {
@@ -266,8 +265,8 @@ export const useShweets = (): UseShweetsResult => {
     loading,
     error,
     createShweet,
-    likeShweet,
-    unlikeShweet,
+    reactToShweet,
+    removeReaction,
     deleteShweet,
     refreshShweets,
     addComment,
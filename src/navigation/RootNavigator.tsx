@@ -1,120 +1,111 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useRef } from 'react';
 import { AppState, AppStateStatus } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { RootStackParamList } from './types';
 
 import { useAuth } from '../hooks/useAuth';
 import AuthNavigator from './AuthNavigator';
 import MainNavigator from './MainNavigator';
-import { STORAGE_KEYS, APP_STATE, TIME } from '../constants/app';
+import { APP_STATE, TIME } from '../constants/app';
 import SplashScreen from '../screens/SplashScreen';
 import ErrorHandlingScreen from '../screens/examples/ErrorHandlingScreen';
 import GameScreen from '../screens/GameScreen';
+import ShweetDetailsScreen from '../screens/ShweetDetailsScreen';
+import UserProfileScreen from '../screens/UserProfileScreen';
+import HashtagFeedScreen from '../screens/HashtagFeedScreen';
+import NotificationsScreen from '../screens/NotificationsScreen';
+import StatsScreen from '../screens/StatsScreen';
+import SessionHistoryScreen from '../screens/SessionHistoryScreen';
 import { theme } from '../theme';
+import { publishDueShweets } from '../services/storage/pendingShweetService';
+import { getSessionController } from '../services/session/sessionController';
+import { startServerTimeSync } from '../services/database/serverTimeService';
+import SessionReviewPrompt from '../components/SessionReviewPrompt';
 
 // Create the root stack navigator
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
 /**
- * App state manager that handles app state changes
+ * Tells the session controller when the app moves between the foreground and
+ * the background, and keeps its heartbeat going while in the foreground
  */
 const AppStateManager: React.FC = () => {
-  const { currentUser, userData, updateUserStatus } = useAuth();
+  const { currentUser } = useAuth();
   
   useEffect(() => {
-    // Function to handle app state changes
-    const handleAppStateChange = async (nextAppState: AppStateStatus) => {
-      // Capture previous state
-      const previousState = await AsyncStorage.getItem(STORAGE_KEYS.APP_STATE) || '';
-      
-      console.log(`App state changing from ${previousState} to ${nextAppState}`);
-      
+    if (!currentUser) return;
+    
+    const controller = getSessionController();
+    const logError = (error: unknown) => {
+      console.error('Error updating session:', error);
+    };
+    
+    const handleAppStateChange = (nextAppState: AppStateStatus) => {
       if (nextAppState === APP_STATE.ACTIVE) {
-        // App is coming to the foreground
-        
-        // Only check for app termination if returning from background
-        if (previousState === APP_STATE.BACKGROUND) {
-          console.log('App returning to foreground from background');
-          
-          // Get last stored timestamps
-          const lastActiveTimestamp = await AsyncStorage.getItem(STORAGE_KEYS.LAST_ACTIVE_TIMESTAMP);
-          const wasShitting = await AsyncStorage.getItem(STORAGE_KEYS.SHITTING_STATE);
-          
-          if (lastActiveTimestamp && wasShitting === 'true') {
-            const timeSinceLastActive = Date.now() - parseInt(lastActiveTimestamp);
-            
-            console.log(`Time since last active: ${timeSinceLastActive}ms`);
-            
-            // If the time gap is significant, the app was likely terminated
-            if (timeSinceLastActive > TIME.APP_CLOSURE_THRESHOLD) {
-              console.log('App was likely closed while shitting. Turning off status.');
-              
-              // Reset shitting status
-              await updateUserStatus(false);
-              
-              // Clear stored shitting state
-              await AsyncStorage.setItem(STORAGE_KEYS.SHITTING_STATE, 'false');
-            } else {
-              console.log('App was just backgrounded, maintaining status');
-            }
-          }
-        }
-        
-        // Start regular updates of the last active timestamp
-        updateLastActiveTimestamp();
-        
+        // Ends the session if the app was away long enough to have been closed
+        controller.resume().catch(logError);
       } else if (nextAppState === APP_STATE.BACKGROUND) {
-        // App is going to the background
-        console.log('App going to background');
-        
-        // Store if user is currently shitting
-        if (userData?.isShitting) {
-          await AsyncStorage.setItem(STORAGE_KEYS.SHITTING_STATE, 'true');
-        } else {
-          await AsyncStorage.setItem(STORAGE_KEYS.SHITTING_STATE, 'false');
-        }
-        
-        // Final timestamp update before backgrounding
-        updateLastActiveTimestamp();
+        controller.pause().catch(logError);
       }
-      
-      // Update stored app state
-      await AsyncStorage.setItem(STORAGE_KEYS.APP_STATE, nextAppState);
     };
     
-    // Function to update the last active timestamp
-    const updateLastActiveTimestamp = async () => {
-      await AsyncStorage.setItem(STORAGE_KEYS.LAST_ACTIVE_TIMESTAMP, Date.now().toString());
+    const activeInterval = setInterval(() => {
+      controller.heartbeat().catch(logError);
+    }, TIME.STATUS_UPDATE_INTERVAL);
+    
+    const subscription = AppState.addEventListener('change', handleAppStateChange);
+    
+    return () => {
+      subscription.remove();
+      clearInterval(activeInterval);
     };
+  }, [currentUser]);
+  
+  // This component doesn't render anything
+  return null;
+};
+
+/**
+ * Publishes the user's scheduled shweets once they're due, while the app is open
+ */
+const ScheduledShweetsManager: React.FC = () => {
+  const { userData } = useAuth();
+  const userId = userData?.uid;
+  
+  // Read through a ref so the interval isn't restarted when the profile changes
+  const author = useRef(userData);
+  author.current = userData;
+  
+  useEffect(() => {
+    if (!userId) return;
     
-    // Set initial state values
-    const initializeState = async () => {
-      await AsyncStorage.setItem(STORAGE_KEYS.APP_STATE, AppState.currentState);
-      updateLastActiveTimestamp();
+    const publish = () => {
+      const user = author.current;
+      if (!user) return;
       
-      // Store initial shitting state
-      if (userData) {
-        await AsyncStorage.setItem(STORAGE_KEYS.SHITTING_STATE, userData.isShitting ? 'true' : 'false');
-      }
+      publishDueShweets({
+        authorId: userId,
+        authorName: user.displayName || 'Anonymous',
+        authorPhotoURL: user.photoURL,
+        // From the controller, since this hook's userData isn't refreshed
+        // when a session starts or ends
+        isFromToilet: ['active', 'paused'].includes(getSessionController().getState().phase),
+      }).catch(() => {
+        // Logged by the service; tried again on the next check
+      });
     };
     
-    // Initialize state
-    initializeState();
-    
-    // Start a foreground interval to regularly update active timestamp
-    // This helps establish a reliable "heartbeat" pattern while the app is active
-    const activeInterval = setInterval(updateLastActiveTimestamp, TIME.STATUS_UPDATE_INTERVAL);
-    
-    // Set up the app state change listener
-    const subscription = AppState.addEventListener('change', handleAppStateChange);
+    publish();
+    const interval = setInterval(publish, TIME.SCHEDULED_SHWEETS_CHECK_INTERVAL);
+    const subscription = AppState.addEventListener('change', (nextAppState) => {
+      if (nextAppState === APP_STATE.ACTIVE) publish();
+    });
     
     return () => {
-      // Clean up
+      clearInterval(interval);
       subscription.remove();
-      clearInterval(activeInterval);
     };
-  }, [currentUser, userData, updateUserStatus]);
+  }, [userId]);
   
   // This component doesn't render anything
   return null;
@@ -127,6 +118,11 @@ const AppStateManager: React.FC = () => {
 const RootNavigator: React.FC = () => {
   const { currentUser, loading } = useAuth();
   
+  // Game clocks go by server time, so get the offset in as early as possible
+  useEffect(() => {
+    startServerTimeSync();
+  }, []);
+  
   // Show splash screen while checking auth state
   if (loading) {
     return <SplashScreen />;
@@ -135,6 +131,8 @@ const RootNavigator: React.FC = () => {
   return (
     <>
       <AppStateManager />
+      <ScheduledShweetsManager />
+      <SessionReviewPrompt userId={currentUser?.uid || null} />
       <Stack.Navigator
         screenOptions={{
           headerStyle: {
@@ -162,6 +160,36 @@ const RootNavigator: React.FC = () => {
                 gestureEnabled: false
               }}
             />
+            <Stack.Screen 
+              name="ShweetDetails" 
+              component={ShweetDetailsScreen}
+              options={{ title: 'Shweet' }} 
+            />
+            <Stack.Screen 
+              name="UserProfile" 
+              component={UserProfileScreen}
+              options={{ title: 'Profile' }} 
+            />
+            <Stack.Screen 
+              name="HashtagFeed" 
+              component={HashtagFeedScreen}
+              options={{ title: 'Hashtag' }} 
+            />
+            <Stack.Screen 
+              name="Notifications" 
+              component={NotificationsScreen}
+              options={{ title: 'Notifications' }} 
+            />
+            <Stack.Screen 
+              name="Stats" 
+              component={StatsScreen}
+              options={{ title: 'Stats' }} 
+            />
+            <Stack.Screen 
+              name="SessionHistory" 
+              component={SessionHistoryScreen}
+              options={{ title: 'Session History' }} 
+            />
             <Stack.Screen 
               name="ErrorHandling" 
               component={ErrorHandlingScreen}
@@ -24,12 +24,20 @@ export type UserProfileParams = {
   userId: string;
 };
 
+export type HashtagFeedParams = {
+  tag: string;
+};
+
 // Root navigator parameters
 export type RootStackParamList = {
   Auth: NavigatorScreenParams<AuthStackParamList>;
   Main: NavigatorScreenParams<MainTabParamList>;
   ShweetDetails: ShweetDetailsParams;
   UserProfile: UserProfileParams;
+  HashtagFeed: HashtagFeedParams;
+  Notifications: undefined;
+  Stats: undefined;
+  SessionHistory: undefined;
   ErrorHandling: undefined;
   Game: {
     gameId: string;
@@ -1,11 +1,14 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { View, Text, StyleSheet, FlatList, SectionList, TouchableOpacity, TextInput, ActivityIndicator, Image, Modal, Alert, KeyboardAvoidingView, Platform, Keyboard, TouchableWithoutFeedback, RefreshControl } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { collection, query, where, getDocs, doc, getDoc, updateDoc, arrayUnion, arrayRemove, getFirestore, getDoc as getDocument, writeBatch, enableIndexedDbPersistence, DocumentSnapshot } from 'firebase/firestore';
 import { ref, onValue, get } from 'firebase/database';
 import { firestore, database } from '../firebase/config';
 import { useAuth } from '../contexts/AuthContext';
 import { searchUsers, addFriend } from '../services/database/userService';
+import { disconnectTimelines } from '../services/database/timelineService';
 import { 
   FriendRequest, 
   sendFriendRequest, 
@@ -17,6 +20,7 @@ import {
   checkPendingRequest
 } from '../services/database/friendRequestService';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { RootStackParamList } from '../navigation/types';
 
 interface FriendData {
   id: string;
@@ -53,6 +57,7 @@ const CACHE_DURATION = 5 * 60 * 1000;
 
 export default function FriendsScreen() {
   const { userData } = useAuth();
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
   const [friends, setFriends] = useState<FriendData[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [loading, setLoading] = useState(true);
@@ -502,7 +507,10 @@ export default function FriendsScreen() {
   
   // Render friend item
   const renderFriendItem = ({ item }: { item: FriendData }) => (
-    <TouchableOpacity style={styles.friendItem}>
+    <TouchableOpacity 
+      style={styles.friendItem}
+      onPress={() => navigation.navigate('UserProfile', { userId: item.id })}
+    >
       <View style={styles.friendAvatar}>
         {item.photoURL ? (
           <Image source={{ uri: item.photoURL }} style={styles.avatarImage} />
@@ -841,6 +849,11 @@ export default function FriendsScreen() {
       // Commit the batch
       await batch.commit();
       
+      // Take each other's shweets out of both timelines
+      disconnectTimelines(userData.uid, friendId).catch(error => {
+        console.error('Error cleaning up timelines:', error);
+      });
+      
       // Update local state and cache
       const updatedFriends = friends.filter(friend => friend.id !== friendId);
       setFriends(updatedFriends);
@@ -1,36 +1,64 @@
 import React, { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
 import { useRoute, useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useAuth } from '../contexts/AuthContext';
-import { Game, GameType, subscribeToGame, makeMove, abandonGame } from '../services/database/gameService';
+import { 
+  Game, 
+  GameResultReason,
+  subscribeToGame, 
+  makeMove, 
+  getGame,
+  abandonGame, 
+  checkGameInactivity,
+  GameMoveConflictError,
+  getGameMoves
+} from '../services/database/gameService';
+import {
+  GameInvite,
+  acceptInvite,
+  declineGameInvite,
+  sendRematchInvite,
+  subscribeToRematchInvite
+} from '../services/database/gameInviteService';
+import { getGameDefinition } from '../games/registry';
+import { RootStackParamList } from '../navigation/types';
+import { buildReplayFrames } from '../utils/gameReplay';
 import { doc, getDoc } from 'firebase/firestore';
 import { firestore } from '../firebase/config';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import WordleGame from '../components/WordleGame';
-import TicTacToeGame from '../components/TicTacToeGame';
-import RPSGame from '../components/RPSGame';
-import HangmanGame from '../components/HangmanGame';
-import MemoryGame from '../components/MemoryGame';
-import ChessGame from '../components/ChessGame';
+import GameReplayControls from '../components/GameReplayControls';
+
+// How often an open game checks its inactivity rule
+const INACTIVITY_CHECK_INTERVAL_MS = 30000;
 
 export default function GameScreen() {
   const route = useRoute();
-  const navigation = useNavigation();
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
   const { userData } = useAuth();
   const [game, setGame] = useState<Game | null>(null);
   const [opponentName, setOpponentName] = useState<string>('Opponent');
+  const [replayFrames, setReplayFrames] = useState<Game[] | null>(null);
+  const [replayIndex, setReplayIndex] = useState(0);
+  const [loadingReplay, setLoadingReplay] = useState(false);
+  const [rematchInvite, setRematchInvite] = useState<GameInvite | null>(null);
+  const [rematchPending, setRematchPending] = useState(false);
   const unsubscribeRef = React.useRef<(() => void) | null>(null);
+  const movePendingRef = React.useRef(false);
 
   const { gameId, gameType } = route.params as { gameId: string; gameType: string };
+  const definition = getGameDefinition(gameType);
+  const opponentId = game?.players.find(id => id !== userData?.uid);
+  const isUnavailable = !definition || !!definition.comingSoon;
 
-  // Prevent access to Wordle (now renamed to Turdle) as it's in "Coming Soon"
+  // Prevent access to games that are still "Coming Soon"
   useEffect(() => {
-    if (gameType === 'wordle') {
-      Alert.alert('Coming Soon', 'Turdle is not available yet. Stay tuned!');
+    if (isUnavailable) {
+      Alert.alert('Coming Soon', `${definition?.title || 'This game'} is not available yet. Stay tuned!`);
       navigation.goBack();
       return;
     }
-  }, [gameType, navigation]);
+  }, [isUnavailable, navigation]);
 
   const handleQuitGame = () => {
     Alert.alert(
@@ -47,10 +75,12 @@ export default function GameScreen() {
           onPress: () => {
             // Navigate immediately
             navigation.goBack();
-            // Update game status in the background
-            abandonGame(gameId).catch(error => {
-              console.error('Error abandoning game:', error);
-            });
+            // Record the forfeit in the background
+            if (userData?.uid) {
+              abandonGame(gameId, userData.uid).catch(error => {
+                console.error('Error abandoning game:', error);
+              });
+            }
           }
         }
       ]
@@ -58,8 +88,8 @@ export default function GameScreen() {
   };
 
   useEffect(() => {
-    // Skip setup if game type is wordle (will navigate away)
-    if (gameType === 'wordle') return;
+    // Skip setup if the game isn't available (will navigate away)
+    if (isUnavailable) return;
     
     const setupGame = async () => {
       try {
@@ -109,35 +139,126 @@ export default function GameScreen() {
         unsubscribeRef.current();
       }
     };
-  }, [gameId, userData?.uid, gameType, navigation]);
+  }, [gameId, userData?.uid, isUnavailable, navigation]);
+
+  // Watch for a rematch offer once the game is over
+  const isGameOver = !!game && game.status !== 'active';
+  
+  // While the game is on, end it if a player stops moving or drops offline
+  const isGameActive = game?.status === 'active';
+  useEffect(() => {
+    if (!isGameActive) return;
+    
+    const interval = setInterval(() => {
+      checkGameInactivity(gameId).catch(() => {
+        // Logged by the service; try again on the next tick
+      });
+    }, INACTIVITY_CHECK_INTERVAL_MS);
+    
+    return () => clearInterval(interval);
+  }, [gameId, isGameActive]);
+
+  useEffect(() => {
+    if (!isGameOver) return;
+    return subscribeToRematchInvite(gameId, setRematchInvite);
+  }, [gameId, isGameOver]);
 
   const handleMove = async (move: any) => {
-    if (!game || game.status !== 'active' || !userData?.uid) {
+    // Ignore taps while a move is still being committed
+    if (!game || game.status !== 'active' || !userData?.uid || movePendingRef.current) {
       return;
     }
 
+    movePendingRef.current = true;
     try {
-      await makeMove(gameId, userData.uid, move);
+      await makeMove(gameId, userData.uid, move, game.moveCount);
     } catch (error) {
-      console.error('Error making move:', error);
+      if (error instanceof GameMoveConflictError) {
+        // Someone else moved first; show the latest board and let the player retry
+        const latestGame = await getGame(gameId).catch(() => null);
+        if (latestGame) {
+          setGame(latestGame);
+        }
+        Alert.alert('Board Updated', 'The game changed before your move went through. Check the board and try again.');
+      } else {
+        console.error('Error making move:', error);
+      }
+    } finally {
+      movePendingRef.current = false;
     }
   };
 
-  // If game type is wordle, we should have already redirected
-  if (gameType === 'wordle') {
-    return null;
-  }
+  const handleReviewGame = async () => {
+    if (!game) return;
 
-  if (game?.type === 'memory') {
-    return (
-      <View style={styles.container}>
-        <View style={styles.comingSoonContainer}>
-          <Text style={styles.comingSoonTitle}>Coming Soon</Text>
-          <Text style={styles.comingSoonText}>The Memory Match game is currently under development.</Text>
-          <Text style={styles.comingSoonText}>Check back later!</Text>
-        </View>
-      </View>
-    );
+    setLoadingReplay(true);
+    try {
+      const moves = await getGameMoves(gameId);
+      if (moves.length === 0) {
+        Alert.alert('No Moves', 'There are no recorded moves to replay for this game.');
+        return;
+      }
+
+      const frames = buildReplayFrames(game, moves);
+      setReplayFrames(frames);
+      setReplayIndex(frames.length - 1);
+    } catch (error) {
+      console.error('Error loading game replay:', error);
+      Alert.alert('Error', 'Could not load the replay for this game.');
+    } finally {
+      setLoadingReplay(false);
+    }
+  };
+
+  const handleCloseReplay = () => {
+    setReplayFrames(null);
+    setReplayIndex(0);
+  };
+
+  // The sender is taken to the new game by the sent-invite subscription once
+  // the opponent accepts
+  const handleRematch = async () => {
+    if (!userData?.uid) return;
+
+    setRematchPending(true);
+    try {
+      await sendRematchInvite(gameId, userData.uid);
+    } catch (error) {
+      console.error('Error sending rematch invite:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Could not send a rematch invite.');
+    } finally {
+      setRematchPending(false);
+    }
+  };
+
+  const handleAcceptRematch = async () => {
+    if (!rematchInvite?.id) return;
+
+    setRematchPending(true);
+    try {
+      const newGameId = await acceptInvite(rematchInvite.id);
+      navigation.replace('Game', { gameId: newGameId, gameType: rematchInvite.gameType });
+    } catch (error) {
+      console.error('Error accepting rematch:', error);
+      Alert.alert('Error', error instanceof Error && error.message === 'Invite has expired'
+        ? 'This rematch offer has expired'
+        : 'Could not start the rematch.');
+    } finally {
+      setRematchPending(false);
+    }
+  };
+
+  const handleDeclineRematch = () => {
+    if (!rematchInvite?.id) return;
+
+    declineGameInvite(rematchInvite.id).catch(error => {
+      console.error('Error declining rematch:', error);
+    });
+  };
+
+  // If the game isn't available, we should have already redirected
+  if (!definition || isUnavailable) {
+    return null;
   }
 
   if (!game) {
@@ -148,40 +269,79 @@ export default function GameScreen() {
     );
   }
 
+  const getDrawText = (reason?: GameResultReason): string => {
+    switch (reason) {
+      case 'stalemate':
+        return 'Draw by stalemate';
+      case 'insufficientMaterial':
+        return 'Draw by insufficient material';
+      case 'fiftyMove':
+        return 'Draw by fifty-move rule';
+      case 'threefoldRepetition':
+        return 'Draw by repetition';
+      case 'agreement':
+        return 'Draw by agreement';
+      case 'timeoutVsInsufficientMaterial':
+        return 'Draw: time out vs insufficient material';
+      default:
+        return "It's a draw!";
+    }
+  };
+
+  const getForfeitText = (reason?: GameResultReason): string => {
+    switch (reason) {
+      case 'inactivity':
+        return 'stopped playing';
+      case 'disconnected':
+        return 'went offline';
+      default:
+        return 'quit the game';
+    }
+  };
+
+  const getReasonSuffix = (reason?: GameResultReason): string => {
+    switch (reason) {
+      case 'checkmate':
+        return ' by checkmate';
+      case 'timeout':
+        return ' on time';
+      default:
+        return '';
+    }
+  };
+
   const getGameResult = () => {
     // Force game result to appear when status is appropriate 
     if ((game.status === 'completed' || game.status === 'abandoned') && userData?.uid) {
       console.log('Game over - preparing result for player:', userData.uid);
       console.log('Game data:', game);
       
-      // For Hangman games, include the word in the result object
       let resultObj = {
         text: '',
-        color: '',
-        word: null as string | null
+        color: ''
       };
 
-      // Always include word for Hangman games
-      if (game.type === 'hangman' && game.words) {
-        // Get my word directly from game.words object
-        const myWord = game.words[userData.uid];
-        console.log('Found player word:', myWord);
-        resultObj.word = myWord || '';
-      }
-
       if (game.status === 'completed') {
         if (game.winner === 'draw') {
-          resultObj.text = "It's a draw!";
+          resultObj.text = getDrawText(game.resultReason);
           resultObj.color = '#94a3b8';
         } else if (game.winner === userData.uid) {
-          resultObj.text = 'You won!';
+          resultObj.text = `You won${getReasonSuffix(game.resultReason)}!`;
           resultObj.color = '#22c55e';
         } else {
-          resultObj.text = 'You lost!';
+          resultObj.text = `You lost${getReasonSuffix(game.resultReason)}!`;
           resultObj.color = '#ef4444';
         }
+      } else if (game.forfeitedBy === userData.uid) {
+        resultObj.text = `You forfeited: you ${getForfeitText(game.resultReason)}`;
+        resultObj.color = '#ef4444';
+      } else if (game.forfeitedBy) {
+        resultObj.text = `You won! Opponent ${getForfeitText(game.resultReason)}`;
+        resultObj.color = '#22c55e';
       } else {
-        resultObj.text = 'Opponent quit the game';
+        resultObj.text = game.resultReason === 'inactivity' || game.resultReason === 'disconnected'
+          ? 'Game abandoned: nobody was playing'
+          : 'Opponent quit the game';
         resultObj.color = '#94a3b8';
       }
       
@@ -192,25 +352,75 @@ export default function GameScreen() {
   };
 
   const gameResult = getGameResult();
-  const isDisabled = game.status !== 'active' || (game.type !== 'rps' && game.currentTurn !== userData?.uid);
-
-  const getGameTitle = (type: GameType): string => {
-    switch (type) {
-      case 'tictactoe':
-        return 'Tic Tac Toe';
-      case 'rps':
-        return 'Rock Paper Scissors';
-      case 'wordle':
-        return 'Wordle';
-      case 'hangman':
-        return 'Hangman';
-      case 'memory':
-        return 'Memory Game';
-      case 'chess':
-        return 'Toilet Chess';
-      default:
-        return 'Game';
+  const isReviewing = replayFrames !== null;
+  const isDisabled = isReviewing || game.status !== 'active' || (definition.rules.turnBased && game.currentTurn !== userData?.uid);
+  
+  // While reviewing, the boards render a reconstructed frame instead of the live game
+  const displayGame = isReviewing ? replayFrames[replayIndex] : game;
+
+  const { Board, ResultDetails } = definition;
+
+  const renderRematchActions = () => {
+    if (!rematchInvite) {
+      return (
+        <TouchableOpacity 
+          style={styles.secondaryButton}
+          onPress={handleRematch}
+          disabled={rematchPending}
+        >
+          <Text style={styles.secondaryButtonText}>
+            {rematchPending ? 'Sending...' : 'Rematch'}
+          </Text>
+        </TouchableOpacity>
+      );
+    }
+
+    if (rematchInvite.senderId === userData?.uid) {
+      return (
+        <Text style={styles.rematchStatusText}>
+          {rematchInvite.status === 'waiting'
+            ? `Rematch offered. ${opponentName} will see it on their next session.`
+            : `Rematch offered. Waiting for ${opponentName}...`}
+        </Text>
+      );
+    }
+
+    if (rematchInvite.status === 'accepted') {
+      return null;
+    }
+
+    // Answered from the invite once the next session makes it live
+    if (rematchInvite.status === 'waiting') {
+      return (
+        <Text style={styles.rematchStatusText}>
+          {opponentName} wants a rematch on your next session
+        </Text>
+      );
     }
+
+    return (
+      <View style={styles.rematchOffer}>
+        <Text style={styles.rematchStatusText}>{opponentName} wants a rematch</Text>
+        <View style={styles.rematchButtons}>
+          <TouchableOpacity 
+            style={[styles.secondaryButton, styles.rematchAcceptButton]}
+            onPress={handleAcceptRematch}
+            disabled={rematchPending}
+          >
+            <Text style={[styles.secondaryButtonText, styles.rematchAcceptText]}>
+              {rematchPending ? 'Starting...' : 'Accept'}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity 
+            style={styles.secondaryButton}
+            onPress={handleDeclineRematch}
+            disabled={rematchPending}
+          >
+            <Text style={styles.secondaryButtonText}>Decline</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
   };
 
   return (
@@ -218,9 +428,14 @@ export default function GameScreen() {
       <SafeAreaView style={styles.header}>
         <View style={styles.headerContent}>
           <Text style={styles.gameTitle}>
-            {getGameTitle(gameType as GameType)}
+            {definition.title}
           </Text>
-          <Text style={styles.opponentName}>vs {opponentName}</Text>
+          <TouchableOpacity 
+            onPress={() => opponentId && navigation.navigate('UserProfile', { userId: opponentId })}
+            disabled={!opponentId}
+          >
+            <Text style={styles.opponentName}>vs {opponentName}</Text>
+          </TouchableOpacity>
           <TouchableOpacity 
             style={styles.quitButton}
             onPress={handleQuitGame}
@@ -230,62 +445,51 @@ export default function GameScreen() {
         </View>
       </SafeAreaView>
 
-      {game.type === 'tictactoe' && (
-        <TicTacToeGame
-          game={game}
-          onMove={handleMove}
-          disabled={isDisabled}
-        />
-      )}
-      {game.type === 'rps' && userData?.uid && (
-        <RPSGame
-          game={game}
-          onMove={handleMove}
-          disabled={isDisabled}
+      {userData?.uid && (
+        <Board
+          game={displayGame}
           userId={userData.uid}
-        />
-      )}
-      {game.type === 'hangman' && (
-        <HangmanGame
-          game={game as any}
-          onMove={handleMove}
-          disabled={isDisabled}
-        />
-      )}
-      {game.type === 'memory' && (
-        <MemoryGame
-          game={game as any}
           onMove={handleMove}
+          onQuit={handleQuitGame}
           disabled={isDisabled}
+          reviewing={isReviewing}
         />
       )}
-      {game.type === 'chess' && (
-        <ChessGame
-          game={game as any}
-          onMove={handleMove}
-          disabled={isDisabled}
+
+      {isReviewing && (
+        <GameReplayControls
+          index={replayIndex}
+          totalMoves={replayFrames.length - 1}
+          onChange={setReplayIndex}
+          onClose={handleCloseReplay}
         />
       )}
 
-      {gameResult && (
+      {gameResult && !isReviewing && (
         <SafeAreaView style={styles.resultOverlay}>
           <View style={styles.resultContent}>
             <Text style={[styles.resultText, { color: gameResult.color }]}>
               {gameResult.text}
             </Text>
             
-            {/* Display the player's word if it's a Hangman game */}
-            {game.type === 'hangman' && gameResult.word && (
-              <View style={styles.wordRevealContainer}>
-                <Text style={styles.wordRevealLabel}>
-                  Your word was:
-                </Text>
-                <Text style={styles.wordReveal}>
-                  {gameResult.word}
+            {ResultDetails && userData?.uid && (
+              <ResultDetails game={game} userId={userData.uid} />
+            )}
+            
+            {game.status === 'completed' && (
+              <TouchableOpacity 
+                style={styles.secondaryButton}
+                onPress={handleReviewGame}
+                disabled={loadingReplay}
+              >
+                <Text style={styles.secondaryButtonText}>
+                  {loadingReplay ? 'Loading...' : 'Review Game'}
                 </Text>
-              </View>
+              </TouchableOpacity>
             )}
             
+            {renderRematchActions()}
+            
             <TouchableOpacity 
               style={styles.playAgainButton}
               onPress={() => navigation.goBack()}
@@ -366,29 +570,6 @@ const styles = StyleSheet.create({
     marginBottom: 20,
     textAlign: 'center',
   },
-  wordRevealContainer: {
-    backgroundColor: 'rgba(254, 243, 199, 0.9)',
-    padding: 20,
-    borderRadius: 12,
-    marginBottom: 24,
-    alignItems: 'center',
-    borderWidth: 1,
-    borderColor: '#f59e0b',
-    width: '80%',
-  },
-  wordRevealLabel: {
-    fontSize: 18,
-    color: '#92400e',
-    marginBottom: 10,
-    textAlign: 'center',
-  },
-  wordReveal: {
-    fontSize: 32,
-    fontWeight: 'bold',
-    color: '#92400e',
-    letterSpacing: 2,
-    textAlign: 'center',
-  },
   playAgainButton: {
     backgroundColor: '#6366f1',
     paddingHorizontal: 24,
@@ -400,6 +581,39 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: '600',
   },
+  secondaryButton: {
+    backgroundColor: 'transparent',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 25,
+    borderWidth: 2,
+    borderColor: '#6366f1',
+    marginBottom: 12,
+  },
+  secondaryButtonText: {
+    color: '#6366f1',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  rematchOffer: {
+    alignItems: 'center',
+  },
+  rematchButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  rematchAcceptButton: {
+    backgroundColor: '#6366f1',
+  },
+  rematchAcceptText: {
+    color: '#fff',
+  },
+  rematchStatusText: {
+    color: '#94a3b8',
+    fontSize: 16,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
   board: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -482,22 +696,4 @@ const styles = StyleSheet.create({
     color: '#94a3b8',
     fontSize: 18,
   },
-  comingSoonContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    padding: 20,
-  },
-  comingSoonTitle: {
-    fontSize: 24,
-    fontWeight: 'bold',
-    marginBottom: 16,
-    color: '#8b5cf6',
-  },
-  comingSoonText: {
-    fontSize: 16,
-    textAlign: 'center',
-    marginBottom: 8,
-    color: '#4b5563',
-  },
 }); 
\ No newline at end of file
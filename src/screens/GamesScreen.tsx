@@ -1,6 +1,8 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Image, Alert, Modal } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useAuth } from '../contexts/AuthContext';
 import { useGameInvites } from '../hooks/useGameInvites';
 import { GameInviteBadge } from '../components/GameInviteBadge';
@@ -9,91 +11,42 @@ import { ref, onValue, get } from 'firebase/database';
 import { firestore, database } from '../firebase/config';
 import { FriendData } from '../types/friend';
 import { getFriends } from '../services/database/friendService';
-
-interface GameCard {
-  id: string;
-  title: string;
-  description: string;
-  icon: string;
-  color: string;
-}
+import {
+  Game,
+  GameOptions,
+  GameType,
+  checkGameInactivity,
+  subscribeToActiveGames
+} from '../services/database/gameService';
+import { GameInviteDelivery } from '../services/database/gameInviteService';
+import { getAvailableGames, getComingSoonGames, getGameDefinition, getGameTitle } from '../games/registry';
+import { GameListing } from '../games/types';
+import { getWaitingOn } from '../games/inactivity';
+import { RootStackParamList } from '../navigation/types';
 
 export default function GamesScreen() {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
   const { userData, updateUserStatus } = useAuth();
   const { sendInvite, sentInvites, receivedInvites, acceptInvite, declineInvite, cancelInvite } = useGameInvites();
   const [friends, setFriends] = useState<FriendData[]>([]);
   const [loading, setLoading] = useState(true);
   const [showInviteModal, setShowInviteModal] = useState(false);
-  const [selectedGame, setSelectedGame] = useState<GameCard | null>(null);
+  const [selectedGame, setSelectedGame] = useState<GameListing | null>(null);
+  const [inviteOptions, setInviteOptions] = useState<GameOptions>({});
   const [invitesWithNames, setInvitesWithNames] = useState<Array<{ id?: string; gameType: string; senderId: string; senderName: string }>>([]);
-  const [sentInvitesWithNames, setSentInvitesWithNames] = useState<Array<{ id?: string; gameType: string; receiverId: string; receiverName: string }>>([]);
+  const [activeGames, setActiveGames] = useState<Game[]>([]);
+  const [playerNames, setPlayerNames] = useState<{ [userId: string]: string }>({});
+  const checkedGamesRef = useRef<Set<string>>(new Set());
+  const [sentInvitesWithNames, setSentInvitesWithNames] = useState<Array<{ id?: string; gameType: string; status: string; receiverId: string; receiverName: string }>>([]);
   
-  // Sample game data
-  const games: GameCard[] = [
-    {
-      id: 'tictactoe',
-      title: 'Tic Tac Toe',
-      description: 'Classic game with custom markers (💩 vs 🧻)',
-      icon: 'grid',
-      color: '#10b981',
-    },
-    {
-      id: 'rps',
-      title: 'Rock Paper Scissors',
-      description: 'Themed choices: Poop, Toilet Paper, Plunger',
-      icon: 'hand-right',
-      color: '#6366f1',
-    },
-    {
-      id: 'hangman',
-      title: 'Hangman',
-      description: 'Guess the word before you run out of toilet paper',
-      icon: 'man',
-      color: '#ef4444',
-    },
-    {
-      id: 'chess',
-      title: 'Toilet Chess',
-      description: 'Classic chess with 1-minute time limit per player',
-      icon: 'trophy',
-      color: '#0891b2',
-    },
-  ];
-
-  // Coming soon games
-  const comingSoonGames: GameCard[] = [
-    {
-      id: 'turdle',
-      title: 'Turdle',
-      description: 'Guess the bathroom-themed word in 6 tries',
-      icon: 'text',
-      color: '#f59e0b',
-    },
-    {
-      id: 'memory',
-      title: 'Memory Match',
-      description: 'Find matching pairs of poop-themed cards',
-      icon: 'copy',
-      color: '#8b5cf6',
-    },
-    {
-      id: 'geography',
-      title: 'Toilet Traveler',
-      description: 'Guess the country from toilet-themed clues',
-      icon: 'globe',
-      color: '#06b6d4',
-    }
-  ];
-
-  const getGameDisplayName = (gameType: string): string => {
-    if (gameType === 'wordle') return 'Turdle';
-    const game = games.find(g => g.id === gameType) || comingSoonGames.find(g => g.id === gameType);
-    return game ? game.title : gameType;
-  };
+  const games = getAvailableGames();
+  const comingSoonGames = getComingSoonGames();
+  const InviteOptions = selectedGame ? getGameDefinition(selectedGame.id)?.InviteOptions : undefined;
 
-  // Fetch friends who are currently shitting
+  // Fetch friends, noting who is currently shitting. Friends who aren't can
+  // still get an invite for their next session.
   useEffect(() => {
-    const fetchShittingFriends = async () => {
+    const fetchFriends = async () => {
       if (!userData?.uid || !userData.friends?.length) {
         setFriends([]);
         setLoading(false);
@@ -120,27 +73,25 @@ export default function GamesScreen() {
           const status = statusSnapshot.val() || {};
           console.log(`Friend status for ${friendId}:`, status);
           
-          if (status.isShitting) {
-            const friendData = {
-              id: friendId,
-              displayName: friendUserData.displayName || 'Unknown User',
-              photoURL: friendUserData.photoURL,
-              isShitting: true
-            };
-            console.log(`Adding friend to list:`, friendData);
-            friendsData.push(friendData);
-          }
+          const friendData = {
+            id: friendId,
+            displayName: friendUserData.displayName || 'Unknown User',
+            photoURL: friendUserData.photoURL,
+            isShitting: status.isShitting === true
+          };
+          console.log(`Adding friend to list:`, friendData);
+          friendsData.push(friendData);
         }
         
         setFriends(friendsData);
       } catch (error) {
-        console.error('Error fetching shitting friends:', error);
+        console.error('Error fetching friends:', error);
       } finally {
         setLoading(false);
       }
     };
 
-    fetchShittingFriends();
+    fetchFriends();
 
     // Set up real-time listeners for friend status
     const statusListeners = userData?.friends?.map(friendId => {
@@ -187,8 +138,10 @@ export default function GamesScreen() {
             console.error(`Error fetching data for friend ${friendId}:`, error);
           }
         } else {
-          // Remove friend if they're no longer shitting
-          setFriends(prevFriends => prevFriends.filter(f => f.id !== friendId));
+          // Keep the friend around for next-session invites
+          setFriends(prevFriends => prevFriends.map(friend =>
+            friend.id === friendId ? { ...friend, isShitting: false } : friend
+          ));
         }
       });
     });
@@ -198,6 +151,51 @@ export default function GamesScreen() {
     };
   }, [userData?.uid, userData?.friends]);
 
+  // Keep the list of games still being played. Games that went quiet are
+  // forfeited under their inactivity rule so they don't stay active forever.
+  useEffect(() => {
+    if (!userData?.uid) {
+      setActiveGames([]);
+      return;
+    }
+
+    return subscribeToActiveGames(userData.uid, (games) => {
+      setActiveGames(games);
+
+      games.forEach(game => {
+        // Check each game state once
+        const checkKey = `${game.id}:${game.lastUpdated.toMillis()}`;
+        if (checkedGamesRef.current.has(checkKey)) return;
+        checkedGamesRef.current.add(checkKey);
+
+        checkGameInactivity(game.id!).catch(() => {
+          // Logged by the service
+        });
+      });
+    });
+  }, [userData?.uid]);
+
+  // Fetch opponent names for active games
+  useEffect(() => {
+    const opponentIds = new Set(
+      activeGames.flatMap(game => game.players.filter(playerId => playerId !== userData?.uid))
+    );
+    const missingIds = [...opponentIds].filter(playerId => !(playerId in playerNames));
+    if (missingIds.length === 0) return;
+
+    Promise.all(missingIds.map(async (playerId) => {
+      try {
+        const playerDoc = await getDoc(doc(firestore, 'users', playerId));
+        return [playerId, playerDoc.data()?.displayName || 'Unknown User'] as const;
+      } catch (error) {
+        console.error('Error fetching opponent name:', error);
+        return [playerId, 'Unknown User'] as const;
+      }
+    })).then(entries => {
+      setPlayerNames(prev => entries.reduce((acc, [playerId, name]) => ({ ...acc, [playerId]: name }), prev));
+    });
+  }, [activeGames, userData?.uid]);
+
   // Fetch sender names for received invites
   useEffect(() => {
     const fetchSenderNames = async () => {
@@ -265,26 +263,31 @@ export default function GamesScreen() {
   }, [sentInvites]);
 
   // Handle sending game invite
-  const handleSendInvite = async (friendId: string) => {
+  const handleSendInvite = async (friendId: string, delivery: GameInviteDelivery) => {
     if (!selectedGame || !userData) return;
     
     // Prevent inviting to coming soon games
-    if (selectedGame.id === 'turdle' || selectedGame.id === 'memory' || selectedGame.id === 'geography') {
+    const definition = getGameDefinition(selectedGame.id);
+    if (!definition || definition.comingSoon) {
       Alert.alert('Coming Soon', 'This game is not yet available.');
       setShowInviteModal(false);
       return;
     }
 
     try {
-      // First, set user's status to shitting if they're not already
-      if (!userData.isShitting) {
+      // A live game needs the sender on the throne too
+      if (delivery === 'now' && !userData.isShitting) {
         console.log('Setting user status to shitting before sending invite');
         await updateUserStatus(true);
       }
 
       console.log('Sending game invite to friend:', friendId, 'for game:', selectedGame.id);
-      await sendInvite(friendId, selectedGame.id as 'tictactoe');
+      await sendInvite(friendId, selectedGame.id as GameType, definition.InviteOptions ? inviteOptions : undefined, delivery);
       setShowInviteModal(false);
+      
+      if (delivery === 'nextSession') {
+        Alert.alert('Invite Sent', "Your friend will get the invite when they're next on the throne.");
+      }
     } catch (error) {
       console.error('Error sending game invite:', error);
       Alert.alert('Error', error instanceof Error ? error.message : 'Failed to send game invite. Please try again.');
@@ -317,17 +320,18 @@ export default function GamesScreen() {
   };
 
   // Render a game card
-  const renderGameCard = (game: GameCard) => (
+  const renderGameCard = (game: GameListing) => (
     <TouchableOpacity 
       key={game.id}
       style={styles.gameCard}
       onPress={() => {
         setSelectedGame(game);
+        setInviteOptions({});
         setShowInviteModal(true);
       }}
     >
       <View style={[styles.gameIconContainer, { backgroundColor: game.color }]}>
-        <Ionicons name={game.icon as any} size={32} color="#fff" />
+        <Ionicons name={game.icon} size={32} color="#fff" />
       </View>
       
       <View style={styles.gameInfo}>
@@ -339,14 +343,45 @@ export default function GamesScreen() {
     </TouchableOpacity>
   );
 
+  // Render a game in progress, showing who it's waiting on
+  const renderActiveGameCard = (game: Game) => {
+    const definition = getGameDefinition(game.type);
+    const opponentId = game.players.find(playerId => playerId !== userData?.uid);
+    const opponentName = (opponentId && playerNames[opponentId]) || 'Opponent';
+    const myMove = !!definition && !!userData?.uid && getWaitingOn(game, definition.rules).includes(userData.uid);
+
+    return (
+      <TouchableOpacity
+        key={game.id}
+        style={styles.gameCard}
+        onPress={() => navigation.navigate('Game', { gameId: game.id!, gameType: game.type })}
+      >
+        <View style={[styles.activeGameIcon, { backgroundColor: definition?.color || '#6b7280' }]}>
+          <Ionicons name={definition?.icon || 'game-controller'} size={24} color="#fff" />
+        </View>
+
+        <View style={styles.gameInfo}>
+          <Text style={styles.gameTitle}>{getGameTitle(game.type)}</Text>
+          <Text style={styles.gameDescription}>vs {opponentName}</Text>
+        </View>
+
+        <View style={[styles.turnBadge, myMove ? styles.myTurnBadge : styles.theirTurnBadge]}>
+          <Text style={styles.turnBadgeText}>
+            {myMove ? 'Your move' : `Waiting on ${opponentName}`}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
   // Render a coming soon game card
-  const renderComingSoonCard = (game: GameCard) => (
+  const renderComingSoonCard = (game: GameListing) => (
     <View 
       key={game.id}
       style={[styles.gameCard, styles.comingSoonCard]}
     >
       <View style={[styles.gameIconContainer, { backgroundColor: game.color }]}>
-        <Ionicons name={game.icon as any} size={32} color="#fff" />
+        <Ionicons name={game.icon} size={32} color="#fff" />
       </View>
       
       <View style={styles.gameInfo}>
@@ -365,7 +400,7 @@ export default function GamesScreen() {
     <TouchableOpacity
       key={friend.id}
       style={styles.friendItem}
-      onPress={() => handleSendInvite(friend.id)}
+      onPress={() => handleSendInvite(friend.id, friend.isShitting ? 'now' : 'nextSession')}
     >
       {friend.photoURL ? (
         <Image source={{ uri: friend.photoURL }} style={styles.friendAvatar} />
@@ -377,13 +412,23 @@ export default function GamesScreen() {
       
       <Text style={styles.friendName}>{friend.displayName}</Text>
       
-      <View style={styles.shittingBadge}>
-        <Ionicons name="water" size={12} color="#fff" />
-        <Text style={styles.shittingText}>Shitting</Text>
-      </View>
+      {friend.isShitting ? (
+        <View style={styles.shittingBadge}>
+          <Ionicons name="water" size={12} color="#fff" />
+          <Text style={styles.shittingText}>Shitting</Text>
+        </View>
+      ) : (
+        <View style={[styles.shittingBadge, styles.nextSessionBadge]}>
+          <Ionicons name="time" size={12} color="#fff" />
+          <Text style={styles.shittingText}>Next session</Text>
+        </View>
+      )}
     </TouchableOpacity>
   );
   
+  // Friends on the throne first; they can play right away
+  const sortedFriends = [...friends].sort((a, b) => Number(b.isShitting) - Number(a.isShitting));
+  
   return (
     <View style={styles.container}>
       <ScrollView style={styles.scrollView}>
@@ -427,7 +472,7 @@ export default function GamesScreen() {
                       <Ionicons name="game-controller" size={24} color="#6366f1" />
                       <View style={styles.inviteTextContainer}>
                         <Text style={styles.inviteText}>
-                          {getGameDisplayName(invite.gameType)}
+                          {getGameTitle(invite.gameType)}
                         </Text>
                         <Text style={styles.inviteSubtext}>
                           From: {invite.senderName}
@@ -463,11 +508,16 @@ export default function GamesScreen() {
                         <Ionicons name="game-controller" size={24} color="#6366f1" />
                         <View style={styles.inviteTextContainer}>
                           <Text style={styles.inviteText}>
-                            {getGameDisplayName(invite.gameType)}
+                            {getGameTitle(invite.gameType)}
                           </Text>
                           <Text style={styles.inviteSubtext}>
                             To: {invite.receiverName}
                           </Text>
+                          {invite.status === 'waiting' && (
+                            <Text style={styles.inviteSubtext}>
+                              Waiting for their next session
+                            </Text>
+                          )}
                         </View>
                       </View>
                       <TouchableOpacity
@@ -484,6 +534,13 @@ export default function GamesScreen() {
           </View>
         )}
         
+        {activeGames.length > 0 && (
+          <View style={styles.gamesSection}>
+            <Text style={styles.sectionTitle}>Active Games</Text>
+            {activeGames.map(renderActiveGameCard)}
+          </View>
+        )}
+        
         <View style={styles.gamesSection}>
           <Text style={styles.sectionTitle}>Available Games</Text>
           {games.map(renderGameCard)}
@@ -513,19 +570,23 @@ export default function GamesScreen() {
               </TouchableOpacity>
             </View>
 
+            {InviteOptions && (
+              <InviteOptions options={inviteOptions} onChange={setInviteOptions} />
+            )}
+
             {loading ? (
               <View style={styles.loadingContainer}>
                 <Text style={styles.loadingText}>Loading friends...</Text>
               </View>
             ) : friends.length > 0 ? (
               <ScrollView style={styles.friendsList}>
-                {friends.map(renderFriendItem)}
+                {sortedFriends.map(renderFriendItem)}
               </ScrollView>
             ) : (
               <View style={styles.emptyContainer}>
                 <Ionicons name="people" size={48} color="#d1d5db" />
-                <Text style={styles.emptyText}>No friends currently shitting</Text>
-                <Text style={styles.emptySubtext}>Invite them to play when they're on the toilet!</Text>
+                <Text style={styles.emptyText}>No friends yet</Text>
+                <Text style={styles.emptySubtext}>Add friends to play with them when they're on the toilet!</Text>
               </View>
             )}
           </View>
@@ -631,6 +692,31 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#6b7280',
   },
+  activeGameIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 15,
+  },
+  turnBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    maxWidth: 120,
+  },
+  myTurnBadge: {
+    backgroundColor: '#10b981',
+  },
+  theirTurnBadge: {
+    backgroundColor: '#9ca3af',
+  },
+  turnBadgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
   modalContainer: {
     flex: 1,
     backgroundColor: 'rgba(0, 0, 0, 0.5)',
@@ -701,6 +787,9 @@ const styles = StyleSheet.create({
     paddingVertical: 4,
     borderRadius: 12,
   },
+  nextSessionBadge: {
+    backgroundColor: '#6b7280',
+  },
   shittingText: {
     color: '#fff',
     fontSize: 12,
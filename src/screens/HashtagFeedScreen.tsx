@@ -0,0 +1,237 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Image
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRoute, useNavigation, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useAuth } from '../contexts/AuthContext';
+import { RootStackParamList } from '../navigation/types';
+import { Shweet } from '../services/database/shweetService';
+import { FeedCursor, getHashtagFeedPage } from '../services/database/feedService';
+import { getUserData } from '../services/database/userService';
+import { formatTimestamp } from '../utils/formatTimestamp';
+import ShweetContent from '../components/ShweetContent';
+import ShweetMediaGrid from '../components/ShweetMediaGrid';
+import SharedShweetCard from '../components/SharedShweetCard';
+import { DEFAULT_REACTION, getReactionEmoji } from '../services/database/reactionService';
+
+type HashtagFeedRouteProp = RouteProp<RootStackParamList, 'HashtagFeed'>;
+
+// Shweets from the user and their friends that use a hashtag, newest first
+export default function HashtagFeedScreen() {
+  const route = useRoute<HashtagFeedRouteProp>();
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const { tag } = route.params;
+  const { userData } = useAuth();
+  const [shweets, setShweets] = useState<Shweet[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const authorIds = useRef<string[]>([]);
+  const cursor = useRef<FeedCursor | null>(null);
+
+  useEffect(() => {
+    navigation.setOptions({ title: `#${tag}` });
+  }, [navigation, tag]);
+
+  useEffect(() => {
+    if (!userData?.uid) return;
+
+    const loadFirstPage = async () => {
+      try {
+        // Read the friends list fresh; the one in context can be stale
+        const currentUser = await getUserData(userData.uid);
+        const friendIds = currentUser?.friends || [];
+        authorIds.current = [userData.uid, ...friendIds.filter(id => id !== userData.uid)];
+
+        const page = await getHashtagFeedPage(tag, authorIds.current);
+        cursor.current = page.cursor;
+        setShweets(page.shweets);
+      } catch (error) {
+        console.error('Error loading hashtag feed:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadFirstPage();
+  }, [tag, userData?.uid]);
+
+  const handleLoadMore = useCallback(async () => {
+    if (!cursor.current || loadingMore) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await getHashtagFeedPage(tag, authorIds.current, cursor.current);
+      cursor.current = page.cursor;
+      setShweets(currentShweets => {
+        const loadedIds = new Set(currentShweets.map(shweet => shweet.id));
+        return [...currentShweets, ...page.shweets.filter(shweet => !loadedIds.has(shweet.id))];
+      });
+    } catch (error) {
+      console.error('Error loading older hashtag shweets:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [tag, loadingMore]);
+
+  const renderShweet = ({ item }: { item: Shweet }) => (
+    <TouchableOpacity
+      style={styles.shweetCard}
+      onPress={() => navigation.push('ShweetDetails', { shweetId: item.id! })}
+      activeOpacity={0.7}
+    >
+      <TouchableOpacity
+        style={styles.authorInfo}
+        onPress={() => navigation.push('UserProfile', { userId: item.authorId })}
+      >
+        {item.authorPhotoURL ? (
+          <Image source={{ uri: item.authorPhotoURL }} style={styles.avatar} />
+        ) : (
+          <View style={styles.defaultAvatar}>
+            <Text style={styles.avatarText}>{item.authorName.charAt(0)}</Text>
+          </View>
+        )}
+        <View>
+          <Text style={styles.authorName}>{item.authorName}</Text>
+          <Text style={styles.timestamp}>{formatTimestamp(item.timestamp)}</Text>
+        </View>
+      </TouchableOpacity>
+      <ShweetContent style={styles.shweetContent} content={item.content} entities={item.entities} />
+      <ShweetMediaGrid media={item.media} />
+      {item.shareType && <SharedShweetCard shared={item.shared} />}
+      <View style={styles.counts}>
+        <Text style={styles.countEmoji}>{getReactionEmoji(DEFAULT_REACTION)}</Text>
+        <Text style={styles.countText}>{item.reactionCount}</Text>
+        <Ionicons name="chatbubble-outline" size={16} color="#6b7280" />
+        <Text style={styles.countText}>{item.comments}</Text>
+      </View>
+    </TouchableOpacity>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#10b981" />
+      </View>
+    );
+  }
+
+  return (
+    <FlatList
+      style={styles.container}
+      data={shweets}
+      keyExtractor={(item) => item.id!}
+      renderItem={renderShweet}
+      contentContainerStyle={styles.list}
+      onEndReached={handleLoadMore}
+      onEndReachedThreshold={0.5}
+      ListEmptyComponent={
+        <View style={styles.empty}>
+          <Ionicons name="pricetag-outline" size={48} color="#d1d5db" />
+          <Text style={styles.emptyText}>No shweets with #{tag} yet</Text>
+        </View>
+      }
+      ListFooterComponent={loadingMore ? (
+        <ActivityIndicator style={styles.loadingMore} color="#10b981" />
+      ) : null}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f9fafb',
+  },
+  list: {
+    padding: 15,
+  },
+  shweetCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 15,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  authorInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    marginRight: 10,
+  },
+  defaultAvatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#6366f1',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 10,
+  },
+  avatarText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  authorName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  timestamp: {
+    fontSize: 12,
+    color: '#9ca3af',
+  },
+  shweetContent: {
+    fontSize: 16,
+    color: '#1f2937',
+    lineHeight: 22,
+  },
+  counts: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  countEmoji: {
+    fontSize: 14,
+  },
+  countText: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginLeft: 4,
+    marginRight: 14,
+  },
+  empty: {
+    alignItems: 'center',
+    paddingTop: 60,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#9ca3af',
+    marginTop: 10,
+  },
+  loadingMore: {
+    paddingVertical: 20,
+  },
+});
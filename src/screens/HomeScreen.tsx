@@ -17,6 +17,7 @@ import { doc, onSnapshot } from 'firebase/firestore';
 import { firestore } from '../firebase/config';
 import { RootStackParamList } from '../navigation/types';
 import { Button } from '../components/common';
+import { publishSessionShweets } from '../services/storage/pendingShweetService';
 
 type HomeScreenNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
@@ -100,12 +101,24 @@ export default function HomeScreen() {
   // Toggle shit status
   const toggleShitStatus = useCallback(async () => {
     try {
-      console.log("Toggling shit status to:", !stats.isShitting);
-      await updateUserStatus(!stats.isShitting);
+      const starting = !stats.isShitting;
+      console.log("Toggling shit status to:", starting);
+      await updateUserStatus(starting);
+      
+      // Shweets queued for the next session go out as soon as it starts
+      if (starting && userData?.uid) {
+        publishSessionShweets({
+          authorId: userData.uid,
+          authorName: userData.displayName || 'Anonymous',
+          authorPhotoURL: userData.photoURL,
+        }).catch(() => {
+          // Logged by the service; the queue is kept for the next session
+        });
+      }
     } catch (error) {
       console.error('Error updating status:', error);
     }
-  }, [stats.isShitting, updateUserStatus]);
+  }, [stats.isShitting, updateUserStatus, userData]);
   
   // Handle refresh
   const onRefresh = async () => {
@@ -169,6 +182,11 @@ export default function HomeScreen() {
               </Text>
             </View>
           )}
+          
+          {/* For sessions that were never started, or need fixing */}
+          <TouchableOpacity style={styles.historyLink} onPress={() => navigation.navigate('SessionHistory')}>
+            <Text style={styles.historyLinkText}>Forgot one? Log or fix a session</Text>
+          </TouchableOpacity>
         </View>
         
         {/* Stats section removed - now only shown on Profile screen to reduce redundancy */}
@@ -283,6 +301,14 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#ef4444',
   },
+  historyLink: {
+    marginTop: 15,
+    alignItems: 'center',
+  },
+  historyLinkText: {
+    fontSize: 14,
+    color: '#6366f1',
+  },
   tipsContainer: {
     padding: 15,
     paddingBottom: 30,
@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Image
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useAuth } from '../contexts/AuthContext';
+import { RootStackParamList } from '../navigation/types';
+import {
+  Notification,
+  markNotificationsRead,
+  subscribeToNotifications
+} from '../services/database/notificationService';
+import { formatTimestamp } from '../utils/formatTimestamp';
+
+export default function NotificationsScreen() {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const { userData } = useAuth();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userData?.uid) return;
+
+    return subscribeToNotifications(userData.uid, (updatedNotifications) => {
+      setNotifications(updatedNotifications);
+      setLoading(false);
+    });
+  }, [userData?.uid]);
+
+  // Failures are logged by the service and the list shows what was saved
+  const markRead = (notificationIds: string[]) => {
+    if (!userData?.uid) return;
+    markNotificationsRead(userData.uid, notificationIds).catch(() => {});
+  };
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.read) {
+      markRead([notification.id!]);
+    }
+    navigation.navigate('ShweetDetails', { shweetId: notification.shweetId });
+  };
+
+  const handleMarkAllRead = () => {
+    markRead(notifications.filter(notification => !notification.read).map(notification => notification.id!));
+  };
+
+  const renderNotification = ({ item }: { item: Notification }) => (
+    <TouchableOpacity
+      style={[styles.notification, !item.read && styles.unread]}
+      onPress={() => handleOpen(item)}
+    >
+      {item.actorPhotoURL ? (
+        <Image source={{ uri: item.actorPhotoURL }} style={styles.avatar} />
+      ) : (
+        <View style={styles.defaultAvatar}>
+          <Text style={styles.avatarText}>{item.actorName.charAt(0)}</Text>
+        </View>
+      )}
+      <View style={styles.body}>
+        <Text style={styles.title}>
+          <Text style={styles.actorName}>{item.actorName}</Text> mentioned you
+        </Text>
+        <Text style={styles.preview} numberOfLines={2}>{item.preview}</Text>
+        <Text style={styles.timestamp}>{formatTimestamp(item.timestamp)}</Text>
+      </View>
+      {!item.read && <View style={styles.unreadDot} />}
+    </TouchableOpacity>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#6366f1" />
+      </View>
+    );
+  }
+
+  return (
+    <FlatList
+      style={styles.container}
+      data={notifications}
+      keyExtractor={(item) => item.id!}
+      renderItem={renderNotification}
+      ListHeaderComponent={notifications.some(notification => !notification.read) ? (
+        <TouchableOpacity style={styles.markAllButton} onPress={handleMarkAllRead}>
+          <Text style={styles.markAllText}>Mark all as read</Text>
+        </TouchableOpacity>
+      ) : null}
+      ListEmptyComponent={
+        <View style={styles.empty}>
+          <Ionicons name="notifications-outline" size={48} color="#d1d5db" />
+          <Text style={styles.emptyText}>No notifications yet</Text>
+        </View>
+      }
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f9fafb',
+  },
+  notification: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    padding: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  unread: {
+    backgroundColor: '#eef2ff',
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    marginRight: 12,
+  },
+  defaultAvatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#6366f1',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  avatarText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  body: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 15,
+    color: '#1f2937',
+  },
+  actorName: {
+    fontWeight: 'bold',
+  },
+  preview: {
+    fontSize: 14,
+    color: '#4b5563',
+    marginTop: 2,
+  },
+  timestamp: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: 4,
+  },
+  unreadDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#6366f1',
+    marginLeft: 10,
+  },
+  markAllButton: {
+    alignItems: 'flex-end',
+    padding: 12,
+  },
+  markAllText: {
+    color: '#6366f1',
+    fontWeight: '600',
+  },
+  empty: {
+    alignItems: 'center',
+    paddingTop: 60,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#9ca3af',
+    marginTop: 10,
+  },
+});
@@ -1,9 +1,13 @@
 import React, { useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Image, TextInput, Alert, ScrollView } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useAuth } from '../contexts/AuthContext';
+import { RootStackParamList } from '../navigation/types';
 
 export default function ProfileScreen() {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
   const { userData, logout, updateUserProfile } = useAuth();
   
   const [isEditing, setIsEditing] = useState(false);
@@ -150,6 +154,18 @@ export default function ProfileScreen() {
             <Text style={styles.statLabel}>Friends</Text>
           </View>
         </View>
+        
+        <TouchableOpacity style={styles.settingItem} onPress={() => navigation.navigate('Stats')}>
+          <Ionicons name="stats-chart-outline" size={24} color="#6366f1" style={styles.settingIcon} />
+          <Text style={styles.settingText}>Charts & Trends</Text>
+          <Ionicons name="chevron-forward" size={20} color="#9ca3af" />
+        </TouchableOpacity>
+        
+        <TouchableOpacity style={styles.settingItem} onPress={() => navigation.navigate('SessionHistory')}>
+          <Ionicons name="list-outline" size={24} color="#6366f1" style={styles.settingIcon} />
+          <Text style={styles.settingText}>Session History</Text>
+          <Ionicons name="chevron-forward" size={20} color="#9ca3af" />
+        </TouchableOpacity>
       </View>
       
       <View style={styles.settingsContainer}>
@@ -0,0 +1,275 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  Alert
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  ShitSession,
+  SessionValidationError,
+  addSession,
+  deleteSession,
+  getSessions,
+  updateSession
+} from '../services/database/sessionService';
+import SessionEditor from '../components/SessionEditor';
+
+const formatDay = (time: number) =>
+  new Date(time).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+// Format duration in minutes and seconds
+const formatDuration = (milliseconds: number) => {
+  const totalSeconds = Math.floor(milliseconds / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}m ${seconds}s`;
+};
+
+// Notes shown under a session about how it got into the log
+const getSessionNotes = (session: ShitSession): string[] => [
+  ...(session.endedBy === 'manual' ? ['Logged by hand'] : []),
+  ...(session.autoClosed ? [session.needsReview ? 'Ended automatically, not checked yet' : 'Ended automatically'] : []),
+  ...(!session.counted ? ['Too short to count'] : []),
+];
+
+export default function SessionHistoryScreen() {
+  const navigation = useNavigation();
+  const { userData } = useAuth();
+  const [sessions, setSessions] = useState<ShitSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [editorVisible, setEditorVisible] = useState(false);
+  const [editingSession, setEditingSession] = useState<ShitSession | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    if (!userData?.uid) return;
+
+    try {
+      setSessions(await getSessions(userData.uid));
+    } catch (error) {
+      console.error('Error loading sessions:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [userData?.uid]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const openEditor = (session: ShitSession | null) => {
+    setEditingSession(session);
+    setEditorVisible(true);
+  };
+
+  useEffect(() => {
+    navigation.setOptions({
+      headerRight: () => (
+        <TouchableOpacity onPress={() => openEditor(null)}>
+          <Ionicons name="add" size={26} color="#6366f1" />
+        </TouchableOpacity>
+      ),
+    });
+  }, [navigation]);
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadSessions();
+  };
+
+  const handleSave = async (startTime: number, endTime: number) => {
+    if (!userData?.uid) return;
+
+    try {
+      if (editingSession) {
+        await updateSession(userData.uid, editingSession, startTime, endTime);
+      } else {
+        await addSession(userData.uid, startTime, endTime);
+      }
+      setEditorVisible(false);
+      loadSessions();
+    } catch (error) {
+      if (error instanceof SessionValidationError) {
+        Alert.alert("Can't Save Session", error.message);
+      } else {
+        Alert.alert('Error', 'Failed to save the session. Please try again.');
+      }
+    }
+  };
+
+  const handleDelete = (session: ShitSession) => {
+    if (!userData?.uid) return;
+
+    Alert.alert(
+      'Delete Session',
+      'This session will be removed from your history and stats.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteSession(userData.uid, session.startTime);
+              setEditorVisible(false);
+              setSessions(prev => prev.filter(item => item.startTime !== session.startTime));
+            } catch (error) {
+              Alert.alert('Error', 'Failed to delete the session. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderSession = ({ item }: { item: ShitSession }) => {
+    const notes = getSessionNotes(item);
+
+    return (
+      <TouchableOpacity style={styles.session} onPress={() => openEditor(item)} activeOpacity={0.7}>
+        <View style={styles.sessionBody}>
+          <Text style={styles.sessionDay}>{formatDay(item.startTime)}</Text>
+          <Text style={styles.sessionTimes}>
+            {formatTime(item.startTime)} – {formatTime(item.endTime)}
+          </Text>
+          {notes.length > 0 && (
+            <Text style={[styles.sessionNotes, item.needsReview && styles.reviewNotes]}>
+              {notes.join(' · ')}
+            </Text>
+          )}
+        </View>
+        <Text style={[styles.sessionDuration, !item.counted && styles.uncountedDuration]}>
+          {formatDuration(item.duration)}
+        </Text>
+        <Ionicons name="chevron-forward" size={18} color="#9ca3af" />
+      </TouchableOpacity>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#6366f1" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={sessions}
+        keyExtractor={(item) => String(item.startTime)}
+        renderItem={renderSession}
+        contentContainerStyle={sessions.length === 0 ? styles.emptyContent : styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+        ListEmptyComponent={
+          <View style={styles.centered}>
+            <Ionicons name="time-outline" size={48} color="#d1d5db" />
+            <Text style={styles.emptyText}>No sessions yet</Text>
+            <TouchableOpacity style={styles.addButton} onPress={() => openEditor(null)}>
+              <Text style={styles.addButtonText}>Log a Session</Text>
+            </TouchableOpacity>
+          </View>
+        }
+      />
+      <SessionEditor
+        visible={editorVisible}
+        session={editingSession}
+        onSave={handleSave}
+        onDelete={handleDelete}
+        onClose={() => setEditorVisible(false)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  content: {
+    padding: 16,
+  },
+  emptyContent: {
+    flexGrow: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 30,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  addButton: {
+    marginTop: 16,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 20,
+    backgroundColor: '#6366f1',
+  },
+  addButtonText: {
+    fontSize: 15,
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  session: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  sessionBody: {
+    flex: 1,
+  },
+  sessionDay: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  sessionTimes: {
+    marginTop: 2,
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  sessionNotes: {
+    marginTop: 4,
+    fontSize: 12,
+    color: '#9ca3af',
+  },
+  reviewNotes: {
+    color: '#f59e0b',
+  },
+  sessionDuration: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6366f1',
+    marginRight: 6,
+  },
+  uncountedDuration: {
+    color: '#9ca3af',
+  },
+});
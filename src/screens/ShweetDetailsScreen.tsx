@@ -0,0 +1,658 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Image,
+  Alert,
+  KeyboardAvoidingView,
+  Platform
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useAuth } from '../contexts/AuthContext';
+import { RootStackParamList } from '../navigation/types';
+import {
+  Shweet,
+  ShweetComment,
+  ShweetVersion,
+  addComment,
+  deleteComment,
+  getShweetVersions,
+  likeComment,
+  subscribeToShweet,
+  subscribeToShweetComments,
+  unlikeComment
+} from '../services/database/shweetService';
+import {
+  ReactionType,
+  reactToShweet,
+  removeReaction,
+  subscribeToUserReaction
+} from '../services/database/reactionService';
+import { getUserData } from '../services/database/userService';
+import { formatTimestamp } from '../utils/formatTimestamp';
+import ShweetContent from '../components/ShweetContent';
+import ShweetMediaGrid from '../components/ShweetMediaGrid';
+import SharedShweetCard from '../components/SharedShweetCard';
+import ReactionBar from '../components/ReactionBar';
+import ReactionsSheet from '../components/ReactionsSheet';
+
+type ShweetDetailsRouteProp = RouteProp<RootStackParamList, 'ShweetDetails'>;
+
+// A top-level comment with its replies, oldest first
+interface CommentThread {
+  comment: ShweetComment;
+  replies: ShweetComment[];
+}
+
+const Avatar: React.FC<{ name: string; photoURL: string | null; size: number }> = ({ name, photoURL, size }) => (
+  photoURL ? (
+    <Image source={{ uri: photoURL }} style={[styles.avatar, { width: size, height: size, borderRadius: size / 2 }]} />
+  ) : (
+    <View style={[styles.defaultAvatar, { width: size, height: size, borderRadius: size / 2 }]}>
+      <Text style={styles.avatarText}>{name.charAt(0)}</Text>
+    </View>
+  )
+);
+
+const CommentItem: React.FC<{
+  comment: ShweetComment;
+  currentUserId: string | undefined;
+  isReply: boolean;
+  onLike: (comment: ShweetComment) => void;
+  onReply: (comment: ShweetComment) => void;
+  onDelete: (comment: ShweetComment) => void;
+}> = ({ comment, currentUserId, isReply, onLike, onReply, onDelete }) => {
+  const userHasLiked = comment.likes.includes(currentUserId || '');
+
+  return (
+    <View style={[styles.comment, isReply && styles.reply]}>
+      <Avatar name={comment.authorName || '?'} photoURL={comment.authorPhotoURL} size={isReply ? 28 : 34} />
+      <View style={styles.commentBody}>
+        <View style={styles.commentHeader}>
+          <Text style={styles.commentAuthor}>{comment.authorName}</Text>
+          {comment.isFromToilet && (
+            <Ionicons name="water" size={12} color="#ef4444" style={styles.toiletIcon} />
+          )}
+          <Text style={styles.timestamp}>{formatTimestamp(comment.timestamp)}</Text>
+        </View>
+        <Text style={styles.commentContent}>{comment.content}</Text>
+        <View style={styles.commentActions}>
+          <TouchableOpacity style={styles.commentAction} onPress={() => onLike(comment)}>
+            <Ionicons
+              name={userHasLiked ? 'heart' : 'heart-outline'}
+              size={16}
+              color={userHasLiked ? '#6366f1' : '#6b7280'}
+            />
+            {comment.likes.length > 0 && (
+              <Text style={[styles.commentActionText, userHasLiked && styles.likedText]}>
+                {comment.likes.length}
+              </Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.commentAction} onPress={() => onReply(comment)}>
+            <Text style={styles.commentActionText}>Reply</Text>
+          </TouchableOpacity>
+          {currentUserId === comment.authorId && (
+            <TouchableOpacity style={styles.commentAction} onPress={() => onDelete(comment)}>
+              <Text style={[styles.commentActionText, styles.deleteText]}>Delete</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    </View>
+  );
+};
+
+export default function ShweetDetailsScreen() {
+  const route = useRoute<ShweetDetailsRouteProp>();
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const { shweetId } = route.params;
+  const { userData } = useAuth();
+  const [shweet, setShweet] = useState<Shweet | null>(null);
+  const [author, setAuthor] = useState<{ name: string; photoURL: string | null } | null>(null);
+  const [comments, setComments] = useState<ShweetComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [deleted, setDeleted] = useState(false);
+  const [newComment, setNewComment] = useState('');
+  const [replyTo, setReplyTo] = useState<ShweetComment | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const inputRef = useRef<TextInput>(null);
+  const [versions, setVersions] = useState<ShweetVersion[] | null>(null);
+  const [userReaction, setUserReaction] = useState<ReactionType | null>(null);
+  const [reactionsVisible, setReactionsVisible] = useState(false);
+
+  // Live shweet and comments
+  useEffect(() => {
+    const unsubscribeShweet = subscribeToShweet(shweetId, (updatedShweet) => {
+      setShweet(updatedShweet);
+      setDeleted(!updatedShweet || updatedShweet.deleted);
+      setLoading(false);
+    });
+    const unsubscribeComments = subscribeToShweetComments(shweetId, setComments);
+
+    return () => {
+      unsubscribeShweet();
+      unsubscribeComments();
+    };
+  }, [shweetId]);
+
+  // The current user's reaction, kept live alongside the counts
+  useEffect(() => {
+    if (!userData?.uid) return;
+
+    return subscribeToUserReaction(shweetId, userData.uid, setUserReaction);
+  }, [shweetId, userData?.uid]);
+
+  // Shweets from the feed only store the author ID, so look the author up
+  const authorId = shweet?.authorId;
+  useEffect(() => {
+    if (!authorId) return;
+
+    getUserData(authorId)
+      .then(authorData => setAuthor({
+        name: authorData?.displayName || 'Unknown User',
+        photoURL: authorData?.photoURL || null
+      }))
+      .catch(error => console.error('Error fetching shweet author:', error));
+  }, [authorId]);
+
+  const threads = useMemo<CommentThread[]>(() => {
+    const repliesByParent: { [parentId: string]: ShweetComment[] } = {};
+    comments.forEach(comment => {
+      if (comment.parentId) {
+        repliesByParent[comment.parentId] = [...(repliesByParent[comment.parentId] || []), comment];
+      }
+    });
+
+    return comments
+      .filter(comment => !comment.parentId)
+      .map(comment => ({ comment, replies: repliesByParent[comment.id!] || [] }));
+  }, [comments]);
+
+  const handleReact = async (reaction: ReactionType | null) => {
+    if (!userData?.uid || !shweet) return;
+
+    try {
+      if (reaction) {
+        await reactToShweet(shweetId, userData.uid, reaction);
+      } else {
+        await removeReaction(shweetId, userData.uid);
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Failed to update reaction. Please try again.');
+    }
+  };
+
+  const handleLikeComment = async (comment: ShweetComment) => {
+    if (!userData?.uid) return;
+
+    try {
+      if (comment.likes.includes(userData.uid)) {
+        await unlikeComment(shweetId, comment.id!, userData.uid);
+      } else {
+        await likeComment(shweetId, comment.id!, userData.uid);
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Failed to update like. Please try again.');
+    }
+  };
+
+  // Previous versions are loaded the first time they are asked for
+  const handleToggleHistory = async () => {
+    if (versions) {
+      setVersions(null);
+      return;
+    }
+
+    try {
+      setVersions(await getShweetVersions(shweetId));
+    } catch (error) {
+      Alert.alert('Error', 'Failed to load edit history.');
+    }
+  };
+
+  const handleReply = (comment: ShweetComment) => {
+    setReplyTo(comment);
+    inputRef.current?.focus();
+  };
+
+  const handleDeleteComment = (comment: ShweetComment) => {
+    if (!userData?.uid) return;
+
+    const hasReplies = comment.replyCount > 0;
+    Alert.alert(
+      'Delete Comment',
+      hasReplies
+        ? 'Are you sure you want to delete this comment and its replies?'
+        : 'Are you sure you want to delete this comment?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteComment(shweetId, comment.id!, userData.uid!);
+              if (replyTo && (replyTo.id === comment.id || replyTo.parentId === comment.id)) {
+                setReplyTo(null);
+              }
+            } catch (error) {
+              Alert.alert('Error', 'Failed to delete comment. Please try again.');
+            }
+          }
+        }
+      ],
+      { cancelable: true }
+    );
+  };
+
+  const handlePostComment = async () => {
+    if (!userData?.uid || !newComment.trim()) return;
+
+    setSubmitting(true);
+    try {
+      await addComment({
+        shweetId,
+        parentId: replyTo?.id || null,
+        authorId: userData.uid,
+        authorName: userData.displayName || 'Anonymous',
+        authorPhotoURL: userData.photoURL,
+        content: newComment.trim(),
+        isFromToilet: userData.isShitting === true,
+      });
+      setNewComment('');
+      setReplyTo(null);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to post comment. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#10b981" />
+      </View>
+    );
+  }
+
+  if (deleted || !shweet) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="trash-outline" size={48} color="#d1d5db" />
+        <Text style={styles.emptyText}>This shweet has been deleted</Text>
+      </View>
+    );
+  }
+
+  const authorName = author?.name || shweet.authorName;
+
+  const renderHeader = () => (
+    <View style={styles.shweetCard}>
+      <View style={styles.authorInfo}>
+        <Avatar name={authorName} photoURL={author?.photoURL ?? shweet.authorPhotoURL} size={44} />
+        <View>
+          <Text style={styles.authorName}>{authorName}</Text>
+          <View style={styles.timestampRow}>
+            <Text style={styles.timestamp}>{formatTimestamp(shweet.timestamp)}</Text>
+            {shweet.editedAt && (
+              <TouchableOpacity onPress={handleToggleHistory}>
+                <Text style={styles.editedLink}>
+                  · edited {formatTimestamp(shweet.editedAt)} ({versions ? 'hide history' : 'view history'})
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      </View>
+      {!!shweet.content && (
+        <ShweetContent style={styles.shweetContent} content={shweet.content} entities={shweet.entities} />
+      )}
+      <ShweetMediaGrid media={shweet.media} />
+      {shweet.shareType && <SharedShweetCard shared={shweet.shared} />}
+      {versions && (
+        <View style={styles.history}>
+          {versions.length === 0 ? (
+            <Text style={styles.historyTimestamp}>No earlier versions</Text>
+          ) : (
+            versions.map(version => (
+              <View key={version.id} style={styles.historyVersion}>
+                <Text style={styles.historyTimestamp}>Replaced {formatTimestamp(version.timestamp)}</Text>
+                <ShweetContent style={styles.historyContent} content={version.content} entities={version.entities} />
+              </View>
+            ))
+          )}
+        </View>
+      )}
+      <View style={styles.shweetFooter}>
+        <ReactionBar
+          reactionCount={shweet.reactionCount}
+          reactionCounts={shweet.reactionCounts}
+          userReaction={userReaction}
+          onReact={handleReact}
+          onViewReactions={() => setReactionsVisible(true)}
+        />
+        <View style={styles.footerButton}>
+          <Ionicons name="chatbubble-outline" size={20} color="#6b7280" />
+          <Text style={styles.footerText}>{shweet.comments}</Text>
+        </View>
+        <View style={styles.footerButton}>
+          <Ionicons name="repeat" size={22} color="#6b7280" />
+          <Text style={styles.footerText}>{shweet.reshweets}</Text>
+        </View>
+        <View style={styles.footerButton}>
+          <Ionicons name="chatbox-ellipses-outline" size={20} color="#6b7280" />
+          <Text style={styles.footerText}>{shweet.quotes}</Text>
+        </View>
+      </View>
+    </View>
+  );
+
+  const renderThread = ({ item }: { item: CommentThread }) => (
+    <View style={styles.thread}>
+      <CommentItem
+        comment={item.comment}
+        currentUserId={userData?.uid}
+        isReply={false}
+        onLike={handleLikeComment}
+        onReply={handleReply}
+        onDelete={handleDeleteComment}
+      />
+      {item.replies.map(reply => (
+        <CommentItem
+          key={reply.id}
+          comment={reply}
+          currentUserId={userData?.uid}
+          isReply={true}
+          onLike={handleLikeComment}
+          onReply={handleReply}
+          onDelete={handleDeleteComment}
+        />
+      ))}
+    </View>
+  );
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      keyboardVerticalOffset={Platform.OS === 'ios' ? 90 : 0}
+    >
+      <FlatList
+        data={threads}
+        keyExtractor={(item) => item.comment.id!}
+        renderItem={renderThread}
+        ListHeaderComponent={renderHeader}
+        ListEmptyComponent={
+          <View style={styles.emptyComments}>
+            <Text style={styles.emptyText}>No comments yet. Be the first!</Text>
+          </View>
+        }
+        contentContainerStyle={styles.list}
+        keyboardShouldPersistTaps="handled"
+      />
+
+      <View style={styles.composeContainer}>
+        {replyTo && (
+          <View style={styles.replyBanner}>
+            <Text style={styles.replyBannerText}>Replying to {replyTo.authorName}</Text>
+            <TouchableOpacity onPress={() => setReplyTo(null)}>
+              <Ionicons name="close" size={18} color="#6b7280" />
+            </TouchableOpacity>
+          </View>
+        )}
+        <View style={styles.inputContainer}>
+          <TextInput
+            ref={inputRef}
+            style={styles.input}
+            placeholder={replyTo ? 'Write a reply...' : 'Add a comment...'}
+            multiline
+            value={newComment}
+            onChangeText={setNewComment}
+            placeholderTextColor="#9ca3af"
+          />
+          <TouchableOpacity
+            style={styles.sendButton}
+            onPress={handlePostComment}
+            disabled={submitting || !newComment.trim()}
+          >
+            {submitting ? (
+              <ActivityIndicator color="#fff" size="small" />
+            ) : (
+              <Ionicons name="send" size={18} color="#fff" />
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <ReactionsSheet
+        shweetId={reactionsVisible ? shweetId : null}
+        reactionCounts={shweet.reactionCounts}
+        currentUserId={userData?.uid}
+        onClose={() => setReactionsVisible(false)}
+        onOpenUser={(userId) => {
+          setReactionsVisible(false);
+          navigation.push('UserProfile', { userId });
+        }}
+      />
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+    backgroundColor: '#f9fafb',
+  },
+  list: {
+    padding: 15,
+  },
+  shweetCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 15,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  authorInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  avatar: {
+    marginRight: 10,
+  },
+  defaultAvatar: {
+    backgroundColor: '#6366f1',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 10,
+  },
+  avatarText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  authorName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  timestamp: {
+    fontSize: 12,
+    color: '#9ca3af',
+  },
+  timestampRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  editedLink: {
+    fontSize: 12,
+    color: '#6366f1',
+    marginLeft: 4,
+  },
+  history: {
+    marginTop: 10,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#f9fafb',
+  },
+  historyVersion: {
+    marginBottom: 8,
+  },
+  historyTimestamp: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginBottom: 2,
+  },
+  historyContent: {
+    fontSize: 14,
+    color: '#4b5563',
+  },
+  shweetContent: {
+    fontSize: 17,
+    color: '#374151',
+    lineHeight: 24,
+  },
+  shweetFooter: {
+    flexDirection: 'row',
+    marginTop: 12,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#f3f4f6',
+  },
+  footerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 24,
+  },
+  footerText: {
+    marginLeft: 6,
+    fontSize: 14,
+    color: '#6b7280',
+    fontWeight: '500',
+  },
+  likedText: {
+    color: '#6366f1',
+  },
+  thread: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+  },
+  comment: {
+    flexDirection: 'row',
+  },
+  reply: {
+    marginLeft: 44,
+    marginTop: 10,
+  },
+  commentBody: {
+    flex: 1,
+  },
+  commentHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 2,
+  },
+  commentAuthor: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginRight: 6,
+  },
+  toiletIcon: {
+    marginRight: 6,
+  },
+  commentContent: {
+    fontSize: 15,
+    color: '#374151',
+  },
+  commentActions: {
+    flexDirection: 'row',
+    marginTop: 6,
+  },
+  commentAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 16,
+  },
+  commentActionText: {
+    marginLeft: 4,
+    fontSize: 13,
+    color: '#6b7280',
+    fontWeight: '500',
+  },
+  deleteText: {
+    color: '#f87171',
+  },
+  emptyComments: {
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyText: {
+    marginTop: 10,
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  composeContainer: {
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  replyBanner: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  replyBannerText: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  input: {
+    flex: 1,
+    maxHeight: 100,
+    fontSize: 15,
+    color: '#374151',
+    padding: 0,
+  },
+  sendButton: {
+    padding: 8,
+    borderRadius: 20,
+    backgroundColor: '#6366f1',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: 8,
+  },
+});
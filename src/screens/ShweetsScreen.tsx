@@ -1,11 +1,60 @@
 import React, { useState, useEffect, useRef, useCallback, memo } from 'react';
-import { View, Text, StyleSheet, FlatList, TouchableOpacity, TextInput, ActivityIndicator, Image, TouchableWithoutFeedback, Keyboard, Alert, RefreshControl, Modal, Animated } from 'react-native';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, TextInput, ActivityIndicator, Image, TouchableWithoutFeedback, Keyboard, Alert, RefreshControl, Modal } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { collection, query, orderBy, limit, getDocs, doc, getDoc, addDoc, serverTimestamp, onSnapshot, deleteDoc, updateDoc, arrayUnion, arrayRemove, where } from 'firebase/firestore';
-import { ref, onValue } from 'firebase/database';
-import { firestore, database } from '../firebase/config';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { doc, getDoc, Timestamp } from 'firebase/firestore';
+import { firestore } from '../firebase/config';
 import { useAuth } from '../contexts/AuthContext';
-import { logFriendsRelationship } from '../services/database/userService';
+import { getUserFriends, logFriendsRelationship } from '../services/database/userService';
+import { formatTimestamp } from '../utils/formatTimestamp';
+import { RootStackParamList } from '../navigation/types';
+import {
+  Shweet as ServiceShweet,
+  ShareType,
+  SharedShweet,
+  UNDO_DELETE_MS,
+  canEditShweet,
+  createShweet,
+  deleteShweet,
+  editShweet,
+  hasReshweeted,
+  purgeDeletedShweet,
+  purgeDeletedShweets,
+  quoteShweet,
+  reshweetShweet,
+  restoreShweet,
+  toSharedShweet,
+  undoReshweet
+} from '../services/database/shweetService';
+import { FeedCursor, getTimelinePage, subscribeToTimelineHead } from '../services/database/feedService';
+import { rebuildTimeline } from '../services/database/timelineService';
+import ShweetContent from '../components/ShweetContent';
+import { MentionCandidate, ShweetEntity, getMentionQuery, parseShweetEntities } from '../utils/shweetEntities';
+import { subscribeToNotifications } from '../services/database/notificationService';
+import { MAX_SHWEET_MEDIA, PickedImage, ShweetMedia, uploadShweetMedia } from '../services/storage/shweetMediaService';
+import ShweetMediaGrid from '../components/ShweetMediaGrid';
+import SharedShweetCard from '../components/SharedShweetCard';
+import UndoToast from '../components/UndoToast';
+import ReactionBar from '../components/ReactionBar';
+import ReactionsSheet from '../components/ReactionsSheet';
+import PendingShweetsSheet from '../components/PendingShweetsSheet';
+import ScheduleShweetPicker from '../components/ScheduleShweetPicker';
+import {
+  PendingShweet,
+  PendingShweetKind,
+  removePendingShweet,
+  savePendingShweet,
+  subscribeToPendingShweets
+} from '../services/storage/pendingShweetService';
+import {
+  ReactionCounts,
+  ReactionType,
+  getUserReactions,
+  reactToShweet,
+  removeReaction
+} from '../services/database/reactionService';
+import * as ImagePicker from 'expo-image-picker';
 
 interface Shweet {
   id: string;
@@ -14,47 +63,52 @@ interface Shweet {
   authorPhotoURL: string | null;
   content: string;
   timestamp: any;
-  likes: string[]; // Array of user IDs who liked this shweet
+  reactionCount: number;
+  reactionCounts: ReactionCounts; // By reaction type
+  comments: number; // Count of comments, replies included
   isShitting: boolean;
+  entities: ShweetEntity[];
+  media: ShweetMedia[];
+  shareType: ShareType | null;
+  shared: SharedShweet | null;
+  reshweets: number;
+  quotes: number;
+  editedAt: Timestamp | null;
 }
 
-// Object to store status listeners
-const statusListeners: {[key: string]: () => void} = {};
-
-// Format timestamp
-const formatTimestamp = (timestamp: any) => {
-  if (!timestamp) return 'Just now';
-  
-  const now = new Date();
-  const date = timestamp.toDate();
-  const diffInSeconds = Math.floor((now.getTime() - date.getTime()) / 1000);
-  
-  if (diffInSeconds < 60) {
-    return 'less than 1 min';
-  } else if (diffInSeconds < 3600) {
-    return `${Math.floor(diffInSeconds / 60)}m ago`;
-  } else if (diffInSeconds < 86400) {
-    return `${Math.floor(diffInSeconds / 3600)}h ago`;
-  } else {
-    return date.toLocaleDateString();
-  }
-};
-
 // Create a memoized ShweetItem component to prevent unnecessary re-renders
-const ShweetItem = memo(({ item, onLike, onDelete, currentUserId, isDeleting, onViewLikes }: { 
+const ShweetItem = memo(({ item, userReaction, onReact, onDelete, currentUserId, isDeleting, onViewReactions, onOpen, onOpenAuthor, onShare, onEdit }: { 
   item: Shweet, 
-  onLike: (id: string) => void, 
+  userReaction: ReactionType | null,
+  onReact: (id: string, reaction: ReactionType | null) => void, 
   onDelete: (id: string) => void, 
   currentUserId: string | undefined,
   isDeleting: boolean,
-  onViewLikes: (id: string) => void
+  onViewReactions: (id: string) => void,
+  onOpen: (id: string) => void,
+  onOpenAuthor: (userId: string) => void,
+  onShare: (id: string) => void,
+  onEdit: (id: string) => void
 }) => {
-  const userHasLiked = item.likes.includes(currentUserId || '');
+  // A reshweet is just the shweet it shares; reactions and comments go there
+  const isReshweet = item.shareType === 'reshweet';
   
   return (
     <View style={styles.shweetCard}>
+      {isReshweet && (
+        <View style={styles.reshweetLabel}>
+          <Ionicons name="repeat" size={14} color="#6b7280" />
+          <Text style={styles.reshweetLabelText}>
+            {currentUserId === item.authorId ? 'You' : item.authorName} reshweeted
+          </Text>
+        </View>
+      )}
       <View style={styles.shweetHeader}>
-        <View style={styles.authorInfo}>
+        <TouchableOpacity 
+          style={styles.authorInfo}
+          onPress={() => onOpenAuthor(item.authorId)}
+          activeOpacity={0.7}
+        >
           {item.authorPhotoURL ? (
             <Image source={{ uri: item.authorPhotoURL }} style={styles.authorAvatar} />
           ) : (
@@ -72,11 +126,21 @@ const ShweetItem = memo(({ item, onLike, onDelete, currentUserId, isDeleting, on
                 </View>
               )}
               <Text style={styles.timestamp}>{formatTimestamp(item.timestamp)}</Text>
+              {item.editedAt && <Text style={styles.editedMarker}>· edited</Text>}
             </View>
           </View>
-        </View>
+        </TouchableOpacity>
         
         <View style={styles.actionButtons}>
+          {currentUserId && canEditShweet(item, currentUserId) && (
+            <TouchableOpacity 
+              style={styles.deleteButton}
+              onPress={() => onEdit(item.id)}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="create-outline" size={18} color="#6b7280" />
+            </TouchableOpacity>
+          )}
           {/* Delete button - only shown for user's own shweets */}
           {currentUserId === item.authorId && (
             <TouchableOpacity 
@@ -95,52 +159,60 @@ const ShweetItem = memo(({ item, onLike, onDelete, currentUserId, isDeleting, on
         </View>
       </View>
       
-      <Text style={styles.shweetContent}>{item.content}</Text>
+      <TouchableOpacity onPress={() => onOpen(item.id)} activeOpacity={0.7}>
+        {!!item.content && (
+          <ShweetContent style={styles.shweetContent} content={item.content} entities={item.entities} />
+        )}
+      </TouchableOpacity>
+      <ShweetMediaGrid media={item.media} />
+      {item.shareType && <SharedShweetCard shared={item.shared} />}
       
-      {/* Enhanced like button and count */}
-      <View style={styles.shweetFooter}>
-        <View style={styles.likesSection}>
-          <TouchableOpacity 
-            style={styles.likeButton}
-            onPress={() => onLike(item.id)}
-            activeOpacity={0.7}
-          >
-            <View style={styles.likeContainer}>
-              <Ionicons 
-                name={userHasLiked ? "heart" : "heart-outline"} 
-                size={22} 
-                color={userHasLiked ? "#6366f1" : "#6b7280"} 
-              />
-              <Text 
-                style={[
-                  styles.likeCount, 
-                  userHasLiked && styles.likeCountActive
-                ]}
-              >
-                {item.likes.length > 0 ? item.likes.length : "Like"}
-              </Text>
-            </View>
-          </TouchableOpacity>
-          
-          {/* View likes button - only show if there are likes */}
-          {item.likes.length > 0 && (
+      {/* Reactions, comments and shares */}
+      {!isReshweet && (
+        <View style={styles.shweetFooter}>
+          <View style={styles.likesSection}>
+            <ReactionBar
+              reactionCount={item.reactionCount}
+              reactionCounts={item.reactionCounts}
+              userReaction={userReaction}
+              onReact={(reaction) => onReact(item.id, reaction)}
+              onViewReactions={() => onViewReactions(item.id)}
+            />
+            
             <TouchableOpacity 
-              style={styles.viewLikesButton}
-              onPress={() => onViewLikes(item.id)}
+              style={styles.likeButton}
+              onPress={() => onOpen(item.id)}
               activeOpacity={0.7}
             >
-              <Text style={styles.viewLikesText}>
-                {item.likes.length === 1 ? '1 person liked this' : `${item.likes.length} people liked this`}
-              </Text>
+              <View style={styles.likeContainer}>
+                <Ionicons name="chatbubble-outline" size={20} color="#6b7280" />
+                <Text style={styles.likeCount}>
+                  {item.comments > 0 ? item.comments : 'Comment'}
+                </Text>
+              </View>
             </TouchableOpacity>
-          )}
+            
+            <TouchableOpacity 
+              style={styles.likeButton}
+              onPress={() => onShare(item.id)}
+              activeOpacity={0.7}
+            >
+              <View style={styles.likeContainer}>
+                <Ionicons name="repeat" size={22} color="#6b7280" />
+                <Text style={styles.likeCount}>
+                  {item.reshweets + item.quotes > 0 ? item.reshweets + item.quotes : 'Share'}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          </View>
         </View>
-      </View>
+      )}
     </View>
   );
 });
 
 export default function ShweetsScreen() {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
   const { userData } = useAuth();
   const [shweets, setShweets] = useState<Shweet[]>([]);
   const [loading, setLoading] = useState(true);
@@ -151,51 +223,93 @@ export default function ShweetsScreen() {
   const [deletingShweetId, setDeletingShweetId] = useState<string | null>(null);
   const [friendsList, setFriendsList] = useState<string[]>([]);
   
-  // New state variables for showing likes
-  const [likesModalVisible, setLikesModalVisible] = useState(false);
-  const [selectedShweetLikes, setSelectedShweetLikes] = useState<{id: string, name: string, photoURL: string | null}[]>([]);
-  const [loadingLikes, setLoadingLikes] = useState(false);
+  // The current user's reaction to each loaded shweet
+  const [userReactions, setUserReactions] = useState<{[shweetId: string]: ReactionType}>({});
+  const reactionsLoadedFor = useRef<Set<string>>(new Set());
   
-  // Track which shweets have had local like changes to prevent Firestore from overriding
-  const localLikeUpdates = useRef<{[shweetId: string]: string[]}>({});
+  // Shweet whose reactions are shown in the sheet
+  const [reactionsShweetId, setReactionsShweetId] = useState<string | null>(null);
   
-  // Add state for animation
-  const [modalAnimation] = useState(new Animated.Value(0));
-  const [backdropAnimation] = useState(new Animated.Value(0));
-  
-  // Update the animation logic to handle both opening and closing
-  useEffect(() => {
-    if (likesModalVisible) {
-      // Reset animation values
-      modalAnimation.setValue(0);
-      backdropAnimation.setValue(0);
-      
-      // Create animations
-      const backdropFade = Animated.timing(backdropAnimation, {
-        toValue: 1,
-        duration: 500, // Slower fade for backdrop
-        useNativeDriver: true,
-      });
-      
-      const contentSlide = Animated.timing(modalAnimation, {
-        toValue: 1,
-        duration: 300,
-        useNativeDriver: true,
-      });
-      
-      // Run animations
-      Animated.stagger(100, [backdropFade, contentSlide]).start();
-    }
-  }, [likesModalVisible]);
+  // Track which shweets have had local reaction changes to prevent Firestore from overriding
+  const localReactionUpdates = useRef<{[shweetId: string]: Pick<Shweet, 'reactionCount' | 'reactionCounts'>}>({});
   
   // Fetch friends list once when component mounts
   useEffect(() => {
     if (userData?.uid) {
       // Fetch friends and shweets on initial load
       fetchFriendsAndShweets();
+      
+      // Deleted shweets left behind when the app closed with the toast up
+      purgeDeletedShweets(userData.uid).catch(() => {
+        // Logged by the service; tried again on the next load
+      });
     }
   }, [userData?.uid]);
   
+  // Friends' names for mention autocomplete
+  const [mentionCandidates, setMentionCandidates] = useState<MentionCandidate[]>([]);
+  const [selection, setSelection] = useState({ start: 0, end: 0 });
+  
+  useEffect(() => {
+    if (!userData?.uid) return;
+    
+    getUserFriends(userData.uid)
+      .then(friends => setMentionCandidates(
+        friends
+          .filter(friend => friend.displayName)
+          .map(friend => ({ uid: friend.uid, displayName: friend.displayName! }))
+      ))
+      .catch(error => console.error('Error fetching mention candidates:', error));
+  }, [userData?.uid, friendsList]);
+  
+  const mentionQuery = getMentionQuery(newShweet, selection.start);
+  const mentionSuggestions = mentionQuery
+    ? mentionCandidates
+        .filter(candidate => candidate.displayName.toLowerCase().startsWith(mentionQuery.query.toLowerCase()))
+        .slice(0, 5)
+    : [];
+  
+  // Replace the partial mention with the friend's full name
+  const handlePickMention = (candidate: MentionCandidate) => {
+    if (!mentionQuery) return;
+    
+    const before = newShweet.slice(0, mentionQuery.start);
+    const after = newShweet.slice(selection.start);
+    const mention = `@${candidate.displayName} `;
+    setNewShweet(before + mention + after);
+    
+    const cursor = before.length + mention.length;
+    setSelection({ start: cursor, end: cursor });
+  };
+  
+  // Bell with the unread count in the header
+  const [unreadNotifications, setUnreadNotifications] = useState(0);
+  
+  useEffect(() => {
+    if (!userData?.uid) return;
+    
+    return subscribeToNotifications(userData.uid, (notifications) => {
+      setUnreadNotifications(notifications.filter(notification => !notification.read).length);
+    });
+  }, [userData?.uid]);
+  
+  useEffect(() => {
+    navigation.setOptions({
+      headerRight: () => (
+        <TouchableOpacity style={styles.notificationsButton} onPress={() => navigation.navigate('Notifications')}>
+          <Ionicons name="notifications-outline" size={24} color="#374151" />
+          {unreadNotifications > 0 && (
+            <View style={styles.notificationsBadge}>
+              <Text style={styles.notificationsBadgeText}>
+                {unreadNotifications > 9 ? '9+' : unreadNotifications}
+              </Text>
+            </View>
+          )}
+        </TouchableOpacity>
+      ),
+    });
+  }, [navigation, unreadNotifications]);
+  
   // Combined function to fetch friends and then shweets
   const fetchFriendsAndShweets = async () => {
     if (!userData?.uid) return;
@@ -254,179 +368,258 @@ export default function ShweetsScreen() {
     }
   };
   
-  // Add cleanup for listeners in an effect hook
+  // Timeline shweets carry their author's details from when they were posted
+  const toFeedShweet = (shweet: ServiceShweet): Shweet => ({
+    id: shweet.id!,
+    authorId: shweet.authorId,
+    authorName: shweet.authorName,
+    authorPhotoURL: shweet.authorPhotoURL,
+    content: shweet.content,
+    timestamp: shweet.timestamp,
+    // Use local reaction updates if we have them for this shweet
+    ...(localReactionUpdates.current[shweet.id!] || {
+      reactionCount: shweet.reactionCount,
+      reactionCounts: shweet.reactionCounts,
+    }),
+    comments: shweet.comments,
+    isShitting: shweet.isFromToilet,
+    entities: shweet.entities,
+    media: shweet.media,
+    shareType: shweet.shareType,
+    shared: shweet.shared,
+    reshweets: shweet.reshweets,
+    quotes: shweet.quotes,
+    editedAt: shweet.editedAt,
+  });
+  
+  // Live shweets at the top of the feed; older pages are loaded on scroll
+  const feedAnchor = useRef<FeedCursor | null>(null);
+  const feedCursor = useRef<FeedCursor | null>(null);
+  const feedVersion = useRef(0);
+  const unsubscribeFeed = useRef<(() => void) | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  
   useEffect(() => {
     return () => {
-      // Clean up all status listeners
-      Object.values(statusListeners).forEach(unsubscribe => unsubscribe());
+      unsubscribeFeed.current?.();
     };
   }, []);
   
-  // Fetch shweets with specific friends list
-  const fetchShweetsWithFriends = useCallback((friendsIds: string[]) => {
+  // Whether a shweet is older than the live part of the feed
+  const isOlderThanAnchor = (shweet: Shweet) => {
+    const anchor = feedAnchor.current;
+    if (!anchor || !shweet.timestamp) return false;
+    const millis = shweet.timestamp.toMillis();
+    return millis < anchor.timestamp.toMillis() ||
+      (millis === anchor.timestamp.toMillis() && shweet.id < anchor.id);
+  };
+  
+  // Load the first page of the home timeline and keep it live
+  const fetchShweetsWithFriends = useCallback(async (friendsIds: string[]) => {
     if (!userData?.uid) return;
     
-    console.log(`Fetching shweets for user ${userData.uid}`);
-    console.log('Using friends list:', friendsIds);
-    
-    const shweetsQuery = query(
-      collection(firestore, 'tweets'),
-      orderBy('timestamp', 'desc'),
-      limit(50)
-    );
+    const userId = userData.uid;
+    const version = ++feedVersion.current;
+    unsubscribeFeed.current?.();
+    unsubscribeFeed.current = null;
     
-    // Set up real-time listener for shweets
-    const unsubscribe = onSnapshot(shweetsQuery, async (querySnapshot) => {
-      try {
-        console.log(`Got ${querySnapshot.docs.length} shweets from Firestore`);
-        
-        // Get current shweets to maintain existing ones during update
-        const currentShweetIds = new Map(
-          shweets.map(shweet => [shweet.id, shweet])
-        );
-        
-        const shweetsList: Shweet[] = [];
-        
-        for (const document of querySnapshot.docs) {
-          const shweetData = document.data();
-          
-          // Skip documents with no authorId
-          if (!shweetData.authorId) {
-            console.log(`Skipping shweet ${document.id} - no authorId`);
-            continue;
-          }
-          
-          console.log(`Processing shweet ${document.id} by author ${shweetData.authorId}`);
-          
-          // Only show shweets from friends and the user's own shweets
-          if (shweetData.authorId !== userData.uid && 
-              !friendsIds.includes(shweetData.authorId)) {
-            console.log(`Skipping shweet ${document.id} - author not in friends list`);
-            continue;
-          }
-          
-          // Get author info - check if we already have it to avoid unnecessary fetches
-          let authorName = 'Unknown User';
-          let authorPhotoURL = null;
-          let isShitting = false;
-          let likes = shweetData.likes || [];
-          
-          const existingShweet = currentShweetIds.get(document.id);
-          
-          // Use local like updates if we have them for this shweet
-          if (localLikeUpdates.current[document.id]) {
-            likes = localLikeUpdates.current[document.id];
-          }
-          
-          if (existingShweet && existingShweet.authorId === shweetData.authorId) {
-            // Reuse author info from existing shweet
-            authorName = existingShweet.authorName;
-            authorPhotoURL = existingShweet.authorPhotoURL;
-            isShitting = existingShweet.isShitting;
-            
-            // Don't update likes if we have pending local updates
-            if (!localLikeUpdates.current[document.id]) {
-              likes = existingShweet.likes;
-            }
-            
-            const shweet = {
-              id: document.id,
-              authorId: shweetData.authorId,
-              authorName,
-              authorPhotoURL,
-              content: shweetData.content,
-              timestamp: shweetData.timestamp,
-              likes,
-              isShitting,
-            };
-            
-            console.log(`Adding existing shweet ${document.id} to list with preserved likes`);
-            shweetsList.push(shweet);
-          } else {
-            // Need to fetch author info
-            const authorDocRef = doc(firestore, 'users', shweetData.authorId);
-            const authorDoc = await getDoc(authorDocRef);
-            const authorData = authorDoc.exists() ? authorDoc.data() : {};
-            authorName = authorData.displayName || 'Unknown User';
-            authorPhotoURL = authorData.photoURL || null;
-            isShitting = authorData.isShitting || false;
-            
-            const shweet = {
-              id: document.id,
-              authorId: shweetData.authorId,
-              authorName,
-              authorPhotoURL,
-              content: shweetData.content,
-              timestamp: shweetData.timestamp,
-              likes,
-              isShitting,
-            };
-            
-            console.log(`Adding new shweet ${document.id} to list`);
-            shweetsList.push(shweet);
-          }
-          
-          // Setup individual status listeners for each author
-          setupStatusListener(shweetData.authorId);
-        }
+    try {
+      let firstPage = await getTimelinePage(userId);
+      
+      // Timelines only fill up as shweets are posted, so build one for
+      // accounts that had friends before timelines existed
+      if (!firstPage.shweets.length) {
+        await rebuildTimeline(userId, [userId, ...friendsIds.filter(id => id !== userId)]);
+        firstPage = await getTimelinePage(userId);
+      }
+      if (version !== feedVersion.current) return;
+      
+      const oldest = firstPage.shweets[firstPage.shweets.length - 1];
+      feedAnchor.current = oldest && oldest.timestamp instanceof Timestamp
+        ? { timestamp: oldest.timestamp, id: oldest.id! }
+        : null;
+      feedCursor.current = firstPage.cursor;
+      
+      unsubscribeFeed.current = subscribeToTimelineHead(userId, feedAnchor.current, (headShweets) => {
+        const head = headShweets.map(toFeedShweet);
         
-        console.log(`Setting state with ${shweetsList.length} shweets`);
-        setShweets(shweetsList);
-        setLoading(false);
-        setRefreshing(false);
-      } catch (error) {
-        console.error('Error fetching shweets:', error);
+        // Pages below the live part stay as they were loaded
+        setShweets(currentShweets => {
+          const headIds = new Set(head.map(shweet => shweet.id));
+          return [
+            ...head,
+            ...currentShweets.filter(shweet => !headIds.has(shweet.id) && isOlderThanAnchor(shweet))
+          ];
+        });
         setLoading(false);
         setRefreshing(false);
-      }
-    }, (error) => {
-      console.error("Error in shweets listener:", error);
+      });
+    } catch (error) {
+      console.error('Error fetching shweets:', error);
       setLoading(false);
       setRefreshing(false);
-    });
+    }
+  }, [userData?.uid]);
+  
+  // Load the next page of older shweets
+  const handleLoadMore = useCallback(async () => {
+    const cursor = feedCursor.current;
+    if (!cursor || loadingMore || !userData?.uid) return;
     
-    return unsubscribe;
-  }, [userData?.uid, shweets]);
+    const version = feedVersion.current;
+    setLoadingMore(true);
+    try {
+      const page = await getTimelinePage(userData.uid, cursor);
+      if (version !== feedVersion.current) return;
+      
+      feedCursor.current = page.cursor;
+      const olderShweets = page.shweets.map(toFeedShweet);
+      setShweets(currentShweets => {
+        const loadedIds = new Set(currentShweets.map(shweet => shweet.id));
+        return [...currentShweets, ...olderShweets.filter(shweet => !loadedIds.has(shweet.id))];
+      });
+    } catch (error) {
+      console.error('Error loading older shweets:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [loadingMore, userData?.uid]);
   
-  // Original fetchShweets function (modified to use latest friends list from state)
-  const fetchShweets = useCallback(() => {
-    if (!userData?.uid) return;
-    // Use non-null assertion to tell TypeScript this is definitely a string[]
-    return fetchShweetsWithFriends(friendsList as string[]);
-  }, [userData?.uid, friendsList, fetchShweetsWithFriends]);
+  // Dismiss keyboard
+  const dismissKeyboard = () => {
+    Keyboard.dismiss();
+  };
   
-  // Setup a status listener for an individual author
-  const setupStatusListener = (authorId: string) => {
-    // Skip if we already have a listener for this author
-    if (statusListeners[authorId]) return;
+  // Images picked for the next shweet
+  const [attachments, setAttachments] = useState<PickedImage[]>([]);
+  
+  const handlePickImages = async () => {
+    const remaining = MAX_SHWEET_MEDIA - attachments.length;
+    if (remaining <= 0) return;
     
-    // Set up listener for this author's status
-    const statusRef = ref(database, `status/${authorId}`);
-    const unsubscribe = onValue(statusRef, (snapshot) => {
-      const status = snapshot.val() || {};
+    try {
+      const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (!permission.granted) {
+        Alert.alert('Permission needed', 'Allow access to your photos to attach images.');
+        return;
+      }
       
-      // Update shweets for this author with new status
-      setShweets(currentShweets => 
-        currentShweets.map(shweet => 
-          shweet.authorId === authorId 
-            ? { ...shweet, isShitting: status.isShitting || false } 
-            : shweet
-        )
-      );
-    });
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ['images'],
+        allowsMultipleSelection: true,
+        selectionLimit: remaining,
+        quality: 1,
+      });
+      
+      if (!result.canceled) {
+        setAttachments(current => [...current, ...result.assets].slice(0, MAX_SHWEET_MEDIA));
+      }
+    } catch (error) {
+      console.error('Error picking images:', error);
+      Alert.alert('Error', 'Could not open your photos. Please try again.');
+    }
+  };
+  
+  const handleRemoveAttachment = (uri: string) => {
+    setAttachments(current => current.filter(attachment => attachment.uri !== uri));
+  };
+  
+  // Drafts, scheduled shweets and the next-session queue, kept on the device
+  const [pendingShweets, setPendingShweets] = useState<PendingShweet[]>([]);
+  const [pendingSheetVisible, setPendingSheetVisible] = useState(false);
+  // The pending shweet open in the composer, replaced when it's saved or posted
+  const [editingPending, setEditingPending] = useState<PendingShweet | null>(null);
+  const [schedulePickerVisible, setSchedulePickerVisible] = useState(false);
+  
+  useEffect(() => {
+    if (!userData?.uid) return;
     
-    // Store the unsubscribe function
-    statusListeners[authorId] = unsubscribe;
+    return subscribeToPendingShweets(userData.uid, setPendingShweets);
+  }, [userData?.uid]);
+  
+  const clearComposer = () => {
+    setNewShweet('');
+    setAttachments([]);
+    setEditingPending(null);
   };
   
-  // Dismiss keyboard
-  const dismissKeyboard = () => {
-    Keyboard.dismiss();
+  const handleSavePending = async (kind: PendingShweetKind, scheduledFor: number | null = null) => {
+    if (!userData?.uid || (!newShweet.trim() && !attachments.length)) return;
+    
+    try {
+      await savePendingShweet(userData.uid, {
+        kind,
+        content: newShweet.trim(),
+        attachments,
+        scheduledFor,
+      }, editingPending?.id);
+      clearComposer();
+      Keyboard.dismiss();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save shweet. Please try again.');
+    }
+  };
+  
+  const handleSchedule = (time: number) => {
+    setSchedulePickerVisible(false);
+    if (time <= Date.now()) {
+      Alert.alert('Pick a later time', 'Scheduled shweets have to be in the future.');
+      return;
+    }
+    handleSavePending('scheduled', time);
+  };
+  
+  // Offer the ways to post the composed shweet later
+  const handlePostLater = () => {
+    Alert.alert(
+      'Post Later',
+      undefined,
+      [
+        { text: 'Save Draft', onPress: () => handleSavePending('draft') },
+        { text: 'Schedule...', onPress: () => setSchedulePickerVisible(true) },
+        { text: 'Post When I Sit Down', onPress: () => handleSavePending('session') },
+        { text: 'Cancel', style: 'cancel' },
+      ],
+      { cancelable: true }
+    );
+  };
+  
+  const handleEditPending = (pending: PendingShweet) => {
+    setPendingSheetVisible(false);
+    setNewShweet(pending.content);
+    setAttachments(pending.attachments);
+    setEditingPending(pending);
+    inputRef.current?.focus();
+  };
+  
+  const handleDeletePending = (pending: PendingShweet) => {
+    if (!userData?.uid) return;
+    
+    Alert.alert(
+      'Delete Shweet',
+      'This shweet will be thrown away without being posted.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await removePendingShweet(userData.uid, pending.id);
+              if (editingPending?.id === pending.id) setEditingPending(null);
+            } catch (error) {
+              Alert.alert('Error', 'Failed to delete shweet. Please try again.');
+            }
+          },
+        },
+      ],
+      { cancelable: true }
+    );
   };
   
   // Post a new shweet
   const handlePostShweet = useCallback(async () => {
-    if (!userData?.uid || !newShweet.trim()) return;
+    if (!userData?.uid || (!newShweet.trim() && !attachments.length)) return;
     
     setSubmitting(true);
     Keyboard.dismiss();
@@ -434,29 +627,65 @@ export default function ShweetsScreen() {
     try {
       console.log("Posting shweet:", newShweet.trim());
       
-      await addDoc(collection(firestore, 'tweets'), {
+      const content = newShweet.trim();
+      const media = await uploadShweetMedia(userData.uid, attachments);
+      await createShweet({
         authorId: userData.uid,
-        content: newShweet.trim(),
-        timestamp: serverTimestamp(),
-        likes: [],
+        authorName: userData.displayName || 'Anonymous',
+        authorPhotoURL: userData.photoURL,
+        content,
+        timestamp: new Date(),
+        isFromToilet: userData.isShitting === true,
+        comments: 0,
+        entities: parseShweetEntities(content, mentionCandidates),
+        media,
       });
       
+      // A pending shweet posted from the composer no longer waits
+      if (editingPending) {
+        await removePendingShweet(userData.uid, editingPending.id);
+      }
+      
       // Clear input
-      setNewShweet('');
+      clearComposer();
       console.log("Shweet posted successfully");
     } catch (error) {
       console.error('Error posting shweet:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to post shweet. Please try again.');
     } finally {
       setSubmitting(false);
     }
-  }, [userData, newShweet]);
+  }, [userData, newShweet, mentionCandidates, attachments, editingPending]);
   
-  // Add function to delete a shweet
+  // The last deleted shweet, which can be restored until the toast goes away
+  const [undoableDelete, setUndoableDelete] = useState<{ shweet: Shweet, index: number } | null>(null);
+  const undoTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingPurge = useRef<{ shweetId: string, userId: string } | null>(null);
+  
+  // The deleted shweet can't be restored any more, so remove it for good
+  const purgePendingDelete = () => {
+    if (undoTimeout.current) clearTimeout(undoTimeout.current);
+    undoTimeout.current = null;
+    
+    const pending = pendingPurge.current;
+    pendingPurge.current = null;
+    if (pending) {
+      purgeDeletedShweet(pending.shweetId, pending.userId).catch(() => {
+        // Logged by the service; purged on the next load instead
+      });
+    }
+  };
+  
+  useEffect(() => () => purgePendingDelete(), []);
+  
+  // Deleting is a soft delete, so it needs no confirmation: it can be undone
+  // from the toast for a few seconds
   const handleDeleteShweet = useCallback(async (shweetId: string) => {
     if (!userData?.uid) return;
     
     // Find the shweet to confirm it belongs to the current user
-    const shweetToDelete = shweets.find(shweet => shweet.id === shweetId);
+    const index = shweets.findIndex(shweet => shweet.id === shweetId);
+    const shweetToDelete = shweets[index];
     
     if (!shweetToDelete) {
       console.error('Shweet not found');
@@ -470,111 +699,174 @@ export default function ShweetsScreen() {
       return;
     }
     
-    // Confirm deletion with user
-    Alert.alert(
-      'Delete Shweet',
-      'Are you sure you want to delete this shweet?',
-      [
-        {
-          text: 'Cancel',
-          style: 'cancel',
-        },
-        {
-          text: 'Delete',
-          style: 'destructive',
-          onPress: async () => {
-            try {
-              setDeletingShweetId(shweetId);
-              
-              // Delete the shweet document from Firestore
-              await deleteDoc(doc(firestore, 'tweets', shweetId));
-              console.log('Shweet deleted successfully');
-              
-              // Update local state to remove the deleted shweet
-              setShweets(currentShweets => 
-                currentShweets.filter(shweet => shweet.id !== shweetId)
-              );
-            } catch (error) {
-              console.error('Error deleting shweet:', error);
-              Alert.alert('Error', 'Failed to delete shweet. Please try again.');
-            } finally {
-              setDeletingShweetId(null);
-            }
-          },
-        },
-      ],
-      { cancelable: true }
-    );
+    try {
+      setDeletingShweetId(shweetId);
+      await deleteShweet(shweetId, userData.uid);
+      
+      // Update local state to remove the deleted shweet
+      setShweets(currentShweets => 
+        currentShweets.filter(shweet => shweet.id !== shweetId)
+      );
+      
+      // Only the last delete can be undone
+      purgePendingDelete();
+      pendingPurge.current = { shweetId, userId: userData.uid };
+      setUndoableDelete({ shweet: shweetToDelete, index });
+      undoTimeout.current = setTimeout(() => {
+        setUndoableDelete(null);
+        purgePendingDelete();
+      }, UNDO_DELETE_MS);
+    } catch (error) {
+      console.error('Error deleting shweet:', error);
+      Alert.alert('Error', 'Failed to delete shweet. Please try again.');
+    } finally {
+      setDeletingShweetId(null);
+    }
   }, [shweets, userData]);
   
-  // Handle like/unlike a shweet
-  const handleLikeToggle = useCallback(async (shweetId: string) => {
-    if (!userData?.uid) return;
+  const handleUndoDelete = async () => {
+    if (!undoableDelete || !userData?.uid) return;
+    
+    const { shweet, index } = undoableDelete;
+    if (undoTimeout.current) clearTimeout(undoTimeout.current);
+    undoTimeout.current = null;
+    pendingPurge.current = null;
+    setUndoableDelete(null);
     
-    // Find the shweet in our local state
-    const shweetIndex = shweets.findIndex(s => s.id === shweetId);
-    if (shweetIndex === -1) return;
+    try {
+      await restoreShweet(shweet.id, userData.uid);
+      setShweets(currentShweets => {
+        if (currentShweets.some(current => current.id === shweet.id)) return currentShweets;
+        const restored = [...currentShweets];
+        restored.splice(Math.min(index, restored.length), 0, shweet);
+        return restored;
+      });
+    } catch (error) {
+      console.error('Error restoring shweet:', error);
+      Alert.alert('Error', 'Failed to restore shweet.');
+    }
+  };
+  
+  // Shweet being edited in the edit composer
+  const [editingShweet, setEditingShweet] = useState<Shweet | null>(null);
+  const [editText, setEditText] = useState('');
+  const [savingEdit, setSavingEdit] = useState(false);
+  
+  const handleEditShweet = useCallback((shweetId: string) => {
+    const shweet = shweets.find(current => current.id === shweetId);
+    if (!shweet) return;
     
-    const shweet = shweets[shweetIndex];
-    const userHasLiked = shweet.likes.includes(userData.uid);
+    setEditText(shweet.content);
+    setEditingShweet(shweet);
+  }, [shweets]);
+  
+  const handleSaveEdit = async () => {
+    if (!userData?.uid || !editingShweet) return;
     
-    // Create the new likes array
-    let newLikes: string[];
-    if (userHasLiked) {
-      // Unlike - filter out user ID
-      newLikes = shweet.likes.filter(id => id !== userData.uid);
-    } else {
-      // Like - add user ID
-      newLikes = [...shweet.likes, userData.uid];
+    setSavingEdit(true);
+    try {
+      const content = editText.trim();
+      const edited = await editShweet(
+        editingShweet.id,
+        userData.uid,
+        content,
+        parseShweetEntities(content, mentionCandidates)
+      );
+      setShweets(currentShweets => currentShweets.map(shweet =>
+        shweet.id === edited.id
+          ? { ...shweet, content: edited.content, entities: edited.entities, editedAt: edited.editedAt }
+          : shweet
+      ));
+      setEditingShweet(null);
+    } catch (error) {
+      console.error('Error editing shweet:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to edit shweet. Please try again.');
+    } finally {
+      setSavingEdit(false);
     }
+  };
+  
+  // Look up the user's reactions to shweets as they're loaded
+  useEffect(() => {
+    if (!userData?.uid) return;
+    
+    const shweetIds = shweets
+      .map(shweet => shweet.id)
+      .filter(id => !reactionsLoadedFor.current.has(id));
+    if (!shweetIds.length) return;
+    
+    shweetIds.forEach(id => reactionsLoadedFor.current.add(id));
+    getUserReactions(userData.uid, shweetIds)
+      .then(reactions => setUserReactions(current => {
+        const updated = { ...current };
+        reactions.forEach((type, shweetId) => {
+          updated[shweetId] = type;
+        });
+        return updated;
+      }))
+      .catch(error => console.error('Error fetching reactions:', error));
+  }, [shweets, userData?.uid]);
+  
+  const setUserReaction = (shweetId: string, reaction: ReactionType | null) => {
+    setUserReactions(current => {
+      const updated = { ...current };
+      if (reaction) {
+        updated[shweetId] = reaction;
+      } else {
+        delete updated[shweetId];
+      }
+      return updated;
+    });
+  };
+  
+  // React to a shweet, change the reaction, or take it back (null)
+  const handleReact = useCallback(async (shweetId: string, reaction: ReactionType | null) => {
+    if (!userData?.uid) return;
+    
+    const shweet = shweets.find(s => s.id === shweetId);
+    if (!shweet) return;
+    
+    const previous = userReactions[shweetId] || null;
+    if (previous === reaction) return;
+    
+    const reactionCounts = { ...shweet.reactionCounts };
+    if (previous) reactionCounts[previous] = Math.max((reactionCounts[previous] || 0) - 1, 0);
+    if (reaction) reactionCounts[reaction] = (reactionCounts[reaction] || 0) + 1;
+    const update = {
+      reactionCount: shweet.reactionCount + (reaction ? 1 : 0) - (previous ? 1 : 0),
+      reactionCounts,
+    };
     
     // Store this update in our ref to prevent Firestore from overriding it
-    localLikeUpdates.current[shweetId] = newLikes;
+    localReactionUpdates.current[shweetId] = update;
     
     // Optimistically update UI immediately
-    setShweets(currentShweets => {
-      const updatedShweets = [...currentShweets];
-      const shweetToUpdate = { ...updatedShweets[shweetIndex] };
-      shweetToUpdate.likes = newLikes;
-      updatedShweets[shweetIndex] = shweetToUpdate;
-      return updatedShweets;
-    });
+    setUserReaction(shweetId, reaction);
+    setShweets(currentShweets => currentShweets.map(s =>
+      s.id === shweetId ? { ...s, ...update } : s
+    ));
     
     try {
-      const shweetRef = doc(firestore, 'tweets', shweetId);
-      
-      if (userHasLiked) {
-        // Unlike the shweet - do this in the background
-        await updateDoc(shweetRef, {
-          likes: arrayRemove(userData.uid)
-        });
+      if (reaction) {
+        await reactToShweet(shweetId, userData.uid, reaction);
       } else {
-        // Like the shweet - do this in the background
-        await updateDoc(shweetRef, {
-          likes: arrayUnion(userData.uid)
-        });
+        await removeReaction(shweetId, userData.uid);
       }
       
       // After successful update, we can remove the local override
-      delete localLikeUpdates.current[shweetId];
+      delete localReactionUpdates.current[shweetId];
     } catch (error) {
-      console.error('Error toggling like:', error);
+      console.error('Error updating reaction:', error);
       // Revert the optimistic update on error
-      delete localLikeUpdates.current[shweetId];
-      revertLikeUpdate(shweet, shweetIndex);
+      delete localReactionUpdates.current[shweetId];
+      setUserReaction(shweetId, previous);
+      setShweets(currentShweets => currentShweets.map(s =>
+        s.id === shweetId
+          ? { ...s, reactionCount: shweet.reactionCount, reactionCounts: shweet.reactionCounts }
+          : s
+      ));
     }
-  }, [userData, shweets]);
-  
-  // Helper function to revert like update on error
-  const revertLikeUpdate = useCallback((originalShweet: Shweet, shweetIndex: number) => {
-    setShweets(currentShweets => {
-      const updatedShweets = [...currentShweets];
-      if (updatedShweets[shweetIndex]) {
-        updatedShweets[shweetIndex] = originalShweet;
-      }
-      return updatedShweets;
-    });
-  }, []);
+  }, [userData, shweets, userReactions]);
   
   // Check and fix friend relationships if needed
   const checkFriendRelationships = async () => {
@@ -596,10 +888,6 @@ export default function ShweetsScreen() {
   // Handle refresh
   const handleRefresh = useCallback(() => {
     setRefreshing(true);
-    // Clean up existing listeners
-    Object.values(statusListeners).forEach(unsubscribe => unsubscribe());
-    // Clear listeners object
-    Object.keys(statusListeners).forEach(key => delete statusListeners[key]);
     
     // Fetch friends list and then shweets with the fresh friends list
     fetchFriendsList().then((friends) => {
@@ -622,75 +910,141 @@ export default function ShweetsScreen() {
     );
   }, [refreshing, handleRefresh]);
   
-  // Add function to handle viewing likes
-  const handleViewLikes = async (shweetId: string) => {
-    const shweet = shweets.find(s => s.id === shweetId);
-    if (!shweet || !shweet.likes.length) return;
-    
-    setLoadingLikes(true);
+  const handleViewReactions = useCallback((shweetId: string) => {
+    setReactionsShweetId(shweetId);
+  }, []);
+  
+  const handleOpenShweet = useCallback((shweetId: string) => {
+    navigation.navigate('ShweetDetails', { shweetId });
+  }, [navigation]);
+  
+  const handleOpenAuthor = useCallback((userId: string) => {
+    navigation.navigate('UserProfile', { userId });
+  }, [navigation]);
+  
+  // Reshweets and quotes count towards the shweet that is shared
+  const adjustShareCount = (sharedShweetId: string, field: 'reshweets' | 'quotes', change: number) => {
+    setShweets(currentShweets => currentShweets.map(shweet =>
+      shweet.id === sharedShweetId ? { ...shweet, [field]: Math.max(0, shweet[field] + change) } : shweet
+    ));
+  };
+  
+  const getShareAuthor = () => ({
+    authorId: userData!.uid,
+    authorName: userData!.displayName || 'Anonymous',
+    authorPhotoURL: userData!.photoURL,
+    isFromToilet: userData!.isShitting === true,
+  });
+  
+  const handleReshweet = async (shweet: Shweet, undo: boolean) => {
+    if (!userData?.uid) return;
     
     try {
-      const likesData = await Promise.all(
-        shweet.likes.map(async (userId) => {
-          const userDocRef = doc(firestore, 'users', userId);
-          const userDoc = await getDoc(userDocRef);
-          const userData = userDoc.exists() ? userDoc.data() : {};
-          
-          return {
-            id: userId,
-            name: userData.displayName || 'Unknown User',
-            photoURL: userData.photoURL || null
-          };
-        })
-      );
-      
-      setSelectedShweetLikes(likesData);
-      setLikesModalVisible(true);
+      if (undo) {
+        const reshweetId = await undoReshweet(shweet, userData.uid);
+        setShweets(currentShweets => currentShweets.filter(current => current.id !== reshweetId));
+        adjustShareCount(toSharedShweet(shweet).id, 'reshweets', -1);
+      } else {
+        const reshweet = await reshweetShweet(shweet, getShareAuthor());
+        adjustShareCount(reshweet.sharedShweetId!, 'reshweets', 1);
+      }
     } catch (error) {
-      console.error('Error fetching likes data:', error);
-      Alert.alert('Error', 'Failed to load likes data');
-    } finally {
-      setLoadingLikes(false);
+      console.error('Error reshweeting:', error);
+      Alert.alert('Error', 'Failed to reshweet. Please try again.');
     }
   };
   
-  // Function to handle closing the modal with animation
-  const handleCloseModal = () => {
-    // Create animations for closing
-    const backdropFade = Animated.timing(backdropAnimation, {
-      toValue: 0,
-      duration: 300,
-      useNativeDriver: true,
-    });
+  // Shweet being quoted in the quote composer
+  const [quotingShweet, setQuotingShweet] = useState<Shweet | null>(null);
+  const [quoteText, setQuoteText] = useState('');
+  const [postingQuote, setPostingQuote] = useState(false);
+  
+  const handleShare = useCallback(async (shweetId: string) => {
+    if (!userData?.uid) return;
     
-    const contentSlide = Animated.timing(modalAnimation, {
-      toValue: 0,
-      duration: 250,
-      useNativeDriver: true,
-    });
+    const shweet = shweets.find(current => current.id === shweetId);
+    if (!shweet) return;
     
-    // Run animations
-    Animated.parallel([contentSlide, backdropFade]).start(() => {
-      // After animation completes, hide the modal
-      setLikesModalVisible(false);
-    });
+    try {
+      const reshweeted = await hasReshweeted(shweet, userData.uid);
+      
+      Alert.alert(
+        'Share Shweet',
+        undefined,
+        [
+          reshweeted
+            ? { text: 'Undo Reshweet', style: 'destructive', onPress: () => handleReshweet(shweet, true) }
+            : { text: 'Reshweet', onPress: () => handleReshweet(shweet, false) },
+          {
+            text: 'Quote',
+            onPress: () => {
+              setQuoteText('');
+              setQuotingShweet(shweet);
+            },
+          },
+          { text: 'Cancel', style: 'cancel' },
+        ],
+        { cancelable: true }
+      );
+    } catch (error) {
+      console.error('Error sharing shweet:', error);
+      Alert.alert('Error', 'This shweet can no longer be shared.');
+    }
+  }, [shweets, userData]);
+  
+  const handlePostQuote = async () => {
+    if (!userData?.uid || !quotingShweet || !quoteText.trim()) return;
+    
+    setPostingQuote(true);
+    try {
+      const content = quoteText.trim();
+      const quote = await quoteShweet(quotingShweet, {
+        ...getShareAuthor(),
+        content,
+        timestamp: new Date(),
+        comments: 0,
+        entities: parseShweetEntities(content, mentionCandidates),
+      });
+      adjustShareCount(quote.sharedShweetId!, 'quotes', 1);
+      setQuotingShweet(null);
+    } catch (error) {
+      console.error('Error posting quote:', error);
+      Alert.alert('Error', 'Failed to post quote. Please try again.');
+    } finally {
+      setPostingQuote(false);
+    }
   };
   
   // Update renderShweetItem function
   const renderShweetItem = useCallback(({ item }: { item: Shweet }) => (
     <ShweetItem 
       item={item}
-      onLike={handleLikeToggle}
+      userReaction={userReactions[item.id] || null}
+      onReact={handleReact}
       onDelete={handleDeleteShweet}
       currentUserId={userData?.uid}
       isDeleting={deletingShweetId === item.id}
-      onViewLikes={handleViewLikes}
+      onViewReactions={handleViewReactions}
+      onOpen={handleOpenShweet}
+      onOpenAuthor={handleOpenAuthor}
+      onShare={handleShare}
+      onEdit={handleEditShweet}
     />
-  ), [handleLikeToggle, handleDeleteShweet, userData?.uid, deletingShweetId, handleViewLikes]);
+  ), [userReactions, handleReact, handleDeleteShweet, userData?.uid, deletingShweetId, handleViewReactions, handleOpenShweet, handleOpenAuthor, handleShare, handleEditShweet]);
   
   return (
     <View style={styles.container}>
       <View style={styles.composeContainer}>
+        {editingPending && (
+          <View style={styles.editingPendingBanner}>
+            <Text style={styles.editingPendingText}>
+              Editing {editingPending.kind === 'draft' ? 'draft' : editingPending.kind === 'scheduled' ? 'scheduled shweet' : 'queued shweet'}
+            </Text>
+            <TouchableOpacity onPress={clearComposer}>
+              <Ionicons name="close" size={18} color="#6b7280" />
+            </TouchableOpacity>
+          </View>
+        )}
         <View style={styles.inputContainer}>
           <TextInput
             ref={inputRef}
@@ -699,12 +1053,36 @@ export default function ShweetsScreen() {
             multiline
             value={newShweet}
             onChangeText={setNewShweet}
+            selection={selection}
+            onSelectionChange={(event) => setSelection(event.nativeEvent.selection)}
             placeholderTextColor="#9ca3af"
           />
+          <TouchableOpacity 
+            style={styles.attachButton}
+            onPress={handlePickImages}
+            disabled={submitting || attachments.length >= MAX_SHWEET_MEDIA}
+          >
+            <Ionicons
+              name="image-outline"
+              size={22}
+              color={attachments.length >= MAX_SHWEET_MEDIA ? '#d1d5db' : '#6366f1'}
+            />
+          </TouchableOpacity>
+          <TouchableOpacity 
+            style={styles.attachButton}
+            onPress={handlePostLater}
+            disabled={submitting || (!newShweet.trim() && !attachments.length)}
+          >
+            <Ionicons
+              name="time-outline"
+              size={22}
+              color={!newShweet.trim() && !attachments.length ? '#d1d5db' : '#6366f1'}
+            />
+          </TouchableOpacity>
           <TouchableOpacity 
             style={styles.sendButton}
             onPress={handlePostShweet}
-            disabled={submitting || !newShweet.trim()}
+            disabled={submitting || (!newShweet.trim() && !attachments.length)}
           >
             {submitting ? (
               <ActivityIndicator color="#fff" size="small" />
@@ -713,6 +1091,46 @@ export default function ShweetsScreen() {
             )}
           </TouchableOpacity>
         </View>
+        
+        {attachments.length > 0 && (
+          <View style={styles.attachments}>
+            {attachments.map(attachment => (
+              <View key={attachment.uri} style={styles.attachment}>
+                <Image source={{ uri: attachment.uri }} style={styles.attachmentImage} />
+                <TouchableOpacity
+                  style={styles.removeAttachmentButton}
+                  onPress={() => handleRemoveAttachment(attachment.uri)}
+                  disabled={submitting}
+                >
+                  <Ionicons name="close" size={14} color="#fff" />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        )}
+        
+        {pendingShweets.length > 0 && (
+          <TouchableOpacity style={styles.pendingLink} onPress={() => setPendingSheetVisible(true)}>
+            <Ionicons name="time-outline" size={14} color="#6b7280" />
+            <Text style={styles.pendingLinkText}>
+              {pendingShweets.length === 1 ? '1 shweet waiting to post' : `${pendingShweets.length} shweets waiting to post`}
+            </Text>
+          </TouchableOpacity>
+        )}
+        
+        {mentionSuggestions.length > 0 && (
+          <View style={styles.mentionSuggestions}>
+            {mentionSuggestions.map(candidate => (
+              <TouchableOpacity
+                key={candidate.uid}
+                style={styles.mentionSuggestion}
+                onPress={() => handlePickMention(candidate)}
+              >
+                <Text style={styles.mentionSuggestionText}>@{candidate.displayName}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
       </View>
       
       {loading ? (
@@ -726,6 +1144,11 @@ export default function ShweetsScreen() {
           renderItem={renderShweetItem}
           contentContainerStyle={styles.shweetsList}
           refreshControl={renderRefreshControl()}
+          onEndReached={handleLoadMore}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={loadingMore ? (
+            <ActivityIndicator style={styles.loadingMore} color="#10b981" />
+          ) : null}
           windowSize={5}
           removeClippedSubviews={true}
           maxToRenderPerBatch={10}
@@ -733,96 +1156,128 @@ export default function ShweetsScreen() {
         />
       )}
       
-      {/* Likes Modal */}
+      <ReactionsSheet
+        shweetId={reactionsShweetId}
+        reactionCounts={shweets.find(shweet => shweet.id === reactionsShweetId)?.reactionCounts || {}}
+        currentUserId={userData?.uid}
+        onClose={() => setReactionsShweetId(null)}
+        onOpenUser={(userId) => {
+          setReactionsShweetId(null);
+          handleOpenAuthor(userId);
+        }}
+      />
+      
+      <PendingShweetsSheet
+        visible={pendingSheetVisible}
+        pendingShweets={pendingShweets}
+        onClose={() => setPendingSheetVisible(false)}
+        onEdit={handleEditPending}
+        onDelete={handleDeletePending}
+      />
+      
+      <ScheduleShweetPicker
+        visible={schedulePickerVisible}
+        initialTime={editingPending?.scheduledFor ?? null}
+        onConfirm={handleSchedule}
+        onCancel={() => setSchedulePickerVisible(false)}
+      />
+      
+      {/* Quote-shweet composer */}
       <Modal
-        visible={likesModalVisible}
+        visible={quotingShweet !== null}
         transparent={true}
-        animationType="none"
-        onRequestClose={handleCloseModal}
+        animationType="fade"
+        onRequestClose={() => setQuotingShweet(null)}
       >
-        <Animated.View 
-          style={[
-            styles.modalOverlay,
-            { opacity: backdropAnimation }
-          ]}
-        >
-          <Animated.View 
-            style={[
-              styles.likesModalContainer, 
-              {
-                transform: [
-                  {
-                    translateY: modalAnimation.interpolate({
-                      inputRange: [0, 1],
-                      outputRange: [600, 0], // Start from further below
-                      extrapolate: 'clamp',
-                    }),
-                  },
-                ],
-                opacity: modalAnimation,
-              },
-            ]}
-          >
-            <View style={styles.likesModalHeader}>
-              <Text style={styles.likesModalTitle}>
-                {selectedShweetLikes.length === 1
-                  ? '1 person liked this'
-                  : `${selectedShweetLikes.length} people liked this`}
-              </Text>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Quote Shweet</Text>
               <TouchableOpacity
                 style={styles.closeButton}
-                onPress={handleCloseModal}
+                onPress={() => setQuotingShweet(null)}
               >
                 <Ionicons name="close" size={24} color="#6b7280" />
               </TouchableOpacity>
             </View>
             
-            {loadingLikes ? (
-              <View style={styles.loadingLikesContainer}>
-                <ActivityIndicator size="large" color="#6366f1" />
-                <Text style={styles.loadingLikesText}>Loading likes...</Text>
-              </View>
-            ) : (
-              <FlatList
-                data={selectedShweetLikes}
-                keyExtractor={(item) => item.id}
-                renderItem={({ item }) => (
-                  <View style={styles.likeUserItem}>
-                    {item.photoURL ? (
-                      <Image source={{ uri: item.photoURL }} style={styles.likeUserAvatar} />
-                    ) : (
-                      <View style={styles.likeUserDefaultAvatar}>
-                        <Text style={styles.likeUserAvatarText}>{item.name.charAt(0)}</Text>
-                      </View>
-                    )}
-                    <View style={styles.likeUserInfo}>
-                      <Text style={styles.likeUserName}>{item.name}</Text>
-                      {item.id === userData?.uid && (
-                        <Text style={styles.likeUserYou}>(You)</Text>
-                      )}
-                    </View>
-                    {item.id !== userData?.uid && (
-                      <TouchableOpacity 
-                        style={styles.viewProfileButton}
-                        // For future implementation
-                      >
-                        <Text style={styles.viewProfileText}>View Profile</Text>
-                      </TouchableOpacity>
-                    )}
-                  </View>
-                )}
-                contentContainerStyle={styles.likesListContainer}
-                ListEmptyComponent={
-                  <View style={styles.emptyLikesContainer}>
-                    <Ionicons name="heart-dislike-outline" size={48} color="#d1d5db" />
-                    <Text style={styles.emptyLikesText}>No likes yet</Text>
-                  </View>
-                }
-              />
+            <TextInput
+              style={styles.quoteInput}
+              placeholder="Add a comment..."
+              multiline
+              autoFocus
+              value={quoteText}
+              onChangeText={setQuoteText}
+              placeholderTextColor="#9ca3af"
+            />
+            
+            {quotingShweet && (
+              <SharedShweetCard shared={toSharedShweet(quotingShweet)} />
             )}
-          </Animated.View>
-        </Animated.View>
+            
+            <TouchableOpacity
+              style={[styles.quoteButton, (!quoteText.trim() || postingQuote) && styles.quoteButtonDisabled]}
+              onPress={handlePostQuote}
+              disabled={!quoteText.trim() || postingQuote}
+            >
+              {postingQuote ? (
+                <ActivityIndicator color="#fff" size="small" />
+              ) : (
+                <Text style={styles.quoteButtonText}>Post</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+      
+      {/* Edit composer */}
+      <Modal
+        visible={editingShweet !== null}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setEditingShweet(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Edit Shweet</Text>
+              <TouchableOpacity
+                style={styles.closeButton}
+                onPress={() => setEditingShweet(null)}
+              >
+                <Ionicons name="close" size={24} color="#6b7280" />
+              </TouchableOpacity>
+            </View>
+            
+            <TextInput
+              style={styles.quoteInput}
+              multiline
+              autoFocus
+              value={editText}
+              onChangeText={setEditText}
+              placeholderTextColor="#9ca3af"
+            />
+            
+            <TouchableOpacity
+              style={[styles.quoteButton, savingEdit && styles.quoteButtonDisabled]}
+              onPress={handleSaveEdit}
+              disabled={savingEdit}
+            >
+              {savingEdit ? (
+                <ActivityIndicator color="#fff" size="small" />
+              ) : (
+                <Text style={styles.quoteButtonText}>Save</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
       </Modal>
+      
+      <UndoToast
+        message="Shweet deleted"
+        visible={undoableDelete !== null}
+        onUndo={handleUndoDelete}
+      />
     </View>
   );
 }
@@ -873,6 +1328,99 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     marginLeft: 8,
   },
+  attachButton: {
+    padding: 6,
+    marginLeft: 8,
+  },
+  attachments: {
+    flexDirection: 'row',
+    marginTop: 10,
+    gap: 8,
+  },
+  attachment: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  attachmentImage: {
+    width: '100%',
+    height: '100%',
+  },
+  removeAttachmentButton: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  editingPendingBanner: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  editingPendingText: {
+    fontSize: 13,
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  pendingLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  pendingLinkText: {
+    marginLeft: 4,
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  mentionSuggestions: {
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  mentionSuggestion: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  mentionSuggestionText: {
+    fontSize: 15,
+    color: '#6366f1',
+    fontWeight: '600',
+  },
+  notificationsButton: {
+    marginRight: 16,
+    padding: 4,
+  },
+  notificationsBadge: {
+    position: 'absolute',
+    top: 0,
+    right: 0,
+    minWidth: 16,
+    height: 16,
+    borderRadius: 8,
+    backgroundColor: '#ef4444',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 3,
+  },
+  notificationsBadgeText: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: 'bold',
+  },
+  loadingMore: {
+    paddingVertical: 20,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -986,6 +1534,22 @@ const styles = StyleSheet.create({
     padding: 8,
     borderRadius: 20,
   },
+  editedMarker: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginLeft: 4,
+  },
+  reshweetLabel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  reshweetLabelText: {
+    marginLeft: 6,
+    fontSize: 13,
+    color: '#6b7280',
+    fontWeight: '600',
+  },
   shweetFooter: {
     marginTop: 10,
     paddingTop: 10,
@@ -1013,20 +1577,6 @@ const styles = StyleSheet.create({
     color: '#6b7280',
     fontWeight: '500',
   },
-  likeCountActive: {
-    color: '#6366f1',
-  },
-  viewLikesButton: {
-    marginLeft: 10,
-    paddingVertical: 8,
-    paddingHorizontal: 10,
-    borderLeftWidth: 1,
-    borderLeftColor: '#e5e7eb',
-  },
-  viewLikesText: {
-    fontSize: 12,
-    color: '#6b7280',
-  },
   modalOverlay: {
     flex: 1,
     backgroundColor: 'rgba(0, 0, 0, 0.5)',
@@ -1038,7 +1588,7 @@ const styles = StyleSheet.create({
     right: 0,
     bottom: 0,
   },
-  likesModalContainer: {
+  modalContainer: {
     width: '90%',
     maxHeight: '70%',
     backgroundColor: '#fff',
@@ -1054,7 +1604,7 @@ const styles = StyleSheet.create({
     shadowRadius: 6,
     elevation: 8,
   },
-  likesModalHeader: {
+  modalHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
@@ -1063,93 +1613,39 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#e5e7eb',
   },
-  likesModalTitle: {
+  modalTitle: {
     fontSize: 18,
     fontWeight: 'bold',
     color: '#1f2937',
   },
-  closeButton: {
-    padding: 5,
-    borderRadius: 20,
-    backgroundColor: '#f3f4f6',
-    width: 34,
-    height: 34,
-    alignItems: 'center',
-    justifyContent: 'center',
-  },
-  loadingLikesContainer: {
-    padding: 30,
-    alignItems: 'center',
-  },
-  loadingLikesText: {
-    marginTop: 12,
+  quoteInput: {
+    minHeight: 60,
     fontSize: 16,
-    color: '#6b7280',
-  },
-  likesListContainer: {
-    flexGrow: 1,
-  },
-  likeUserItem: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    paddingVertical: 14,
-    borderBottomWidth: 1,
-    borderBottomColor: '#f3f4f6',
-  },
-  likeUserAvatar: {
-    width: 46,
-    height: 46,
-    borderRadius: 23,
-    marginRight: 14,
+    color: '#374151',
+    textAlignVertical: 'top',
   },
-  likeUserDefaultAvatar: {
-    width: 46,
-    height: 46,
-    borderRadius: 23,
+  quoteButton: {
+    marginTop: 15,
+    paddingVertical: 12,
+    borderRadius: 20,
     backgroundColor: '#6366f1',
-    justifyContent: 'center',
     alignItems: 'center',
-    marginRight: 14,
-  },
-  likeUserAvatarText: {
-    color: '#fff',
-    fontSize: 20,
-    fontWeight: 'bold',
   },
-  likeUserInfo: {
-    flex: 1,
-    flexDirection: 'row',
-    alignItems: 'center',
+  quoteButtonDisabled: {
+    opacity: 0.5,
   },
-  likeUserName: {
+  quoteButtonText: {
+    color: '#fff',
     fontSize: 16,
-    fontWeight: '500',
-    color: '#1f2937',
-  },
-  likeUserYou: {
-    marginLeft: 6,
-    fontSize: 14,
-    color: '#6b7280',
-    fontStyle: 'italic',
+    fontWeight: 'bold',
   },
-  viewProfileButton: {
-    paddingVertical: 6,
-    paddingHorizontal: 12,
+  closeButton: {
+    padding: 5,
+    borderRadius: 20,
     backgroundColor: '#f3f4f6',
-    borderRadius: 16,
-  },
-  viewProfileText: {
-    fontSize: 12,
-    color: '#4b5563',
-    fontWeight: '500',
-  },
-  emptyLikesContainer: {
-    padding: 30,
+    width: 34,
+    height: 34,
     alignItems: 'center',
-  },
-  emptyLikesText: {
-    marginTop: 16,
-    fontSize: 16,
-    color: '#6b7280',
+    justifyContent: 'center',
   },
 }); 
\ No newline at end of file
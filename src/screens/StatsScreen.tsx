@@ -0,0 +1,287 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '../contexts/AuthContext';
+import { ShitSession, getSessions } from '../services/database/sessionService';
+import {
+  StatsPeriod,
+  Trend,
+  computeSessionStats,
+  getPeriodCounts
+} from '../utils/sessionStats';
+import BarChart from '../components/charts/BarChart';
+import HeatmapChart from '../components/charts/HeatmapChart';
+
+// How many days, weeks or months the session chart covers
+const PERIODS: { period: StatsPeriod; label: string; count: number }[] = [
+  { period: 'day', label: 'Daily', count: 14 },
+  { period: 'week', label: 'Weekly', count: 12 },
+  { period: 'month', label: 'Monthly', count: 12 },
+];
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const HOUR_LABELS = { 0: '12a', 6: '6a', 12: '12p', 18: '6p' };
+
+// Format duration in minutes and seconds
+const formatDuration = (milliseconds: number) => {
+  const totalSeconds = Math.floor(milliseconds / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}m ${seconds}s`;
+};
+
+const TrendRow: React.FC<{ label: string; trend: Trend; format: (value: number) => string }> = ({
+  label,
+  trend,
+  format
+}) => (
+  <View style={styles.trendRow}>
+    <Text style={styles.trendLabel}>{label}</Text>
+    <Text style={styles.trendValue}>{format(trend.current)}</Text>
+    <Ionicons
+      name={trend.direction === 'up' ? 'arrow-up' : trend.direction === 'down' ? 'arrow-down' : 'remove'}
+      size={16}
+      color={trend.direction === 'flat' ? '#9ca3af' : '#6366f1'}
+    />
+    <Text style={styles.trendPrevious}>from {format(trend.previous)}</Text>
+  </View>
+);
+
+export default function StatsScreen() {
+  const { userData } = useAuth();
+  const [sessions, setSessions] = useState<ShitSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [period, setPeriod] = useState<StatsPeriod>('day');
+
+  const loadSessions = useCallback(async () => {
+    if (!userData?.uid) return;
+
+    try {
+      setSessions(await getSessions(userData.uid));
+    } catch (error) {
+      console.error('Error loading sessions:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [userData?.uid]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadSessions();
+  };
+
+  const now = Date.now();
+  const stats = useMemo(() => computeSessionStats(sessions, now), [sessions]);
+  const selectedPeriod = PERIODS.find(option => option.period === period)!;
+  const periodCounts = useMemo(
+    () => getPeriodCounts(sessions, period, selectedPeriod.count, now),
+    [sessions, period]
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#6366f1" />
+      </View>
+    );
+  }
+
+  if (!stats.totalSessions) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="stats-chart-outline" size={48} color="#d1d5db" />
+        <Text style={styles.emptyText}>Your stats show up here after your first session</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+    >
+      <View style={styles.summaryGrid}>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{stats.currentStreak}</Text>
+          <Text style={styles.summaryLabel}>Day Streak</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{stats.longestStreak}</Text>
+          <Text style={styles.summaryLabel}>Longest Streak</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{formatDuration(stats.longest?.duration || 0)}</Text>
+          <Text style={styles.summaryLabel}>Longest Session</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{formatDuration(stats.shortest?.duration || 0)}</Text>
+          <Text style={styles.summaryLabel}>Shortest Session</Text>
+        </View>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>This Week vs Last Week</Text>
+        <TrendRow label="Sessions" trend={stats.weekOverWeek.count} format={(value) => String(value)} />
+        <TrendRow label="Total time" trend={stats.weekOverWeek.totalDuration} format={formatDuration} />
+        <TrendRow label="Average" trend={stats.weekOverWeek.averageDuration} format={formatDuration} />
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Sessions</Text>
+        <View style={styles.periodTabs}>
+          {PERIODS.map(option => (
+            <TouchableOpacity
+              key={option.period}
+              style={[styles.periodTab, period === option.period && styles.activePeriodTab]}
+              onPress={() => setPeriod(option.period)}
+            >
+              <Text style={[styles.periodTabText, period === option.period && styles.activePeriodTabText]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <BarChart
+          data={periodCounts.map(bucket => ({ label: bucket.label, value: bucket.count }))}
+          highlightLast
+        />
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Session Length</Text>
+        <BarChart data={stats.durationHistogram.map(bucket => ({ label: bucket.label, value: bucket.count }))} />
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>When You Go</Text>
+        <HeatmapChart values={stats.heatmap} rowLabels={WEEKDAY_LABELS} columnLabels={HOUR_LABELS} />
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 30,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+  summaryGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  summaryItem: {
+    width: '48%',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 15,
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  summaryValue: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#6366f1',
+    marginBottom: 5,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 15,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 12,
+  },
+  trendRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  trendLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  trendValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginRight: 6,
+  },
+  trendPrevious: {
+    marginLeft: 4,
+    fontSize: 12,
+    color: '#9ca3af',
+  },
+  periodTabs: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  periodTab: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: '#f3f4f6',
+    marginRight: 8,
+  },
+  activePeriodTab: {
+    backgroundColor: '#6366f1',
+  },
+  periodTabText: {
+    fontSize: 14,
+    color: '#4b5563',
+    fontWeight: '500',
+  },
+  activePeriodTabText: {
+    color: '#fff',
+  },
+});
@@ -0,0 +1,568 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Image,
+  Alert,
+  Modal
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRoute, useNavigation, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useAuth } from '../contexts/AuthContext';
+import { useGameInvites } from '../hooks/useGameInvites';
+import { RootStackParamList } from '../navigation/types';
+import { UserData } from '../services/auth/authService';
+import { getUserData, removeFriend } from '../services/database/userService';
+import {
+  FriendRequest,
+  acceptFriendRequest,
+  checkPendingRequest,
+  sendFriendRequest
+} from '../services/database/friendRequestService';
+import { Shweet, getUserShweets } from '../services/database/shweetService';
+import { GameType, HeadToHeadRecord, getHeadToHeadRecord } from '../services/database/gameService';
+import { getAvailableGames } from '../games/registry';
+import { formatTimestamp } from '../utils/formatTimestamp';
+import ShweetContent from '../components/ShweetContent';
+import ShweetMediaGrid from '../components/ShweetMediaGrid';
+import SharedShweetCard from '../components/SharedShweetCard';
+import { DEFAULT_REACTION, getReactionEmoji } from '../services/database/reactionService';
+
+type UserProfileRouteProp = RouteProp<RootStackParamList, 'UserProfile'>;
+
+const RECENT_SHWEETS_LIMIT = 5;
+
+// Format duration in minutes and seconds
+const formatDuration = (milliseconds: number) => {
+  if (!milliseconds) return '0m 0s';
+  const totalSeconds = Math.floor(milliseconds / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}m ${seconds}s`;
+};
+
+const Avatar: React.FC<{ name: string; photoURL: string | null; size: number }> = ({ name, photoURL, size }) => (
+  photoURL ? (
+    <Image source={{ uri: photoURL }} style={{ width: size, height: size, borderRadius: size / 2 }} />
+  ) : (
+    <View style={[styles.defaultAvatar, { width: size, height: size, borderRadius: size / 2 }]}>
+      <Text style={[styles.avatarText, { fontSize: size / 2.5 }]}>{name.charAt(0).toUpperCase()}</Text>
+    </View>
+  )
+);
+
+export default function UserProfileScreen() {
+  const route = useRoute<UserProfileRouteProp>();
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const { userId } = route.params;
+  const { userData } = useAuth();
+  const { sendInvite } = useGameInvites();
+  const [profile, setProfile] = useState<UserData | null>(null);
+  const [shweets, setShweets] = useState<Shweet[]>([]);
+  const [record, setRecord] = useState<HeadToHeadRecord | null>(null);
+  const [mutualFriends, setMutualFriends] = useState<UserData[]>([]);
+  const [pendingRequest, setPendingRequest] = useState<FriendRequest | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [actionLoading, setActionLoading] = useState(false);
+  const [gamePickerVisible, setGamePickerVisible] = useState(false);
+
+  const currentUserId = userData?.uid;
+  const isOwnProfile = currentUserId === userId;
+
+  const loadProfile = useCallback(async () => {
+    try {
+      const profileData = await getUserData(userId);
+      setProfile(profileData);
+      if (!profileData) return;
+
+      navigation.setOptions({ title: profileData.displayName || 'Profile' });
+
+      const [recentShweets, headToHead, request] = await Promise.all([
+        getUserShweets(userId, RECENT_SHWEETS_LIMIT),
+        currentUserId && !isOwnProfile ? getHeadToHeadRecord(currentUserId, userId) : Promise.resolve(null),
+        currentUserId && !isOwnProfile ? checkPendingRequest(currentUserId, userId) : Promise.resolve(null)
+      ]);
+      setShweets(recentShweets);
+      setRecord(headToHead);
+      setPendingRequest(request);
+
+      // The signed-in user's friends list in context can be stale, so read it fresh
+      if (currentUserId && !isOwnProfile) {
+        const currentUser = await getUserData(currentUserId);
+        const myFriends = currentUser?.friends || [];
+        const mutualIds = (profileData.friends || []).filter(id => myFriends.includes(id));
+        const mutualData = await Promise.all(mutualIds.map(getUserData));
+        setMutualFriends(mutualData.filter((friend): friend is UserData => !!friend));
+      }
+    } catch (error) {
+      console.error('Error loading user profile:', error);
+      Alert.alert('Error', 'Failed to load profile. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, currentUserId, isOwnProfile, navigation]);
+
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
+
+  const isFriend = !!currentUserId && (profile?.friends || []).includes(currentUserId);
+
+  const runAction = async (action: () => Promise<void>, failureMessage: string) => {
+    setActionLoading(true);
+    try {
+      await action();
+      await loadProfile();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : failureMessage);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleAddFriend = () => {
+    if (!currentUserId) return;
+    runAction(async () => {
+      await sendFriendRequest(currentUserId, userId);
+    }, 'Failed to send friend request. Please try again.');
+  };
+
+  const handleAcceptRequest = () => {
+    if (!pendingRequest?.id) return;
+    runAction(() => acceptFriendRequest(pendingRequest.id!), 'Failed to accept friend request. Please try again.');
+  };
+
+  const handleUnfriend = () => {
+    if (!currentUserId || !profile) return;
+    Alert.alert(
+      'Remove Friend',
+      `Are you sure you want to remove ${profile.displayName} from your friends?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => runAction(() => removeFriend(currentUserId, userId), 'Failed to remove friend. Please try again.')
+        }
+      ]
+    );
+  };
+
+  // Friends on the throne get the invite now, everyone else on their next session
+  const handleInvite = async (gameType: GameType) => {
+    if (!profile) return;
+    setGamePickerVisible(false);
+    const delivery = profile.isShitting ? 'now' : 'nextSession';
+
+    try {
+      await sendInvite(userId, gameType, undefined, delivery);
+      Alert.alert(
+        'Invite Sent',
+        delivery === 'nextSession'
+          ? `${profile.displayName} will get the invite when they're next on the throne.`
+          : `Waiting for ${profile.displayName} to accept.`
+      );
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to send game invite. Please try again.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#6366f1" />
+      </View>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="person-outline" size={48} color="#d1d5db" />
+        <Text style={styles.emptyText}>This user could not be found</Text>
+      </View>
+    );
+  }
+
+  const displayName = profile.displayName || 'Unknown User';
+
+  const renderFriendAction = () => {
+    if (isFriend) {
+      return (
+        <TouchableOpacity style={[styles.actionButton, styles.secondaryButton]} onPress={handleUnfriend} disabled={actionLoading}>
+          <Ionicons name="person-remove" size={16} color="#ef4444" />
+          <Text style={[styles.actionText, styles.destructiveText]}>Unfriend</Text>
+        </TouchableOpacity>
+      );
+    }
+
+    if (pendingRequest?.receiverId === currentUserId) {
+      return (
+        <TouchableOpacity style={styles.actionButton} onPress={handleAcceptRequest} disabled={actionLoading}>
+          <Ionicons name="checkmark" size={16} color="#fff" />
+          <Text style={styles.actionText}>Accept Request</Text>
+        </TouchableOpacity>
+      );
+    }
+
+    if (pendingRequest) {
+      return (
+        <View style={[styles.actionButton, styles.secondaryButton]}>
+          <Ionicons name="time-outline" size={16} color="#6b7280" />
+          <Text style={[styles.actionText, styles.mutedText]}>Request Sent</Text>
+        </View>
+      );
+    }
+
+    return (
+      <TouchableOpacity style={styles.actionButton} onPress={handleAddFriend} disabled={actionLoading}>
+        <Ionicons name="person-add" size={16} color="#fff" />
+        <Text style={styles.actionText}>Add Friend</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.header}>
+        <Avatar name={displayName} photoURL={profile.photoURL} size={88} />
+        <Text style={styles.displayName}>{displayName}</Text>
+        <Text style={styles.statusText}>
+          {profile.isShitting ? 'Currently Shitting' : (profile.isOnline ? 'Online' : 'Offline')}
+        </Text>
+
+        {!isOwnProfile && (
+          <View style={styles.actions}>
+            {renderFriendAction()}
+            {isFriend && (
+              <TouchableOpacity style={styles.actionButton} onPress={() => setGamePickerVisible(true)}>
+                <Ionicons name="game-controller" size={16} color="#fff" />
+                <Text style={styles.actionText}>Invite to Game</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Stats</Text>
+        <View style={styles.statsGrid}>
+          <View style={styles.statItem}>
+            <Text style={styles.statValue}>{profile.totalShits || 0}</Text>
+            <Text style={styles.statLabel}>Total Shits</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Text style={styles.statValue}>{formatDuration(profile.averageShitDuration || 0)}</Text>
+            <Text style={styles.statLabel}>Average Duration</Text>
+          </View>
+        </View>
+      </View>
+
+      {record && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Head to Head</Text>
+          {record.total === 0 ? (
+            <Text style={styles.emptyText}>You haven't played each other yet</Text>
+          ) : (
+            <View style={styles.statsGrid}>
+              <View style={styles.statItem}>
+                <Text style={[styles.statValue, styles.winText]}>{record.wins}</Text>
+                <Text style={styles.statLabel}>Wins</Text>
+              </View>
+              <View style={styles.statItem}>
+                <Text style={[styles.statValue, styles.lossText]}>{record.losses}</Text>
+                <Text style={styles.statLabel}>Losses</Text>
+              </View>
+              <View style={styles.statItem}>
+                <Text style={styles.statValue}>{record.draws}</Text>
+                <Text style={styles.statLabel}>Draws</Text>
+              </View>
+            </View>
+          )}
+        </View>
+      )}
+
+      {!isOwnProfile && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Mutual Friends</Text>
+          {mutualFriends.length === 0 ? (
+            <Text style={styles.emptyText}>No mutual friends</Text>
+          ) : (
+            mutualFriends.map(friend => (
+              <TouchableOpacity
+                key={friend.uid}
+                style={styles.friendRow}
+                onPress={() => navigation.push('UserProfile', { userId: friend.uid })}
+              >
+                <Avatar name={friend.displayName || '?'} photoURL={friend.photoURL} size={36} />
+                <Text style={styles.friendName}>{friend.displayName || 'Unknown User'}</Text>
+                <Ionicons name="chevron-forward" size={18} color="#9ca3af" />
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Recent Shweets</Text>
+        {shweets.length === 0 ? (
+          <Text style={styles.emptyText}>No shweets yet</Text>
+        ) : (
+          shweets.map(shweet => (
+            <TouchableOpacity
+              key={shweet.id}
+              style={styles.shweetRow}
+              onPress={() => navigation.navigate('ShweetDetails', { shweetId: shweet.id! })}
+            >
+              {!!shweet.content && (
+                <ShweetContent style={styles.shweetContent} content={shweet.content} entities={shweet.entities} />
+              )}
+              <ShweetMediaGrid media={shweet.media} />
+              {shweet.shareType && <SharedShweetCard shared={shweet.shared} />}
+              <View style={styles.shweetMeta}>
+                <Text style={styles.timestamp}>{formatTimestamp(shweet.timestamp)}</Text>
+                <View style={styles.shweetCounts}>
+                  <Text style={styles.countEmoji}>{getReactionEmoji(DEFAULT_REACTION)}</Text>
+                  <Text style={styles.countText}>{shweet.reactionCount}</Text>
+                  <Ionicons name="chatbubble-outline" size={14} color="#6b7280" />
+                  <Text style={styles.countText}>{shweet.comments}</Text>
+                </View>
+              </View>
+            </TouchableOpacity>
+          ))
+        )}
+      </View>
+
+      <Modal
+        visible={gamePickerVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setGamePickerVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Invite {displayName} to</Text>
+            {getAvailableGames().map(game => (
+              <TouchableOpacity
+                key={game.id}
+                style={styles.gameOption}
+                onPress={() => handleInvite(game.id as GameType)}
+              >
+                <View style={[styles.gameIcon, { backgroundColor: game.color }]}>
+                  <Ionicons name={game.icon} size={18} color="#fff" />
+                </View>
+                <Text style={styles.gameTitle}>{game.title}</Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity style={styles.cancelButton} onPress={() => setGamePickerVisible(false)}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+    backgroundColor: '#f9fafb',
+  },
+  header: {
+    backgroundColor: '#fff',
+    padding: 20,
+    alignItems: 'center',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  defaultAvatar: {
+    backgroundColor: '#6366f1',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  displayName: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginTop: 12,
+  },
+  statusText: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: 16,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#6366f1',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    marginHorizontal: 5,
+  },
+  secondaryButton: {
+    backgroundColor: '#f3f4f6',
+  },
+  actionText: {
+    color: '#fff',
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  destructiveText: {
+    color: '#ef4444',
+  },
+  mutedText: {
+    color: '#6b7280',
+  },
+  section: {
+    backgroundColor: '#fff',
+    marginTop: 15,
+    padding: 15,
+    borderTopWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 12,
+  },
+  statsGrid: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  statItem: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  statValue: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#6366f1',
+  },
+  statLabel: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  winText: {
+    color: '#10b981',
+  },
+  lossText: {
+    color: '#ef4444',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9ca3af',
+    marginTop: 4,
+  },
+  friendRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  friendName: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1f2937',
+    marginLeft: 10,
+  },
+  shweetRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  shweetContent: {
+    fontSize: 15,
+    color: '#1f2937',
+    lineHeight: 21,
+  },
+  shweetMeta: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  timestamp: {
+    fontSize: 12,
+    color: '#9ca3af',
+  },
+  shweetCounts: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  countEmoji: {
+    fontSize: 12,
+  },
+  countText: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginLeft: 3,
+    marginRight: 10,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 12,
+  },
+  gameOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  gameIcon: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  gameTitle: {
+    fontSize: 16,
+    color: '#1f2937',
+  },
+  cancelButton: {
+    marginTop: 10,
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#6b7280',
+  },
+});
@@ -7,10 +7,12 @@ import {
   onAuthStateChanged,
 } from 'firebase/auth';
 import { doc, setDoc, getDoc, updateDoc } from 'firebase/firestore';
-import { ref, set, onValue, onDisconnect } from 'firebase/database';
+import { ref, set, update, onValue, onDisconnect, serverTimestamp } from 'firebase/database';
 
 import { auth, firestore, database } from '../../firebase/config';
 import { STORAGE_KEYS } from '../../constants/app';
+import { SessionEndSource } from '../database/sessionService';
+import { getSessionController } from '../session/sessionController';
 
 // Generate a unique session ID
 const generateSessionId = (): string => {
@@ -81,6 +83,7 @@ export const registerUser = async (
     onDisconnect(userStatusRef).update({
       isOnline: false,
       lastActive: Date.now(),
+      lastChanged: serverTimestamp(),
     });
     
     return user;
@@ -98,13 +101,13 @@ export const loginUser = async (
     const userCredential = await signInWithEmailAndPassword(auth, email, password);
     const user = userCredential.user;
     
-    // Update online status
+    // Update online status; a running session is kept and picked up by the
+    // session controller
     const sessionId = generateSessionId();
     const userStatusRef = ref(database, `status/${user.uid}`);
     
-    await set(userStatusRef, {
+    await update(userStatusRef, {
       isOnline: true,
-      isShitting: false,
       lastActive: Date.now(),
       sessionId,
     });
@@ -113,6 +116,7 @@ export const loginUser = async (
     onDisconnect(userStatusRef).update({
       isOnline: false,
       lastActive: Date.now(),
+      lastChanged: serverTimestamp(),
     });
     
     return user;
@@ -127,6 +131,9 @@ export const logoutUser = async (): Promise<void> => {
     const user = auth.currentUser;
     
     if (user) {
+      // A session still running when signing out ends here
+      await getSessionController().reset();
+      
       // Update status to offline
       const userStatusRef = ref(database, `status/${user.uid}`);
       await set(userStatusRef, {
@@ -153,7 +160,10 @@ export const subscribeToAuthChanges = (
   return onAuthStateChanged(auth, callback);
 };
 
-export const updateUserStatus = async (isShitting: boolean): Promise<void> => {
+export const updateUserStatus = async (
+  isShitting: boolean,
+  endedBy: SessionEndSource = 'user'
+): Promise<void> => {
   const user = auth.currentUser;
   
   if (!user) {
@@ -161,75 +171,12 @@ export const updateUserStatus = async (isShitting: boolean): Promise<void> => {
   }
   
   try {
-    // Update Firestore document first to avoid race conditions
-    const userDocRef = doc(firestore, 'users', user.uid);
-    const userDoc = await getDoc(userDocRef);
+    const controller = getSessionController();
     
-    if (userDoc.exists()) {
-      const userData = userDoc.data() as UserData;
-      
-      // If starting to shit, record start time
-      if (isShitting && !userData.isShitting) {
-        await updateDoc(userDocRef, {
-          isShitting: true,
-          lastShitStartTime: Date.now(),
-        });
-        
-        // After Firestore update is complete, update Realtime Database
-        await set(ref(database, `status/${user.uid}`), {
-          isOnline: true,
-          isShitting: true,
-          lastActive: Date.now(),
-          lastShitStartTime: Date.now(),
-        });
-      }
-      
-      // If ending a shit, update stats
-      if (!isShitting && userData.isShitting && userData.lastShitStartTime) {
-        const currentTime = Date.now();
-        const shitDuration = currentTime - userData.lastShitStartTime;
-        
-        // Only count shits that are at least 2 minutes long
-        const MIN_SHIT_DURATION = 120000; // 2 minutes in milliseconds
-        
-        if (shitDuration >= MIN_SHIT_DURATION) {
-          const totalShits = (userData.totalShits || 0) + 1;
-          const totalShitDuration = (userData.totalShitDuration || 0) + shitDuration;
-          const averageShitDuration = totalShitDuration / totalShits;
-          
-          console.log(`Updating stats in authService: Duration=${shitDuration}ms, Total=${totalShits}`);
-          
-          // Wait for Firestore update to complete before updating RTDB
-          await updateDoc(userDocRef, {
-            isShitting: false,
-            totalShits,
-            totalShitDuration,
-            averageShitDuration,
-          });
-        } else {
-          console.log(`Shit duration (${shitDuration}ms) less than minimum (${MIN_SHIT_DURATION}ms), not counting towards stats`);
-          
-          // Still update isShitting status without changing stats
-          await updateDoc(userDocRef, {
-            isShitting: false,
-          });
-        }
-        
-        // Only update RTDB after Firestore is complete
-        await set(ref(database, `status/${user.uid}`), {
-          isOnline: true,
-          isShitting: false,
-          lastActive: currentTime,
-          lastShitStartTime: null,
-        });
-      }
+    if (isShitting) {
+      await controller.start(user.uid);
     } else {
-      // No user document exists, just update RTDB
-      await set(ref(database, `status/${user.uid}`), {
-        isOnline: true,
-        isShitting,
-        lastActive: Date.now(),
-      });
+      await controller.end(user.uid, endedBy);
     }
   } catch (error) {
     console.error('Error updating user status:', error);
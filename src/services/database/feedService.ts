@@ -0,0 +1,287 @@
+import {
+  query,
+  where,
+  orderBy,
+  limit as firestoreLimit,
+  startAfter,
+  endAt,
+  getDocs,
+  onSnapshot,
+  documentId,
+  Timestamp,
+  QueryConstraint
+} from 'firebase/firestore';
+import {
+  Shweet,
+  TimelineEntry,
+  convertShweetDoc,
+  convertTimelineEntryDoc,
+  getTimelineCollection,
+  shweetsCollection
+} from './shweetService';
+
+// Firestore allows at most 30 values in an 'in' filter
+export const FEED_CHUNK_SIZE = 30;
+export const FEED_PAGE_SIZE = 20;
+
+// Position of the oldest shweet on a page. The document ID breaks ties
+// between shweets posted at the same moment.
+export interface FeedCursor {
+  timestamp: Timestamp;
+  id: string;
+}
+
+export interface FeedPage {
+  shweets: Shweet[];
+  cursor: FeedCursor | null; // null once there is nothing older to load
+}
+
+const chunkIds = (ids: string[]): string[][] => {
+  const chunks: string[][] = [];
+  for (let i = 0; i < ids.length; i += FEED_CHUNK_SIZE) {
+    chunks.push(ids.slice(i, i + FEED_CHUNK_SIZE));
+  }
+  return chunks;
+};
+
+// Shweets still waiting for their server timestamp are the newest
+const getMillis = (shweet: Shweet): number => {
+  if (!shweet.timestamp) return Number.MAX_SAFE_INTEGER;
+  return shweet.timestamp instanceof Date ? shweet.timestamp.getTime() : shweet.timestamp.toMillis();
+};
+
+// Newest first, in the same order as the queries
+const compareShweets = (a: Shweet, b: Shweet): number =>
+  getMillis(b) - getMillis(a) || (b.id! < a.id! ? -1 : b.id! > a.id! ? 1 : 0);
+
+const mergeShweets = (lists: Shweet[][]): Shweet[] => {
+  const byId = new Map<string, Shweet>();
+  lists.forEach(list => list.forEach(shweet => byId.set(shweet.id!, shweet)));
+  return Array.from(byId.values()).sort(compareShweets);
+};
+
+const getCursor = (shweet: Shweet): FeedCursor | null =>
+  shweet.timestamp instanceof Timestamp ? { timestamp: shweet.timestamp, id: shweet.id! } : null;
+
+const getChunkQuery = (authorIds: string[], ...constraints: QueryConstraint[]) =>
+  query(
+    shweetsCollection,
+    where('authorId', 'in', authorIds),
+    orderBy('timestamp', 'desc'),
+    orderBy(documentId(), 'desc'),
+    ...constraints
+  );
+
+// Page through shweets by the given authors that match the filters. Each chunk
+// of authors is queried separately and the results merged, so a page can come
+// from any number of friends.
+const getChunkedPage = async (
+  authorIds: string[],
+  filters: QueryConstraint[],
+  cursor: FeedCursor | null,
+  pageSize: number
+): Promise<FeedPage> => {
+  if (!authorIds.length) return { shweets: [], cursor: null };
+
+  const chunkResults = await Promise.all(chunkIds(authorIds).map(async (chunk) => {
+    const q = getChunkQuery(
+      chunk,
+      ...filters,
+      ...(cursor ? [startAfter(cursor.timestamp, cursor.id)] : []),
+      firestoreLimit(pageSize)
+    );
+    const querySnapshot = await getDocs(q);
+    return {
+      shweets: querySnapshot.docs.map(convertShweetDoc),
+      hasMore: querySnapshot.docs.length === pageSize
+    };
+  }));
+
+  const shweets = mergeShweets(chunkResults.map(result => result.shweets)).slice(0, pageSize);
+  const hasMore = shweets.length === pageSize || chunkResults.some(result => result.hasMore);
+  const last = shweets[shweets.length - 1];
+
+  // Deleted shweets are dropped after paging so they don't end the feed early
+  return {
+    shweets: shweets.filter(shweet => !shweet.deleted),
+    cursor: hasMore && last ? getCursor(last) : null
+  };
+};
+
+// One page of shweets by the given authors, older than the cursor
+export const getFeedPage = async (
+  authorIds: string[],
+  cursor: FeedCursor | null = null,
+  pageSize = FEED_PAGE_SIZE
+): Promise<FeedPage> => {
+  try {
+    return await getChunkedPage(authorIds, [], cursor, pageSize);
+  } catch (error) {
+    console.error('Error getting feed page:', error);
+    throw error;
+  }
+};
+
+// One page of the tag feed: shweets with the hashtag by the given authors
+export const getHashtagFeedPage = async (
+  tag: string,
+  authorIds: string[],
+  cursor: FeedCursor | null = null,
+  pageSize = FEED_PAGE_SIZE
+): Promise<FeedPage> => {
+  try {
+    const filters = [where('hashtags', 'array-contains', tag.replace(/^#/, '').toLowerCase())];
+    return await getChunkedPage(authorIds, filters, cursor, pageSize);
+  } catch (error) {
+    console.error('Error getting hashtag feed page:', error);
+    throw error;
+  }
+};
+
+// Reaction and comment counts change too often to copy into every timeline, so
+// they are read from the shweets themselves. So are the content, which can be
+// edited, and the shared shweet, which is cleared when it is deleted. Entries
+// whose shweet is gone or deleted are dropped.
+const withEngagement = (entries: TimelineEntry[], shweetsById: Map<string, Shweet>): Shweet[] =>
+  entries
+    .filter(entry => shweetsById.has(entry.shweetId) && !shweetsById.get(entry.shweetId)!.deleted)
+    .map(entry => {
+      const shweet = shweetsById.get(entry.shweetId)!;
+      return {
+        id: entry.shweetId,
+        authorId: entry.authorId,
+        authorName: entry.authorName,
+        authorPhotoURL: entry.authorPhotoURL,
+        content: shweet.content,
+        timestamp: entry.timestamp,
+        isFromToilet: entry.isFromToilet,
+        reactionCount: shweet.reactionCount,
+        reactionCounts: shweet.reactionCounts,
+        comments: shweet.comments,
+        entities: shweet.entities,
+        mentions: shweet.mentions,
+        hashtags: shweet.hashtags,
+        media: entry.media,
+        shareType: shweet.shareType,
+        sharedShweetId: shweet.sharedShweetId,
+        shared: shweet.shared,
+        reshweets: shweet.reshweets,
+        quotes: shweet.quotes,
+        editedAt: shweet.editedAt,
+        deleted: shweet.deleted,
+        deletedAt: shweet.deletedAt
+      };
+    });
+
+const getShweetsById = async (shweetIds: string[]): Promise<Map<string, Shweet>> => {
+  const chunkSnapshots = await Promise.all(chunkIds(shweetIds).map(chunk =>
+    getDocs(query(shweetsCollection, where(documentId(), 'in', chunk)))
+  ));
+
+  const shweetsById = new Map<string, Shweet>();
+  chunkSnapshots.forEach(snapshot => snapshot.docs.forEach(shweetDoc => {
+    shweetsById.set(shweetDoc.id, convertShweetDoc(shweetDoc));
+  }));
+  return shweetsById;
+};
+
+const getTimelineQuery = (userId: string, ...constraints: QueryConstraint[]) =>
+  query(
+    getTimelineCollection(userId),
+    orderBy('timestamp', 'desc'),
+    orderBy(documentId(), 'desc'),
+    ...constraints
+  );
+
+// One page of the user's home timeline, older than the cursor
+export const getTimelinePage = async (
+  userId: string,
+  cursor: FeedCursor | null = null,
+  pageSize = FEED_PAGE_SIZE
+): Promise<FeedPage> => {
+  try {
+    const q = getTimelineQuery(
+      userId,
+      ...(cursor ? [startAfter(cursor.timestamp, cursor.id)] : []),
+      firestoreLimit(pageSize)
+    );
+    const querySnapshot = await getDocs(q);
+    const entries = querySnapshot.docs.map(convertTimelineEntryDoc);
+    const shweets = withEngagement(entries, await getShweetsById(entries.map(entry => entry.shweetId)));
+
+    // Page on the entries, so deleted shweets don't end the feed early
+    const last = entries[entries.length - 1];
+    return {
+      shweets,
+      cursor: entries.length === pageSize && last.timestamp instanceof Timestamp
+        ? { timestamp: last.timestamp, id: last.shweetId }
+        : null
+    };
+  } catch (error) {
+    console.error('Error getting timeline page:', error);
+    throw error;
+  }
+};
+
+// Live timeline entries from the newest down to and including the anchor (the
+// oldest entry of the first page), so new shweets arrive at the top and reactions,
+// comments and deletes on the first page show up. Without an anchor the
+// newest page is watched instead.
+export const subscribeToTimelineHead = (
+  userId: string,
+  anchor: FeedCursor | null,
+  onShweetsUpdate: (shweets: Shweet[]) => void
+): () => void => {
+  let entries: TimelineEntry[] = [];
+  let watchedIds = '';
+  let shweetUnsubscribes: (() => void)[] = [];
+  let chunkShweets: Shweet[][] = [];
+  let loaded: boolean[] = [];
+
+  const emit = () => {
+    if (!loaded.every(Boolean)) return;
+    const shweetsById = new Map<string, Shweet>();
+    chunkShweets.forEach(list => list.forEach(shweet => shweetsById.set(shweet.id!, shweet)));
+    onShweetsUpdate(withEngagement(entries, shweetsById));
+  };
+
+  // Follow the shweets behind the current entries
+  const watchShweets = (shweetIds: string[]) => {
+    shweetUnsubscribes.forEach(unsubscribe => unsubscribe());
+    const chunks = chunkIds(shweetIds);
+    chunkShweets = chunks.map(() => []);
+    loaded = chunks.map(() => false);
+
+    shweetUnsubscribes = chunks.map((chunk, index) =>
+      onSnapshot(query(shweetsCollection, where(documentId(), 'in', chunk)), (snapshot) => {
+        chunkShweets[index] = snapshot.docs.map(convertShweetDoc);
+        loaded[index] = true;
+        emit();
+      }, (error) => {
+        console.error('Error subscribing to timeline shweets:', error);
+      })
+    );
+  };
+
+  const unsubscribeTimeline = onSnapshot(
+    getTimelineQuery(userId, anchor ? endAt(anchor.timestamp, anchor.id) : firestoreLimit(FEED_PAGE_SIZE)),
+    (snapshot) => {
+      entries = snapshot.docs.map(convertTimelineEntryDoc);
+      const shweetIds = entries.map(entry => entry.shweetId);
+
+      if (shweetIds.join() !== watchedIds) {
+        watchedIds = shweetIds.join();
+        watchShweets(shweetIds);
+      }
+      emit();
+    },
+    (error) => {
+      console.error('Error subscribing to timeline:', error);
+    }
+  );
+
+  return () => {
+    unsubscribeTimeline();
+    shweetUnsubscribes.forEach(unsubscribe => unsubscribe());
+  };
+};
@@ -19,6 +19,7 @@ import {
 } from 'firebase/firestore';
 import { ref, update } from 'firebase/database';
 import { firestore, database } from '../../firebase/config';
+import { connectTimelines } from './timelineService';
 
 // Types
 export interface FriendRequest {
@@ -104,6 +105,12 @@ export const acceptFriendRequest = async (requestId: string): Promise<void> => {
     batch.delete(requestRef);
     
     await batch.commit();
+    
+    // The friendship stands even if the backfill fails; the timelines catch up
+    // with the next shweets
+    connectTimelines(senderId, receiverId).catch(error => {
+      console.error('Error backfilling timelines:', error);
+    });
   } catch (error: any) {
     // If the error is already our special status, rethrow it
     if (error.status === 'cancelled') {
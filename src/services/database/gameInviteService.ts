@@ -5,7 +5,6 @@ import {
   getDocs, 
   doc, 
   getDoc, 
-  updateDoc, 
   arrayUnion,
   writeBatch,
   serverTimestamp,
@@ -16,21 +15,41 @@ import {
   orderBy,
   Timestamp,
   setDoc,
-  onSnapshot
+  onSnapshot,
+  runTransaction
 } from 'firebase/firestore';
 import { ref, onValue, get } from 'firebase/database';
 import { firestore, database } from '../../firebase/config';
-import { createGame, GameType } from './gameService';
+import { createGame, getGame, GameType } from './gameService';
+import { getServerNow } from './serverTimeService';
+import { isStaleSession } from './sessionService';
+import { getGameRules, isGameType } from '../../games/rules';
+import { GameSetup } from '../../games/types';
+
+// How long an invite stays open before it expires
+export const INVITE_TTL_MS = 10 * 60 * 1000; // 10 minutes to answer a live invite
+export const WAITING_INVITE_TTL_MS = 24 * 60 * 60 * 1000; // A day for the friend to get on the throne
 
 // Types
+// pending: the receiver can answer it now
+// waiting: sent to a friend who isn't shitting; becomes pending when they start a session
+export type GameInviteStatus = 'pending' | 'waiting' | 'accepted' | 'declined' | 'expired';
+
+// 'now' needs both players on the throne, 'nextSession' waits for the receiver
+export type GameInviteDelivery = 'now' | 'nextSession';
+
 export interface GameInvite {
   id?: string;
   senderId: string;
   receiverId: string;
   gameType: GameType;
-  status: 'pending' | 'accepted' | 'declined';
+  status: GameInviteStatus;
   timestamp: Timestamp;
+  expiresAt: Timestamp;
   gameId?: string;
+  options?: GameSetup;
+  players?: string[];  // Seat order for the new game (players[0] moves first); defaults to [sender, receiver]
+  rematchOf?: string;  // Finished game this invite is a rematch of
 }
 
 // Collection reference
@@ -46,113 +65,240 @@ const convertGameInviteDoc = (doc: QueryDocumentSnapshot<DocumentData>): GameInv
     gameType: data.gameType,
     status: data.status,
     timestamp: data.timestamp,
+    // Invites from before expiry existed get the live invite TTL
+    expiresAt: data.expiresAt ?? Timestamp.fromMillis(data.timestamp.toMillis() + INVITE_TTL_MS),
     gameId: data.gameId,
+    options: data.options,
+    players: data.players,
+    rematchOf: data.rematchOf,
+  };
+};
+
+// Whether an open invite has run out of time
+export const isInviteExpired = (invite: GameInvite): boolean =>
+  invite.expiresAt.toMillis() <= getServerNow();
+
+// Write a new invite with its expiry
+const createInvite = async (invite: Omit<GameInvite, 'id' | 'timestamp' | 'expiresAt'>): Promise<string> => {
+  const inviteRef = doc(gameInvitesCollection);
+  const now = getServerNow();
+  const ttl = invite.status === 'waiting' ? WAITING_INVITE_TTL_MS : INVITE_TTL_MS;
+
+  const inviteData: GameInvite = {
+    ...invite,
+    id: inviteRef.id,
+    timestamp: Timestamp.fromMillis(now),
+    expiresAt: Timestamp.fromMillis(now + ttl)
   };
+
+  console.log('Creating game invite document:', inviteData);
+  await setDoc(inviteRef, inviteData);
+  return inviteRef.id;
 };
 
-// Send a game invite
-export const sendGameInvite = async (senderId: string, receiverId: string, gameType: GameType): Promise<string> => {
+// Send a game invite. With 'nextSession' delivery the receiver doesn't have
+// to be shitting; the invite waits until they start their next session.
+export const sendGameInvite = async (
+  senderId: string,
+  receiverId: string,
+  gameType: GameType,
+  options?: GameSetup,
+  delivery: GameInviteDelivery = 'now'
+): Promise<string> => {
   try {
-    console.log('Attempting to send game invite:', { senderId, receiverId, gameType });
-    
-    // Check if sender has any pending invites
-    const pendingInvites = await getPendingInvites(senderId);
-    console.log('Current pending invites:', pendingInvites);
+    console.log('Attempting to send game invite:', { senderId, receiverId, gameType, options, delivery });
     
-    if (pendingInvites.length > 0) {
-      throw new Error('You can only send one game invite at a time');
+    if (!isGameType(gameType)) {
+      throw new Error(`Unknown game type: ${gameType}`);
     }
-
-    // Check if both users are currently shitting
-    const [senderStatus, receiverStatus] = await Promise.all([
-      checkUserShittingStatus(senderId),
-      checkUserShittingStatus(receiverId)
-    ]);
     
-    console.log('User statuses:', { senderStatus, receiverStatus });
+    // Expired invites shouldn't block new ones
+    await expireStaleInvites(senderId);
+    
+    // Check if sender has any open invites
+    const openInvites = await getPendingInvites(senderId);
+    console.log('Current open invites:', openInvites);
+    
+    if (delivery === 'nextSession') {
+      if (openInvites.some(invite => invite.receiverId === receiverId)) {
+        throw new Error('You already have an invite open with this friend');
+      }
+    } else {
+      if (openInvites.some(invite => invite.status === 'pending')) {
+        throw new Error('You can only send one game invite at a time');
+      }
+
+      // Check if both users are currently shitting
+      const [senderStatus, receiverStatus] = await Promise.all([
+        checkUserShittingStatus(senderId),
+        checkUserShittingStatus(receiverId)
+      ]);
+      
+      console.log('User statuses:', { senderStatus, receiverStatus });
 
-    if (!senderStatus || !receiverStatus) {
-      throw new Error('Both users must be currently shitting to send/receive game invites');
+      if (!senderStatus || !receiverStatus) {
+        throw new Error('Both users must be currently shitting to send/receive game invites');
+      }
     }
     
-    // Create a new game invite document
-    const inviteRef = doc(collection(firestore, 'gameInvites'));
-    const invite: GameInvite = {
-      id: inviteRef.id,
+    const inviteId = await createInvite({
       senderId,
       receiverId,
       gameType,
-      status: 'pending',
-      timestamp: Timestamp.now()
-    };
-    
-    console.log('Creating game invite document:', invite);
-    await setDoc(inviteRef, invite);
+      status: delivery === 'nextSession' ? 'waiting' : 'pending',
+      ...(options ? { options } : {})
+    });
     console.log('Game invite created successfully');
-    return inviteRef.id;
+    return inviteId;
   } catch (error) {
     console.error('Error sending game invite:', error);
     throw error;
   }
 };
 
-// Add a new function to clean up old invites
-const cleanupOldInvites = async (userId: string) => {
+// Offer a rematch of a finished game. Seats are swapped so the other player
+// moves first (and plays white in chess). If the opponent has left the throne
+// the invite waits for their next session.
+export const sendRematchInvite = async (gameId: string, senderId: string): Promise<string> => {
+  try {
+    const game = await getGame(gameId);
+    if (!game) {
+      throw new Error('Game not found');
+    }
+    if (game.status === 'active') {
+      throw new Error('Game is still in progress');
+    }
+
+    const receiverId = game.players.find(p => p !== senderId);
+    if (!receiverId || !game.players.includes(senderId)) {
+      throw new Error('Only players of this game can ask for a rematch');
+    }
+
+    const existingInvites = await getDocs(query(
+      gameInvitesCollection,
+      where('rematchOf', '==', gameId),
+      where('status', 'in', ['pending', 'waiting', 'accepted'])
+    ));
+    if (existingInvites.docs.map(convertGameInviteDoc).some(invite => !isInviteExpired(invite))) {
+      throw new Error('A rematch has already been offered');
+    }
+
+    const receiverShitting = await checkUserShittingStatus(receiverId);
+    const setup = getGameRules(game.type).getRematchSetup?.(game);
+
+    return await createInvite({
+      senderId,
+      receiverId,
+      gameType: game.type,
+      status: receiverShitting ? 'pending' : 'waiting',
+      players: [...game.players].reverse(),
+      rematchOf: gameId,
+      ...(setup ? { options: setup } : {})
+    });
+  } catch (error) {
+    console.error('Error sending rematch invite:', error);
+    throw error;
+  }
+};
+
+// Mark a user's open invites that have run out of time as expired
+export const expireStaleInvites = async (userId: string): Promise<void> => {
   try {
-    // Only cleanup pending invites older than 24 hours
-    const oneDayAgo = Timestamp.fromMillis(Date.now() - 86400000);
+    const openStatuses = ['pending', 'waiting'];
+    const [sentSnapshot, receivedSnapshot] = await Promise.all([
+      getDocs(query(gameInvitesCollection, where('senderId', '==', userId), where('status', 'in', openStatuses))),
+      getDocs(query(gameInvitesCollection, where('receiverId', '==', userId), where('status', 'in', openStatuses)))
+    ]);
+
+    const staleDocs = [...sentSnapshot.docs, ...receivedSnapshot.docs]
+      .filter(inviteDoc => isInviteExpired(convertGameInviteDoc(inviteDoc)));
+    if (staleDocs.length === 0) return;
+
+    const batch = writeBatch(firestore);
+    staleDocs.forEach(inviteDoc => {
+      batch.update(inviteDoc.ref, { status: 'expired', lastUpdated: Timestamp.now() });
+    });
+    await batch.commit();
+  } catch (error) {
+    console.error('Error expiring old invites:', error);
+  }
+};
 
+// Turn invites that were waiting for this user's next session into live ones.
+// Called when the user starts shitting.
+export const activateWaitingInvites = async (userId: string): Promise<void> => {
+  try {
     const q = query(
       gameInvitesCollection,
-      where('status', '==', 'pending'),
-      where('timestamp', '<', oneDayAgo)
+      where('receiverId', '==', userId),
+      where('status', '==', 'waiting')
     );
-
     const querySnapshot = await getDocs(q);
-    const batch = writeBatch(firestore);
+    if (querySnapshot.empty) return;
 
-    querySnapshot.docs.forEach(doc => {
-      const invite = doc.data() as GameInvite;
-      if (invite.senderId === userId || invite.receiverId === userId) {
-        batch.delete(doc.ref);
+    const now = getServerNow();
+    const batch = writeBatch(firestore);
+    querySnapshot.docs.forEach(inviteDoc => {
+      if (isInviteExpired(convertGameInviteDoc(inviteDoc))) {
+        batch.update(inviteDoc.ref, { status: 'expired', lastUpdated: Timestamp.now() });
+      } else {
+        // The receiver gets the usual time to answer from now on
+        batch.update(inviteDoc.ref, {
+          status: 'pending',
+          timestamp: Timestamp.fromMillis(now),
+          expiresAt: Timestamp.fromMillis(now + INVITE_TTL_MS)
+        });
       }
     });
-
     await batch.commit();
   } catch (error) {
-    console.error('Error cleaning up old invites:', error);
+    console.error('Error activating waiting invites:', error);
   }
 };
 
-// Accept a game invite
+// Accept a game invite. The invite is marked accepted and its game created in
+// one transaction, so a double tap or both players answering a rematch at
+// once can't start two games. Invites waiting for the receiver's next session
+// can only be accepted once that session has made them pending.
 export const acceptInvite = async (inviteId: string): Promise<string> => {
   try {
     const inviteRef = doc(gameInvitesCollection, inviteId);
-    const inviteDoc = await getDoc(inviteRef);
 
-    if (!inviteDoc.exists()) {
-      throw new Error('Invite not found');
-    }
+    const gameId = await runTransaction(firestore, async (transaction) => {
+      const inviteDoc = await transaction.get(inviteRef);
+      if (!inviteDoc.exists()) {
+        throw new Error('Invite not found');
+      }
 
-    const invite = inviteDoc.data() as GameInvite;
-    if (invite.status !== 'pending') {
-      throw new Error('Invite is no longer pending');
-    }
+      const invite = convertGameInviteDoc(inviteDoc);
+      if (invite.status !== 'pending') {
+        throw new Error('Invite is no longer pending');
+      }
+      if (isInviteExpired(invite)) {
+        transaction.update(inviteRef, { status: 'expired', lastUpdated: Timestamp.now() });
+        return null;
+      }
 
-    // Create the game based on the invite type
-    const gameId = await createGame(
-      invite.gameType,
-      [invite.senderId, invite.receiverId]
-    );
+      const newGameId = createGame(
+        transaction,
+        invite.gameType,
+        invite.players || [invite.senderId, invite.receiverId],
+        invite.options
+      );
 
-    // First update the invite to accepted status with the gameId
-    // This allows the sender to be notified through their subscription
-    await updateDoc(inviteRef, {
-      status: 'accepted',
-      gameId,
-      lastUpdated: Timestamp.now()
+      // The sender is notified of the game through their subscription
+      transaction.update(inviteRef, {
+        status: 'accepted',
+        gameId: newGameId,
+        lastUpdated: Timestamp.now()
+      });
+      return newGameId;
     });
 
+    if (!gameId) {
+      throw new Error('Invite has expired');
+    }
+
     // Delete the invite after a short delay to ensure the sender gets the update
     setTimeout(async () => {
       try {
@@ -205,10 +351,10 @@ export const cancelGameInvite = async (inviteId: string): Promise<void> => {
     // Delete the invite immediately since it was cancelled by the sender
     await deleteDoc(inviteRef);
 
-    // Clean up other old invites for both players
+    // Expire other old invites for both players
     await Promise.all([
-      cleanupOldInvites(invite.senderId),
-      cleanupOldInvites(invite.receiverId)
+      expireStaleInvites(invite.senderId),
+      expireStaleInvites(invite.receiverId)
     ]);
   } catch (error) {
     console.error('Error canceling game invite:', error);
@@ -227,7 +373,7 @@ export const getReceivedGameInvites = async (userId: string): Promise<GameInvite
     );
     
     const querySnapshot = await getDocs(q);
-    const invites = querySnapshot.docs.map(convertGameInviteDoc);
+    const invites = querySnapshot.docs.map(convertGameInviteDoc).filter(invite => !isInviteExpired(invite));
     console.log('Found received invites:', invites);
     return invites;
   } catch (error) {
@@ -242,28 +388,28 @@ export const getSentGameInvites = async (userId: string): Promise<GameInvite[]>
     const q = query(
       gameInvitesCollection,
       where('senderId', '==', userId),
-      where('status', '==', 'pending')
+      where('status', 'in', ['pending', 'waiting'])
     );
     
     const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map(convertGameInviteDoc);
+    return querySnapshot.docs.map(convertGameInviteDoc).filter(invite => !isInviteExpired(invite));
   } catch (error) {
     console.error('Error getting sent game invites:', error);
     throw error;
   }
 };
 
-// Get pending invites (both sent and received)
+// Get a user's open sent invites (pending or waiting for the receiver's next session)
 export const getPendingInvites = async (userId: string): Promise<GameInvite[]> => {
   try {
     const q = query(
       gameInvitesCollection,
-      where('status', '==', 'pending'),
+      where('status', 'in', ['pending', 'waiting']),
       where('senderId', '==', userId)
     );
     
     const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map(convertGameInviteDoc);
+    return querySnapshot.docs.map(convertGameInviteDoc).filter(invite => !isInviteExpired(invite));
   } catch (error) {
     console.error('Error getting pending invites:', error);
     throw error;
@@ -283,8 +429,10 @@ const checkUserShittingStatus = async (userId: string): Promise<boolean> => {
       const userDoc = await getDoc(userDocRef);
       if (!userDoc.exists()) return false;
       
+      // A session whose app stopped sending heartbeats isn't really running
       const userData = userDoc.data();
-      return userData.isShitting === true;
+      return userData.isShitting === true &&
+        !isStaleSession(userData.lastShitStartTime || 0, userData.lastAliveAt);
     }
     
     const status = statusSnapshot.val();
@@ -301,17 +449,15 @@ export const subscribeToGameInvites = (
   onInvitesUpdate: (invites: GameInvite[]) => void
 ): () => void => {
   console.log('Setting up game invite subscription for user:', userId);
-  const oneDayAgo = Timestamp.fromMillis(Date.now() - 86400000);
   
   const q = query(
     gameInvitesCollection,
     where('receiverId', '==', userId),
-    where('status', '==', 'pending'),
-    where('timestamp', '>', oneDayAgo)
+    where('status', '==', 'pending')
   );
 
   return onSnapshot(q, (snapshot) => {
-    const invites = snapshot.docs.map(convertGameInviteDoc);
+    const invites = snapshot.docs.map(convertGameInviteDoc).filter(invite => !isInviteExpired(invite));
     console.log('Received game invite update:', invites);
     onInvitesUpdate(invites);
   });
@@ -327,12 +473,35 @@ export const subscribeToSentGameInvites = (
   const q = query(
     gameInvitesCollection,
     where('senderId', '==', userId),
-    where('status', 'in', ['pending', 'accepted'])
+    where('status', 'in', ['pending', 'waiting', 'accepted'])
   );
 
   return onSnapshot(q, (snapshot) => {
-    const invites = snapshot.docs.map(convertGameInviteDoc);
+    const invites = snapshot.docs
+      .map(convertGameInviteDoc)
+      .filter(invite => invite.status === 'accepted' || !isInviteExpired(invite));
     console.log('Received sent game invite update:', invites);
     onInvitesUpdate(invites);
   });
-}; 
\ No newline at end of file
+};
+
+// Subscribe to the open or accepted rematch invite for a finished game, if any
+export const subscribeToRematchInvite = (
+  gameId: string,
+  onInviteUpdate: (invite: GameInvite | null) => void
+): () => void => {
+  const q = query(
+    gameInvitesCollection,
+    where('rematchOf', '==', gameId),
+    where('status', 'in', ['pending', 'waiting', 'accepted'])
+  );
+
+  return onSnapshot(q, (snapshot) => {
+    const invite = snapshot.docs
+      .map(convertGameInviteDoc)
+      .find(invite => invite.status === 'accepted' || !isInviteExpired(invite));
+    onInviteUpdate(invite || null);
+  }, (error) => {
+    console.error('Error subscribing to rematch invite:', error);
+  });
+};
@@ -2,19 +2,58 @@ import {
   collection, 
   doc, 
   getDoc, 
-  setDoc, 
+  getDocs,
+  query,
+  orderBy,
+  runTransaction,
   onSnapshot,
-  updateDoc,
+  where,
   Timestamp,
   DocumentData,
-  QueryDocumentSnapshot
+  QueryDocumentSnapshot,
+  Transaction
 } from 'firebase/firestore';
-import { firestore } from '../../firebase/config';
-import { getRandomWord } from './wordService';
+import { ref, get } from 'firebase/database';
+import { firestore, database } from '../../firebase/config';
+import { getUserData } from './userService';
+import { getServerNow, getServerTimestamp, waitForServerTime } from './serverTimeService';
+import { CastlingRights } from '../../utils/chessRules';
+import { PgnHeaders, toPgn } from '../../utils/chessNotation';
+import { getGameRules } from '../../games/rules';
+import { GameSetup } from '../../games/types';
+import { ForfeitReason, PlayerPresence, getInactivityForfeit } from '../../games/inactivity';
+import {
+  ChessTimeControl,
+  ChessTimeControlId,
+  getRemainingSeconds,
+  getTimeoutResult
+} from '../../games/chess';
 
 // Types
+// Each game type has its rules in src/games/rules.ts and its board and
+// display metadata in src/games/registry.tsx
 export type GameType = 'tictactoe' | 'rps' | 'wordle' | 'hangman' | 'memory' | 'chess';
 
+// Why a game ended, when the game records it (e.g. "Draw by stalemate")
+export type GameResultReason =
+  | 'checkmate'
+  | 'timeout'
+  | 'timeoutVsInsufficientMaterial'
+  | 'stalemate'
+  | 'insufficientMaterial'
+  | 'fiftyMove'
+  | 'threefoldRepetition'
+  | 'agreement'
+  // Forfeits, which end the game as 'abandoned'
+  | 'quit'
+  | 'inactivity'
+  | 'disconnected';
+
+// Options chosen on the invite and applied when the game is created
+export interface GameOptions {
+  timeControl?: ChessTimeControlId;
+}
+
 export interface BaseGame {
   id?: string;
   type: GameType;
@@ -24,6 +63,17 @@ export interface BaseGame {
   createdAt: Timestamp;
   lastUpdated: Timestamp;
   winner?: string;
+  resultReason?: GameResultReason;
+  forfeitedBy?: string; // Player who quit, stopped moving or went offline in an abandoned game
+  moveCount: number; // Number of moves recorded in games/{id}/moves
+}
+
+// One accepted move, stored in games/{id}/moves for replay
+export interface GameMoveRecord {
+  moveNumber: number;
+  playerId: string;
+  move: unknown; // Normalized move payload for the game type
+  timestamp: Timestamp;
 }
 
 export interface TicTacToeGame extends BaseGame {
@@ -81,7 +131,7 @@ export interface MemoryGame extends BaseGame {
     [playerId: string]: number;
   };
   lastFlip?: number;        // Index of the last flipped card
-  locked?: boolean;         // Whether the game is locked during card reveal
+  revealUntil: Timestamp | null; // Server time until which a missed pair stays face up
 }
 
 export interface ChessGame extends BaseGame {
@@ -94,7 +144,15 @@ export interface ChessGame extends BaseGame {
   timeRemaining: {
     [playerId: string]: number; // Time remaining in seconds for each player
   };
-  lastMoveTime: Timestamp; // When the last move was made
+  lastMoveTime: Timestamp; // When the last move was made, in server time
+  timeControl: ChessTimeControl;
+  castlingRights: CastlingRights;
+  enPassantSquare: string | null; // "row,col" of the en passant target, if any
+  halfmoveClock: number;          // Half-moves since the last capture or pawn move
+  fullmoveNumber: number;
+  positionHistory: string[];      // Position keys for threefold repetition
+  drawOffer: string | null;       // Player who has offered a draw, if any
+  initialFen?: string;            // Starting position for games set up from a FEN
 }
 
 export type Game = TicTacToeGame | RPSGame | WordleGame | HangmanGame | MemoryGame | ChessGame;
@@ -113,205 +171,41 @@ const convertGameDoc = (doc: QueryDocumentSnapshot<DocumentData>): Game => {
     currentTurn: data.currentTurn,
     createdAt: data.createdAt,
     lastUpdated: data.lastUpdated,
-    winner: data.winner
+    winner: data.winner,
+    resultReason: data.resultReason,
+    forfeitedBy: data.forfeitedBy,
+    moveCount: data.moveCount ?? 0
   };
 
-  switch (data.type) {
-    case 'tictactoe':
-      return {
-        ...baseGame,
-        type: 'tictactoe',
-        board: data.board
-      };
-    case 'rps':
-      return {
-        ...baseGame,
-        type: 'rps',
-        choices: data.choices
-      };
-    case 'wordle':
-      return {
-        ...baseGame,
-        type: 'wordle',
-        word: data.word,
-        playerGuesses: data.playerGuesses,
-        maxGuesses: data.maxGuesses,
-        finishTimes: data.finishTimes
-      };
-    case 'hangman':
-      return {
-        ...baseGame,
-        type: 'hangman',
-        words: data.words,
-        guessedLetters: data.guessedLetters,
-        remainingLives: data.remainingLives,
-        finishedGuessing: data.finishedGuessing
-      };
-    case 'memory':
-      return {
-        ...baseGame,
-        type: 'memory',
-        cards: data.cards,
-        flippedCards: data.flippedCards,
-        matchedPairs: data.matchedPairs,
-        scores: data.scores,
-        lastFlip: data.lastFlip
-      };
-    case 'chess':
-      return {
-        ...baseGame,
-        type: 'chess',
-        board: data.board,
-        captures: data.captures,
-        moves: data.moves,
-        timeRemaining: data.timeRemaining,
-        lastMoveTime: data.lastMoveTime
-      };
-    default:
-      throw new Error(`Unknown game type: ${data.type}`);
-  }
+  return {
+    ...baseGame,
+    ...getGameRules(data.type).fromDoc(data)
+  } as Game;
 };
 
-// Create a new game
-export const createGame = async (
+// Create a new game as part of a transaction, e.g. the one accepting its
+// invite, so it's only created once. Returns the new game's ID.
+export const createGame = (
+  transaction: Transaction,
   type: GameType,
   players: string[],
-  data?: any
-): Promise<string> => {
+  data?: GameSetup
+): string => {
   const gameRef = doc(gamesCollection);
-  const now = Timestamp.now();
+  const now = getServerTimestamp();
 
-  let gameData: any = {
+  const gameData = {
     type,
     players,
     status: 'active',
     currentTurn: players[0],
     createdAt: now,
-    lastUpdated: now
+    lastUpdated: now,
+    moveCount: 0,
+    ...getGameRules(type).createInitialState(players, data)
   };
 
-  switch (type) {
-    case 'tictactoe':
-      gameData = {
-        ...gameData,
-        board: Array(9).fill(null)
-      };
-      break;
-    case 'rps':
-      gameData = {
-        ...gameData,
-        choices: players.reduce((acc, player) => ({
-          ...acc,
-          [player]: null
-        }), {})
-      };
-      break;
-    case 'wordle':
-      gameData = {
-        ...gameData,
-        word: getRandomWord(),
-        playerGuesses: players.reduce((acc, player) => ({
-          ...acc,
-          [player]: {
-            guesses: [],
-            results: []
-          }
-        }), {}),
-        maxGuesses: 6,
-        finishTimes: players.reduce((acc, player) => ({
-          ...acc,
-          [player]: null
-        }), {})
-      };
-      break;
-    case 'hangman':
-      // Generate a word for each player
-      const playerWords = {};
-      for (const player of players) {
-        playerWords[player] = getRandomWord();
-      }
-      
-      gameData = {
-        ...gameData,
-        words: playerWords,
-        guessedLetters: players.reduce((acc, player) => ({
-          ...acc,
-          [player]: []
-        }), {}),
-        remainingLives: players.reduce((acc, player) => ({
-          ...acc,
-          [player]: 6
-        }), {}),
-        finishedGuessing: players.reduce((acc, player) => ({
-          ...acc,
-          [player]: false
-        }), {})
-      };
-      break;
-    case 'memory':
-      // Create pairs of emojis
-      const emojis = ['💩', '🧻', '🚽', '🧼', '🧽', '🪠', '🧴', '🚿', '🛁', '🚪', '🪥', '🧫', '🦠', '🧪', '💊', '💉', '🩹', '🩺'];
-      const pairs = [...emojis, ...emojis].slice(0, 36); // 18 pairs for 36 cards
-      
-      // Shuffle the pairs using Fisher-Yates algorithm
-      for (let i = pairs.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [pairs[i], pairs[j]] = [pairs[j], pairs[i]];
-      }
-      
-      gameData = {
-        ...gameData,
-        cards: pairs,
-        flippedCards: [],
-        matchedPairs: [],
-        scores: players.reduce((acc, player) => ({
-          ...acc,
-          [player]: 0
-        }), {})
-      };
-      break;
-    case 'chess':
-      // Create initial chess board state
-      const initialPieces = [
-        ['r', 'n', 'b', 'q', 'k', 'b', 'n', 'r'],
-        ['p', 'p', 'p', 'p', 'p', 'p', 'p', 'p'],
-        ['', '', '', '', '', '', '', ''],
-        ['', '', '', '', '', '', '', ''],
-        ['', '', '', '', '', '', '', ''],
-        ['', '', '', '', '', '', '', ''],
-        ['P', 'P', 'P', 'P', 'P', 'P', 'P', 'P'],
-        ['R', 'N', 'B', 'Q', 'K', 'B', 'N', 'R']
-      ];
-      
-      // Convert to serialized format
-      const serializedBoard = {};
-      for (let row = 0; row < 8; row++) {
-        for (let col = 0; col < 8; col++) {
-          const piece = initialPieces[row][col];
-          if (piece) {
-            serializedBoard[`${row},${col}`] = piece;
-          }
-        }
-      }
-      
-      gameData = {
-        ...gameData,
-        board: serializedBoard,
-        captures: players.reduce((acc, player) => ({
-          ...acc,
-          [player]: []
-        }), {}),
-        moves: [],
-        timeRemaining: players.reduce((acc, player) => ({
-          ...acc,
-          [player]: 60 // 60 seconds = 1 minute per player
-        }), {}),
-        lastMoveTime: now
-      };
-      break;
-  }
-
-  await setDoc(gameRef, gameData);
+  transaction.set(gameRef, gameData);
   return gameRef.id;
 };
 
@@ -332,503 +226,288 @@ export const getGame = async (gameId: string): Promise<Game | null> => {
   }
 };
 
-// Make a move in the game
-export const makeMove = async (gameId: string, playerId: string, move: any): Promise<void> => {
+// Thrown when a move was made against a stale copy of the game, e.g. after a
+// double tap or when another device already moved. Callers should refresh the
+// game and let the player try again.
+export class GameMoveConflictError extends Error {
+  expectedMoveCount: number;
+  currentMoveCount: number;
+
+  constructor(expectedMoveCount: number, currentMoveCount: number) {
+    super('The game has changed since this move was made');
+    this.name = 'GameMoveConflictError';
+    this.expectedMoveCount = expectedMoveCount;
+    this.currentMoveCount = currentMoveCount;
+  }
+}
+
+// The game as it is once the updates are written
+const withUpdates = <G extends Game>(game: G, updates: Partial<G>): G => ({ ...game, ...updates });
+
+// Make a move in the game. The game's rules validate the move and produce
+// the updates; its result evaluator decides whether the game is over.
+// The move is committed in a transaction; pass the moveCount of the game the
+// player saw so a move made against an outdated board is rejected with a
+// GameMoveConflictError instead of overwriting a newer move.
+export const makeMove = async (
+  gameId: string,
+  playerId: string,
+  move: unknown,
+  expectedMoveCount?: number
+): Promise<void> => {
   try {
     const gameRef = doc(firestore, 'games', gameId);
-    const gameDoc = await getDoc(gameRef);
+    // The move is charged to the mover's clock in server time
+    await waitForServerTime();
     
-    if (!gameDoc.exists()) {
-      throw new Error('Game not found');
-    }
-    
-    const game = convertGameDoc(gameDoc);
-    
-    // Check if it's the player's turn (skip for RPS)
-    if (game.type !== 'rps' && game.currentTurn !== playerId) {
-      throw new Error('Not your turn');
-    }
-
-    // SPECIAL CASE FOR HANGMAN - handle separately
-    if (game.type === 'hangman') {
-      const hangmanGame = game as HangmanGame;
-      const letter = move.toUpperCase();
+    await runTransaction(firestore, async (transaction) => {
+      const gameDoc = await transaction.get(gameRef);
       
-      // Check if letter is valid
-      if (!/^[A-Z]$/.test(letter)) {
-        throw new Error('Invalid letter');
+      if (!gameDoc.exists()) {
+        throw new Error('Game not found');
       }
       
-      // Get player's word and currently guessed letters
-      const playerWord = hangmanGame.words?.[playerId];
-      if (!playerWord) {
-        throw new Error('Word not found for player');
-      }
-      
-      const playerGuessedLetters = [...(hangmanGame.guessedLetters?.[playerId] || [])];
-      
-      // Check if letter was already guessed
-      if (playerGuessedLetters.includes(letter)) {
-        throw new Error('Letter already guessed');
-      }
-      
-      // Add letter to guessed letters
-      playerGuessedLetters.push(letter);
-      
-      // Prepare the updates
-      const updates: any = {
-        lastUpdated: Timestamp.now(),
-        guessedLetters: {
-          ...(hangmanGame.guessedLetters || {}),
-          [playerId]: playerGuessedLetters
-        }
-      };
+      const game = convertGameDoc(gameDoc);
+      const rules = getGameRules(game.type);
       
-      // Check if letter is in the word
-      if (!playerWord.includes(letter)) {
-        // Decrease remaining lives
-        const currentLives = hangmanGame.remainingLives?.[playerId] || 6;
-        const newRemainingLives = currentLives - 1;
-        updates.remainingLives = {
-          ...(hangmanGame.remainingLives || {}),
-          [playerId]: newRemainingLives
-        };
+      if (expectedMoveCount !== undefined && game.moveCount !== expectedMoveCount) {
+        throw new GameMoveConflictError(expectedMoveCount, game.moveCount);
       }
       
-      // Get opponent ID
-      const opponentId = game.players.find(p => p !== playerId);
-      if (!opponentId) {
-        throw new Error('Opponent not found');
+      if (game.status !== 'active') {
+        throw new Error('Game is over');
       }
       
-      // Check if player has completed their word
-      const uniqueLettersInWord = [...new Set(playerWord.split(''))];
-      const hasGuessedAllLetters = uniqueLettersInWord.every(l => playerGuessedLetters.includes(l));
-      
-      // Check if player has run out of lives
-      const playerCurrentLives = updates.remainingLives?.[playerId] ?? hangmanGame.remainingLives?.[playerId] ?? 0;
-      const hasRunOutOfLives = playerCurrentLives <= 0;
-      
-      // Mark player as finished if they've guessed all letters or run out of lives
-      const playerJustFinished = (hasGuessedAllLetters || hasRunOutOfLives);
-      if (playerJustFinished) {
-        updates.finishedGuessing = {
-          ...(hangmanGame.finishedGuessing || {}),
-          [playerId]: true
-        };
+      // Simultaneous games have no turns
+      if (rules.turnBased && game.currentTurn !== playerId) {
+        throw new Error('Not your turn');
       }
       
-      // Current status
-      const playerNowFinished = playerJustFinished || hangmanGame.finishedGuessing?.[playerId] || false;
-      const opponentFinished = hangmanGame.finishedGuessing?.[opponentId] || false;
-      const opponentLives = hangmanGame.remainingLives?.[opponentId] ?? 0;
-      
-      // DECISION LOGIC FOR TURN AND GAME STATUS
+      const { updates: moveUpdates, recordedMove = move } = rules.applyMove(game, playerId, move);
+      // lastUpdated is in server time, which the inactivity rule compares it to
+      const updates: Partial<Game> = {
+        lastUpdated: getServerTimestamp(),
+        ...moveUpdates
+      };
       
-      // CASE 1: Both players finished - game over
-      if (playerNowFinished && opponentFinished) {
-        updates.status = 'completed';
-        
-        if (playerCurrentLives > opponentLives) {
-          updates.winner = playerId;
-        } else if (opponentLives > playerCurrentLives) {
-          updates.winner = opponentId;
-        } else {
-          updates.winner = 'draw';
+      // Moves that already ended the game (e.g. a flag fall) skip the evaluator
+      if (!updates.status) {
+        const result = rules.evaluateResult(withUpdates(game, updates));
+        if (result) {
+          updates.status = 'completed';
+          updates.winner = result.winner;
+          if (result.resultReason) {
+            updates.resultReason = result.resultReason;
+          }
         }
-        
-        await updateDoc(gameRef, updates);
-        return; // EXIT FUNCTION
       }
       
-      // CASE 2: Player just finished, opponent has lesser lives
-      if (playerJustFinished && !opponentFinished && opponentLives < playerCurrentLives) {
-        updates.status = 'completed';
-        updates.winner = playerId;
-        await updateDoc(gameRef, updates);
-        return; // EXIT FUNCTION
+      // Bump the move number and append the move to the history together.
+      // A null recorded move updates the game without a history entry.
+      if (recordedMove === null) {
+        transaction.update(gameRef, updates);
+      } else {
+        const moveNumber = game.moveCount + 1;
+        transaction.update(gameRef, { ...updates, moveCount: moveNumber });
+        transaction.set(doc(gameRef, 'moves', getMoveDocId(moveNumber)), {
+          moveNumber,
+          playerId,
+          move: recordedMove,
+          timestamp: updates.lastUpdated
+        });
       }
+    });
+  } catch (error) {
+    console.error('Error making move:', error);
+    throw error;
+  }
+};
+
+// Claim a win because the opponent's clock has run out. Either player may
+// call this; the flag is checked against server time.
+export const claimChessTimeout = async (gameId: string, claimantId: string): Promise<void> => {
+  try {
+    const gameRef = doc(firestore, 'games', gameId);
+    // Whether the flag fell is only known once server time is
+    await waitForServerTime();
+    
+    // In a transaction so a move that lands at the last moment wins the race
+    await runTransaction(firestore, async (transaction) => {
+      const gameDoc = await transaction.get(gameRef);
+      const game = gameDoc.exists() ? convertGameDoc(gameDoc) : null;
       
-      // CASE 3: Player just finished, opponent has equal or more lives
-      if (playerJustFinished && !opponentFinished && opponentLives >= playerCurrentLives) {
-        updates.currentTurn = opponentId;
-        await updateDoc(gameRef, updates);
-        return; // EXIT FUNCTION
+      if (!game || game.type !== 'chess') {
+        throw new Error('Game not found');
       }
       
-      // CASE 4: Opponent already finished, player hasn't
-      if (!playerNowFinished && opponentFinished) {
-        // Player has fewer lives - opponent wins
-        if (playerCurrentLives < opponentLives) {
-          updates.status = 'completed';
-          updates.winner = opponentId;
-        } else {
-          // CRITICAL: Keep turn with player - they still have a chance
-          updates.currentTurn = playerId;
-        }
-        await updateDoc(gameRef, updates);
-        return; // EXIT FUNCTION
+      if (game.status !== 'active' || !game.players.includes(claimantId) || game.currentTurn === claimantId) {
+        throw new Error('Nothing to claim');
       }
       
-      // CASE 5: Neither finished - normal turn switch
-      if (!playerNowFinished && !opponentFinished) {
-        // Check if opponent has no lives - mark them as finished
-        if (opponentLives <= 0) {
-          updates.finishedGuessing = {
-            ...(updates.finishedGuessing || {}),
-            [opponentId]: true
-          };
-          // Keep turn with current player
-          updates.currentTurn = playerId;
-        } else {
-          // Normal alternating turns
-          updates.currentTurn = opponentId;
-        }
-        await updateDoc(gameRef, updates);
-        return; // EXIT FUNCTION
+      const now = getServerTimestamp();
+      const flaggedId = game.currentTurn;
+      if (getRemainingSeconds(game, flaggedId, now.toMillis()) > 0) {
+        throw new Error('Opponent still has time left');
       }
       
-      // Failsafe - shouldn't get here but just in case
-      await updateDoc(gameRef, updates);
-      return; // EXIT FUNCTION
+      transaction.update(gameRef, {
+        ...getTimeoutResult(game, claimantId),
+        timeRemaining: {
+          ...game.timeRemaining,
+          [flaggedId]: 0
+        },
+        drawOffer: null,
+        lastUpdated: now
+      });
+    });
+  } catch (error) {
+    console.error('Error claiming timeout:', error);
+    throw error;
+  }
+};
+
+// Export a chess game as PGN, with the players' display names in the headers
+export const exportChessGamePgn = async (game: ChessGame): Promise<string> => {
+  try {
+    const [whiteData, blackData] = await Promise.all(
+      game.players.map(playerId => getUserData(playerId))
+    );
+    
+    let result: PgnHeaders['result'] = '*';
+    if (game.status !== 'active') {
+      if (game.winner === 'draw') {
+        result = '1/2-1/2';
+      } else if (game.winner === game.players[0]) {
+        result = '1-0';
+      } else if (game.winner === game.players[1]) {
+        result = '0-1';
+      }
+    }
+    
+    let termination: string | undefined;
+    if (game.resultReason === 'timeout') {
+      termination = 'time forfeit';
+    } else if (game.status === 'abandoned') {
+      termination = 'abandoned';
+    } else if (game.status === 'completed') {
+      termination = 'normal';
     }
+    
+    return toPgn(game.moves, {
+      date: game.createdAt?.toDate(),
+      white: whiteData?.displayName || 'White',
+      black: blackData?.displayName || 'Black',
+      result,
+      termination
+    }, game.initialFen);
+  } catch (error) {
+    console.error('Error exporting PGN:', error);
+    throw error;
+  }
+};
 
-    // SPECIAL CASE FOR MEMORY GAME
-    if (game.type === 'memory') {
-      const memoryGame = game as MemoryGame;
-      const cardIndex = move as number;
+// Offer a draw in an active chess game
+export const offerChessDraw = async (gameId: string, playerId: string): Promise<void> => {
+  try {
+    const gameRef = doc(firestore, 'games', gameId);
+    
+    // In a transaction so the offer can't land on a game a move just ended
+    await runTransaction(firestore, async (transaction) => {
+      const gameDoc = await transaction.get(gameRef);
+      const game = gameDoc.exists() ? convertGameDoc(gameDoc) : null;
       
-      // Check if game is locked during card reveal
-      if (memoryGame.locked) {
-        throw new Error('Game is locked during card reveal');
+      if (!game || game.type !== 'chess') {
+        throw new Error('Game not found');
       }
       
-      // Validate move
-      if (cardIndex < 0 || cardIndex >= memoryGame.cards.length) {
-        throw new Error('Invalid card index');
+      if (game.status !== 'active' || !game.players.includes(playerId)) {
+        throw new Error('Cannot offer a draw in this game');
       }
       
-      // Ensure arrays are initialized
-      const currentFlippedCards = memoryGame.flippedCards || [];
-      const currentMatchedPairs = memoryGame.matchedPairs || [];
+      if (game.drawOffer) {
+        throw new Error('A draw offer is already pending');
+      }
       
-      // Check if the card is already flipped or matched
-      if (currentFlippedCards.includes(cardIndex) || currentMatchedPairs.includes(cardIndex)) {
-        throw new Error('Card already flipped or matched');
+      transaction.update(gameRef, {
+        drawOffer: playerId,
+        lastUpdated: getServerTimestamp()
+      });
+    });
+  } catch (error) {
+    console.error('Error offering draw:', error);
+    throw error;
+  }
+};
+
+// Accept or decline the opponent's draw offer
+export const respondToChessDraw = async (gameId: string, playerId: string, accept: boolean): Promise<void> => {
+  try {
+    const gameRef = doc(firestore, 'games', gameId);
+    
+    // In a transaction so accepting can't overwrite a result, such as a
+    // checkmate or a flag fall, committed since the offer was made
+    await runTransaction(firestore, async (transaction) => {
+      const gameDoc = await transaction.get(gameRef);
+      const game = gameDoc.exists() ? convertGameDoc(gameDoc) : null;
+      
+      if (!game || game.type !== 'chess') {
+        throw new Error('Game not found');
       }
       
-      const updates: any = {
-        lastUpdated: Timestamp.now()
-      };
+      // Only the opponent of the player who offered can answer
+      if (
+        game.status !== 'active' ||
+        !game.players.includes(playerId) ||
+        !game.drawOffer ||
+        game.drawOffer === playerId
+      ) {
+        throw new Error('No draw offer to respond to');
+      }
       
-      // Add the card to flipped cards
-      const newFlippedCards = [...currentFlippedCards, cardIndex];
-      updates.flippedCards = newFlippedCards;
-      updates.lastFlip = cardIndex;
+      const updates: Partial<Pick<ChessGame, 'drawOffer' | 'lastUpdated' | 'status' | 'winner' | 'resultReason'>> = {
+        drawOffer: null,
+        lastUpdated: getServerTimestamp()
+      };
       
-      // Check if this is the second card flipped
-      if (newFlippedCards.length === 2) {
-        const [firstCard, secondCard] = newFlippedCards;
-        
-        // Check if cards match (have the same emoji)
-        if (memoryGame.cards[firstCard] === memoryGame.cards[secondCard]) {
-          // Match found! Add both cards to matchedPairs
-          updates.matchedPairs = [...currentMatchedPairs, firstCard, secondCard];
-          // Clear flipped cards
-          updates.flippedCards = [];
-          // Increment player's score
-          updates.scores = {
-            ...(memoryGame.scores || {}),
-            [playerId]: (memoryGame.scores?.[playerId] || 0) + 1
-          };
-          
-          // Player gets another turn for finding a match
-          updates.currentTurn = playerId;
-          
-          // Check if all pairs have been found (game over)
-          if ((currentMatchedPairs.length + 2) === memoryGame.cards.length) {
-            updates.status = 'completed';
-            
-            // Determine winner based on scores
-            const players = Object.keys(memoryGame.scores || {});
-            const player1Score = memoryGame.scores?.[players[0]] || 0;
-            const player2Score = memoryGame.scores?.[players[1]] || 0;
-            
-            if (player1Score > player2Score) {
-              updates.winner = players[0];
-            } else if (player2Score > player1Score) {
-              updates.winner = players[1];
-            } else {
-              updates.winner = 'draw';
-            }
-          }
-        } else {
-          // No match - Lock the game during card reveal
-          updates.locked = true;
-          
-          // Store the next player in a temporary field to use after the delay
-          const otherPlayer = game.players.find(p => p !== playerId);
-          if (otherPlayer) {
-            updates.nextTurn = otherPlayer;
-          }
-          
-          // Update the document with both cards flipped and game locked
-          await updateDoc(gameRef, updates);
-          
-          // Use a timeout to flip the cards back and switch turns
-          setTimeout(async () => {
-            try {
-              console.log('Memory game: Flipping cards back and switching turns');
-              // Then update again to clear the flipped cards, unlock the game, and switch turns
-              await updateDoc(gameRef, {
-                flippedCards: [], // Important: Clear flipped cards to flip them back
-                locked: false,
-                currentTurn: updates.nextTurn || otherPlayer,
-                nextTurn: null,
-                lastUpdated: Timestamp.now()
-              });
-            } catch (error) {
-              console.error('Error updating game after delay:', error);
-              // Failsafe
-              await updateDoc(gameRef, { 
-                flippedCards: [], 
-                locked: false,
-                currentTurn: updates.nextTurn || otherPlayer
-              });
-            }
-          }, 3000);
-          
-          return;
-        }
+      if (accept) {
+        updates.status = 'completed';
+        updates.winner = 'draw';
+        updates.resultReason = 'agreement';
       }
       
-      await updateDoc(gameRef, updates);
-      return;
-    }
-
-    let updates: any = {
-      lastUpdated: Timestamp.now()
-    };
-
-    switch (game.type) {
-      case 'tictactoe':
-        // Check if the position is valid and empty
-        if (move < 0 || move >= 9 || game.board[move] !== null) {
-          throw new Error('Invalid move');
-        }
-        
-        // Update the board
-        const newBoard = [...game.board];
-        newBoard[move] = playerId;
-        updates.board = newBoard;
-        updates.currentTurn = game.players.find(p => p !== playerId);
-        
-        // Check for winner
-        const winner = checkWinner(newBoard, game.players);
-        if (winner) {
-          updates.status = 'completed';
-          updates.winner = winner;
-        }
-        break;
-
-      case 'rps':
-        // Update player's choice without turn restriction
-        updates.choices = {
-          ...game.choices,
-          [playerId]: move
-        };
-
-        // Check if both players have made their choices
-        const bothChose = game.players.every(p => updates.choices[p] !== null);
-        if (bothChose) {
-          const winner = determineRPSWinner(updates.choices, game.players);
-          updates.status = 'completed';
-          updates.winner = winner;
-        }
-        break;
-
-      case 'wordle':
-        if (typeof move !== 'string' || move.length !== 5) {
-          throw new Error('Invalid move: guess must be a 5-letter word');
-        }
-
-        const playerGuesses = game.playerGuesses[playerId] || { guesses: [], results: [] };
-        if (playerGuesses.guesses.length >= game.maxGuesses) {
-          throw new Error('No more guesses allowed');
-        }
-
-        const result = evaluateWordleGuess(move.toUpperCase(), game.word);
-        
-        updates.playerGuesses = {
-          ...game.playerGuesses,
-          [playerId]: {
-            guesses: [...playerGuesses.guesses, move.toUpperCase()],
-            results: [...playerGuesses.results, result]
-          }
-        };
-
-        // Update finish time if this was the player's last guess or they found the word
-        if (playerGuesses.guesses.length === game.maxGuesses - 1 || move.toUpperCase() === game.word) {
-          updates.finishTimes = {
-            ...game.finishTimes,
-            [playerId]: Timestamp.now()
-          };
-        }
-
-        // Check for winner
-        const wordleWinner = determineWordleWinner(game as WordleGame);
-
-        if (wordleWinner) {
-          updates.status = 'completed';
-          updates.winner = wordleWinner;
-        }
-        break;
-
-      case 'chess': {
-        // Make sure it's the player's turn
-        if (game.currentTurn !== playerId) {
-          throw new Error("Not your turn");
-        }
-        
-        // Validate move structure
-        if (!move || !move.from || !move.to) {
-          throw new Error("Invalid move format");
-        }
-        
-        // Calculate time used since last move
-        const now = Timestamp.now();
-        const lastMoveTime = game.lastMoveTime;
-        const timeElapsed = (now.seconds - lastMoveTime.seconds);
-        
-        // Update time remaining
-        const updatedTimeRemaining = { ...game.timeRemaining };
-        updatedTimeRemaining[playerId] = Math.max(0, updatedTimeRemaining[playerId] - timeElapsed);
-        
-        // If player ran out of time, they lost
-        if (updatedTimeRemaining[playerId] <= 0) {
-          // Get opponent ID
-          const opponentId = game.players.find(p => p !== playerId)!;
-          
-          const gameUpdate = {
-            status: 'completed',
-            winner: opponentId,
-            timeRemaining: updatedTimeRemaining,
-            lastUpdated: now
-          };
-          
-          await updateDoc(gameRef, gameUpdate);
-          return;
-        }
-        
-        // Check if the move is valid
-        const { from, to, capture, notation, castling } = move;
-        const [fromRow, fromCol] = from;
-        const [toRow, toCol] = to;
-        
-        // Get positions
-        const fromPos = `${fromRow},${fromCol}`;
-        const toPos = `${toRow},${toCol}`;
-        
-        // Clone the board
-        const newBoard = { ...game.board };
-        
-        // Move the piece
-        const piece = newBoard[fromPos];
-        delete newBoard[fromPos];
-        newBoard[toPos] = piece;
-        
-        // Handle castling (moving the rook as well)
-        if (castling) {
-          const { rookFrom, rookTo } = castling;
-          const [rookFromRow, rookFromCol] = rookFrom;
-          const [rookToRow, rookToCol] = rookTo;
-          
-          const rookFromPos = `${rookFromRow},${rookFromCol}`;
-          const rookToPos = `${rookToRow},${rookToCol}`;
-          
-          // Move the rook
-          const rookPiece = newBoard[rookFromPos];
-          delete newBoard[rookFromPos];
-          newBoard[rookToPos] = rookPiece;
-        }
-        
-        // Handle captures
-        const captures = { ...game.captures };
-        if (capture) {
-          captures[playerId] = [...captures[playerId], capture];
-        }
-        
-        // Add the move to history
-        const moves = [...game.moves, notation];
-        
-        // Get the next player's turn
-        const nextPlayerId = game.players.find(p => p !== playerId)!;
-        
-        // Check for game over conditions (checkmate, stalemate)
-        let status = 'active';
-        let winner = null; // Use null instead of undefined
-        
-        if (move.checkmate) {
-          status = 'completed';
-          winner = playerId;
-        } else if (move.stalemate || move.draw) {
-          status = 'completed';
-          winner = 'draw'; // Set to 'draw' for stalemate/draw
-        }
-        
-        // Create update object without undefined values
-        const gameUpdate: any = {
-          board: newBoard,
-          captures,
-          moves,
-          timeRemaining: updatedTimeRemaining,
-          lastMoveTime: now,
-          currentTurn: nextPlayerId,
-          status,
-          lastUpdated: now
-        };
-        
-        // Only include winner if it's not null
-        if (winner !== null) {
-          gameUpdate.winner = winner;
-        }
-        
-        await updateDoc(gameRef, gameUpdate);
-        break;
-      }
-    }
-    
-    // Update the game (only for non-hangman and non-memory games)
-    await updateDoc(gameRef, updates);
+      transaction.update(gameRef, updates);
+    });
   } catch (error) {
-    console.error('Error making move:', error);
+    console.error('Error responding to draw offer:', error);
     throw error;
   }
 };
 
-// Helper function to determine RPS winner
-const determineRPSWinner = (choices: { [key: string]: 'poop' | 'toilet_paper' | 'plunger' | null }, players: string[]): string | null => {
-  const [player1, player2] = players;
-  const choice1 = choices[player1];
-  const choice2 = choices[player2];
+// Move documents are keyed by zero-padded move number so they sort in order
+const getMoveDocId = (moveNumber: number): string => String(moveNumber).padStart(5, '0');
 
-  if (!choice1 || !choice2) {
-    return null;
-  }
-
-  if (choice1 === choice2) {
-    return 'draw';
-  }
-
-  if (
-    (choice1 === 'poop' && choice2 === 'toilet_paper') ||
-    (choice1 === 'toilet_paper' && choice2 === 'plunger') ||
-    (choice1 === 'plunger' && choice2 === 'poop')
-  ) {
-    return player1;
+// Get the recorded move history of a game, oldest first
+export const getGameMoves = async (gameId: string): Promise<GameMoveRecord[]> => {
+  try {
+    const movesQuery = query(
+      collection(firestore, 'games', gameId, 'moves'),
+      orderBy('moveNumber', 'asc')
+    );
+    const snapshot = await getDocs(movesQuery);
+    
+    return snapshot.docs.map(moveDoc => {
+      const data = moveDoc.data();
+      return {
+        moveNumber: data.moveNumber,
+        playerId: data.playerId,
+        move: data.move,
+        timestamp: data.timestamp
+      };
+    });
+  } catch (error) {
+    console.error('Error getting game moves:', error);
+    throw error;
   }
-
-  return player2;
 };
 
 // Subscribe to game updates
@@ -847,36 +526,36 @@ export const subscribeToGame = (
   return unsubscribe;
 };
 
-// Helper function to check for winner
-const checkWinner = (board: (string | null)[], players: string[]): string | null => {
-  const lines = [
-    [0, 1, 2], [3, 4, 5], [6, 7, 8], // rows
-    [0, 3, 6], [1, 4, 7], [2, 5, 8], // columns
-    [0, 4, 8], [2, 4, 6] // diagonals
-  ];
-  
-  for (const line of lines) {
-    const [a, b, c] = line;
-    if (board[a] && board[a] === board[b] && board[a] === board[c]) {
-      return board[a];
-    }
-  }
-  
-  // Check for draw
-  if (!board.includes(null)) {
-    return 'draw';
-  }
-  
-  return null;
-};
-
-// Abandon a game
-export const abandonGame = async (gameId: string): Promise<void> => {
+// Updates that end a game as a forfeit. The other player wins unless nobody
+// can be blamed.
+const getForfeitUpdates = (game: Game, forfeitedBy: string | null, reason: ForfeitReason) => ({
+  status: 'abandoned',
+  resultReason: reason,
+  lastUpdated: getServerTimestamp(),
+  ...(forfeitedBy ? {
+    forfeitedBy,
+    winner: game.players.find(p => p !== forfeitedBy) || 'draw'
+  } : {})
+});
+
+// Abandon a game; the player quitting forfeits
+export const abandonGame = async (gameId: string, playerId: string): Promise<void> => {
   try {
     const gameRef = doc(firestore, 'games', gameId);
-    await updateDoc(gameRef, {
-      status: 'abandoned',
-      lastUpdated: Timestamp.now()
+    
+    await runTransaction(firestore, async (transaction) => {
+      const gameDoc = await transaction.get(gameRef);
+      if (!gameDoc.exists()) {
+        throw new Error('Game not found');
+      }
+      
+      // Quitting a finished game leaves its result alone
+      const game = convertGameDoc(gameDoc);
+      if (game.status !== 'active') {
+        return;
+      }
+      
+      transaction.update(gameRef, getForfeitUpdates(game, playerId, 'quit'));
     });
   } catch (error) {
     console.error('Error abandoning game:', error);
@@ -884,67 +563,122 @@ export const abandonGame = async (gameId: string): Promise<void> => {
   }
 };
 
-// Helper for evaluating Wordle guesses
-const evaluateWordleGuess = (guess: string, targetWord: string): { greens: number[], yellows: number[] } => {
-  const result = { greens: [] as number[], yellows: [] as number[] };
-  const targetChars = targetWord.split('');
-  
-  // First pass: find direct matches (greens)
-  for (let i = 0; i < guess.length; i++) {
-    if (guess[i] === targetChars[i]) {
-      result.greens.push(i);
-      targetChars[i] = '#'; // Mark as used
-    }
-  }
-  
-  // Second pass: find partial matches (yellows)
-  for (let i = 0; i < guess.length; i++) {
-    if (!result.greens.includes(i)) {
-      const targetIndex = targetChars.indexOf(guess[i]);
-      if (targetIndex !== -1) {
-        result.yellows.push(i);
-        targetChars[targetIndex] = '#'; // Mark as used
-      }
-    }
+// A player's online status from the Realtime Database, or null if unknown
+const getPlayerPresence = async (playerId: string): Promise<PlayerPresence | null> => {
+  const snapshot = await get(ref(database, `status/${playerId}`));
+  if (!snapshot.exists()) {
+    return null;
   }
   
-  return result;
+  const status = snapshot.val();
+  return {
+    isOnline: status.isOnline === true,
+    lastChanged: status.lastChanged ?? status.lastActive ?? 0
+  };
 };
 
-// Helper function to determine Wordle winner
-const determineWordleWinner = (game: WordleGame): string | null => {
-  const [player1, player2] = game.players;
-  const p1Guesses = game.playerGuesses[player1];
-  const p2Guesses = game.playerGuesses[player2];
-
-  // Check if either player has guessed the word correctly
-  const p1LastGuess = p1Guesses.guesses[p1Guesses.guesses.length - 1];
-  const p2LastGuess = p2Guesses.guesses[p2Guesses.guesses.length - 1];
-
-  if (p1LastGuess === game.word) return player1;
-  if (p2LastGuess === game.word) return player2;
-
-  // If both players have used all guesses
-  if (p1Guesses.guesses.length === game.maxGuesses && p2Guesses.guesses.length === game.maxGuesses) {
-    const p1Greens = p1Guesses.results[p1Guesses.results.length - 1].greens.length;
-    const p2Greens = p2Guesses.results[p2Guesses.results.length - 1].greens.length;
-
-    if (p1Greens !== p2Greens) {
-      return p1Greens > p2Greens ? player1 : player2;
+// Apply the game type's inactivity rule: forfeit the player who stopped moving
+// or went offline. Any player's client may run this. Returns true when the game
+// was ended.
+export const checkGameInactivity = async (gameId: string): Promise<boolean> => {
+  try {
+    const game = await getGame(gameId);
+    if (!game || game.status !== 'active') {
+      return false;
+    }
+    
+    await waitForServerTime();
+    const presences = await Promise.all(game.players.map(getPlayerPresence));
+    const presence = game.players.reduce(
+      (acc, playerId, index) => ({ ...acc, [playerId]: presences[index] }),
+      {} as { [playerId: string]: PlayerPresence | null }
+    );
+    
+    const forfeit = getInactivityForfeit(game, getGameRules(game.type), presence, getServerNow());
+    if (!forfeit) {
+      return false;
     }
+    
+    // Only end the game if nothing happened since it was checked
+    const gameRef = doc(firestore, 'games', gameId);
+    return await runTransaction(firestore, async (transaction) => {
+      const gameDoc = await transaction.get(gameRef);
+      if (!gameDoc.exists()) {
+        return false;
+      }
+      
+      const latestGame = convertGameDoc(gameDoc);
+      if (latestGame.status !== 'active' || latestGame.lastUpdated.toMillis() !== game.lastUpdated.toMillis()) {
+        return false;
+      }
+      
+      transaction.update(gameRef, getForfeitUpdates(latestGame, forfeit.forfeitedBy, forfeit.reason));
+      return true;
+    });
+  } catch (error) {
+    console.error('Error checking game inactivity:', error);
+    throw error;
+  }
+};
 
-    const p1Yellows = p1Guesses.results[p1Guesses.results.length - 1].yellows.length;
-    const p2Yellows = p2Guesses.results[p2Guesses.results.length - 1].yellows.length;
+// Subscribe to a player's games that are still being played
+export const subscribeToActiveGames = (
+  playerId: string,
+  onGamesUpdate: (games: Game[]) => void
+): () => void => {
+  const q = query(
+    gamesCollection,
+    where('players', 'array-contains', playerId),
+    where('status', '==', 'active')
+  );
+  
+  return onSnapshot(q, (snapshot) => {
+    const games = snapshot.docs
+      .map(convertGameDoc)
+      .sort((a, b) => b.lastUpdated.toMillis() - a.lastUpdated.toMillis());
+    onGamesUpdate(games);
+  }, (error) => {
+    console.error('Error subscribing to active games:', error);
+  });
+};
 
-    if (p1Yellows !== p2Yellows) {
-      return p1Yellows > p2Yellows ? player1 : player2;
-    }
+// Finished games between two players, from the first player's side
+export interface HeadToHeadRecord {
+  wins: number;
+  losses: number;
+  draws: number;
+  total: number;
+}
 
-    // If still tied, compare finish times
-    if (game.finishTimes[player1] && game.finishTimes[player2]) {
-      return game.finishTimes[player1]!.seconds < game.finishTimes[player2]!.seconds ? player1 : player2;
-    }
+export const getHeadToHeadRecord = async (
+  playerId: string,
+  opponentId: string
+): Promise<HeadToHeadRecord> => {
+  try {
+    const q = query(
+      gamesCollection,
+      where('players', 'array-contains', playerId),
+      where('status', 'in', ['completed', 'abandoned'])
+    );
+    
+    const querySnapshot = await getDocs(q);
+    
+    return querySnapshot.docs
+      .map(convertGameDoc)
+      .filter(game => game.players.includes(opponentId))
+      .reduce((record, game) => {
+        if (game.winner === playerId) {
+          record.wins++;
+        } else if (game.winner === opponentId) {
+          record.losses++;
+        } else {
+          record.draws++;
+        }
+        record.total++;
+        return record;
+      }, { wins: 0, losses: 0, draws: 0, total: 0 } as HeadToHeadRecord);
+  } catch (error) {
+    console.error('Error getting head-to-head record:', error);
+    throw error;
   }
-
-  return null;
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,99 @@
+import {
+  collection,
+  doc,
+  query,
+  orderBy,
+  limit as firestoreLimit,
+  onSnapshot,
+  writeBatch,
+  Timestamp,
+  DocumentData,
+  QueryDocumentSnapshot
+} from 'firebase/firestore';
+import { firestore } from '../../firebase/config';
+
+// Types
+export type NotificationType = 'mention';
+
+export interface Notification {
+  id?: string;
+  type: NotificationType;
+  actorId: string; // Who caused the notification
+  actorName: string;
+  actorPhotoURL: string | null;
+  shweetId: string;
+  preview: string; // Start of the shweet
+  timestamp: Timestamp;
+  read: boolean;
+}
+
+const PREVIEW_LENGTH = 100;
+const NOTIFICATIONS_LIMIT = 50;
+
+// Each user's notifications live at users/{uid}/notifications
+export const getNotificationsCollection = (userId: string) =>
+  collection(firestore, 'users', userId, 'notifications');
+
+const convertNotificationDoc = (doc: QueryDocumentSnapshot<DocumentData>): Notification => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    type: data.type,
+    actorId: data.actorId,
+    actorName: data.actorName || 'Someone',
+    actorPhotoURL: data.actorPhotoURL || null,
+    shweetId: data.shweetId,
+    preview: data.preview || '',
+    timestamp: data.timestamp,
+    read: data.read === true,
+  };
+};
+
+// A mention notification, ready to be written in the same batch as the shweet
+export const createMentionNotification = (
+  actor: { uid: string; displayName: string; photoURL: string | null },
+  shweetId: string,
+  content: string
+): Notification => ({
+  type: 'mention',
+  actorId: actor.uid,
+  actorName: actor.displayName,
+  actorPhotoURL: actor.photoURL,
+  shweetId,
+  preview: content.slice(0, PREVIEW_LENGTH),
+  timestamp: Timestamp.now(),
+  read: false,
+});
+
+// Subscribe to a user's most recent notifications, newest first
+export const subscribeToNotifications = (
+  userId: string,
+  onNotificationsUpdate: (notifications: Notification[]) => void
+): () => void => {
+  const q = query(
+    getNotificationsCollection(userId),
+    orderBy('timestamp', 'desc'),
+    firestoreLimit(NOTIFICATIONS_LIMIT)
+  );
+
+  return onSnapshot(q, (snapshot) => {
+    onNotificationsUpdate(snapshot.docs.map(convertNotificationDoc));
+  }, (error) => {
+    console.error('Error subscribing to notifications:', error);
+  });
+};
+
+export const markNotificationsRead = async (userId: string, notificationIds: string[]): Promise<void> => {
+  if (!notificationIds.length) return;
+
+  try {
+    const batch = writeBatch(firestore);
+    notificationIds.forEach(notificationId => {
+      batch.update(doc(getNotificationsCollection(userId), notificationId), { read: true });
+    });
+    await batch.commit();
+  } catch (error) {
+    console.error('Error marking notifications read:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,303 @@
+import {
+  collection,
+  collectionGroup,
+  doc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit as firestoreLimit,
+  startAfter,
+  documentId,
+  increment,
+  deleteField,
+  runTransaction,
+  onSnapshot,
+  Timestamp,
+  DocumentData,
+  DocumentSnapshot,
+  QueryDocumentSnapshot,
+  QuerySnapshot,
+  Transaction
+} from 'firebase/firestore';
+import { firestore } from '../../firebase/config';
+
+// Types
+export type ReactionType = 'poop' | 'toiletPaper' | 'plunger' | 'laugh';
+
+export const REACTIONS: { type: ReactionType; emoji: string; label: string }[] = [
+  { type: 'poop', emoji: '💩', label: 'Poop' },
+  { type: 'toiletPaper', emoji: '🧻', label: 'Toilet paper' },
+  { type: 'plunger', emoji: '🪠', label: 'Plunger' },
+  { type: 'laugh', emoji: '😂', label: 'Laugh' },
+];
+
+// What a quick tap reacts with; a long press picks another
+export const DEFAULT_REACTION: ReactionType = 'poop';
+
+export const getReactionEmoji = (type: ReactionType): string =>
+  REACTIONS.find(reaction => reaction.type === type)?.emoji || '💩';
+
+export type ReactionCounts = Partial<Record<ReactionType, number>>;
+
+// One user's reaction to a shweet, stored at tweets/{shweetId}/reactions/{userId}.
+// The IDs are repeated as fields so a user's reactions can be found across shweets.
+export interface Reaction {
+  userId: string;
+  shweetId: string;
+  type: ReactionType;
+  timestamp: Timestamp;
+}
+
+export interface ReactionPage {
+  reactions: Reaction[];
+  cursor: QueryDocumentSnapshot<DocumentData> | null; // null once there are no more
+}
+
+export const REACTIONS_PAGE_SIZE = 20;
+// Firestore allows at most 30 values in an 'in' filter
+const REACTION_CHUNK_SIZE = 30;
+
+// Shweets live in the 'tweets' collection
+const getShweetRef = (shweetId: string) => doc(firestore, 'tweets', shweetId);
+export const getReactionsCollection = (shweetId: string) =>
+  collection(firestore, 'tweets', shweetId, 'reactions');
+const getReactionRef = (shweetId: string, userId: string) =>
+  doc(getReactionsCollection(shweetId), userId);
+
+const convertReactionDoc = (doc: DocumentSnapshot<DocumentData>): Reaction => {
+  const data = doc.data() || {};
+  return {
+    userId: doc.id,
+    shweetId: data.shweetId,
+    type: data.type,
+    timestamp: data.timestamp,
+  };
+};
+
+// The counters on a shweet document. Shweets from before reactions keep their
+// likers in a 'likes' array, each counted as the default reaction until the
+// shweet is migrated.
+export const readReactionCounts = (data: DocumentData): { reactionCount: number; reactionCounts: ReactionCounts } => {
+  if (Array.isArray(data.likes)) {
+    return {
+      reactionCount: data.likes.length,
+      reactionCounts: data.likes.length ? { [DEFAULT_REACTION]: data.likes.length } : {},
+    };
+  }
+
+  return {
+    reactionCount: data.reactionCount || 0,
+    reactionCounts: data.reactionCounts || {},
+  };
+};
+
+// Turn a shweet's legacy 'likes' array into reaction documents and counters,
+// inside the caller's transaction. Does nothing for migrated shweets.
+const migrateLegacyLikes = (transaction: Transaction, shweetDoc: DocumentSnapshot<DocumentData>): void => {
+  const data = shweetDoc.data();
+  if (!data || !Array.isArray(data.likes)) return;
+
+  const likes: string[] = Array.from(new Set(data.likes));
+  const timestamp = data.timestamp || Timestamp.now();
+  likes.forEach(userId => {
+    transaction.set(getReactionRef(shweetDoc.id, userId), {
+      userId,
+      shweetId: shweetDoc.id,
+      type: DEFAULT_REACTION,
+      timestamp,
+      ...(data.deleted ? { deleted: true } : {}),
+    });
+  });
+
+  transaction.update(shweetDoc.ref, {
+    likes: deleteField(),
+    reactionCount: likes.length,
+    reactionCounts: likes.length ? { [DEFAULT_REACTION]: likes.length } : {},
+  });
+};
+
+export const migrateShweetLikes = async (shweetId: string): Promise<void> => {
+  try {
+    await runTransaction(firestore, async (transaction) => {
+      const shweetDoc = await transaction.get(getShweetRef(shweetId));
+      migrateLegacyLikes(transaction, shweetDoc);
+    });
+  } catch (error) {
+    console.error('Error migrating shweet likes:', error);
+    throw error;
+  }
+};
+
+// Migrate every shweet still holding a 'likes' array, a page at a time.
+// Safe to run again; resolves with the number of shweets migrated.
+export const migrateAllShweetLikes = async (pageSize = 100): Promise<number> => {
+  try {
+    let migrated = 0;
+    let cursor: QueryDocumentSnapshot<DocumentData> | null = null;
+
+    do {
+      const page: QuerySnapshot<DocumentData> = await getDocs(query(
+        collection(firestore, 'tweets'),
+        orderBy(documentId()),
+        ...(cursor ? [startAfter(cursor)] : []),
+        firestoreLimit(pageSize)
+      ));
+
+      const legacyDocs = page.docs.filter(shweetDoc => Array.isArray(shweetDoc.data().likes));
+      for (const shweetDoc of legacyDocs) {
+        await migrateShweetLikes(shweetDoc.id);
+      }
+      migrated += legacyDocs.length;
+
+      cursor = page.docs.length === pageSize ? page.docs[page.docs.length - 1] : null;
+    } while (cursor);
+
+    return migrated;
+  } catch (error) {
+    console.error('Error migrating likes:', error);
+    throw error;
+  }
+};
+
+// The user's reaction before a change. On a shweet that hasn't been migrated
+// their like is in the 'likes' array, and the migration in the same
+// transaction turns it into a reaction document.
+const getPreviousReaction = async (
+  transaction: Transaction,
+  shweetDoc: DocumentSnapshot<DocumentData>,
+  userId: string
+): Promise<ReactionType | null> => {
+  const legacyLikes = shweetDoc.data()?.likes;
+  if (Array.isArray(legacyLikes)) {
+    return legacyLikes.includes(userId) ? DEFAULT_REACTION : null;
+  }
+
+  const reactionDoc = await transaction.get(getReactionRef(shweetDoc.id, userId));
+  return reactionDoc.exists() ? reactionDoc.data().type : null;
+};
+
+// Set or change the user's reaction. The reaction document and the counters
+// change together, and counters only move by increments so concurrent
+// reactions are all counted.
+export const reactToShweet = async (shweetId: string, userId: string, type: ReactionType): Promise<void> => {
+  try {
+    const shweetRef = getShweetRef(shweetId);
+    const reactionRef = getReactionRef(shweetId, userId);
+
+    await runTransaction(firestore, async (transaction) => {
+      const shweetDoc = await transaction.get(shweetRef);
+      if (!shweetDoc.exists() || shweetDoc.data().deleted) {
+        throw new Error('This shweet has been deleted');
+      }
+
+      const previous = await getPreviousReaction(transaction, shweetDoc, userId);
+      if (previous === type) return;
+
+      migrateLegacyLikes(transaction, shweetDoc);
+      transaction.set(reactionRef, { userId, shweetId, type, timestamp: Timestamp.now() });
+      transaction.update(shweetRef, {
+        ...(previous ? { [`reactionCounts.${previous}`]: increment(-1) } : { reactionCount: increment(1) }),
+        [`reactionCounts.${type}`]: increment(1),
+      });
+    });
+  } catch (error) {
+    console.error('Error reacting to shweet:', error);
+    throw error;
+  }
+};
+
+export const removeReaction = async (shweetId: string, userId: string): Promise<void> => {
+  try {
+    const shweetRef = getShweetRef(shweetId);
+    const reactionRef = getReactionRef(shweetId, userId);
+
+    await runTransaction(firestore, async (transaction) => {
+      const shweetDoc = await transaction.get(shweetRef);
+      if (!shweetDoc.exists()) return;
+
+      const previous = await getPreviousReaction(transaction, shweetDoc, userId);
+      if (!previous) return;
+
+      migrateLegacyLikes(transaction, shweetDoc);
+      transaction.delete(reactionRef);
+      transaction.update(shweetRef, {
+        reactionCount: increment(-1),
+        [`reactionCounts.${previous}`]: increment(-1),
+      });
+    });
+  } catch (error) {
+    console.error('Error removing reaction:', error);
+    throw error;
+  }
+};
+
+// The user's reactions to the given shweets, by shweet ID. Likes on shweets
+// that haven't been migrated yet aren't included.
+export const getUserReactions = async (userId: string, shweetIds: string[]): Promise<Map<string, ReactionType>> => {
+  try {
+    const chunks: string[][] = [];
+    for (let i = 0; i < shweetIds.length; i += REACTION_CHUNK_SIZE) {
+      chunks.push(shweetIds.slice(i, i + REACTION_CHUNK_SIZE));
+    }
+
+    const snapshots = await Promise.all(chunks.map(chunk =>
+      getDocs(query(
+        collectionGroup(firestore, 'reactions'),
+        where('userId', '==', userId),
+        where('shweetId', 'in', chunk)
+      ))
+    ));
+
+    const reactions = new Map<string, ReactionType>();
+    snapshots.forEach(snapshot => snapshot.docs.forEach(reactionDoc => {
+      if (!reactionDoc.data().deleted) {
+        reactions.set(reactionDoc.data().shweetId, reactionDoc.data().type);
+      }
+    }));
+    return reactions;
+  } catch (error) {
+    console.error('Error getting user reactions:', error);
+    throw error;
+  }
+};
+
+// Follow the user's reaction to one shweet; null when they haven't reacted
+export const subscribeToUserReaction = (
+  shweetId: string,
+  userId: string,
+  onReactionUpdate: (reaction: ReactionType | null) => void
+): () => void => {
+  return onSnapshot(getReactionRef(shweetId, userId), (reactionDoc) => {
+    onReactionUpdate(reactionDoc.exists() && !reactionDoc.data().deleted ? reactionDoc.data().type : null);
+  }, (error) => {
+    console.error('Error subscribing to reaction:', error);
+  });
+};
+
+// One page of who reacted to a shweet, newest first, optionally of one type
+export const getReactionsPage = async (
+  shweetId: string,
+  type: ReactionType | null = null,
+  cursor: QueryDocumentSnapshot<DocumentData> | null = null,
+  pageSize = REACTIONS_PAGE_SIZE
+): Promise<ReactionPage> => {
+  try {
+    const q = query(
+      getReactionsCollection(shweetId),
+      ...(type ? [where('type', '==', type)] : []),
+      orderBy('timestamp', 'desc'),
+      ...(cursor ? [startAfter(cursor)] : []),
+      firestoreLimit(pageSize)
+    );
+    const querySnapshot = await getDocs(q);
+
+    return {
+      reactions: querySnapshot.docs.map(convertReactionDoc),
+      cursor: querySnapshot.docs.length === pageSize ? querySnapshot.docs[querySnapshot.docs.length - 1] : null,
+    };
+  } catch (error) {
+    console.error('Error getting reactions page:', error);
+    throw error;
+  }
+};
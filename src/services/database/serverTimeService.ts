@@ -0,0 +1,53 @@
+import { ref, onValue } from 'firebase/database';
+import { Timestamp } from 'firebase/firestore';
+import { database } from '../../firebase/config';
+
+// Offset between this device's clock and the Firebase server clock, in ms.
+// Game clocks are computed against server time so a phone with a wrong clock
+// can't gain or lose time.
+let serverTimeOffset = 0;
+let unsubscribeOffset: (() => void) | null = null;
+
+// Resolves once the first offset has arrived; until then server time is only
+// the device's clock
+let serverTimeSynced = false;
+let markServerTimeSynced: () => void = () => undefined;
+const serverTimeReady = new Promise<void>((resolve) => {
+  markServerTimeSynced = resolve;
+});
+
+// Start listening to the Realtime Database clock offset (idempotent). Called
+// when the app starts, so the offset is in by the time anything needs it.
+export const startServerTimeSync = (): void => {
+  if (unsubscribeOffset) return;
+
+  const offsetRef = ref(database, '.info/serverTimeOffset');
+  unsubscribeOffset = onValue(offsetRef, (snapshot) => {
+    if (!snapshot.exists()) return;
+
+    serverTimeOffset = snapshot.val() || 0;
+    serverTimeSynced = true;
+    markServerTimeSynced();
+  }, (error) => {
+    console.error('Error syncing server time offset:', error);
+  });
+};
+
+// Whether the offset has arrived, so getServerNow can be relied on
+export const isServerTimeSynced = (): boolean => serverTimeSynced;
+
+// Wait for the offset before anything that has to be decided on server time,
+// such as whether a clock has run out
+export const waitForServerTime = (): Promise<void> => {
+  startServerTimeSync();
+  return serverTimeReady;
+};
+
+// Current server time in milliseconds
+export const getServerNow = (): number => {
+  startServerTimeSync();
+  return Date.now() + serverTimeOffset;
+};
+
+// Current server time as a Firestore Timestamp
+export const getServerTimestamp = (): Timestamp => Timestamp.fromMillis(getServerNow());
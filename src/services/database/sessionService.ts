@@ -0,0 +1,452 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  updateDoc,
+  getDoc,
+  increment,
+  limit as firestoreLimit,
+  runTransaction,
+  DocumentData,
+  DocumentSnapshot
+} from 'firebase/firestore';
+import { firestore } from '../../firebase/config';
+import { TIME } from '../../constants/app';
+
+// Types
+// What ended a session: the user, the app noticing it was closed mid-session,
+// the session running past the maximum length, signing out, or the user
+// logging it by hand
+export type SessionEndSource = 'user' | 'appClosed' | 'timedOut' | 'logout' | 'manual';
+
+// One finished session, stored at users/{uid}/sessions/{startTime}. Times are
+// epoch ms, like lastShitStartTime on the user.
+export interface ShitSession {
+  id?: string;
+  startTime: number;
+  endTime: number;
+  duration: number;
+  counted: boolean; // Whether it was long enough to count towards the stats
+  endedBy: SessionEndSource;
+  autoClosed: boolean; // Ended by the app, at the last time it was known to be running
+  needsReview: boolean; // Auto-closed and the user hasn't confirmed the end time yet
+}
+
+// The stats kept on the user document, derived from the session log
+export interface SessionAggregates {
+  totalShits: number;
+  totalShitDuration: number;
+  averageShitDuration: number;
+}
+
+// Totals from before sessions were logged, which the log can't reproduce.
+// Stored on the user document as legacySessionTotals.
+interface LegacySessionTotals {
+  totalShits: number;
+  totalShitDuration: number;
+}
+
+// Only count shits that are at least 2 minutes long
+export const MIN_SHIT_DURATION = 2 * 60 * 1000;
+
+export const getSessionsCollection = (userId: string) =>
+  collection(firestore, 'users', userId, 'sessions');
+
+// Sessions are keyed by their start time, so recording the same session twice
+// (e.g. from two status paths) leaves a single entry. Every write to the log
+// also bumps sessionLogVersion on the user document, which is what
+// transactions over the log read to notice it changed.
+const getSessionRef = (userId: string, startTime: number) =>
+  doc(getSessionsCollection(userId), String(startTime));
+
+export const isCountedSession = (duration: number): boolean => duration >= MIN_SHIT_DURATION;
+
+// Whether a session the user document says is running has been left behind:
+// its app stopped publishing heartbeats, or it's past the maximum length.
+// Readers treat it as over; the user's app closes it on the next launch.
+export const isStaleSession = (
+  startTime: number,
+  lastAliveAt: number | null | undefined,
+  now: number = Date.now()
+): boolean =>
+  now - startTime > TIME.MAX_SESSION_DURATION ||
+  (!!lastAliveAt && now - lastAliveAt > TIME.SESSION_HEARTBEAT_TIMEOUT);
+
+// Ends the user didn't choose, so the end time is the app's best guess
+export const isAutoClosedEnd = (endedBy: SessionEndSource): boolean =>
+  endedBy === 'appClosed' || endedBy === 'timedOut';
+
+const convertSessionDoc = (doc: DocumentSnapshot<DocumentData>): ShitSession => {
+  const data = doc.data() || {};
+  return {
+    id: doc.id,
+    startTime: data.startTime,
+    endTime: data.endTime,
+    duration: data.duration,
+    counted: data.counted,
+    endedBy: data.endedBy,
+    autoClosed: data.autoClosed === true,
+    needsReview: data.needsReview === true,
+  };
+};
+
+const toAggregates = (totalShits: number, totalShitDuration: number): SessionAggregates => ({
+  totalShits,
+  totalShitDuration,
+  averageShitDuration: totalShits > 0 ? totalShitDuration / totalShits : 0,
+});
+
+// The stats for a set of sessions, on top of any legacy totals
+export const computeSessionAggregates = (
+  sessions: Pick<ShitSession, 'duration' | 'counted'>[],
+  legacy: LegacySessionTotals = { totalShits: 0, totalShitDuration: 0 }
+): SessionAggregates => {
+  const counted = sessions.filter(session => session.counted);
+  return toAggregates(
+    legacy.totalShits + counted.length,
+    legacy.totalShitDuration + counted.reduce((sum, session) => sum + session.duration, 0)
+  );
+};
+
+// Log a finished session and fold it into the user's stats. Recording a
+// session that's already logged changes nothing.
+export const recordSession = async (
+  userId: string,
+  startTime: number,
+  endTime: number,
+  endedBy: SessionEndSource
+): Promise<ShitSession> => {
+  try {
+    const duration = Math.max(endTime - startTime, 0);
+    const autoClosed = isAutoClosedEnd(endedBy);
+    const session: ShitSession = {
+      startTime,
+      endTime,
+      duration,
+      counted: isCountedSession(duration),
+      endedBy,
+      autoClosed,
+      needsReview: autoClosed,
+    };
+    const userRef = doc(firestore, 'users', userId);
+    const sessionRef = getSessionRef(userId, startTime);
+
+    return await runTransaction(firestore, async (transaction) => {
+      const userDoc = await transaction.get(userRef);
+      const sessionDoc = await transaction.get(sessionRef);
+      if (sessionDoc.exists()) {
+        return convertSessionDoc(sessionDoc);
+      }
+
+      transaction.set(sessionRef, session);
+
+      const userData = userDoc.data() || {};
+      const totalShits = userData.totalShits || 0;
+      const totalShitDuration = userData.totalShitDuration || 0;
+      transaction.set(userRef, {
+        // Everything counted before the first logged session is legacy
+        ...(userData.legacySessionTotals ? {} : { legacySessionTotals: { totalShits, totalShitDuration } }),
+        ...(session.counted ? toAggregates(totalShits + 1, totalShitDuration + duration) : {}),
+        sessionLogVersion: increment(1),
+      }, { merge: true });
+
+      console.log(`Recorded session: Duration=${duration}ms, Counted=${session.counted}`);
+      return { ...session, id: sessionRef.id };
+    });
+  } catch (error) {
+    console.error('Error recording session:', error);
+    throw error;
+  }
+};
+
+// The user's sessions, newest first
+export const getSessions = async (userId: string, maxResults?: number): Promise<ShitSession[]> => {
+  try {
+    const q = query(
+      getSessionsCollection(userId),
+      orderBy('startTime', 'desc'),
+      ...(maxResults ? [firestoreLimit(maxResults)] : [])
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(convertSessionDoc);
+  } catch (error) {
+    console.error('Error getting sessions:', error);
+    throw error;
+  }
+};
+
+// Whatever the stored stats hold beyond the log came before it
+const getLegacyTotals = (userData: DocumentData, sessions: ShitSession[]): LegacySessionTotals => {
+  const logged = computeSessionAggregates(sessions);
+  return {
+    totalShits: Math.max((userData.totalShits || 0) - logged.totalShits, 0),
+    totalShitDuration: Math.max((userData.totalShitDuration || 0) - logged.totalShitDuration, 0),
+  };
+};
+
+// The session log along with the sessionLogVersion it was read at
+interface SessionLog {
+  version: number;
+  sessions: ShitSession[];
+}
+
+// Read the log ahead of a transaction over it. The version is read first, so
+// a change landing in between shows up as a newer version in the transaction.
+const readSessionLog = async (userId: string): Promise<SessionLog> => {
+  const userDoc = await getDoc(doc(firestore, 'users', userId));
+  const sessions = await getSessions(userId);
+  return { version: userDoc.data()?.sessionLogVersion || 0, sessions };
+};
+
+// The log as of the user document a transaction read. Queries can't be part
+// of a transaction, so one read before it is read again if the version has
+// moved on; a change after the user document was read fails the commit, and
+// the transaction runs again.
+const getSessionLogAt = async (
+  userId: string,
+  userData: DocumentData,
+  log: SessionLog
+): Promise<SessionLog> => {
+  const version = userData.sessionLogVersion || 0;
+  return version === log.version ? log : { version, sessions: await getSessions(userId) };
+};
+
+// Rebuild the user's stats from their session log. Users with stats from
+// before the log get those kept as legacy totals the first time, so running
+// this at any point, and any number of times, never loses sessions.
+export const recomputeSessionAggregates = async (userId: string): Promise<SessionAggregates> => {
+  try {
+    const userRef = doc(firestore, 'users', userId);
+    let log = await readSessionLog(userId);
+
+    return await runTransaction(firestore, async (transaction) => {
+      const userDoc = await transaction.get(userRef);
+      const userData = userDoc.data() || {};
+      log = await getSessionLogAt(userId, userData, log);
+      const { sessions } = log;
+
+      const legacy = userData.legacySessionTotals || getLegacyTotals(userData, sessions);
+      const aggregates = computeSessionAggregates(sessions, legacy);
+      transaction.set(userRef, { ...aggregates, legacySessionTotals: legacy }, { merge: true });
+      return aggregates;
+    });
+  } catch (error) {
+    console.error('Error recomputing session stats:', error);
+    throw error;
+  }
+};
+
+// Auto-closed sessions whose end time the user hasn't confirmed, oldest first
+export const getSessionsNeedingReview = async (userId: string): Promise<ShitSession[]> => {
+  try {
+    const q = query(getSessionsCollection(userId), where('needsReview', '==', true));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(convertSessionDoc)
+      .sort((a, b) => a.startTime - b.startTime);
+  } catch (error) {
+    console.error('Error getting sessions to review:', error);
+    throw error;
+  }
+};
+
+// Thrown when a session added, edited or corrected by hand breaks a rule of the log;
+// the message is meant for the user
+export class SessionValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionValidationError';
+  }
+}
+
+// Why a session from startTime to endTime can't go in the log, if it can't.
+// It can't overlap another session, including one that's still running
+// (runningStartTime). One too short to count is fine; it's logged uncounted.
+export const getSessionValidationError = (
+  sessions: Pick<ShitSession, 'startTime' | 'endTime'>[],
+  startTime: number,
+  endTime: number,
+  runningStartTime: number | null = null,
+  now: number = Date.now()
+): string | null => {
+  if (endTime <= startTime) {
+    return 'A session has to end after it starts.';
+  }
+  if (endTime > now) {
+    return 'A session can\'t end in the future.';
+  }
+
+  const others = [
+    ...sessions,
+    ...(runningStartTime ? [{ startTime: runningStartTime, endTime: now }] : []),
+  ];
+  if (others.some(other => other.startTime < endTime && startTime < other.endTime)) {
+    return 'This overlaps another session.';
+  }
+  return null;
+};
+
+// A change made to the log by hand: the entry to take out and the one to
+// write, either of which may be left out
+interface SessionLogChange {
+  removeStartTime?: number;
+  session?: ShitSession;
+}
+
+// Check a session written by hand against the rest of the log and write it,
+// along with the stats rebuilt from the log it leaves, in one transaction
+const changeSessionLog = async (
+  userId: string,
+  { removeStartTime, session }: SessionLogChange
+): Promise<void> => {
+  const userRef = doc(firestore, 'users', userId);
+  let log = await readSessionLog(userId);
+
+  await runTransaction(firestore, async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    const userData = userDoc.data() || {};
+    log = await getSessionLogAt(userId, userData, log);
+    const { sessions } = log;
+    const others = sessions.filter(other => other.startTime !== removeStartTime);
+
+    if (session) {
+      // The sessions either side are what the new one could overlap
+      const previous = others.find(other => other.startTime < session.startTime);
+      const next = [...others].reverse().find(other => other.startTime >= session.startTime);
+      await Promise.all(
+        [previous, next]
+          .filter((neighbour): neighbour is ShitSession => !!neighbour)
+          .map(neighbour => transaction.get(getSessionRef(userId, neighbour.startTime)))
+      );
+
+      const runningStartTime = userData.isShitting ? userData.lastShitStartTime || null : null;
+      const error = getSessionValidationError(others, session.startTime, session.endTime, runningStartTime);
+      if (error) {
+        throw new SessionValidationError(error);
+      }
+    }
+
+    if (removeStartTime !== undefined && removeStartTime !== session?.startTime) {
+      transaction.delete(getSessionRef(userId, removeStartTime));
+    }
+    if (session) {
+      // The ID is the document's key, not one of its fields
+      const { id, ...data } = session;
+      transaction.set(getSessionRef(userId, session.startTime), data);
+    }
+
+    // Settle legacy totals against the log as it was, so this change isn't
+    // taken for one of them
+    const legacy = userData.legacySessionTotals || getLegacyTotals(userData, sessions);
+    transaction.set(userRef, {
+      ...computeSessionAggregates(session ? [...others, session] : others, legacy),
+      legacySessionTotals: legacy,
+      sessionLogVersion: increment(1),
+    }, { merge: true });
+  });
+};
+
+// Settle the end time of an auto-closed session, either as it was or as the
+// user corrected it, and rebuild the stats. A corrected end time has to fit
+// the log like a session edited by hand.
+export const confirmSessionEnd = async (
+  userId: string,
+  startTime: number,
+  endTime: number
+): Promise<void> => {
+  try {
+    const sessionRef = getSessionRef(userId, startTime);
+    const sessionDoc = await getDoc(sessionRef);
+    if (!sessionDoc.exists()) {
+      throw new Error('Session not found');
+    }
+
+    // Confirming keeps what was logged; only a corrected time is checked
+    if (endTime === sessionDoc.data().endTime) {
+      await updateDoc(sessionRef, { needsReview: false });
+      return;
+    }
+
+    const duration = endTime - startTime;
+    await changeSessionLog(userId, {
+      removeStartTime: startTime,
+      session: {
+        ...convertSessionDoc(sessionDoc),
+        endTime,
+        duration,
+        counted: isCountedSession(duration),
+        needsReview: false,
+      },
+    });
+  } catch (error) {
+    console.error('Error confirming session end:', error);
+    throw error;
+  }
+};
+
+// Log a session the user forgot to start
+export const addSession = async (
+  userId: string,
+  startTime: number,
+  endTime: number
+): Promise<ShitSession> => {
+  try {
+    const duration = endTime - startTime;
+    const session: ShitSession = {
+      startTime,
+      endTime,
+      duration,
+      counted: isCountedSession(duration),
+      endedBy: 'manual',
+      autoClosed: false,
+      needsReview: false,
+    };
+    await changeSessionLog(userId, { session });
+
+    return { ...session, id: String(startTime) };
+  } catch (error) {
+    console.error('Error adding session:', error);
+    throw error;
+  }
+};
+
+// Change when a logged session started or ended. Sessions are keyed by their
+// start time, so a new start time moves the entry.
+export const updateSession = async (
+  userId: string,
+  session: ShitSession,
+  startTime: number,
+  endTime: number
+): Promise<ShitSession> => {
+  try {
+    const duration = endTime - startTime;
+    const updated: ShitSession = {
+      startTime,
+      endTime,
+      duration,
+      counted: isCountedSession(duration),
+      endedBy: session.endedBy,
+      autoClosed: session.autoClosed,
+      needsReview: false,
+    };
+    await changeSessionLog(userId, { removeStartTime: session.startTime, session: updated });
+
+    return { ...updated, id: String(startTime) };
+  } catch (error) {
+    console.error('Error updating session:', error);
+    throw error;
+  }
+};
+
+// Remove a session from the log, e.g. one started by accident
+export const deleteSession = async (userId: string, startTime: number): Promise<void> => {
+  try {
+    await changeSessionLog(userId, { removeStartTime: startTime });
+  } catch (error) {
+    console.error('Error deleting session:', error);
+    throw error;
+  }
+};
@@ -1,22 +1,53 @@
 import { 
   collection, 
   doc, 
-  addDoc, 
   getDoc, 
   getDocs, 
   updateDoc, 
-  deleteDoc, 
   query, 
   where, 
   orderBy, 
   limit as firestoreLimit, 
+  arrayUnion,
+  arrayRemove,
+  increment,
+  writeBatch,
+  runTransaction,
+  onSnapshot,
   Timestamp,
   DocumentData,
-  QueryDocumentSnapshot
+  DocumentSnapshot,
+  WriteBatch,
+  collectionGroup
 } from 'firebase/firestore';
 import { firestore } from '../../firebase/config';
+import { createMentionNotification, getNotificationsCollection } from './notificationService';
+import {
+  MentionCandidate,
+  ShweetEntity,
+  getHashtags,
+  getMentionedUserIds,
+  parseShweetEntities
+} from '../../utils/shweetEntities';
+import { ShweetMedia, deleteShweetMedia } from '../storage/shweetMediaService';
+import { ReactionCounts, getReactionsCollection, readReactionCounts } from './reactionService';
 
 // Types
+export type ShareType = 'reshweet' | 'quote';
+
+// A copy of a shared shweet, taken when it was shared so it renders without
+// another read
+export interface SharedShweet {
+  id: string;
+  authorId: string;
+  authorName: string;
+  authorPhotoURL: string | null;
+  content: string;
+  timestamp: Timestamp | Date;
+  entities: ShweetEntity[];
+  media: ShweetMedia[];
+}
+
 export interface Shweet {
   id?: string;
   authorId: string;
@@ -25,89 +56,358 @@ export interface Shweet {
   content: string;
   timestamp: Timestamp | Date;
   isFromToilet: boolean;
-  likes: string[]; // Array of user IDs who liked this Shweet
+  reactionCount: number; // Everyone who reacted, whatever the reaction
+  reactionCounts: ReactionCounts; // Reactions by type
   comments: number; // Count of comments
+  entities: ShweetEntity[]; // Mentions, hashtags and links in the content
+  mentions: string[]; // IDs of mentioned users, for querying
+  hashtags: string[]; // Lowercase tags, for the tag feed
+  media: ShweetMedia[]; // Up to four uploaded images
+  shareType: ShareType | null; // Set on reshweets and quote-shweets
+  sharedShweetId: string | null; // The shared shweet, kept after it is deleted
+  shared: SharedShweet | null; // Null once the shared shweet is deleted
+  reshweets: number; // Count of reshweets of this shweet
+  quotes: number; // Count of quote-shweets of this shweet
+  editedAt: Timestamp | null; // When the content last changed
+  deleted: boolean; // Soft deleted; kept so the delete can be undone
+  deletedAt: Timestamp | null;
+}
+
+// A previous version of an edited shweet
+export interface ShweetVersion {
+  id?: string;
+  content: string;
+  entities: ShweetEntity[];
+  timestamp: Timestamp; // When this version was replaced
 }
 
+// Authors can edit a shweet for this long after posting it
+export const EDIT_WINDOW_MS = 15 * 60 * 1000;
+
+// A deleted shweet can be restored for this long, then it's removed for good
+export const UNDO_DELETE_MS = 5000;
+
+// What a caller provides for a new shweet. Entities are parsed from the
+// content when not given, with mentions matched against the author's friends.
+// Media must already be uploaded.
+type GeneratedShweetFields =
+  | 'id' | 'entities' | 'mentions' | 'hashtags' | 'media'
+  | 'shareType' | 'sharedShweetId' | 'shared' | 'reshweets' | 'quotes'
+  | 'editedAt' | 'deleted' | 'deletedAt' | 'reactionCount' | 'reactionCounts';
+
+export type NewShweet = Omit<Shweet, GeneratedShweetFields> & {
+  entities?: ShweetEntity[];
+  media?: ShweetMedia[];
+};
+
+// Comments are one level deep: a reply always hangs off a top-level comment
 export interface ShweetComment {
   id?: string;
   shweetId: string;
+  parentId: string | null; // Top-level comment this replies to, null for top-level comments
   authorId: string;
   authorName: string;
   authorPhotoURL: string | null;
   content: string;
   timestamp: Timestamp | Date;
   isFromToilet: boolean;
+  likes: string[]; // Array of user IDs who liked this comment
+  replyCount: number; // Replies to a top-level comment, kept in step with the replies
 }
 
-// Collection references
-const shweetsCollection = collection(firestore, 'shweets');
+// What a caller provides for a new comment; the rest is filled in
+export type NewShweetComment = Omit<ShweetComment, 'id' | 'timestamp' | 'parentId' | 'likes' | 'replyCount'> & {
+  parentId?: string | null;
+  timestamp?: Timestamp | Date;
+};
+
+// A shweet as copied into a reader's home timeline when it is posted. The
+// author's details are a snapshot, so the feed needs no user lookups.
+export interface TimelineEntry {
+  shweetId: string;
+  authorId: string;
+  authorName: string;
+  authorPhotoURL: string | null;
+  content: string;
+  timestamp: Timestamp | Date;
+  isFromToilet: boolean;
+  entities: ShweetEntity[];
+  media: ShweetMedia[];
+}
+
+// Collection references. Shweets live in the 'tweets' collection and every
+// reader has a home timeline at timelines/{uid}/entries/{shweetId}.
+export const shweetsCollection = collection(firestore, 'tweets');
+const getShweetRef = (shweetId: string) => doc(shweetsCollection, shweetId);
 const getCommentsCollection = (shweetId: string) => 
-  collection(firestore, 'shweets', shweetId, 'comments');
+  collection(getShweetRef(shweetId), 'comments');
+const getVersionsCollection = (shweetId: string) =>
+  collection(getShweetRef(shweetId), 'versions');
+export const getTimelineCollection = (userId: string) =>
+  collection(firestore, 'timelines', userId, 'entries');
+
+// Firestore caps a batch at 500 writes
+const MAX_BATCH_WRITES = 500;
+
+// Commit writes in as many batches as they need. Only the first batch is
+// atomic, so put the write that matters most first.
+export const commitInBatches = async (writes: ((batch: WriteBatch) => void)[]): Promise<void> => {
+  for (let i = 0; i < writes.length; i += MAX_BATCH_WRITES) {
+    const batch = writeBatch(firestore);
+    writes.slice(i, i + MAX_BATCH_WRITES).forEach(write => write(batch));
+    await batch.commit();
+  }
+};
+
+export const toTimelineEntry = (shweet: Shweet): TimelineEntry => ({
+  shweetId: shweet.id!,
+  authorId: shweet.authorId,
+  authorName: shweet.authorName,
+  authorPhotoURL: shweet.authorPhotoURL,
+  content: shweet.content,
+  timestamp: shweet.timestamp,
+  isFromToilet: shweet.isFromToilet,
+  entities: shweet.entities,
+  media: shweet.media,
+});
+
+export const convertTimelineEntryDoc = (doc: DocumentSnapshot<DocumentData>): TimelineEntry => {
+  const data = doc.data() || {};
+  return {
+    shweetId: doc.id,
+    authorId: data.authorId,
+    authorName: data.authorName || 'Unknown User',
+    authorPhotoURL: data.authorPhotoURL || null,
+    content: data.content,
+    timestamp: data.timestamp,
+    isFromToilet: data.isFromToilet || false,
+    entities: data.entities || [],
+    media: data.media || [],
+  };
+};
 
-// Convert Firebase document to Shweet
-const convertShweetDoc = (doc: QueryDocumentSnapshot<DocumentData>): Shweet => {
-  const data = doc.data();
+// Convert Firebase document to Shweet. Shweets posted from the feed only
+// store the author's ID, so the author fields may be missing.
+export const convertShweetDoc = (doc: DocumentSnapshot<DocumentData>): Shweet => {
+  const data = doc.data() || {};
   return {
     id: doc.id,
     authorId: data.authorId,
-    authorName: data.authorName,
-    authorPhotoURL: data.authorPhotoURL,
+    authorName: data.authorName || 'Unknown User',
+    authorPhotoURL: data.authorPhotoURL || null,
     content: data.content,
     timestamp: data.timestamp,
-    isFromToilet: data.isFromToilet,
-    likes: data.likes || [],
+    isFromToilet: data.isFromToilet || false,
+    ...readReactionCounts(data),
     comments: data.comments || 0,
+    entities: data.entities || [],
+    mentions: data.mentions || [],
+    hashtags: data.hashtags || [],
+    media: data.media || [],
+    shareType: data.shareType || null,
+    sharedShweetId: data.sharedShweetId || null,
+    shared: data.shared || null,
+    reshweets: data.reshweets || 0,
+    quotes: data.quotes || 0,
+    editedAt: data.editedAt || null,
+    deleted: data.deleted === true,
+    deletedAt: data.deletedAt || null,
   };
 };
 
 // Convert Firebase document to ShweetComment
-const convertCommentDoc = (doc: QueryDocumentSnapshot<DocumentData>): ShweetComment => {
-  const data = doc.data();
+const convertCommentDoc = (doc: DocumentSnapshot<DocumentData>): ShweetComment => {
+  const data = doc.data() || {};
   return {
     id: doc.id,
     shweetId: data.shweetId,
+    parentId: data.parentId || null,
     authorId: data.authorId,
     authorName: data.authorName,
     authorPhotoURL: data.authorPhotoURL,
     content: data.content,
     timestamp: data.timestamp,
     isFromToilet: data.isFromToilet,
+    likes: data.likes || [],
+    replyCount: data.replyCount || 0,
   };
 };
 
+// The author and their friends, who are the ones that can read the author's
+// shweets and be mentioned in them
+const getReaderIds = async (authorId: string): Promise<string[]> => {
+  const authorDoc = await getDoc(doc(firestore, 'users', authorId));
+  const friendIds: string[] = authorDoc.exists() ? authorDoc.data().friends || [] : [];
+  return [authorId, ...friendIds.filter(id => id !== authorId)];
+};
+
+// Entities for a shweet's content, keeping only mentions of its readers.
+// Content without entities is parsed against the readers' names.
+const resolveShweetEntities = async (
+  content: string,
+  readerIds: string[],
+  entities?: ShweetEntity[]
+): Promise<ShweetEntity[]> => {
+  let parsed = entities;
+  if (!parsed) {
+    const readerDocs = await Promise.all(readerIds.map(id => getDoc(doc(firestore, 'users', id))));
+    const candidates: MentionCandidate[] = readerDocs
+      .filter(readerDoc => readerDoc.exists() && readerDoc.data().displayName)
+      .map(readerDoc => ({ uid: readerDoc.id, displayName: readerDoc.data()!.displayName }));
+    parsed = parseShweetEntities(content, candidates);
+  }
+  
+  return parsed.filter(entity => entity.type !== 'mention' || readerIds.includes(entity.userId));
+};
+
 // Shweets CRUD operations
-export const createShweet = async (shweet: Omit<Shweet, 'id'>): Promise<Shweet> => {
+// The shweet is fanned out to the author's timeline and each friend's, and
+// mentioned friends are notified. A shared shweet has its count bumped in the
+// same batch.
+const publishShweet = async (
+  { entities, media, ...shweet }: NewShweet,
+  share: { type: ShareType; shared: SharedShweet } | null,
+  docRef = doc(shweetsCollection)
+): Promise<Shweet> => {
   try {
+    const readerIds = await getReaderIds(shweet.authorId);
+    const shweetEntities = await resolveShweetEntities(shweet.content, readerIds, entities);
+    const mentions = getMentionedUserIds(shweetEntities);
+    
     const shweetWithTimestamp = {
       ...shweet,
       timestamp: Timestamp.now(),
-      likes: [],
+      reactionCount: 0,
+      reactionCounts: {},
       comments: 0,
+      entities: shweetEntities,
+      mentions,
+      hashtags: getHashtags(shweetEntities),
+      media: media || [],
+      shareType: share?.type || null,
+      sharedShweetId: share?.shared.id || null,
+      shared: share?.shared || null,
+      reshweets: 0,
+      quotes: 0,
+      editedAt: null,
+      deleted: false,
+      deletedAt: null,
     };
     
-    const docRef = await addDoc(shweetsCollection, shweetWithTimestamp);
+    const newShweet = { id: docRef.id, ...shweetWithTimestamp };
+    const entry = toTimelineEntry(newShweet);
+    const notification = createMentionNotification(
+      { uid: shweet.authorId, displayName: shweet.authorName, photoURL: shweet.authorPhotoURL },
+      docRef.id,
+      shweet.content
+    );
     
-    return {
-      id: docRef.id,
-      ...shweetWithTimestamp,
-    };
+    await commitInBatches([
+      (batch) => {
+        batch.set(docRef, shweetWithTimestamp);
+        if (share) {
+          batch.update(getShweetRef(share.shared.id), {
+            [share.type === 'quote' ? 'quotes' : 'reshweets']: increment(1),
+          });
+        }
+      },
+      ...readerIds.map(readerId => (batch: WriteBatch) =>
+        batch.set(doc(getTimelineCollection(readerId), docRef.id), entry)
+      ),
+      ...mentions
+        .filter(userId => userId !== shweet.authorId)
+        .map(userId => (batch: WriteBatch) =>
+          batch.set(doc(getNotificationsCollection(userId)), notification)
+        )
+    ]);
+    
+    return newShweet;
   } catch (error) {
     console.error('Error creating shweet:', error);
     throw error;
   }
 };
 
+export const createShweet = (shweet: NewShweet): Promise<Shweet> => publishShweet(shweet, null);
+
+// What sharing needs from a shweet
+export type ShareableShweet = Pick<
+  Shweet,
+  'id' | 'authorId' | 'authorName' | 'authorPhotoURL' | 'content' | 'timestamp' | 'entities' | 'media' | 'shareType' | 'shared'
+>;
+
+// Sharing a reshweet shares the shweet it points to
+export const toSharedShweet = (shweet: ShareableShweet): SharedShweet => {
+  if (shweet.shareType === 'reshweet') {
+    if (!shweet.shared) {
+      throw new Error('This shweet has been deleted.');
+    }
+    return shweet.shared;
+  }
+  
+  return {
+    id: shweet.id!,
+    authorId: shweet.authorId,
+    authorName: shweet.authorName,
+    authorPhotoURL: shweet.authorPhotoURL,
+    content: shweet.content,
+    timestamp: shweet.timestamp,
+    entities: shweet.entities,
+    media: shweet.media,
+  };
+};
+
+// A user's reshweet of a shweet has a fixed ID, so there is at most one
+const getReshweetRef = (shweetId: string, userId: string) =>
+  getShweetRef(`${shweetId}_reshweet_${userId}`);
+
+export const hasReshweeted = async (shweet: ShareableShweet, userId: string): Promise<boolean> => {
+  try {
+    const docSnap = await getDoc(getReshweetRef(toSharedShweet(shweet).id, userId));
+    return docSnap.exists() && !docSnap.data().deleted;
+  } catch (error) {
+    console.error('Error checking reshweet:', error);
+    throw error;
+  }
+};
+
+export type ShweetAuthor = Pick<Shweet, 'authorId' | 'authorName' | 'authorPhotoURL' | 'isFromToilet'>;
+
+export const reshweetShweet = async (shweet: ShareableShweet, author: ShweetAuthor): Promise<Shweet> => {
+  const shared = toSharedShweet(shweet);
+  const reshweetRef = getReshweetRef(shared.id, author.authorId);
+  
+  // A reshweet the user deleted is simply posted again
+  const existing = await getDoc(reshweetRef);
+  if (existing.exists() && !existing.data().deleted) {
+    return convertShweetDoc(existing);
+  }
+  
+  return publishShweet({
+    ...author,
+    content: '',
+    timestamp: new Date(),
+    comments: 0,
+  }, { type: 'reshweet', shared }, reshweetRef);
+};
+
+// Resolves with the ID of the reshweet that was removed. Unlike deleting,
+// this can't be undone.
+export const undoReshweet = async (shweet: ShareableShweet, userId: string): Promise<string> => {
+  const reshweetId = getReshweetRef(toSharedShweet(shweet).id, userId).id;
+  await removeShweet(reshweetId);
+  return reshweetId;
+};
+
+export const quoteShweet = (shweet: ShareableShweet, quote: NewShweet): Promise<Shweet> =>
+  publishShweet(quote, { type: 'quote', shared: toSharedShweet(shweet) });
+
 export const getShweet = async (id: string): Promise<Shweet | null> => {
   try {
-    const docRef = doc(firestore, 'shweets', id);
-    const docSnap = await getDoc(docRef);
+    const docSnap = await getDoc(getShweetRef(id));
     
     if (docSnap.exists()) {
-      return {
-        id: docSnap.id,
-        ...docSnap.data(),
-      } as Shweet;
+      return convertShweetDoc(docSnap);
     }
     
     return null;
@@ -127,129 +427,374 @@ export const getRecentShweets = async (limitCount = 20): Promise<Shweet[]> => {
     
     const querySnapshot = await getDocs(q);
     
-    return querySnapshot.docs.map(convertShweetDoc);
+    return querySnapshot.docs.map(convertShweetDoc).filter(shweet => !shweet.deleted);
   } catch (error) {
     console.error('Error getting recent shweets:', error);
     throw error;
   }
 };
 
-export const getUserShweets = async (userId: string): Promise<Shweet[]> => {
+export const getUserShweets = async (userId: string, maxResults?: number): Promise<Shweet[]> => {
   try {
     const q = query(
       shweetsCollection,
       where('authorId', '==', userId),
-      orderBy('timestamp', 'desc')
+      orderBy('timestamp', 'desc'),
+      ...(maxResults ? [firestoreLimit(maxResults)] : [])
     );
     
     const querySnapshot = await getDocs(q);
     
-    return querySnapshot.docs.map(convertShweetDoc);
+    return querySnapshot.docs.map(convertShweetDoc).filter(shweet => !shweet.deleted);
   } catch (error) {
     console.error('Error getting user shweets:', error);
     throw error;
   }
 };
 
-export const getFriendsShweets = async (friendIds: string[]): Promise<Shweet[]> => {
-  if (!friendIds.length) return [];
+// Removes the shweet for good, with its comments, reactions and versions, its
+// copies in every timeline and its images. Shweets that shared it keep their
+// place and show it as deleted.
+const removeShweet = async (shweetId: string): Promise<void> => {
+  try {
+    const shweetSnap = await getDoc(getShweetRef(shweetId));
+    const shweet = shweetSnap.exists() ? convertShweetDoc(shweetSnap) : null;
+    
+    const [
+      entriesSnapshot,
+      commentsSnapshot,
+      reactionsSnapshot,
+      versionsSnapshot,
+      sharesSnapshot,
+      sharedSnap
+    ] = await Promise.all([
+      getDocs(query(collectionGroup(firestore, 'entries'), where('shweetId', '==', shweetId))),
+      getDocs(getCommentsCollection(shweetId)),
+      getDocs(getReactionsCollection(shweetId)),
+      getDocs(getVersionsCollection(shweetId)),
+      getDocs(query(shweetsCollection, where('sharedShweetId', '==', shweetId))),
+      shweet?.shared ? getDoc(getShweetRef(shweet.shared.id)) : Promise.resolve(null)
+    ]);
+    
+    await commitInBatches([
+      (batch) => {
+        batch.delete(getShweetRef(shweetId));
+        // A soft-deleted shweet was already taken off the count
+        if (sharedSnap?.exists() && !shweet!.deleted) {
+          batch.update(sharedSnap.ref, {
+            [shweet!.shareType === 'quote' ? 'quotes' : 'reshweets']: increment(-1),
+          });
+        }
+      },
+      ...entriesSnapshot.docs.map(entryDoc => (batch: WriteBatch) => batch.delete(entryDoc.ref)),
+      ...[...commentsSnapshot.docs, ...reactionsSnapshot.docs, ...versionsSnapshot.docs]
+        .map(subDoc => (batch: WriteBatch) => batch.delete(subDoc.ref)),
+      ...sharesSnapshot.docs.map(shareDoc => (batch: WriteBatch) => batch.update(shareDoc.ref, { shared: null }))
+    ]);
+    
+    await deleteShweetMedia(shweet?.media || []);
+  } catch (error) {
+    console.error('Error removing shweet:', error);
+    throw error;
+  }
+};
+
+// What deleting or restoring a shweet touches besides the shweet itself
+const getDeleteCascade = async (shweet: Shweet) => {
+  const [commentsSnapshot, reactionsSnapshot, sharesSnapshot, sharedSnap] = await Promise.all([
+    getDocs(getCommentsCollection(shweet.id!)),
+    getDocs(getReactionsCollection(shweet.id!)),
+    getDocs(query(shweetsCollection, where('sharedShweetId', '==', shweet.id))),
+    shweet.shared ? getDoc(getShweetRef(shweet.shared.id)) : Promise.resolve(null)
+  ]);
   
+  return {
+    comments: commentsSnapshot.docs,
+    reactions: reactionsSnapshot.docs,
+    shares: sharesSnapshot.docs,
+    // The count only matters while the shared shweet is there to show it
+    sharedRef: sharedSnap?.exists() && !sharedSnap.data().deleted ? sharedSnap.ref : null,
+  };
+};
+
+// Soft delete: the shweet, its comments and its reactions are hidden, it stops counting
+// towards what it shared, and shweets that shared it show it as deleted.
+// Everything is kept so restoreShweet can undo it until purgeDeletedShweet
+// removes it; timeline entries stay and are skipped by the feed. Only the
+// author can delete a shweet.
+export const deleteShweet = async (shweetId: string, userId: string): Promise<void> => {
   try {
-    const q = query(
-      shweetsCollection,
-      where('authorId', 'in', friendIds),
-      orderBy('timestamp', 'desc'),
-      firestoreLimit(50)
-    );
+    const shweetSnap = await getDoc(getShweetRef(shweetId));
+    if (!shweetSnap.exists()) return;
     
-    const querySnapshot = await getDocs(q);
+    const shweet = convertShweetDoc(shweetSnap);
+    if (shweet.authorId !== userId) {
+      throw new Error('You can only delete your own shweets');
+    }
+    if (shweet.deleted) return;
+    
+    const cascade = await getDeleteCascade(shweet);
     
-    return querySnapshot.docs.map(convertShweetDoc);
+    await commitInBatches([
+      (batch) => {
+        batch.update(shweetSnap.ref, { deleted: true, deletedAt: Timestamp.now() });
+        if (cascade.sharedRef) {
+          batch.update(cascade.sharedRef, {
+            [shweet.shareType === 'quote' ? 'quotes' : 'reshweets']: increment(-1),
+          });
+        }
+      },
+      ...cascade.comments.map(commentDoc => (batch: WriteBatch) => batch.update(commentDoc.ref, { deleted: true })),
+      ...cascade.reactions.map(reactionDoc => (batch: WriteBatch) => batch.update(reactionDoc.ref, { deleted: true })),
+      ...cascade.shares.map(shareDoc => (batch: WriteBatch) => batch.update(shareDoc.ref, { shared: null }))
+    ]);
   } catch (error) {
-    console.error('Error getting friends shweets:', error);
+    console.error('Error deleting shweet:', error);
     throw error;
   }
 };
 
-export const likeShweet = async (shweetId: string, userId: string): Promise<void> => {
+// Undo a soft delete, which only the author can do
+export const restoreShweet = async (shweetId: string, userId: string): Promise<Shweet> => {
   try {
-    const shweetRef = doc(firestore, 'shweets', shweetId);
-    const shweetDoc = await getDoc(shweetRef);
+    const shweetSnap = await getDoc(getShweetRef(shweetId));
+    if (!shweetSnap.exists()) {
+      throw new Error('Shweet not found');
+    }
     
-    if (shweetDoc.exists()) {
-      const shweetData = shweetDoc.data();
-      const likes = shweetData.likes || [];
-      
-      // Check if user already liked
-      if (!likes.includes(userId)) {
-        await updateDoc(shweetRef, {
-          likes: [...likes, userId],
-        });
-      }
+    const shweet = convertShweetDoc(shweetSnap);
+    if (shweet.authorId !== userId) {
+      throw new Error('You can only restore your own shweets');
     }
+    const restored = { ...shweet, deleted: false, deletedAt: null };
+    if (!shweet.deleted) return restored;
+    
+    const cascade = await getDeleteCascade(shweet);
+    const shared = toSharedShweet(restored);
+    
+    await commitInBatches([
+      (batch) => {
+        batch.update(shweetSnap.ref, { deleted: false, deletedAt: null });
+        if (cascade.sharedRef) {
+          batch.update(cascade.sharedRef, {
+            [shweet.shareType === 'quote' ? 'quotes' : 'reshweets']: increment(1),
+          });
+        }
+      },
+      ...cascade.comments.map(commentDoc => (batch: WriteBatch) => batch.update(commentDoc.ref, { deleted: false })),
+      ...cascade.reactions.map(reactionDoc => (batch: WriteBatch) => batch.update(reactionDoc.ref, { deleted: false })),
+      ...cascade.shares.map(shareDoc => (batch: WriteBatch) => batch.update(shareDoc.ref, { shared }))
+    ]);
+    
+    return restored;
   } catch (error) {
-    console.error('Error liking shweet:', error);
+    console.error('Error restoring shweet:', error);
     throw error;
   }
 };
 
-export const unlikeShweet = async (shweetId: string, userId: string): Promise<void> => {
+// Remove a deleted shweet for good once it can no longer be restored. A
+// shweet restored in the meantime is left alone.
+export const purgeDeletedShweet = async (shweetId: string, userId: string): Promise<void> => {
   try {
-    const shweetRef = doc(firestore, 'shweets', shweetId);
-    const shweetDoc = await getDoc(shweetRef);
+    const shweetSnap = await getDoc(getShweetRef(shweetId));
+    if (!shweetSnap.exists()) return;
     
-    if (shweetDoc.exists()) {
-      const shweetData = shweetDoc.data();
-      const likes = shweetData.likes || [];
-      
-      // Remove user from likes
-      await updateDoc(shweetRef, {
-        likes: likes.filter((id: string) => id !== userId),
-      });
+    const shweet = convertShweetDoc(shweetSnap);
+    if (shweet.authorId !== userId) {
+      throw new Error('You can only delete your own shweets');
     }
+    if (!shweet.deleted) return;
+    
+    await removeShweet(shweetId);
   } catch (error) {
-    console.error('Error unliking shweet:', error);
+    console.error('Error purging shweet:', error);
     throw error;
   }
 };
 
-export const deleteShweet = async (shweetId: string): Promise<void> => {
+// Remove the user's deleted shweets whose undo window has passed without
+// them being purged, e.g. because the app was closed first
+export const purgeDeletedShweets = async (userId: string): Promise<void> => {
   try {
-    await deleteDoc(doc(firestore, 'shweets', shweetId));
+    const q = query(
+      shweetsCollection,
+      where('authorId', '==', userId),
+      where('deleted', '==', true)
+    );
+    const querySnapshot = await getDocs(q);
+    const cutoff = Date.now() - UNDO_DELETE_MS;
+    
+    const expired = querySnapshot.docs
+      .map(convertShweetDoc)
+      .filter(shweet => shweet.deletedAt && shweet.deletedAt.toMillis() < cutoff);
+    for (const shweet of expired) {
+      await removeShweet(shweet.id!);
+    }
   } catch (error) {
-    console.error('Error deleting shweet:', error);
+    console.error('Error purging deleted shweets:', error);
     throw error;
   }
 };
 
+export const canEditShweet = (shweet: Pick<Shweet, 'authorId' | 'timestamp' | 'shareType'>, userId: string): boolean => {
+  if (shweet.authorId !== userId || shweet.shareType === 'reshweet') return false;
+  if (!shweet.timestamp) return true; // Still waiting for its server timestamp
+  
+  const postedAt = shweet.timestamp instanceof Date ? shweet.timestamp.getTime() : shweet.timestamp.toMillis();
+  return Date.now() - postedAt < EDIT_WINDOW_MS;
+};
+
+// Replace the content of a shweet, keeping the old version. Entities are
+// resolved as for a new shweet, and only newly mentioned friends are notified.
+export const editShweet = async (
+  shweetId: string,
+  userId: string,
+  content: string,
+  entities?: ShweetEntity[]
+): Promise<Shweet> => {
+  try {
+    const shweetRef = getShweetRef(shweetId);
+    const shweetEntities = await resolveShweetEntities(content, await getReaderIds(userId), entities);
+    const mentions = getMentionedUserIds(shweetEntities);
+    
+    return await runTransaction(firestore, async (transaction) => {
+      const shweetDoc = await transaction.get(shweetRef);
+      if (!shweetDoc.exists()) {
+        throw new Error('Shweet not found');
+      }
+      
+      const shweet = convertShweetDoc(shweetDoc);
+      if (shweet.deleted || !canEditShweet(shweet, userId)) {
+        throw new Error('This shweet can no longer be edited');
+      }
+      if (!content.trim() && !shweet.media.length && !shweet.shared) {
+        throw new Error('A shweet needs some content');
+      }
+      
+      const editedAt = Timestamp.now();
+      const version: Omit<ShweetVersion, 'id'> = {
+        content: shweet.content,
+        entities: shweet.entities,
+        timestamp: editedAt,
+      };
+      const changes = {
+        content,
+        entities: shweetEntities,
+        mentions,
+        hashtags: getHashtags(shweetEntities),
+        editedAt,
+      };
+      
+      transaction.set(doc(getVersionsCollection(shweetId)), version);
+      transaction.update(shweetRef, changes);
+      
+      const notification = createMentionNotification(
+        { uid: shweet.authorId, displayName: shweet.authorName, photoURL: shweet.authorPhotoURL },
+        shweetId,
+        content
+      );
+      mentions
+        .filter(mentionedId => mentionedId !== userId && !shweet.mentions.includes(mentionedId))
+        .forEach(mentionedId => transaction.set(doc(getNotificationsCollection(mentionedId)), notification));
+      return { ...shweet, ...changes };
+    });
+  } catch (error) {
+    console.error('Error editing shweet:', error);
+    throw error;
+  }
+};
+
+// Previous versions of a shweet, most recently replaced first
+export const getShweetVersions = async (shweetId: string): Promise<ShweetVersion[]> => {
+  try {
+    const q = query(getVersionsCollection(shweetId), orderBy('timestamp', 'desc'));
+    const querySnapshot = await getDocs(q);
+    
+    return querySnapshot.docs.map(versionDoc => ({
+      id: versionDoc.id,
+      ...(versionDoc.data() as Omit<ShweetVersion, 'id'>),
+    }));
+  } catch (error) {
+    console.error('Error getting shweet versions:', error);
+    throw error;
+  }
+};
+
+// Subscribe to a single shweet, e.g. for its like and comment counts.
+// Called with null once the shweet is deleted.
+export const subscribeToShweet = (
+  shweetId: string,
+  onShweetUpdate: (shweet: Shweet | null) => void
+): () => void => {
+  return onSnapshot(getShweetRef(shweetId), (docSnap) => {
+    onShweetUpdate(docSnap.exists() ? convertShweetDoc(docSnap) : null);
+  }, (error) => {
+    console.error('Error subscribing to shweet:', error);
+  });
+};
+
 // Comments CRUD operations
-export const addComment = async (comment: Omit<ShweetComment, 'id'>): Promise<ShweetComment> => {
+// Every comment, replies included, counts towards the shweet's comments
+// counter, which is only changed in the same write as the comments themselves.
+export const addComment = async (comment: NewShweetComment): Promise<ShweetComment> => {
   try {
-    const commentWithTimestamp = {
+    const shweetRef = getShweetRef(comment.shweetId);
+    const commentsCollection = getCommentsCollection(comment.shweetId);
+    const docRef = doc(commentsCollection);
+    
+    const newComment: Omit<ShweetComment, 'id'> = {
       ...comment,
+      parentId: null,
       timestamp: Timestamp.now(),
+      likes: [],
+      replyCount: 0,
     };
     
-    // Add the comment
-    const commentsCollection = getCommentsCollection(comment.shweetId);
-    const docRef = await addDoc(commentsCollection, commentWithTimestamp);
-    
-    // Increment the comment count on the shweet
-    const shweetRef = doc(firestore, 'shweets', comment.shweetId);
-    const shweetDoc = await getDoc(shweetRef);
-    
-    if (shweetDoc.exists()) {
-      const shweetData = shweetDoc.data();
-      const currentComments = shweetData.comments || 0;
-      
-      await updateDoc(shweetRef, {
-        comments: currentComments + 1,
+    if (!comment.parentId) {
+      // Add the comment and bump the shweet's comment count in one batch, using
+      // an atomic increment so concurrent comments are all counted
+      const batch = writeBatch(firestore);
+      batch.set(docRef, newComment);
+      batch.update(shweetRef, {
+        comments: increment(1),
       });
+      await batch.commit();
+      
+      return {
+        id: docRef.id,
+        ...newComment,
+      };
     }
     
+    // A reply: bump the parent's reply count in a transaction so it can't
+    // land on a comment that is being deleted
+    const parentId = comment.parentId;
+    const reply = await runTransaction(firestore, async (transaction) => {
+      let parentRef = doc(commentsCollection, parentId);
+      let parentDoc = await transaction.get(parentRef);
+      
+      // Replying to a reply joins the same thread
+      const rootId = parentDoc.exists() ? parentDoc.data().parentId : null;
+      if (rootId) {
+        parentRef = doc(commentsCollection, rootId);
+        parentDoc = await transaction.get(parentRef);
+      }
+      
+      if (!parentDoc.exists()) {
+        throw new Error('Comment not found');
+      }
+      
+      const replyData = { ...newComment, parentId: parentRef.id };
+      transaction.set(docRef, replyData);
+      transaction.update(parentRef, { replyCount: increment(1) });
+      transaction.update(shweetRef, { comments: increment(1) });
+      return replyData;
+    });
+    
     return {
       id: docRef.id,
-      ...commentWithTimestamp,
+      ...reply,
     };
   } catch (error) {
     console.error('Error adding comment:', error);
@@ -264,9 +809,98 @@ export const getShweetComments = async (shweetId: string): Promise<ShweetComment
     
     const querySnapshot = await getDocs(q);
     
-    return querySnapshot.docs.map(convertCommentDoc);
+    return querySnapshot.docs.filter(commentDoc => !commentDoc.data().deleted).map(convertCommentDoc);
   } catch (error) {
     console.error('Error getting shweet comments:', error);
     throw error;
   }
-}; 
\ No newline at end of file
+};
+
+// Subscribe to all comments on a shweet, oldest first
+export const subscribeToShweetComments = (
+  shweetId: string,
+  onCommentsUpdate: (comments: ShweetComment[]) => void
+): () => void => {
+  const q = query(getCommentsCollection(shweetId), orderBy('timestamp', 'asc'));
+  
+  return onSnapshot(q, (snapshot) => {
+    onCommentsUpdate(snapshot.docs.filter(commentDoc => !commentDoc.data().deleted).map(convertCommentDoc));
+  }, (error) => {
+    console.error('Error subscribing to shweet comments:', error);
+  });
+};
+
+export const likeComment = async (shweetId: string, commentId: string, userId: string): Promise<void> => {
+  try {
+    await updateDoc(doc(getCommentsCollection(shweetId), commentId), {
+      likes: arrayUnion(userId),
+    });
+  } catch (error) {
+    console.error('Error liking comment:', error);
+    throw error;
+  }
+};
+
+export const unlikeComment = async (shweetId: string, commentId: string, userId: string): Promise<void> => {
+  try {
+    await updateDoc(doc(getCommentsCollection(shweetId), commentId), {
+      likes: arrayRemove(userId),
+    });
+  } catch (error) {
+    console.error('Error unliking comment:', error);
+    throw error;
+  }
+};
+
+// Delete a comment by its author. Deleting a top-level comment removes its
+// replies too, and the shweet's counter drops by everything removed.
+export const deleteComment = async (shweetId: string, commentId: string, userId: string): Promise<void> => {
+  try {
+    const shweetRef = getShweetRef(shweetId);
+    const commentsCollection = getCommentsCollection(shweetId);
+    const commentRef = doc(commentsCollection, commentId);
+    
+    // Replies can't be queried inside a transaction, so they are read first and
+    // the transaction checks the parent's replyCount still matches
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const repliesSnapshot = await getDocs(query(commentsCollection, where('parentId', '==', commentId)));
+      
+      const deleted = await runTransaction(firestore, async (transaction) => {
+        const commentDoc = await transaction.get(commentRef);
+        if (!commentDoc.exists()) {
+          return true;
+        }
+        
+        const comment = convertCommentDoc(commentDoc);
+        if (comment.authorId !== userId) {
+          throw new Error('You can only delete your own comments');
+        }
+        
+        // A reply arrived since the replies were read; read them again
+        if (comment.replyCount !== repliesSnapshot.size) {
+          return false;
+        }
+        
+        const parentRef = comment.parentId ? doc(commentsCollection, comment.parentId) : null;
+        const parentDoc = parentRef ? await transaction.get(parentRef) : null;
+        
+        repliesSnapshot.docs.forEach(replyDoc => transaction.delete(replyDoc.ref));
+        transaction.delete(commentRef);
+        if (parentRef && parentDoc?.exists()) {
+          transaction.update(parentRef, { replyCount: increment(-1) });
+        }
+        transaction.update(shweetRef, { comments: increment(-(1 + repliesSnapshot.size)) });
+        return true;
+      });
+      
+      if (deleted) {
+        return;
+      }
+    }
+    
+    throw new Error('The thread changed while deleting; please try again');
+  } catch (error) {
+    console.error('Error deleting comment:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,74 @@
+import { doc, getDoc, getDocs, query, where, WriteBatch } from 'firebase/firestore';
+import { firestore } from '../../firebase/config';
+import {
+  commitInBatches,
+  getTimelineCollection,
+  getUserShweets,
+  toTimelineEntry
+} from './shweetService';
+
+// How many of an author's shweets a new friend's timeline starts with
+const BACKFILL_LIMIT = 50;
+
+// Copy an author's recent shweets into a reader's timeline. Entries are keyed
+// by shweet ID, so running this again only refreshes them.
+export const backfillTimeline = async (readerId: string, authorId: string): Promise<void> => {
+  try {
+    const [shweets, authorDoc] = await Promise.all([
+      getUserShweets(authorId, BACKFILL_LIMIT),
+      getDoc(doc(firestore, 'users', authorId))
+    ]);
+    const author = authorDoc.data();
+
+    // Shweets posted before timelines existed don't carry the author's details
+    const writes = shweets.map(shweet => (batch: WriteBatch) =>
+      batch.set(doc(getTimelineCollection(readerId), shweet.id!), toTimelineEntry({
+        ...shweet,
+        authorName: author?.displayName || shweet.authorName,
+        authorPhotoURL: author?.photoURL ?? shweet.authorPhotoURL
+      }))
+    );
+
+    await commitInBatches(writes);
+  } catch (error) {
+    console.error('Error backfilling timeline:', error);
+    throw error;
+  }
+};
+
+// Remove an author's shweets from a reader's timeline
+export const removeAuthorFromTimeline = async (readerId: string, authorId: string): Promise<void> => {
+  try {
+    const entriesSnapshot = await getDocs(
+      query(getTimelineCollection(readerId), where('authorId', '==', authorId))
+    );
+
+    await commitInBatches(
+      entriesSnapshot.docs.map(entryDoc => (batch: WriteBatch) => batch.delete(entryDoc.ref))
+    );
+  } catch (error) {
+    console.error('Error removing author from timeline:', error);
+    throw error;
+  }
+};
+
+// New friends see each other's recent shweets
+export const connectTimelines = async (userId: string, friendId: string): Promise<void> => {
+  await Promise.all([
+    backfillTimeline(userId, friendId),
+    backfillTimeline(friendId, userId)
+  ]);
+};
+
+// Former friends stop seeing each other's shweets
+export const disconnectTimelines = async (userId: string, friendId: string): Promise<void> => {
+  await Promise.all([
+    removeAuthorFromTimeline(userId, friendId),
+    removeAuthorFromTimeline(friendId, userId)
+  ]);
+};
+
+// Build a timeline that predates fan-out from the user's own and friends' shweets
+export const rebuildTimeline = async (userId: string, authorIds: string[]): Promise<void> => {
+  await Promise.all(authorIds.map(authorId => backfillTimeline(userId, authorId)));
+};
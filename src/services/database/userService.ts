@@ -12,6 +12,7 @@ import {
 import { ref, get, set } from 'firebase/database';
 import { firestore, database } from '../../firebase/config';
 import { UserData } from '../auth/authService';
+import { connectTimelines, disconnectTimelines } from './timelineService';
 
 // Function to get a user's data from Firestore
 export const getUserData = async (userId: string): Promise<UserData | null> => {
@@ -120,6 +121,11 @@ export const addFriend = async (userId: string, friendId: string): Promise<void>
     await updateDoc(friendDocRef, {
       friends: arrayUnion(userId),
     });
+    
+    // Show each other's recent shweets in both timelines
+    connectTimelines(userId, friendId).catch(error => {
+      console.error('Error backfilling timelines:', error);
+    });
   } catch (error) {
     console.error('Error adding friend:', error);
     throw error;
@@ -140,6 +146,11 @@ export const removeFriend = async (userId: string, friendId: string): Promise<vo
     await updateDoc(friendDocRef, {
       friends: arrayRemove(userId),
     });
+    
+    // Take each other's shweets out of both timelines
+    disconnectTimelines(userId, friendId).catch(error => {
+      console.error('Error cleaning up timelines:', error);
+    });
   } catch (error) {
     console.error('Error removing friend:', error);
     throw error;
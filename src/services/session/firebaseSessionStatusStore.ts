@@ -0,0 +1,37 @@
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { ref, update } from 'firebase/database';
+import { firestore, database } from '../../firebase/config';
+import { recordSession } from '../database/sessionService';
+import { SessionStatusStore } from './sessionStores';
+
+// Publishes sessions to the user document in Firestore, which is the lasting
+// record, and to status/{uid} in the Realtime Database, which friends watch.
+// Both get the same fields, written the same way, for every transition.
+export const createFirebaseSessionStatusStore = (): SessionStatusStore => ({
+  getActiveSession: async (userId) => {
+    const userDoc = await getDoc(doc(firestore, 'users', userId));
+    const data = userDoc.data();
+    return data?.isShitting && data.lastShitStartTime
+      ? { startTime: data.lastShitStartTime, lastAliveAt: data.lastAliveAt || null }
+      : null;
+  },
+
+  publish: async (userId, { isShitting, startTime, lastAliveAt }) => {
+    // Firestore first, so a status change seen in RTDB is already stored
+    await setDoc(doc(firestore, 'users', userId), {
+      isShitting,
+      lastShitStartTime: startTime,
+      lastAliveAt,
+    }, { merge: true });
+
+    // Update rather than set, so presence fields such as sessions are kept
+    await update(ref(database, `status/${userId}`), {
+      isOnline: true,
+      isShitting,
+      lastActive: Date.now(),
+      lastShitStartTime: startTime,
+    });
+  },
+
+  record: recordSession,
+});
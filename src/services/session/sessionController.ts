@@ -0,0 +1,355 @@
+import { TIME } from '../../constants/app';
+import { SessionEndSource } from '../database/sessionService';
+import { activateWaitingInvites } from '../database/gameInviteService';
+import {
+  SessionPhase,
+  SessionState,
+  SessionStateStore,
+  SessionStatusStore,
+  createAsyncStorageSessionStateStore
+} from './sessionStores';
+import { createFirebaseSessionStatusStore } from './firebaseSessionStatusStore';
+
+// The phases each phase can move to. An end that fails to be written goes
+// back to active so it can be tried again.
+const TRANSITIONS: Record<SessionPhase, SessionPhase[]> = {
+  idle: ['active'],
+  active: ['paused', 'ending'],
+  paused: ['active', 'ending'],
+  ending: ['idle', 'active'],
+};
+
+const IDLE_STATE: SessionState = {
+  phase: 'idle',
+  userId: null,
+  startTime: null,
+  lastAliveAt: null,
+  endTime: null,
+  endedBy: null,
+};
+
+// Thrown for a transition the state machine doesn't allow, e.g. starting a
+// session while another is being ended
+export class SessionTransitionError extends Error {
+  from: SessionPhase;
+  to: SessionPhase;
+
+  constructor(from: SessionPhase, to: SessionPhase) {
+    super(`Cannot move a session from ${from} to ${to}`);
+    this.name = 'SessionTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+export interface SessionControllerOptions {
+  local: SessionStateStore;
+  status: SessionStatusStore;
+  now?: () => number;
+  // How long the app can go without a heartbeat before a running session is
+  // taken to have been abandoned
+  closureThreshold?: number;
+  // Running sessions are closed once they reach this length
+  maxDuration?: number;
+  // How often a running session's heartbeat is published, and how long a
+  // session found only in the status store can go without one
+  heartbeatInterval?: number;
+  heartbeatTimeout?: number;
+  onStart?: (userId: string) => void;
+}
+
+export interface SessionController {
+  getState: () => SessionState;
+  subscribe: (listener: (state: SessionState) => void) => () => void;
+  // Pick up the user's session after launch or sign in, including one left
+  // running when the app was killed
+  restore: (userId: string) => Promise<SessionState>;
+  start: (userId: string) => Promise<SessionState>;
+  end: (userId: string, endedBy?: SessionEndSource) => Promise<SessionState>;
+  // The app went to the background
+  pause: () => Promise<SessionState>;
+  // The app came back to the foreground
+  resume: () => Promise<SessionState>;
+  // Called regularly while the app is in the foreground
+  heartbeat: () => Promise<SessionState>;
+  // Publish the running session again, e.g. after reconnecting
+  syncStatus: () => Promise<SessionState>;
+  // End anything running and forget it, e.g. when signing out
+  reset: () => Promise<SessionState>;
+}
+
+// The one place sessions are started and ended. The state is persisted on
+// every transition, so the session can be recovered after the app is killed,
+// and published through the status store for friends and stats. Sessions
+// left running are closed at the last time the app was known to be alive.
+export const createSessionController = ({
+  local,
+  status,
+  now = Date.now,
+  closureThreshold = TIME.APP_CLOSURE_THRESHOLD,
+  maxDuration = TIME.MAX_SESSION_DURATION,
+  heartbeatInterval = TIME.SESSION_HEARTBEAT_INTERVAL,
+  heartbeatTimeout = TIME.SESSION_HEARTBEAT_TIMEOUT,
+  onStart
+}: SessionControllerOptions): SessionController => {
+  let state: SessionState = IDLE_STATE;
+  let publishedAliveAt = 0;
+  const listeners = new Set<(state: SessionState) => void>();
+
+  // Calls run one at a time, so e.g. a resume can't interleave with an end
+  let queue: Promise<unknown> = Promise.resolve();
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const setState = async (next: SessionState) => {
+    if (next.phase !== state.phase && !TRANSITIONS[state.phase].includes(next.phase)) {
+      throw new SessionTransitionError(state.phase, next.phase);
+    }
+
+    state = next;
+    if (next.phase === 'idle') {
+      await local.clear();
+    } else {
+      await local.save(next);
+    }
+    listeners.forEach(listener => listener(state));
+  };
+
+  const isRunning = () => state.phase === 'active' || state.phase === 'paused';
+
+  const publishRunning = async () => {
+    if (!state.userId) return;
+
+    const aliveAt = now();
+    await status.publish(state.userId, { isShitting: true, startTime: state.startTime, lastAliveAt: aliveAt });
+    publishedAliveAt = aliveAt;
+  };
+
+  // Where a session left running should be closed, if it should: at its last
+  // heartbeat once those have stopped for longer than the timeout, or at the
+  // maximum length, whichever is earlier
+  const getAutoClose = (timeout: number): { endTime: number; endedBy: SessionEndSource } | null => {
+    const { startTime, lastAliveAt } = state;
+    if (!startTime) return null;
+
+    const maxEndTime = startTime + maxDuration;
+    if (lastAliveAt !== null && now() - lastAliveAt > timeout && lastAliveAt < maxEndTime) {
+      return { endTime: Math.max(lastAliveAt, startTime), endedBy: 'appClosed' };
+    }
+    if (now() > maxEndTime) {
+      return { endTime: maxEndTime, endedBy: 'timedOut' };
+    }
+    return null;
+  };
+
+  // Write the session being ended to the log, then publish that it's over
+  const finishEnding = async () => {
+    const { userId, startTime, endTime, endedBy } = state;
+    if (!userId || !startTime || !endTime || !endedBy) {
+      await setState(IDLE_STATE);
+      return;
+    }
+
+    await status.record(userId, startTime, endTime, endedBy);
+    await status.publish(userId, { isShitting: false, startTime: null, lastAliveAt: null });
+    await setState(IDLE_STATE);
+  };
+
+  const endSession = async (userId: string, endedBy: SessionEndSource, endTime: number = now()) => {
+    if (state.phase === 'idle' || state.userId !== userId) {
+      // Not running here, but it may have been started on another device
+      const remote = await status.getActiveSession(userId);
+      if (!remote) return state;
+
+      await setState({
+        ...IDLE_STATE,
+        phase: 'active',
+        userId,
+        startTime: remote.startTime,
+        lastAliveAt: remote.lastAliveAt,
+      });
+    }
+
+    if (state.phase !== 'ending') {
+      await setState({ ...state, phase: 'ending', endTime, endedBy });
+    }
+
+    try {
+      await finishEnding();
+    } catch (error) {
+      await setState({ ...state, phase: 'active', endTime: null, endedBy: null });
+      throw error;
+    }
+    return state;
+  };
+
+  const restore = async (userId: string) => {
+    if (state.phase === 'idle' || state.userId !== userId) {
+      const saved = await local.load();
+
+      // Anything saved for another account was left behind by it; that
+      // account's own sign in picks its session up from the status store
+      state = saved && saved.userId === userId ? saved : IDLE_STATE;
+      if (saved && saved.userId !== userId) {
+        await local.clear();
+      }
+    }
+
+    // The device's own heartbeat is frequent; one published elsewhere is
+    // only seen every heartbeatInterval, so it's given longer
+    let timeout = closureThreshold;
+    if (state.phase === 'idle') {
+      const remote = await status.getActiveSession(userId);
+      if (!remote) return state;
+
+      await setState({
+        ...IDLE_STATE,
+        phase: 'active',
+        userId,
+        startTime: remote.startTime,
+        lastAliveAt: remote.lastAliveAt,
+      });
+      timeout = heartbeatTimeout;
+    }
+
+    if (state.phase === 'ending') {
+      // The app was killed while ending the session; finish with the end
+      // time it had. If that fails it's tried again on the next launch.
+      try {
+        await finishEnding();
+      } catch (error) {
+        console.error('Error finishing session:', error);
+      }
+      return state;
+    }
+
+    const autoClose = getAutoClose(timeout);
+    if (autoClose) {
+      return endSession(userId, autoClose.endedBy, autoClose.endTime);
+    }
+
+    await setState({ ...state, phase: 'active', lastAliveAt: now() });
+    // Presence resets the status when the app disconnects, so publish it again
+    await publishRunning();
+    return state;
+  };
+
+  const start = async (userId: string) => {
+    if (isRunning() && state.userId === userId) return state;
+
+    if (state.phase !== 'idle') {
+      throw new SessionTransitionError(state.phase, 'active');
+    }
+
+    const startTime = now();
+    // Publish first; if the app is killed before the state is saved,
+    // restore finds the session through the status store
+    await status.publish(userId, { isShitting: true, startTime, lastAliveAt: startTime });
+    publishedAliveAt = startTime;
+    await setState({
+      ...IDLE_STATE,
+      phase: 'active',
+      userId,
+      startTime,
+      lastAliveAt: startTime,
+    });
+
+    onStart?.(userId);
+    return state;
+  };
+
+  const pause = async () => {
+    if (state.phase === 'active') {
+      await setState({ ...state, phase: 'paused', lastAliveAt: now() });
+    }
+    return state;
+  };
+
+  const resume = async () => {
+    if (state.phase !== 'paused' || !state.userId) return state;
+
+    // Away long enough that the app was most likely closed mid-session
+    const autoClose = getAutoClose(closureThreshold);
+    if (autoClose) {
+      return endSession(state.userId, autoClose.endedBy, autoClose.endTime);
+    }
+
+    await setState({ ...state, phase: 'active', lastAliveAt: now() });
+    return state;
+  };
+
+  const heartbeat = async () => {
+    if (state.phase !== 'active' || !state.userId) return state;
+
+    // Reached the maximum length, or the app was suspended without going
+    // to the background
+    const autoClose = getAutoClose(closureThreshold);
+    if (autoClose) {
+      return endSession(state.userId, autoClose.endedBy, autoClose.endTime);
+    }
+
+    await setState({ ...state, lastAliveAt: now() });
+    if (now() - publishedAliveAt >= heartbeatInterval) {
+      await publishRunning();
+    }
+    return state;
+  };
+
+  const syncStatus = async () => {
+    if (isRunning()) {
+      await publishRunning();
+    }
+    return state;
+  };
+
+  const reset = async () => {
+    if (state.phase !== 'idle' && state.userId) {
+      try {
+        await endSession(state.userId, 'logout');
+      } catch (error) {
+        // Signing out goes ahead; the session stays in the status store
+        // and is picked up on the next sign in
+        console.error('Error ending session:', error);
+      }
+    }
+
+    state = IDLE_STATE;
+    await local.clear();
+    listeners.forEach(listener => listener(state));
+    return state;
+  };
+
+  return {
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    restore: (userId) => enqueue(() => restore(userId)),
+    start: (userId) => enqueue(() => start(userId)),
+    end: (userId, endedBy = 'user') => enqueue(() => endSession(userId, endedBy)),
+    pause: () => enqueue(pause),
+    resume: () => enqueue(resume),
+    heartbeat: () => enqueue(heartbeat),
+    syncStatus: () => enqueue(syncStatus),
+    reset: () => enqueue(reset),
+  };
+};
+
+let sessionController: SessionController | null = null;
+
+export const getSessionController = (): SessionController => {
+  if (!sessionController) {
+    sessionController = createSessionController({
+      local: createAsyncStorageSessionStateStore(),
+      status: createFirebaseSessionStatusStore(),
+      onStart: activateWaitingInvites,
+    });
+  }
+  return sessionController;
+};
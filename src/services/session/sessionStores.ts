@@ -0,0 +1,56 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from '../../constants/app';
+import { SessionEndSource, ShitSession } from '../database/sessionService';
+
+// Types
+// idle: no session. active: a session is running with the app open.
+// paused: a session is running with the app in the background. ending: the
+// session is being written to the log; it's kept in this state until that
+// finishes, so an app killed mid-write finishes it on the next launch.
+export type SessionPhase = 'idle' | 'active' | 'paused' | 'ending';
+
+export interface SessionState {
+  phase: SessionPhase;
+  userId: string | null;
+  startTime: number | null; // Epoch ms
+  lastAliveAt: number | null; // The app's last heartbeat during the session
+  endTime: number | null; // Set while ending
+  endedBy: SessionEndSource | null; // Set while ending
+}
+
+// Where the controller keeps its state on the device, so a session survives
+// the app being killed
+export interface SessionStateStore {
+  load: () => Promise<SessionState | null>;
+  save: (state: SessionState) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+// What's published about the user's session. lastAliveAt is the running
+// session's heartbeat, so a session whose app died can be told apart.
+export interface SessionStatus {
+  isShitting: boolean;
+  startTime: number | null;
+  lastAliveAt: number | null;
+}
+
+// Where sessions are published for friends and logged for stats
+export interface SessionStatusStore {
+  // The session the user's profile says is running, e.g. started on another device
+  getActiveSession: (userId: string) => Promise<{ startTime: number; lastAliveAt: number | null } | null>;
+  publish: (userId: string, status: SessionStatus) => Promise<void>;
+  record: (userId: string, startTime: number, endTime: number, endedBy: SessionEndSource) => Promise<ShitSession>;
+}
+
+export const createAsyncStorageSessionStateStore = (): SessionStateStore => ({
+  load: async () => {
+    const stored = await AsyncStorage.getItem(STORAGE_KEYS.SESSION_STATE);
+    return stored ? JSON.parse(stored) : null;
+  },
+  save: async (state) => {
+    await AsyncStorage.setItem(STORAGE_KEYS.SESSION_STATE, JSON.stringify(state));
+  },
+  clear: async () => {
+    await AsyncStorage.removeItem(STORAGE_KEYS.SESSION_STATE);
+  },
+});
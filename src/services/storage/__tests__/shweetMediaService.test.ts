@@ -0,0 +1,153 @@
+import { manipulateAsync } from 'expo-image-manipulator';
+import { Image } from 'expo-image';
+import { LocalMediaStorage, createLocalMediaStorage } from '../mediaStorage';
+import { PickedImage, deleteShweetMedia, setMediaStorage, uploadShweetMedia } from '../shweetMediaService';
+
+// The Firebase backend is swapped out below; mocking it keeps the Firebase
+// config from loading
+jest.mock('../firebaseMediaStorage', () => ({ createFirebaseMediaStorage: jest.fn() }));
+
+jest.mock('expo-image-manipulator', () => ({
+  SaveFormat: { JPEG: 'jpeg' },
+  manipulateAsync: jest.fn(),
+}));
+
+jest.mock('expo-image', () => ({
+  Image: { generateBlurhashAsync: jest.fn() },
+}));
+
+const mockManipulate = manipulateAsync as jest.MockedFunction<typeof manipulateAsync>;
+const mockBlurhash = Image.generateBlurhashAsync as jest.MockedFunction<typeof Image.generateBlurhashAsync>;
+
+const photo = (uri: string, width: number, height: number): PickedImage => ({
+  uri,
+  width,
+  height,
+  mimeType: 'image/jpeg',
+});
+
+let storage: LocalMediaStorage;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+  storage = createLocalMediaStorage();
+  setMediaStorage(storage);
+
+  // Resizing writes a new file with the size asked for
+  mockManipulate.mockImplementation(async (uri, actions = []) => {
+    const resize = actions.find(action => 'resize' in action);
+    const size = resize && 'resize' in resize ? resize.resize : { width: 800, height: 600 };
+    return { uri: `${uri}.resized.jpg`, width: size.width ?? 0, height: size.height ?? 0 };
+  });
+  mockBlurhash.mockResolvedValue('LEHV6nWB2yk8');
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('uploadShweetMedia', () => {
+  it('resizes large photos so the longest side fits', async () => {
+    const [media] = await uploadShweetMedia('user1', [photo('file:///big.jpg', 4000, 3000)]);
+
+    expect(mockManipulate).toHaveBeenCalledWith(
+      'file:///big.jpg',
+      [{ resize: { width: 1600, height: 1200 } }],
+      { compress: 0.7, format: 'jpeg' }
+    );
+    expect(media).toMatchObject({ type: 'image', width: 1600, height: 1200 });
+  });
+
+  it('re-encodes small photos without resizing them', async () => {
+    const [media] = await uploadShweetMedia('user1', [photo('file:///small.png', 800, 600)]);
+
+    expect(mockManipulate).toHaveBeenCalledWith('file:///small.png', [], expect.anything());
+    expect(media).toMatchObject({ width: 800, height: 600 });
+  });
+
+  it('attaches the stored file, dimensions and placeholder to each image, in order', async () => {
+    const media = await uploadShweetMedia('user1', [
+      photo('file:///a.jpg', 3200, 1600),
+      photo('file:///b.jpg', 1000, 2000),
+    ]);
+
+    expect(media).toEqual([
+      {
+        type: 'image',
+        url: 'file:///a.jpg.resized.jpg',
+        path: expect.stringMatching(/^shweets\/user1\/\d+-0\.jpg$/),
+        width: 1600,
+        height: 800,
+        blurhash: 'LEHV6nWB2yk8',
+      },
+      {
+        type: 'image',
+        url: 'file:///b.jpg.resized.jpg',
+        path: expect.stringMatching(/^shweets\/user1\/\d+-1\.jpg$/),
+        width: 800,
+        height: 1600,
+        blurhash: 'LEHV6nWB2yk8',
+      },
+    ]);
+    media.forEach(item => {
+      expect(storage.files.get(item.path)).toEqual({ uri: item.url, contentType: 'image/jpeg' });
+    });
+  });
+
+  it('uploads GIFs as they are', async () => {
+    const gif: PickedImage = { uri: 'file:///dance.gif', width: 480, height: 270, fileSize: 1024 };
+    const [media] = await uploadShweetMedia('user1', [gif]);
+
+    expect(mockManipulate).not.toHaveBeenCalled();
+    expect(media).toMatchObject({ type: 'gif', url: 'file:///dance.gif', width: 480, height: 270 });
+    expect(media.path).toMatch(/\.gif$/);
+    expect(storage.files.get(media.path)?.contentType).toBe('image/gif');
+  });
+
+  it('rejects GIFs over 8 MB', async () => {
+    const gif: PickedImage = { uri: 'file:///huge.gif', width: 480, height: 270, fileSize: 9 * 1024 * 1024 };
+
+    await expect(uploadShweetMedia('user1', [gif])).rejects.toThrow('GIFs can be at most 8 MB.');
+    expect(storage.files.size).toBe(0);
+  });
+
+  it('rejects more than four images', async () => {
+    const images = Array.from({ length: 5 }, (_, i) => photo(`file:///${i}.jpg`, 100, 100));
+
+    await expect(uploadShweetMedia('user1', images)).rejects.toThrow('at most 4 images');
+    expect(mockManipulate).not.toHaveBeenCalled();
+  });
+
+  it('uploads without a placeholder when one cannot be generated', async () => {
+    mockBlurhash.mockRejectedValue(new Error('Unsupported image'));
+
+    const [media] = await uploadShweetMedia('user1', [photo('file:///a.jpg', 100, 100)]);
+    expect(media.blurhash).toBeNull();
+    expect(storage.files.size).toBe(1);
+  });
+
+  it('removes the images already uploaded when a later one fails', async () => {
+    const upload = storage.upload;
+    jest.spyOn(storage, 'upload')
+      .mockImplementationOnce(upload)
+      .mockRejectedValueOnce(new Error('Network error'));
+
+    await expect(uploadShweetMedia('user1', [
+      photo('file:///a.jpg', 100, 100),
+      photo('file:///b.jpg', 100, 100),
+    ])).rejects.toThrow('Network error');
+    expect(storage.files.size).toBe(0);
+  });
+});
+
+describe('deleteShweetMedia', () => {
+  it('removes the files from storage', async () => {
+    const media = await uploadShweetMedia('user1', [photo('file:///a.jpg', 100, 100)]);
+    expect(storage.files.size).toBe(1);
+
+    await deleteShweetMedia(media);
+    expect(storage.files.size).toBe(0);
+  });
+});
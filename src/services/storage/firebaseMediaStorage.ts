@@ -0,0 +1,28 @@
+import { ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
+import { storage } from '../../firebase/config';
+import { MediaStorage } from './mediaStorage';
+
+export const createFirebaseMediaStorage = (): MediaStorage => ({
+  upload: async (path, localUri, contentType) => {
+    try {
+      // React Native reads local files through fetch
+      const response = await fetch(localUri);
+      const blob = await response.blob();
+      
+      const fileRef = ref(storage, path);
+      await uploadBytes(fileRef, blob, { contentType });
+      return await getDownloadURL(fileRef);
+    } catch (error) {
+      console.error('Error uploading media:', error);
+      throw error;
+    }
+  },
+  remove: async (path) => {
+    try {
+      await deleteObject(ref(storage, path));
+    } catch (error) {
+      console.error('Error removing media:', error);
+      throw error;
+    }
+  },
+});
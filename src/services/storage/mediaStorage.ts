@@ -0,0 +1,27 @@
+// Where uploaded media is kept. Firebase Storage backs it in the app, and the
+// local stand-in keeps files in memory so nothing leaves the device.
+export interface MediaStorage {
+  // Upload the file at a local URI and return the URL to display it from
+  upload: (path: string, localUri: string, contentType: string) => Promise<string>;
+  remove: (path: string) => Promise<void>;
+}
+
+export interface LocalMediaStorage extends MediaStorage {
+  files: Map<string, { uri: string; contentType: string }>;
+}
+
+// Keeps uploads in memory and serves them from their local URIs
+export const createLocalMediaStorage = (): LocalMediaStorage => {
+  const files = new Map<string, { uri: string; contentType: string }>();
+
+  return {
+    files,
+    upload: async (path, localUri, contentType) => {
+      files.set(path, { uri: localUri, contentType });
+      return localUri;
+    },
+    remove: async (path) => {
+      files.delete(path);
+    },
+  };
+};
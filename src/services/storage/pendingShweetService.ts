@@ -0,0 +1,192 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from '../../constants/app';
+import { ShweetAuthor, createShweet } from '../database/shweetService';
+import { getUserFriends } from '../database/userService';
+import { parseShweetEntities } from '../../utils/shweetEntities';
+import { PickedImage, uploadShweetMedia } from './shweetMediaService';
+
+// Types
+// Drafts wait until they're posted by hand, scheduled shweets until their
+// time, and session shweets until the user next starts a session
+export type PendingShweetKind = 'draft' | 'scheduled' | 'session';
+
+// A shweet kept on the device until it's published
+export interface PendingShweet {
+  id: string;
+  kind: PendingShweetKind;
+  content: string;
+  attachments: PickedImage[]; // Uploaded when the shweet is published
+  scheduledFor: number | null; // Epoch ms; only set for scheduled shweets
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type PendingShweetInput = Pick<PendingShweet, 'kind' | 'content' | 'attachments' | 'scheduledFor'>;
+
+type PendingShweetsListener = (pendingShweets: PendingShweet[]) => void;
+
+const listeners = new Map<string, Set<PendingShweetsListener>>();
+// Shweets being published right now, so overlapping runs don't post them twice
+const publishing = new Set<string>();
+
+const getStorageKey = (userId: string) => `${STORAGE_KEYS.PENDING_SHWEETS}:${userId}`;
+
+const generateId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+// Scheduled shweets first by time, then session shweets, then drafts
+const KIND_ORDER: Record<PendingShweetKind, number> = { scheduled: 0, session: 1, draft: 2 };
+
+const sortPendingShweets = (pendingShweets: PendingShweet[]): PendingShweet[] =>
+  [...pendingShweets].sort((a, b) =>
+    KIND_ORDER[a.kind] - KIND_ORDER[b.kind] ||
+    (a.scheduledFor || 0) - (b.scheduledFor || 0) ||
+    a.createdAt - b.createdAt
+  );
+
+export const getPendingShweets = async (userId: string): Promise<PendingShweet[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(getStorageKey(userId));
+    return stored ? sortPendingShweets(JSON.parse(stored)) : [];
+  } catch (error) {
+    console.error('Error getting pending shweets:', error);
+    throw error;
+  }
+};
+
+const writePendingShweets = async (userId: string, pendingShweets: PendingShweet[]): Promise<void> => {
+  const sorted = sortPendingShweets(pendingShweets);
+  await AsyncStorage.setItem(getStorageKey(userId), JSON.stringify(sorted));
+  listeners.get(userId)?.forEach(listener => listener(sorted));
+};
+
+// Save a new pending shweet, or update the one with the given ID
+export const savePendingShweet = async (
+  userId: string,
+  input: PendingShweetInput,
+  id?: string
+): Promise<PendingShweet> => {
+  try {
+    if (input.kind === 'scheduled' && !input.scheduledFor) {
+      throw new Error('Pick a time to schedule the shweet for');
+    }
+
+    const pendingShweets = await getPendingShweets(userId);
+    const existing = id ? pendingShweets.find(pending => pending.id === id) : undefined;
+    const now = Date.now();
+    const saved: PendingShweet = {
+      ...input,
+      scheduledFor: input.kind === 'scheduled' ? input.scheduledFor : null,
+      id: existing?.id || generateId(),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+
+    await writePendingShweets(userId, [
+      ...pendingShweets.filter(pending => pending.id !== saved.id),
+      saved,
+    ]);
+    return saved;
+  } catch (error) {
+    console.error('Error saving pending shweet:', error);
+    throw error;
+  }
+};
+
+export const removePendingShweet = async (userId: string, id: string): Promise<void> => {
+  try {
+    const pendingShweets = await getPendingShweets(userId);
+    await writePendingShweets(userId, pendingShweets.filter(pending => pending.id !== id));
+  } catch (error) {
+    console.error('Error removing pending shweet:', error);
+    throw error;
+  }
+};
+
+// Follow the user's pending shweets as they're saved, edited and published
+export const subscribeToPendingShweets = (
+  userId: string,
+  onPendingShweetsUpdate: PendingShweetsListener
+): () => void => {
+  const userListeners = listeners.get(userId) || new Set<PendingShweetsListener>();
+  userListeners.add(onPendingShweetsUpdate);
+  listeners.set(userId, userListeners);
+
+  getPendingShweets(userId)
+    .then(pendingShweets => {
+      if (userListeners.has(onPendingShweetsUpdate)) onPendingShweetsUpdate(pendingShweets);
+    })
+    .catch(() => onPendingShweetsUpdate([]));
+
+  return () => {
+    userListeners.delete(onPendingShweetsUpdate);
+  };
+};
+
+// Publish the given pending shweets one at a time, removing each once it's
+// posted. A shweet that fails stays pending and is tried again next time.
+// Resolves with the number published.
+const publishPendingShweets = async (
+  author: ShweetAuthor,
+  pendingShweets: PendingShweet[]
+): Promise<number> => {
+  const toPublish = pendingShweets.filter(pending => !publishing.has(pending.id));
+  if (!toPublish.length) return 0;
+
+  toPublish.forEach(pending => publishing.add(pending.id));
+  try {
+    const friends = await getUserFriends(author.authorId);
+    const mentionCandidates = friends
+      .filter(friend => friend.displayName)
+      .map(friend => ({ uid: friend.uid, displayName: friend.displayName! }));
+
+    let published = 0;
+    for (const pending of toPublish) {
+      try {
+        const media = await uploadShweetMedia(author.authorId, pending.attachments);
+        await createShweet({
+          ...author,
+          content: pending.content,
+          timestamp: new Date(),
+          comments: 0,
+          entities: parseShweetEntities(pending.content, mentionCandidates),
+          media,
+        });
+        await removePendingShweet(author.authorId, pending.id);
+        published++;
+      } catch (error) {
+        console.error('Error publishing pending shweet:', error);
+      }
+    }
+    return published;
+  } finally {
+    toPublish.forEach(pending => publishing.delete(pending.id));
+  }
+};
+
+// Publish scheduled shweets whose time has come
+export const publishDueShweets = async (author: ShweetAuthor, now = Date.now()): Promise<number> => {
+  try {
+    const pendingShweets = await getPendingShweets(author.authorId);
+    return await publishPendingShweets(author, pendingShweets.filter(pending =>
+      pending.kind === 'scheduled' && pending.scheduledFor !== null && pending.scheduledFor <= now
+    ));
+  } catch (error) {
+    console.error('Error publishing scheduled shweets:', error);
+    throw error;
+  }
+};
+
+// Publish the shweets queued for the user's next session. They're posted
+// from the toilet, since the session has just started.
+export const publishSessionShweets = async (author: Omit<ShweetAuthor, 'isFromToilet'>): Promise<number> => {
+  try {
+    const pendingShweets = await getPendingShweets(author.authorId);
+    return await publishPendingShweets(
+      { ...author, isFromToilet: true },
+      pendingShweets.filter(pending => pending.kind === 'session')
+    );
+  } catch (error) {
+    console.error('Error publishing session shweets:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,124 @@
+import { manipulateAsync, SaveFormat } from 'expo-image-manipulator';
+import { Image } from 'expo-image';
+import { MediaStorage } from './mediaStorage';
+import { createFirebaseMediaStorage } from './firebaseMediaStorage';
+
+// Types
+export type ShweetMediaType = 'image' | 'gif';
+
+export interface ShweetMedia {
+  type: ShweetMediaType;
+  url: string;
+  path: string; // Where the file is kept in storage, for deleting it
+  width: number;
+  height: number;
+  blurhash: string | null; // Placeholder shown while the image loads
+}
+
+// An image picked on the device, before it is uploaded
+export interface PickedImage {
+  uri: string;
+  width: number;
+  height: number;
+  mimeType?: string;
+  fileSize?: number;
+}
+
+export const MAX_SHWEET_MEDIA = 4;
+const MAX_IMAGE_DIMENSION = 1600;
+const IMAGE_COMPRESSION = 0.7;
+// GIFs are uploaded as they are, since resizing would drop the animation
+const MAX_GIF_SIZE = 8 * 1024 * 1024;
+const BLURHASH_COMPONENTS: [number, number] = [4, 3];
+
+let mediaStorage: MediaStorage | null = null;
+
+// Swap the storage backend, e.g. for a local stand-in
+export const setMediaStorage = (storage: MediaStorage): void => {
+  mediaStorage = storage;
+};
+
+const getMediaStorage = (): MediaStorage => {
+  if (!mediaStorage) {
+    mediaStorage = createFirebaseMediaStorage();
+  }
+  return mediaStorage;
+};
+
+const isGif = (image: PickedImage) =>
+  image.mimeType === 'image/gif' || image.uri.toLowerCase().endsWith('.gif');
+
+// Shrink the image so its longest side fits and re-encode it as JPEG
+const resizeImage = async (image: PickedImage): Promise<PickedImage> => {
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(image.width, image.height));
+  const actions = scale < 1
+    ? [{ resize: { width: Math.round(image.width * scale), height: Math.round(image.height * scale) } }]
+    : [];
+
+  const result = await manipulateAsync(image.uri, actions, {
+    compress: IMAGE_COMPRESSION,
+    format: SaveFormat.JPEG,
+  });
+
+  return { uri: result.uri, width: result.width, height: result.height, mimeType: 'image/jpeg' };
+};
+
+// A missing placeholder only means a plain background while loading
+const getBlurhash = async (uri: string): Promise<string | null> => {
+  try {
+    return await Image.generateBlurhashAsync(uri, BLURHASH_COMPONENTS);
+  } catch (error) {
+    console.error('Error generating blurhash:', error);
+    return null;
+  }
+};
+
+const uploadImage = async (userId: string, image: PickedImage, index: number): Promise<ShweetMedia> => {
+  const gif = isGif(image);
+  if (gif && image.fileSize && image.fileSize > MAX_GIF_SIZE) {
+    throw new Error('GIFs can be at most 8 MB.');
+  }
+
+  const prepared = gif ? image : await resizeImage(image);
+  const blurhash = await getBlurhash(prepared.uri);
+  const path = `shweets/${userId}/${Date.now()}-${index}.${gif ? 'gif' : 'jpg'}`;
+  const url = await getMediaStorage().upload(path, prepared.uri, gif ? 'image/gif' : 'image/jpeg');
+
+  return {
+    type: gif ? 'gif' : 'image',
+    url,
+    path,
+    width: prepared.width,
+    height: prepared.height,
+    blurhash,
+  };
+};
+
+// Resize, compress and upload a shweet's images, in order
+export const uploadShweetMedia = async (userId: string, images: PickedImage[]): Promise<ShweetMedia[]> => {
+  if (images.length > MAX_SHWEET_MEDIA) {
+    throw new Error(`A shweet can have at most ${MAX_SHWEET_MEDIA} images.`);
+  }
+
+  const uploaded: ShweetMedia[] = [];
+  try {
+    for (let i = 0; i < images.length; i++) {
+      uploaded.push(await uploadImage(userId, images[i], i));
+    }
+    return uploaded;
+  } catch (error) {
+    console.error('Error uploading shweet media:', error);
+    // Don't leave half a shweet's images behind
+    await deleteShweetMedia(uploaded);
+    throw error;
+  }
+};
+
+// Best effort: a file left behind in storage is not worth failing over
+export const deleteShweetMedia = async (media: ShweetMedia[]): Promise<void> => {
+  await Promise.all(media.map(item =>
+    getMediaStorage().remove(item.path).catch(error => {
+      console.error('Error deleting shweet media:', error);
+    })
+  ));
+};
@@ -0,0 +1,112 @@
+import { StatsSession, getDurationHistogram, getStreaks, getWeekOverWeek } from '../sessionStats';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Fixtures are built in local time, like the stats themselves, and in June so
+// no daylight saving change falls inside them
+const at = (day: number, hour = 9): number => new Date(2024, 5, day, hour).getTime();
+
+const session = (startTime: number, duration = 5 * MINUTE, counted = true): StatsSession => ({
+  startTime,
+  duration,
+  counted,
+});
+
+describe('getStreaks', () => {
+  // Days 1–3 in a row, a gap on the 4th, then 5–6, with two sessions on the 2nd
+  const sessions = [
+    session(at(1)),
+    session(at(2, 8)),
+    session(at(2, 20)),
+    session(at(3)),
+    session(at(5)),
+    session(at(6)),
+  ];
+
+  it('counts consecutive days once each', () => {
+    expect(getStreaks(sessions, at(6, 22))).toEqual({ current: 2, longest: 3 });
+  });
+
+  it('keeps the current streak through the day after the last session', () => {
+    expect(getStreaks(sessions, at(7, 22)).current).toBe(2);
+    expect(getStreaks(sessions, at(8)).current).toBe(0);
+  });
+
+  it('ignores sessions that did not count', () => {
+    const withUncounted = [...sessions, session(at(4), MINUTE, false)];
+    expect(getStreaks(withUncounted, at(6))).toEqual({ current: 2, longest: 3 });
+  });
+
+  it('is zero without sessions', () => {
+    expect(getStreaks([], at(6))).toEqual({ current: 0, longest: 0 });
+  });
+});
+
+describe('getDurationHistogram', () => {
+  const countsByLabel = (sessions: StatsSession[]) =>
+    Object.fromEntries(getDurationHistogram(sessions).map(bucket => [bucket.label, bucket.count]));
+
+  it('buckets durations with inclusive lower and exclusive upper edges', () => {
+    const sessions = [
+      session(at(1), 2 * MINUTE),
+      session(at(1), 5 * MINUTE - 1),
+      session(at(1), 5 * MINUTE),
+      session(at(1), 29 * MINUTE),
+      session(at(1), 30 * MINUTE),
+      session(at(1), 90 * MINUTE),
+    ];
+
+    expect(countsByLabel(sessions)).toEqual({
+      '2–5m': 2,
+      '5–10m': 1,
+      '10–15m': 0,
+      '15–20m': 0,
+      '20–30m': 1,
+      '30m+': 2,
+    });
+  });
+
+  it('leaves out uncounted sessions', () => {
+    const counts = countsByLabel([session(at(1), MINUTE, false), session(at(1), 3 * MINUTE, false)]);
+    expect(Object.values(counts).every(count => count === 0)).toBe(true);
+  });
+
+  it('leaves the last bucket open-ended', () => {
+    const buckets = getDurationHistogram([]);
+    expect(buckets[buckets.length - 1]).toMatchObject({ min: 30 * MINUTE, max: null });
+  });
+});
+
+describe('getWeekOverWeek', () => {
+  const now = at(15, 12);
+
+  it('compares the last 7 days with the 7 before them', () => {
+    const sessions = [
+      session(now - DAY, 4 * MINUTE),
+      session(now - 2 * DAY, 8 * MINUTE),
+      session(now - 8 * DAY, 12 * MINUTE),
+    ];
+
+    expect(getWeekOverWeek(sessions, now)).toEqual({
+      count: { current: 2, previous: 1, direction: 'up' },
+      totalDuration: { current: 12 * MINUTE, previous: 12 * MINUTE, direction: 'flat' },
+      averageDuration: { current: 6 * MINUTE, previous: 12 * MINUTE, direction: 'down' },
+    });
+  });
+
+  it('puts a session exactly a week old in the previous week', () => {
+    const { count } = getWeekOverWeek([session(now - 7 * DAY)], now);
+    expect(count).toEqual({ current: 0, previous: 1, direction: 'down' });
+  });
+
+  it('ignores sessions older than two weeks and uncounted ones', () => {
+    const sessions = [session(now - 15 * DAY), session(now - DAY, MINUTE, false)];
+    expect(getWeekOverWeek(sessions, now).count).toEqual({ current: 0, previous: 0, direction: 'flat' });
+  });
+
+  it('has a zero average for a week without sessions', () => {
+    const { averageDuration } = getWeekOverWeek([session(now - DAY, 6 * MINUTE)], now);
+    expect(averageDuration).toEqual({ current: 6 * MINUTE, previous: 0, direction: 'up' });
+  });
+});
@@ -0,0 +1,222 @@
+// FEN and PGN serialization for positions from the chess rules engine, so games
+// can be opened in desktop tools and puzzle positions can be set up from them.
+import {
+  ChessBoard,
+  ChessPosition,
+  algebraicToSquare,
+  createInitialPosition,
+  isInCheck,
+  oppositeColor,
+  squareToAlgebraic
+} from './chessRules';
+
+export const STARTING_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+export interface PgnHeaders {
+  event?: string;
+  site?: string;
+  date?: Date;
+  round?: string;
+  white: string;
+  black: string;
+  result: '1-0' | '0-1' | '1/2-1/2' | '*';
+  termination?: string;
+}
+
+// Position -> FEN
+export const positionToFen = (position: ChessPosition): string => {
+  const ranks: string[] = [];
+
+  for (let row = 0; row < 8; row++) {
+    let rank = '';
+    let empty = 0;
+    for (let col = 0; col < 8; col++) {
+      const piece = position.board[`${row},${col}`];
+      if (piece) {
+        if (empty > 0) {
+          rank += empty;
+          empty = 0;
+        }
+        rank += piece;
+      } else {
+        empty++;
+      }
+    }
+    ranks.push(empty > 0 ? rank + empty : rank);
+  }
+
+  const rights = position.castlingRights;
+  const castling = [
+    rights.whiteKingside ? 'K' : '',
+    rights.whiteQueenside ? 'Q' : '',
+    rights.blackKingside ? 'k' : '',
+    rights.blackQueenside ? 'q' : ''
+  ].join('') || '-';
+
+  return [
+    ranks.join('/'),
+    position.turn === 'white' ? 'w' : 'b',
+    castling,
+    position.enPassantSquare ? squareToAlgebraic(position.enPassantSquare) : '-',
+    position.halfmoveClock,
+    position.fullmoveNumber
+  ].join(' ');
+};
+
+// FEN -> position. Throws if the FEN is malformed or describes an impossible position.
+export const fenToPosition = (fen: string): ChessPosition => {
+  const fields = fen.trim().split(/\s+/);
+  if (fields.length < 4 || fields.length > 6) {
+    throw new Error('Invalid FEN: expected 4 to 6 fields');
+  }
+
+  const [placement, turn, castling, enPassant, halfmove = '0', fullmove = '1'] = fields;
+
+  const ranks = placement.split('/');
+  if (ranks.length !== 8) {
+    throw new Error('Invalid FEN: expected 8 ranks');
+  }
+
+  const board: ChessBoard = {};
+  ranks.forEach((rank, row) => {
+    const rankError = `Invalid FEN: rank ${8 - row} does not have 8 squares`;
+    let col = 0;
+    for (const char of rank) {
+      if (/[1-8]/.test(char)) {
+        col += Number(char);
+      } else if (/[prnbqkPRNBQK]/.test(char)) {
+        if (col > 7) {
+          throw new Error(rankError);
+        }
+        board[`${row},${col}`] = char;
+        col++;
+      } else {
+        throw new Error(`Invalid FEN: unexpected character "${char}"`);
+      }
+      // Too many squares, whether from pieces or empty-square counts
+      if (col > 8) {
+        throw new Error(rankError);
+      }
+    }
+    if (col !== 8) {
+      throw new Error(rankError);
+    }
+  });
+
+  const pieces = Object.values(board);
+  if (pieces.filter(piece => piece === 'K').length !== 1 || pieces.filter(piece => piece === 'k').length !== 1) {
+    throw new Error('Invalid FEN: each side needs exactly one king');
+  }
+
+  if (Object.keys(board).some(key => board[key].toLowerCase() === 'p' && (key.startsWith('0,') || key.startsWith('7,')))) {
+    throw new Error('Invalid FEN: pawns cannot stand on the first or last rank');
+  }
+
+  if (turn !== 'w' && turn !== 'b') {
+    throw new Error('Invalid FEN: side to move must be "w" or "b"');
+  }
+
+  if (!/^(-|K?Q?k?q?)$/.test(castling)) {
+    throw new Error('Invalid FEN: bad castling field');
+  }
+
+  let enPassantSquare = null;
+  if (enPassant !== '-') {
+    enPassantSquare = algebraicToSquare(enPassant);
+    if (!enPassantSquare || (enPassantSquare[0] !== 2 && enPassantSquare[0] !== 5)) {
+      throw new Error('Invalid FEN: bad en passant square');
+    }
+  }
+
+  const halfmoveClock = Number(halfmove);
+  const fullmoveNumber = Number(fullmove);
+  if (!Number.isInteger(halfmoveClock) || halfmoveClock < 0 || !Number.isInteger(fullmoveNumber) || fullmoveNumber < 1) {
+    throw new Error('Invalid FEN: bad move counters');
+  }
+
+  // Rights only survive if the king and rook are actually on their home squares
+  const position: ChessPosition = {
+    board,
+    turn: turn === 'w' ? 'white' : 'black',
+    castlingRights: {
+      whiteKingside: castling.includes('K') && board['7,4'] === 'K' && board['7,7'] === 'R',
+      whiteQueenside: castling.includes('Q') && board['7,4'] === 'K' && board['7,0'] === 'R',
+      blackKingside: castling.includes('k') && board['0,4'] === 'k' && board['0,7'] === 'r',
+      blackQueenside: castling.includes('q') && board['0,4'] === 'k' && board['0,0'] === 'r'
+    },
+    enPassantSquare,
+    halfmoveClock,
+    fullmoveNumber
+  };
+
+  if (isInCheck(position, oppositeColor(position.turn))) {
+    throw new Error('Invalid FEN: the side not to move is in check');
+  }
+
+  return position;
+};
+
+const formatPgnDate = (date?: Date): string => {
+  if (!date) return '????.??.??';
+  const pad = (value: number) => (value < 10 ? `0${value}` : `${value}`);
+  return `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())}`;
+};
+
+const escapeTagValue = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+// SAN move list -> PGN. Pass the starting FEN when the game did not begin
+// from the standard position.
+export const toPgn = (moves: string[], headers: PgnHeaders, initialFen?: string): string => {
+  const start = initialFen ? fenToPosition(initialFen) : createInitialPosition();
+
+  const tags: [string, string][] = [
+    ['Event', headers.event || 'Toilet Chess'],
+    ['Site', headers.site || 'ShitApp'],
+    ['Date', formatPgnDate(headers.date)],
+    ['Round', headers.round || '-'],
+    ['White', headers.white],
+    ['Black', headers.black],
+    ['Result', headers.result]
+  ];
+
+  if (initialFen && initialFen !== STARTING_FEN) {
+    tags.push(['SetUp', '1'], ['FEN', initialFen]);
+  }
+
+  if (headers.termination) {
+    tags.push(['Termination', headers.termination]);
+  }
+
+  // Move text with numbers, starting from the position's move number and side
+  const tokens: string[] = [];
+  let moveNumber = start.fullmoveNumber;
+  let whiteToMove = start.turn === 'white';
+
+  moves.forEach((san, index) => {
+    if (whiteToMove) {
+      tokens.push(`${moveNumber}.`);
+    } else if (index === 0) {
+      tokens.push(`${moveNumber}...`);
+    }
+    tokens.push(san);
+    if (!whiteToMove) moveNumber++;
+    whiteToMove = !whiteToMove;
+  });
+  tokens.push(headers.result);
+
+  // Wrap move text at 80 columns as the PGN export format recommends
+  const lines: string[] = [];
+  let line = '';
+  tokens.forEach(token => {
+    if (line && line.length + token.length + 1 > 80) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  });
+  if (line) lines.push(line);
+
+  const tagSection = tags.map(([name, value]) => `[${name} "${escapeTagValue(value)}"]`).join('\n');
+  return `${tagSection}\n\n${lines.join('\n')}\n`;
+};
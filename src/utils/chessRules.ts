@@ -0,0 +1,568 @@
+// Pure chess rules: legal move generation, move application and game outcomes.
+// Board coordinates follow the stored game format: row 0 is rank 8 (black's
+// back rank), col 0 is the a-file. White pieces are uppercase, black lowercase.
+
+// Types
+export type ChessColor = 'white' | 'black';
+export type Square = [number, number];
+export type PromotionPiece = 'q' | 'r' | 'b' | 'n';
+
+export interface ChessBoard {
+  [position: string]: string; // "row,col" -> piece
+}
+
+export interface CastlingRights {
+  whiteKingside: boolean;
+  whiteQueenside: boolean;
+  blackKingside: boolean;
+  blackQueenside: boolean;
+}
+
+export interface ChessPosition {
+  board: ChessBoard;
+  turn: ChessColor;
+  castlingRights: CastlingRights;
+  enPassantSquare: Square | null; // Square a pawn can capture onto en passant
+  halfmoveClock: number;          // Half-moves since the last capture or pawn move
+  fullmoveNumber: number;
+}
+
+export interface ChessMoveInput {
+  from: Square;
+  to: Square;
+  promotion?: PromotionPiece;
+}
+
+export interface ChessMove extends ChessMoveInput {
+  piece: string;
+  captured?: string;
+  enPassant?: boolean;
+  castling?: 'kingside' | 'queenside';
+}
+
+export interface AppliedChessMove extends ChessMove {
+  san: string; // Standard algebraic notation, e.g. "Nxf3+"
+}
+
+export type ChessOutcome =
+  | { result: 'checkmate'; winner: ChessColor }
+  | { result: 'stalemate' | 'insufficientMaterial' | 'fiftyMove' | 'threefoldRepetition' };
+
+const BACK_RANK_PIECES = ['r', 'n', 'b', 'q', 'k', 'b', 'n', 'r'];
+export const PROMOTION_PIECES: PromotionPiece[] = ['q', 'r', 'b', 'n'];
+
+const KNIGHT_OFFSETS: Square[] = [
+  [-2, -1], [-2, 1], [-1, -2], [-1, 2],
+  [1, -2], [1, 2], [2, -1], [2, 1]
+];
+const KING_OFFSETS: Square[] = [
+  [-1, -1], [-1, 0], [-1, 1],
+  [0, -1], [0, 1],
+  [1, -1], [1, 0], [1, 1]
+];
+const ROOK_DIRECTIONS: Square[] = [[0, 1], [1, 0], [0, -1], [-1, 0]];
+const BISHOP_DIRECTIONS: Square[] = [[1, 1], [1, -1], [-1, 1], [-1, -1]];
+
+// Square helpers
+export const squareKey = ([row, col]: Square): string => `${row},${col}`;
+
+export const parseSquareKey = (key: string): Square => {
+  const [row, col] = key.split(',').map(Number);
+  return [row, col];
+};
+
+export const squareToAlgebraic = ([row, col]: Square): string =>
+  `${String.fromCharCode(97 + col)}${8 - row}`;
+
+export const algebraicToSquare = (name: string): Square | null => {
+  if (!/^[a-h][1-8]$/.test(name)) return null;
+  return [8 - Number(name[1]), name.charCodeAt(0) - 97];
+};
+
+const isOnBoard = (row: number, col: number) => row >= 0 && row < 8 && col >= 0 && col < 8;
+
+export const getPieceColor = (piece: string): ChessColor =>
+  piece === piece.toUpperCase() ? 'white' : 'black';
+
+export const oppositeColor = (color: ChessColor): ChessColor =>
+  color === 'white' ? 'black' : 'white';
+
+const getPiece = (board: ChessBoard, row: number, col: number): string =>
+  board[`${row},${col}`] || '';
+
+// Initial position
+export const createInitialBoard = (): ChessBoard => {
+  const board: ChessBoard = {};
+  for (let col = 0; col < 8; col++) {
+    board[`0,${col}`] = BACK_RANK_PIECES[col];
+    board[`1,${col}`] = 'p';
+    board[`6,${col}`] = 'P';
+    board[`7,${col}`] = BACK_RANK_PIECES[col].toUpperCase();
+  }
+  return board;
+};
+
+export const createInitialPosition = (): ChessPosition => ({
+  board: createInitialBoard(),
+  turn: 'white',
+  castlingRights: {
+    whiteKingside: true,
+    whiteQueenside: true,
+    blackKingside: true,
+    blackQueenside: true
+  },
+  enPassantSquare: null,
+  halfmoveClock: 0,
+  fullmoveNumber: 1
+});
+
+// Infer castling rights from piece placement, for games stored before rights were tracked
+export const inferCastlingRights = (board: ChessBoard): CastlingRights => ({
+  whiteKingside: board['7,4'] === 'K' && board['7,7'] === 'R',
+  whiteQueenside: board['7,4'] === 'K' && board['7,0'] === 'R',
+  blackKingside: board['0,4'] === 'k' && board['0,7'] === 'r',
+  blackQueenside: board['0,4'] === 'k' && board['0,0'] === 'r'
+});
+
+// Attack detection
+export const isSquareAttacked = (board: ChessBoard, [row, col]: Square, byColor: ChessColor): boolean => {
+  const isAttacker = (piece: string, type: string) =>
+    !!piece && piece.toLowerCase() === type && getPieceColor(piece) === byColor;
+
+  // Pawns attack diagonally towards the opponent
+  const pawnRow = byColor === 'white' ? row + 1 : row - 1;
+  if (isAttacker(getPiece(board, pawnRow, col - 1), 'p') || isAttacker(getPiece(board, pawnRow, col + 1), 'p')) {
+    return true;
+  }
+
+  for (const [dr, dc] of KNIGHT_OFFSETS) {
+    if (isAttacker(getPiece(board, row + dr, col + dc), 'n')) return true;
+  }
+
+  for (const [dr, dc] of KING_OFFSETS) {
+    if (isAttacker(getPiece(board, row + dr, col + dc), 'k')) return true;
+  }
+
+  const slides = (directions: Square[], types: string[]) =>
+    directions.some(([dr, dc]) => {
+      let r = row + dr;
+      let c = col + dc;
+      while (isOnBoard(r, c)) {
+        const piece = getPiece(board, r, c);
+        if (piece) {
+          return getPieceColor(piece) === byColor && types.includes(piece.toLowerCase());
+        }
+        r += dr;
+        c += dc;
+      }
+      return false;
+    });
+
+  return slides(ROOK_DIRECTIONS, ['r', 'q']) || slides(BISHOP_DIRECTIONS, ['b', 'q']);
+};
+
+const findKing = (board: ChessBoard, color: ChessColor): Square | null => {
+  const king = color === 'white' ? 'K' : 'k';
+  const key = Object.keys(board).find(position => board[position] === king);
+  return key ? parseSquareKey(key) : null;
+};
+
+export const isInCheck = (position: ChessPosition, color: ChessColor = position.turn): boolean => {
+  const kingSquare = findKing(position.board, color);
+  return !!kingSquare && isSquareAttacked(position.board, kingSquare, oppositeColor(color));
+};
+
+// Move generation without considering whether the mover's king is left in check
+const getPseudoLegalMoves = (position: ChessPosition, [row, col]: Square): ChessMove[] => {
+  const { board } = position;
+  const piece = getPiece(board, row, col);
+  if (!piece) return [];
+
+  const color = getPieceColor(piece);
+  const moves: ChessMove[] = [];
+
+  const addMove = (toRow: number, toCol: number) => {
+    const target = getPiece(board, toRow, toCol);
+    moves.push({
+      from: [row, col],
+      to: [toRow, toCol],
+      piece,
+      ...(target ? { captured: target } : {})
+    });
+  };
+
+  const canLandOn = (r: number, c: number) => {
+    if (!isOnBoard(r, c)) return false;
+    const target = getPiece(board, r, c);
+    return !target || getPieceColor(target) !== color;
+  };
+
+  const addSlidingMoves = (directions: Square[]) => {
+    directions.forEach(([dr, dc]) => {
+      let r = row + dr;
+      let c = col + dc;
+      while (canLandOn(r, c)) {
+        addMove(r, c);
+        if (getPiece(board, r, c)) break;
+        r += dr;
+        c += dc;
+      }
+    });
+  };
+
+  switch (piece.toLowerCase()) {
+    case 'p': {
+      const direction = color === 'white' ? -1 : 1;
+      const startRow = color === 'white' ? 6 : 1;
+      const lastRow = color === 'white' ? 0 : 7;
+
+      const addPawnMove = (toRow: number, toCol: number, extra: Partial<ChessMove> = {}) => {
+        const target = getPiece(board, toRow, toCol);
+        const base: ChessMove = {
+          from: [row, col],
+          to: [toRow, toCol],
+          piece,
+          ...(target ? { captured: target } : {}),
+          ...extra
+        };
+        if (toRow === lastRow) {
+          PROMOTION_PIECES.forEach(promotion => moves.push({ ...base, promotion }));
+        } else {
+          moves.push(base);
+        }
+      };
+
+      // Forward pushes
+      if (isOnBoard(row + direction, col) && !getPiece(board, row + direction, col)) {
+        addPawnMove(row + direction, col);
+        if (row === startRow && !getPiece(board, row + direction * 2, col)) {
+          addPawnMove(row + direction * 2, col);
+        }
+      }
+
+      // Diagonal captures, including en passant
+      [-1, 1].forEach(dc => {
+        const toRow = row + direction;
+        const toCol = col + dc;
+        if (!isOnBoard(toRow, toCol)) return;
+
+        const target = getPiece(board, toRow, toCol);
+        if (target && getPieceColor(target) !== color) {
+          addPawnMove(toRow, toCol);
+        } else if (
+          !target &&
+          position.enPassantSquare &&
+          position.enPassantSquare[0] === toRow &&
+          position.enPassantSquare[1] === toCol
+        ) {
+          addPawnMove(toRow, toCol, {
+            captured: getPiece(board, row, toCol),
+            enPassant: true
+          });
+        }
+      });
+      break;
+    }
+
+    case 'n':
+      KNIGHT_OFFSETS.forEach(([dr, dc]) => {
+        if (canLandOn(row + dr, col + dc)) addMove(row + dr, col + dc);
+      });
+      break;
+
+    case 'b':
+      addSlidingMoves(BISHOP_DIRECTIONS);
+      break;
+
+    case 'r':
+      addSlidingMoves(ROOK_DIRECTIONS);
+      break;
+
+    case 'q':
+      addSlidingMoves([...ROOK_DIRECTIONS, ...BISHOP_DIRECTIONS]);
+      break;
+
+    case 'k': {
+      KING_OFFSETS.forEach(([dr, dc]) => {
+        if (canLandOn(row + dr, col + dc)) addMove(row + dr, col + dc);
+      });
+
+      // Castling: rights intact, path empty, and the king never crosses an attacked square
+      const homeRow = color === 'white' ? 7 : 0;
+      const rook = color === 'white' ? 'R' : 'r';
+      const opponent = oppositeColor(color);
+      const rights = position.castlingRights;
+      const canKingside = color === 'white' ? rights.whiteKingside : rights.blackKingside;
+      const canQueenside = color === 'white' ? rights.whiteQueenside : rights.blackQueenside;
+
+      if (row !== homeRow || col !== 4 || isSquareAttacked(board, [row, col], opponent)) break;
+
+      if (
+        canKingside &&
+        getPiece(board, homeRow, 7) === rook &&
+        !getPiece(board, homeRow, 5) &&
+        !getPiece(board, homeRow, 6) &&
+        !isSquareAttacked(board, [homeRow, 5], opponent) &&
+        !isSquareAttacked(board, [homeRow, 6], opponent)
+      ) {
+        moves.push({ from: [row, col], to: [homeRow, 6], piece, castling: 'kingside' });
+      }
+
+      if (
+        canQueenside &&
+        getPiece(board, homeRow, 0) === rook &&
+        !getPiece(board, homeRow, 1) &&
+        !getPiece(board, homeRow, 2) &&
+        !getPiece(board, homeRow, 3) &&
+        !isSquareAttacked(board, [homeRow, 3], opponent) &&
+        !isSquareAttacked(board, [homeRow, 2], opponent)
+      ) {
+        moves.push({ from: [row, col], to: [homeRow, 2], piece, castling: 'queenside' });
+      }
+      break;
+    }
+  }
+
+  return moves;
+};
+
+// Board after a move, without any legality checks
+const movePieces = (board: ChessBoard, move: ChessMove): ChessBoard => {
+  const newBoard = { ...board };
+  const [fromRow, fromCol] = move.from;
+  const [toRow, toCol] = move.to;
+
+  delete newBoard[squareKey(move.from)];
+
+  if (move.enPassant) {
+    delete newBoard[`${fromRow},${toCol}`];
+  }
+
+  if (move.castling) {
+    const rookFromCol = move.castling === 'kingside' ? 7 : 0;
+    const rookToCol = move.castling === 'kingside' ? 5 : 3;
+    newBoard[`${fromRow},${rookToCol}`] = newBoard[`${fromRow},${rookFromCol}`];
+    delete newBoard[`${fromRow},${rookFromCol}`];
+  }
+
+  const isWhite = getPieceColor(move.piece) === 'white';
+  newBoard[`${toRow},${toCol}`] = move.promotion
+    ? (isWhite ? move.promotion.toUpperCase() : move.promotion)
+    : move.piece;
+
+  return newBoard;
+};
+
+// Legal moves for the side to move, optionally restricted to one square
+export const getLegalMoves = (position: ChessPosition, from?: Square): ChessMove[] => {
+  const squares = from
+    ? [from]
+    : Object.keys(position.board)
+        .filter(key => getPieceColor(position.board[key]) === position.turn)
+        .map(parseSquareKey);
+
+  const legalMoves: ChessMove[] = [];
+
+  for (const square of squares) {
+    const piece = getPiece(position.board, square[0], square[1]);
+    if (!piece || getPieceColor(piece) !== position.turn) continue;
+
+    for (const move of getPseudoLegalMoves(position, square)) {
+      const board = movePieces(position.board, move);
+      const kingSquare = findKing(board, position.turn);
+      if (kingSquare && !isSquareAttacked(board, kingSquare, oppositeColor(position.turn))) {
+        legalMoves.push(move);
+      }
+    }
+  }
+
+  return legalMoves;
+};
+
+const isSameSquare = (a: Square, b: Square) => a[0] === b[0] && a[1] === b[1];
+
+// Standard algebraic notation for a legal move, suffix included
+const toSan = (position: ChessPosition, move: ChessMove, next: ChessPosition): string => {
+  let san: string;
+
+  if (move.castling) {
+    san = move.castling === 'kingside' ? 'O-O' : 'O-O-O';
+  } else {
+    const type = move.piece.toLowerCase();
+    const destination = squareToAlgebraic(move.to);
+
+    if (type === 'p') {
+      san = move.captured
+        ? `${squareToAlgebraic(move.from)[0]}x${destination}`
+        : destination;
+      if (move.promotion) {
+        san += `=${move.promotion.toUpperCase()}`;
+      }
+    } else {
+      // Disambiguate when another piece of the same type can reach the same square
+      const rivals = getLegalMoves(position).filter(other =>
+        other.piece === move.piece &&
+        isSameSquare(other.to, move.to) &&
+        !isSameSquare(other.from, move.from)
+      );
+
+      let disambiguation = '';
+      if (rivals.length > 0) {
+        const fromName = squareToAlgebraic(move.from);
+        const sharesFile = rivals.some(other => other.from[1] === move.from[1]);
+        const sharesRank = rivals.some(other => other.from[0] === move.from[0]);
+        if (!sharesFile) {
+          disambiguation = fromName[0];
+        } else if (!sharesRank) {
+          disambiguation = fromName[1];
+        } else {
+          disambiguation = fromName;
+        }
+      }
+
+      san = `${type.toUpperCase()}${disambiguation}${move.captured ? 'x' : ''}${destination}`;
+    }
+  }
+
+  if (isInCheck(next)) {
+    san += getLegalMoves(next).length === 0 ? '#' : '+';
+  }
+
+  return san;
+};
+
+const revokeCastlingRights = (rights: CastlingRights, square: Square): CastlingRights => {
+  const key = squareKey(square);
+  return {
+    whiteKingside: rights.whiteKingside && key !== '7,4' && key !== '7,7',
+    whiteQueenside: rights.whiteQueenside && key !== '7,4' && key !== '7,0',
+    blackKingside: rights.blackKingside && key !== '0,4' && key !== '0,7',
+    blackQueenside: rights.blackQueenside && key !== '0,4' && key !== '0,0'
+  };
+};
+
+// Validate a move against the position and return the resulting position.
+// Throws if the move is not legal. Promotions default to a queen.
+export const applyMove = (
+  position: ChessPosition,
+  input: ChessMoveInput
+): { position: ChessPosition; move: AppliedChessMove } => {
+  if (!input || !Array.isArray(input.from) || !Array.isArray(input.to)) {
+    throw new Error('Invalid move format');
+  }
+
+  const candidates = getLegalMoves(position, input.from).filter(move => isSameSquare(move.to, input.to));
+  if (candidates.length === 0) {
+    throw new Error('Illegal move');
+  }
+
+  const promotion = input.promotion || 'q';
+  const move = candidates.find(candidate => !candidate.promotion || candidate.promotion === promotion);
+  if (!move) {
+    throw new Error('Invalid promotion piece');
+  }
+
+  const [fromRow] = move.from;
+  const [toRow, toCol] = move.to;
+  const isPawn = move.piece.toLowerCase() === 'p';
+
+  let castlingRights = revokeCastlingRights(position.castlingRights, move.from);
+  castlingRights = revokeCastlingRights(castlingRights, move.to);
+
+  const next: ChessPosition = {
+    board: movePieces(position.board, move),
+    turn: oppositeColor(position.turn),
+    castlingRights,
+    enPassantSquare: isPawn && Math.abs(toRow - fromRow) === 2
+      ? [(fromRow + toRow) / 2, toCol]
+      : null,
+    halfmoveClock: isPawn || move.captured ? 0 : position.halfmoveClock + 1,
+    fullmoveNumber: position.turn === 'black' ? position.fullmoveNumber + 1 : position.fullmoveNumber
+  };
+
+  return {
+    position: next,
+    move: { ...move, san: toSan(position, move, next) }
+  };
+};
+
+// Key identifying a position for repetition purposes. The en passant square
+// only counts when a capture onto it is actually available.
+export const getPositionKey = (position: ChessPosition): string => {
+  const placement = Object.keys(position.board)
+    .sort()
+    .map(key => `${key}${position.board[key]}`)
+    .join(';');
+  const rights = position.castlingRights;
+  const castling = [
+    rights.whiteKingside ? 'K' : '',
+    rights.whiteQueenside ? 'Q' : '',
+    rights.blackKingside ? 'k' : '',
+    rights.blackQueenside ? 'q' : ''
+  ].join('') || '-';
+  const enPassant = position.enPassantSquare &&
+    getLegalMoves(position).some(move => move.enPassant)
+    ? squareToAlgebraic(position.enPassantSquare)
+    : '-';
+
+  return `${placement} ${position.turn} ${castling} ${enPassant}`;
+};
+
+// Neither side can ever deliver mate: bare kings, a single minor piece, or
+// only bishops that all stand on squares of one colour
+export const hasInsufficientMaterial = (board: ChessBoard): boolean => {
+  const pieces = Object.keys(board)
+    .filter(key => board[key].toLowerCase() !== 'k')
+    .map(key => ({ type: board[key].toLowerCase(), square: parseSquareKey(key) }));
+
+  if (pieces.some(({ type }) => type === 'p' || type === 'r' || type === 'q')) {
+    return false;
+  }
+
+  if (pieces.length <= 1) {
+    return true;
+  }
+
+  const squareShades = pieces.map(({ square }) => (square[0] + square[1]) % 2);
+  return pieces.every(({ type }) => type === 'b') && squareShades.every(shade => shade === squareShades[0]);
+};
+
+// Whether one side still has enough material to deliver mate, used when the
+// other side runs out of time. A lone king or a king with a single minor
+// piece is treated as unable to mate.
+export const hasMatingMaterial = (board: ChessBoard, color: ChessColor): boolean => {
+  const pieces = Object.values(board)
+    .filter(piece => getPieceColor(piece) === color && piece.toLowerCase() !== 'k')
+    .map(piece => piece.toLowerCase());
+
+  if (pieces.some(type => type === 'p' || type === 'r' || type === 'q')) {
+    return true;
+  }
+
+  return pieces.length >= 2;
+};
+
+// Determine whether the game has ended. `positionHistory` holds the keys of
+// every position reached so far, including the current one.
+export const getOutcome = (position: ChessPosition, positionHistory: string[] = []): ChessOutcome | null => {
+  if (getLegalMoves(position).length === 0) {
+    return isInCheck(position)
+      ? { result: 'checkmate', winner: oppositeColor(position.turn) }
+      : { result: 'stalemate' };
+  }
+
+  if (hasInsufficientMaterial(position.board)) {
+    return { result: 'insufficientMaterial' };
+  }
+
+  if (position.halfmoveClock >= 100) {
+    return { result: 'fiftyMove' };
+  }
+
+  const currentKey = getPositionKey(position);
+  if (positionHistory.filter(key => key === currentKey).length >= 3) {
+    return { result: 'threefoldRepetition' };
+  }
+
+  return null;
+};
@@ -0,0 +1,19 @@
+// Relative time for shweets and comments ("5m ago"). Timestamps still being
+// written by the server are null and show as "Just now".
+export const formatTimestamp = (timestamp: any) => {
+  if (!timestamp) return 'Just now';
+  
+  const now = new Date();
+  const date = timestamp instanceof Date ? timestamp : timestamp.toDate();
+  const diffInSeconds = Math.floor((now.getTime() - date.getTime()) / 1000);
+  
+  if (diffInSeconds < 60) {
+    return 'less than 1 min';
+  } else if (diffInSeconds < 3600) {
+    return `${Math.floor(diffInSeconds / 60)}m ago`;
+  } else if (diffInSeconds < 86400) {
+    return `${Math.floor(diffInSeconds / 3600)}h ago`;
+  } else {
+    return date.toLocaleDateString();
+  }
+};
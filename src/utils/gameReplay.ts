@@ -0,0 +1,36 @@
+// Rebuilds intermediate game states from a game's recorded move history so a
+// finished game can be stepped through move by move.
+import { Game, GameMoveRecord } from '../services/database/gameService';
+import { getGameRules } from '../games/rules';
+
+// Frames for replaying a game: frames[0] is the starting state and frames[i]
+// is the state after the i-th recorded move. The last frame carries the
+// game's final status and result.
+export const buildReplayFrames = (game: Game, moves: GameMoveRecord[]): Game[] => {
+  if (moves.length === 0) {
+    return [game];
+  }
+
+  const rules = getGameRules(game.type);
+  const frames: Game[] = [rules.getReplayStart(game)];
+
+  moves.forEach((record, index) => {
+    const next = rules.replayMove(frames[index], record);
+    frames.push({
+      ...next,
+      moveCount: record.moveNumber,
+      // Whoever made the following move was on turn in this frame
+      currentTurn: moves[index + 1]?.playerId ?? game.currentTurn
+    } as Game);
+  });
+
+  frames[0] = { ...frames[0], currentTurn: moves[0].playerId } as Game;
+  frames[frames.length - 1] = {
+    ...frames[frames.length - 1],
+    status: game.status,
+    winner: game.winner,
+    resultReason: game.resultReason
+  } as Game;
+
+  return frames;
+};
@@ -0,0 +1,213 @@
+// Statistics for the Stats screen, computed from a user's session log. Nothing
+// here reads the clock or the database: callers pass the sessions and "now",
+// so the same inputs always give the same stats. Days, weeks and hours are in
+// the device's local time.
+import { ShitSession } from '../services/database/sessionService';
+
+export type StatsSession = Pick<ShitSession, 'startTime' | 'duration' | 'counted'>;
+
+export type StatsPeriod = 'day' | 'week' | 'month';
+
+// Sessions started within one day, week or month
+export interface PeriodCount {
+  start: number; // Epoch ms at the start of the period
+  label: string;
+  count: number;
+}
+
+export interface DurationBucket {
+  min: number; // Inclusive, in ms
+  max: number | null; // Exclusive, in ms; null for the open-ended last bucket
+  label: string;
+  count: number;
+}
+
+export type TrendDirection = 'up' | 'down' | 'flat';
+
+export interface Trend {
+  current: number;
+  previous: number;
+  direction: TrendDirection;
+}
+
+export interface SessionStats {
+  totalSessions: number;
+  longest: StatsSession | null;
+  shortest: StatsSession | null;
+  currentStreak: number; // Consecutive days with a session, up to today or yesterday
+  longestStreak: number;
+  durationHistogram: DurationBucket[];
+  heatmap: number[][]; // [weekday 0 (Sunday)–6][hour 0–23] session counts
+  weekOverWeek: {
+    count: Trend;
+    totalDuration: Trend;
+    averageDuration: Trend;
+  };
+}
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const WEEK = 7 * DAY;
+
+// Histogram bucket edges in minutes; sessions under 2 minutes don't count
+const DURATION_EDGES = [2, 5, 10, 15, 20, 30];
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const DAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+// Only sessions that counted towards the stats are charted
+const getCountedSessions = (sessions: StatsSession[]) => sessions.filter(session => session.counted);
+
+const startOfDay = (time: number): number => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Weeks start on Sunday
+const startOfWeek = (time: number): number => {
+  const date = new Date(startOfDay(time));
+  date.setDate(date.getDate() - date.getDay());
+  return date.getTime();
+};
+
+const startOfMonth = (time: number): number => {
+  const date = new Date(startOfDay(time));
+  date.setDate(1);
+  return date.getTime();
+};
+
+// The start of the period `offset` periods after the one starting at `start`.
+// Calendar arithmetic keeps days aligned across daylight saving changes.
+const shiftPeriod = (start: number, period: StatsPeriod, offset: number): number => {
+  const date = new Date(start);
+  if (period === 'day') date.setDate(date.getDate() + offset);
+  if (period === 'week') date.setDate(date.getDate() + offset * 7);
+  if (period === 'month') date.setMonth(date.getMonth() + offset);
+  return date.getTime();
+};
+
+const startOfPeriod = (time: number, period: StatsPeriod): number =>
+  period === 'day' ? startOfDay(time) : period === 'week' ? startOfWeek(time) : startOfMonth(time);
+
+const getPeriodLabel = (start: number, period: StatsPeriod): string => {
+  const date = new Date(start);
+  if (period === 'day') return DAY_LABELS[date.getDay()];
+  if (period === 'week') return `${date.getMonth() + 1}/${date.getDate()}`;
+  return MONTH_LABELS[date.getMonth()];
+};
+
+// Session counts for the last `periods` days, weeks or months, oldest first,
+// ending with the one containing `now`
+export const getPeriodCounts = (
+  sessions: StatsSession[],
+  period: StatsPeriod,
+  periods: number,
+  now: number
+): PeriodCount[] => {
+  const current = startOfPeriod(now, period);
+  const buckets: PeriodCount[] = [];
+  for (let offset = periods - 1; offset >= 0; offset--) {
+    const start = shiftPeriod(current, period, -offset);
+    buckets.push({ start, label: getPeriodLabel(start, period), count: 0 });
+  }
+
+  getCountedSessions(sessions).forEach(session => {
+    const start = startOfPeriod(session.startTime, period);
+    const bucket = buckets.find(candidate => candidate.start === start);
+    if (bucket) bucket.count++;
+  });
+
+  return buckets;
+};
+
+export const getDurationHistogram = (sessions: StatsSession[]): DurationBucket[] => {
+  const buckets: DurationBucket[] = DURATION_EDGES.map((edge, index) => {
+    const next = DURATION_EDGES[index + 1];
+    return {
+      min: edge * MINUTE,
+      max: next !== undefined ? next * MINUTE : null,
+      label: next !== undefined ? `${edge}–${next}m` : `${edge}m+`,
+      count: 0,
+    };
+  });
+
+  getCountedSessions(sessions).forEach(session => {
+    const bucket = buckets.find(candidate =>
+      session.duration >= candidate.min && (candidate.max === null || session.duration < candidate.max)
+    );
+    if (bucket) bucket.count++;
+  });
+
+  return buckets;
+};
+
+export const getTimeOfDayHeatmap = (sessions: StatsSession[]): number[][] => {
+  const heatmap = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  getCountedSessions(sessions).forEach(session => {
+    const date = new Date(session.startTime);
+    heatmap[date.getDay()][date.getHours()]++;
+  });
+  return heatmap;
+};
+
+// Runs of consecutive days with at least one session. The current streak
+// still stands if the last session was yesterday, since today isn't over.
+export const getStreaks = (sessions: StatsSession[], now: number): { current: number; longest: number } => {
+  const days = Array.from(new Set(getCountedSessions(sessions).map(session => startOfDay(session.startTime))))
+    .sort((a, b) => a - b);
+
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, index) => {
+    run = index > 0 && shiftPeriod(days[index - 1], 'day', 1) === day ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  const lastDay = days[days.length - 1];
+  const today = startOfDay(now);
+  const current = lastDay === today || lastDay === shiftPeriod(today, 'day', -1) ? run : 0;
+
+  return { current, longest };
+};
+
+const toTrend = (current: number, previous: number): Trend => ({
+  current,
+  previous,
+  direction: current > previous ? 'up' : current < previous ? 'down' : 'flat',
+});
+
+// The last 7 days against the 7 before them
+export const getWeekOverWeek = (sessions: StatsSession[], now: number): SessionStats['weekOverWeek'] => {
+  const counted = getCountedSessions(sessions);
+  const inRange = (from: number, to: number) =>
+    counted.filter(session => session.startTime > from && session.startTime <= to);
+
+  const thisWeek = inRange(now - WEEK, now);
+  const lastWeek = inRange(now - 2 * WEEK, now - WEEK);
+  const total = (list: StatsSession[]) => list.reduce((sum, session) => sum + session.duration, 0);
+  const average = (list: StatsSession[]) => list.length ? total(list) / list.length : 0;
+
+  return {
+    count: toTrend(thisWeek.length, lastWeek.length),
+    totalDuration: toTrend(total(thisWeek), total(lastWeek)),
+    averageDuration: toTrend(average(thisWeek), average(lastWeek)),
+  };
+};
+
+export const computeSessionStats = (sessions: StatsSession[], now: number): SessionStats => {
+  const counted = getCountedSessions(sessions);
+  const byDuration = [...counted].sort((a, b) => a.duration - b.duration);
+  const streaks = getStreaks(sessions, now);
+
+  return {
+    totalSessions: counted.length,
+    longest: byDuration[byDuration.length - 1] || null,
+    shortest: byDuration[0] || null,
+    currentStreak: streaks.current,
+    longestStreak: streaks.longest,
+    durationHistogram: getDurationHistogram(sessions),
+    heatmap: getTimeOfDayHeatmap(sessions),
+    weekOverWeek: getWeekOverWeek(sessions, now),
+  };
+};
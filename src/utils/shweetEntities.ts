@@ -0,0 +1,162 @@
+// Mentions, hashtags and links in shweet text. They are parsed once when the
+// shweet is posted and stored with it, so every client renders the same
+// entities. Offsets index into the shweet's content.
+
+export interface MentionEntity {
+  type: 'mention';
+  start: number;
+  end: number;
+  userId: string;
+  displayName: string;
+}
+
+export interface HashtagEntity {
+  type: 'hashtag';
+  start: number;
+  end: number;
+  tag: string; // Lowercase, without the '#'
+}
+
+export interface UrlEntity {
+  type: 'url';
+  start: number;
+  end: number;
+  url: string; // Always has a scheme
+}
+
+export type ShweetEntity = MentionEntity | HashtagEntity | UrlEntity;
+
+// Someone who can be mentioned, usually the author's friends
+export interface MentionCandidate {
+  uid: string;
+  displayName: string;
+}
+
+// A run of shweet text, with the entity it belongs to if any
+export interface ContentSegment {
+  text: string;
+  entity: ShweetEntity | null;
+}
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s]+/gi;
+const HASHTAG_PATTERN = /(^|[^\w&#])#(\w{1,50})/g;
+const TRAILING_PUNCTUATION = /[.,!?;:'")\]]+$/;
+const WORD_CHARACTER = /\w/;
+
+const overlaps = (entities: ShweetEntity[], start: number, end: number) =>
+  entities.some(entity => start < entity.end && end > entity.start);
+
+const findUrls = (content: string): UrlEntity[] =>
+  Array.from(content.matchAll(URL_PATTERN)).map(match => {
+    const text = match[0].replace(TRAILING_PUNCTUATION, '');
+    const start = match.index!;
+    return {
+      type: 'url',
+      start,
+      end: start + text.length,
+      url: /^https?:\/\//i.test(text) ? text : `https://${text}`
+    };
+  });
+
+const findHashtags = (content: string, taken: ShweetEntity[]): HashtagEntity[] =>
+  Array.from(content.matchAll(HASHTAG_PATTERN))
+    .map(match => {
+      const start = match.index! + match[1].length;
+      return {
+        type: 'hashtag' as const,
+        start,
+        end: start + match[2].length + 1,
+        tag: match[2].toLowerCase()
+      };
+    })
+    // A tag needs at least one letter, so "#1" stays plain text
+    .filter(entity => /[a-z]/i.test(entity.tag) && !overlaps(taken, entity.start, entity.end));
+
+// Display names can contain spaces, so each '@' is matched against the
+// candidates' names, longest first
+const findMentions = (content: string, candidates: MentionCandidate[], taken: ShweetEntity[]): MentionEntity[] => {
+  const named = candidates
+    .filter(candidate => candidate.displayName)
+    .sort((a, b) => b.displayName.length - a.displayName.length);
+  const lowerContent = content.toLowerCase();
+  const mentions: MentionEntity[] = [];
+
+  for (let i = content.indexOf('@'); i !== -1; i = content.indexOf('@', i + 1)) {
+    if (i > 0 && WORD_CHARACTER.test(content[i - 1])) continue;
+
+    const candidate = named.find(({ displayName }) => {
+      const end = i + 1 + displayName.length;
+      return lowerContent.startsWith(displayName.toLowerCase(), i + 1) &&
+        !WORD_CHARACTER.test(content[end] || '');
+    });
+    if (!candidate) continue;
+
+    const end = i + 1 + candidate.displayName.length;
+    if (!overlaps(taken, i, end)) {
+      mentions.push({ type: 'mention', start: i, end, userId: candidate.uid, displayName: candidate.displayName });
+    }
+  }
+
+  return mentions;
+};
+
+// Every entity in the content, in order. Links win over hashtags and
+// mentions inside them.
+export const parseShweetEntities = (content: string, candidates: MentionCandidate[] = []): ShweetEntity[] => {
+  const urls = findUrls(content);
+  const hashtags = findHashtags(content, urls);
+  const mentions = findMentions(content, candidates, [...urls, ...hashtags]);
+  return [...urls, ...hashtags, ...mentions].sort((a, b) => a.start - b.start);
+};
+
+// IDs of the mentioned users, once each
+export const getMentionedUserIds = (entities: ShweetEntity[]): string[] =>
+  Array.from(new Set(
+    entities.filter((entity): entity is MentionEntity => entity.type === 'mention').map(entity => entity.userId)
+  ));
+
+// Tags used, once each
+export const getHashtags = (entities: ShweetEntity[]): string[] =>
+  Array.from(new Set(
+    entities.filter((entity): entity is HashtagEntity => entity.type === 'hashtag').map(entity => entity.tag)
+  ));
+
+// Split content into plain and entity runs for rendering. Entities that no
+// longer fit the content are ignored.
+export const splitContent = (content: string, entities: ShweetEntity[] = []): ContentSegment[] => {
+  const segments: ContentSegment[] = [];
+  let position = 0;
+
+  [...entities]
+    .sort((a, b) => a.start - b.start)
+    .forEach(entity => {
+      if (entity.start < position || entity.end > content.length) return;
+      if (entity.start > position) {
+        segments.push({ text: content.slice(position, entity.start), entity: null });
+      }
+      segments.push({ text: content.slice(entity.start, entity.end), entity });
+      position = entity.end;
+    });
+
+  if (position < content.length) {
+    segments.push({ text: content.slice(position), entity: null });
+  }
+  return segments;
+};
+
+// The partial mention being typed just before the cursor ("@Jo|"), for
+// autocomplete. Returns null when the cursor isn't in a mention.
+export const getMentionQuery = (content: string, cursor: number): { start: number; query: string } | null => {
+  const before = content.slice(0, cursor);
+  const start = before.lastIndexOf('@');
+  if (start === -1 || (start > 0 && WORD_CHARACTER.test(before[start - 1]))) {
+    return null;
+  }
+
+  const query = before.slice(start + 1);
+  // Names can have a space, but a mention never spans lines or a second space
+  if (/\n|\s\s/.test(query) || query.length > 30) {
+    return null;
+  }
+  return { start, query };
+};